@@ -0,0 +1,177 @@
+import React from 'react';
+import { AZURE_SUBSCRIPTION_ID_VARIABLE, getAksResourceGroup, getAksStateStorageAccount } from '../utils/aksGenerator';
+import { AzureConfig, TerraformConfig, validateAzure } from '../utils/terraformGenerator';
+
+interface AksSettingsProps {
+  config: TerraformConfig;
+  onChange: (azure: AzureConfig) => void;
+}
+
+const azureLocations = [
+  'eastus', 'eastus2', 'centralus', 'westus2', 'westus3', 'canadacentral',
+  'northeurope', 'westeurope', 'uksouth', 'germanywestcentral', 'swedencentral',
+  'centralindia', 'southeastasia', 'australiaeast', 'japaneast', 'brazilsouth'
+];
+
+const kubernetesVersions = ['1.31', '1.30', '1.29'];
+
+const AksSettings: React.FC<AksSettingsProps> = ({ config, onChange }) => {
+  const { azure } = config;
+  const handleChange = <K extends keyof AzureConfig>(field: K, value: AzureConfig[K]) => {
+    onChange({ ...azure, [field]: value });
+  };
+
+  const errors = validateAzure(config);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Location *
+            </label>
+            <select
+              value={azure.location}
+              onChange={(e) => handleChange('location', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {(azureLocations.includes(azure.location) ? azureLocations : [azure.location, ...azureLocations]).map(location => (
+                <option key={location} value={location}>{location}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Resource Group
+            </label>
+            <input
+              type="text"
+              value={azure.resourceGroup}
+              onChange={(e) => handleChange('resourceGroup', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder={getAksResourceGroup(config)}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Kubernetes Version
+            </label>
+            <select
+              value={azure.kubernetesVersion}
+              onChange={(e) => handleChange('kubernetesVersion', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {kubernetesVersions.map(version => (
+                <option key={version} value={version}>{version}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                VNet Range
+              </label>
+              <input
+                type="text"
+                value={azure.vnetCidr}
+                onChange={(e) => handleChange('vnetCidr', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm"
+                placeholder="10.20.0.0/16"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Node Subnet
+              </label>
+              <input
+                type="text"
+                value={azure.subnetCidr}
+                onChange={(e) => handleChange('subnetCidr', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm"
+                placeholder="10.20.0.0/20"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            Azure CNI overlay assigns pod addresses outside the VNet, so the subnet only needs room for nodes
+          </p>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Subscription ID
+            </label>
+            <input
+              type="text"
+              value={azure.subscriptionId}
+              onChange={(e) => handleChange('subscriptionId', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm"
+              placeholder="00000000-0000-0000-0000-000000000000"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Left empty, the workflow reads the {AZURE_SUBSCRIPTION_ID_VARIABLE} repository variable
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              State Resource Group
+            </label>
+            <input
+              type="text"
+              value={azure.stateResourceGroup}
+              onChange={(e) => handleChange('stateResourceGroup', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="terraform-state"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                State Storage Account
+              </label>
+              <input
+                type="text"
+                value={azure.stateStorageAccount}
+                onChange={(e) => handleChange('stateStorageAccount', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder={getAksStateStorageAccount(config)}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Container
+              </label>
+              <input
+                type="text"
+                value={azure.stateContainer}
+                onChange={(e) => handleChange('stateContainer', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="tfstate"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            The workflow creates the storage account and container on first run if they do not exist
+          </p>
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-600 space-y-0.5">
+          {errors.map(error => (
+            <li key={error}>• {error}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AksSettings;
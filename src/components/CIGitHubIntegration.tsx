@@ -1,51 +1,8 @@
 import React, { useState } from 'react';
 import { ArrowLeft, ArrowRight, Github, Upload, CheckCircle, AlertCircle, Info, Pocket as Docker, Package } from 'lucide-react';
+import { getGcpAuthRequirements } from '../utils/gcpAuth';
 import { GitHubService } from '../utils/githubApi';
-import { generateCIFiles } from '../utils/ciGenerator';
-
-interface DockerConfig {
-  enabled: boolean;
-  dockerfile: string;
-  context: string;
-  buildArgs: Record<string, string>;
-  target?: string;
-  platforms: string[];
-}
-
-interface RegistryConfig {
-  type: 'gcr' | 'dockerhub' | 'ghcr' | 'ecr';
-  registry: string;
-  repository: string;
-  username?: string;
-  enabled: boolean;
-}
-
-interface CIConfig {
-  projectName: string;
-  gitRepo: string;
-  branch: string;
-  buildTriggers: {
-    onPush: boolean;
-    onPR: boolean;
-    onTag: boolean;
-    manual: boolean;
-  };
-  docker: {
-    frontend: DockerConfig;
-    backend: DockerConfig;
-  };
-  registries: RegistryConfig[];
-  scanning: {
-    enabled: boolean;
-    failOnHigh: boolean;
-    failOnCritical: boolean;
-  };
-  notifications: {
-    slack?: string;
-    email?: string;
-    discord?: string;
-  };
-}
+import { CIConfig, generateCIFiles } from '../utils/ciGenerator';
 
 interface GitHubConfig {
   token: string;
@@ -368,7 +325,12 @@ const CIGitHubIntegration: React.FC<CIGitHubIntegrationProps> = ({
           <div className="bg-red-50 border border-red-200 p-4 rounded-lg">
             <h4 className="font-medium text-red-800 mb-2">🔐 Required GitHub Secrets:</h4>
             <div className="text-sm text-red-700 space-y-1">
-              <p><code className="bg-red-100 px-1 rounded">GCP_SA_KEY</code> - Service Account JSON</p>
+              {getGcpAuthRequirements(ciConfig.auth).map(requirement => (
+                <p key={requirement.name}>
+                  <code className="bg-red-100 px-1 rounded">{requirement.name}</code> - {requirement.description}
+                  {requirement.kind === 'variable' && ' (variable)'}
+                </p>
+              ))}
               <p><code className="bg-red-100 px-1 rounded">GCP_PROJECT_ID</code> - GCP Project ID</p>
               <p><code className="bg-red-100 px-1 rounded">GKE_CLUSTER_NAME</code> - Cluster name</p>
               <p><code className="bg-red-100 px-1 rounded">GKE_REGION</code> - Cluster region</p>
@@ -1,49 +1,8 @@
 import React, { useEffect } from 'react';
-import { ArrowRight, Info, Save, Pocket as Docker, GitBranch, Package, Shield, Play } from 'lucide-react';
-
-interface DockerConfig {
-  enabled: boolean;
-  dockerfile: string;
-  context: string;
-  buildArgs: Record<string, string>;
-  target?: string;
-  platforms: string[];
-}
-
-interface RegistryConfig {
-  type: 'gcr' | 'dockerhub' | 'ghcr' | 'ecr';
-  registry: string;
-  repository: string;
-  username?: string;
-  enabled: boolean;
-}
-
-interface CIConfig {
-  projectName: string;
-  gitRepo: string;
-  branch: string;
-  buildTriggers: {
-    onPush: boolean;
-    onPR: boolean;
-    onTag: boolean;
-    manual: boolean;
-  };
-  docker: {
-    frontend: DockerConfig;
-    backend: DockerConfig;
-  };
-  registries: RegistryConfig[];
-  scanning: {
-    enabled: boolean;
-    failOnHigh: boolean;
-    failOnCritical: boolean;
-  };
-  notifications: {
-    slack?: string;
-    email?: string;
-    discord?: string;
-  };
-}
+import { ArrowRight, Info, Save, Pocket as Docker, GitBranch, Package, Shield, Play, KeyRound } from 'lucide-react';
+import { CIConfig, DockerConfig, RegistryConfig } from '../utils/ciGenerator';
+import { validateGcpAuth } from '../utils/gcpAuth';
+import GcpAuthSettings from './GcpAuthSettings';
 
 interface CIPipelineFormProps {
   config: CIConfig;
@@ -106,7 +65,7 @@ const CIPipelineForm: React.FC<CIPipelineFormProps> = ({ config, onChange, onNex
     'linux/arm/v7'
   ];
 
-  const isValid = config.projectName && config.gitRepo && config.branch;
+  const isValid = config.projectName && config.gitRepo && config.branch && validateGcpAuth(config.auth).length === 0;
 
   return (
     <div className="p-6">
@@ -443,6 +402,18 @@ const CIPipelineForm: React.FC<CIPipelineFormProps> = ({ config, onChange, onNex
         </div>
       </div>
 
+      {/* Google Cloud Authentication */}
+      <div className="mb-8">
+        <h3 className="text-lg font-semibold text-gray-800 border-b pb-2 flex items-center space-x-2 mb-4">
+          <KeyRound className="h-5 w-5" />
+          <span>Google Cloud Authentication</span>
+        </h3>
+        <GcpAuthSettings
+          auth={config.auth}
+          onChange={(auth) => handleChange('auth', auth)}
+        />
+      </div>
+
       {/* Security Scanning */}
       <div className="mb-8">
         <h3 className="text-lg font-semibold text-gray-800 border-b pb-2 flex items-center space-x-2 mb-4">
@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { Info, Upload } from 'lucide-react';
+import { CLUSTER_IMPORT_SOURCES, ClusterImportSource, importCluster } from '../utils/clusterImport';
+import { TerraformConfig, getImportTargets } from '../utils/terraformGenerator';
+
+interface ClusterImportSettingsProps {
+  config: TerraformConfig;
+  onChange: (config: TerraformConfig) => void;
+}
+
+const ClusterImportSettings: React.FC<ClusterImportSettingsProps> = ({ config, onChange }) => {
+  const [input, setInput] = useState('');
+  const [error, setError] = useState('');
+  const [result, setResult] = useState<{ source: ClusterImportSource; warnings: string[] } | null>(null);
+
+  const handleImport = (text: string) => {
+    try {
+      const imported = importCluster(text, config);
+      onChange(imported.config);
+      setResult({ source: imported.source, warnings: imported.warnings });
+      setError('');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'The cluster could not be imported');
+      setResult(null);
+    }
+  };
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        const content = e.target?.result as string;
+        setInput(content);
+        handleImport(content);
+      };
+      reader.readAsText(file);
+    }
+    event.target.value = '';
+  };
+
+  const targets = getImportTargets(config);
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-500">
+        Paste the output of <code className="bg-gray-100 px-1 rounded">{CLUSTER_IMPORT_SOURCES.gcloud}</code> or
+        {' '}<code className="bg-gray-100 px-1 rounded">{CLUSTER_IMPORT_SOURCES['terraform-state']}</code>. The settings below
+        are filled in from the cluster and the generated Terraform adopts it with import blocks instead of creating a new one.
+      </p>
+
+      <textarea
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        rows={6}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-xs"
+        placeholder='{"name": "my-cluster", "location": "us-central1", "nodePools": [...]}'
+      />
+
+      <div className="flex items-center space-x-3">
+        <button
+          onClick={() => handleImport(input)}
+          disabled={!input.trim()}
+          className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+            input.trim() ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+          }`}
+        >
+          Import Cluster
+        </button>
+        <label className="flex items-center space-x-2 px-3 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors text-sm cursor-pointer">
+          <Upload className="h-4 w-4" />
+          <span>Load JSON File</span>
+          <input
+            type="file"
+            accept=".json"
+            onChange={handleFile}
+            className="hidden"
+          />
+        </label>
+      </div>
+
+      {error && <p className="text-xs text-red-600">• {error}</p>}
+
+      {result && (
+        <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800 space-y-2">
+          <p className="font-medium">
+            Imported {config.clusterName} from {CLUSTER_IMPORT_SOURCES[result.source]}
+            {result.warnings.length === 0 ? ' with no differences to review.' : '. Review before applying:'}
+          </p>
+          {result.warnings.length > 0 && (
+            <ul className="text-xs space-y-0.5">
+              {result.warnings.map((warning, i) => <li key={i}>• {warning}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {config.adoption.enabled && (
+        <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
+          <div className="flex items-start space-x-2">
+            <Info className="h-5 w-5 text-blue-600 mt-0.5" />
+            <div className="text-sm text-blue-800 flex-1">
+              {targets.length > 0 ? (
+                <>
+                  <p className="mb-2">
+                    <code className="bg-blue-100 px-1 rounded">terraform/imports.tf</code> adopts these resources on the
+                    first apply (Terraform 1.5 or later). Run a plan first and check that nothing is replaced.
+                  </p>
+                  <ul className="text-xs font-mono space-y-0.5">
+                    {targets.map(target => <li key={target.to}>{target.to}</li>)}
+                  </ul>
+                </>
+              ) : (
+                <p>The multi-environment layout generates no import blocks; turn it off to adopt the existing cluster.</p>
+              )}
+              <button
+                onClick={() => onChange({ ...config, adoption: { ...config.adoption, enabled: false } })}
+                className="mt-3 text-xs text-blue-700 underline hover:text-blue-900"
+              >
+                Stop adopting and create new resources
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ClusterImportSettings;
@@ -1,17 +1,53 @@
 import React, { useEffect } from 'react';
 import { ArrowRight, Info, Save } from 'lucide-react';
-
-interface TerraformConfig {
-  projectId: string;
-  clusterName: string;
-  region: string;
-  nodeCount: number;
-  machineType: string;
-  diskSize: number;
-  enableAutoscaling: boolean;
-  minNodes: number;
-  maxNodes: number;
-}
+import { validateGcpAuth } from '../utils/gcpAuth';
+import { GCP_REGIONS, getDefaultZones, getZonesForRegion } from '../utils/gcpRegions';
+import { describeResources } from '../utils/resourceCatalog';
+import {
+  CloudProvider,
+  NODE_SERVICE_ACCOUNT_ROLES,
+  NodePoolConfig,
+  TERRAFORM_PROVIDERS,
+  ServiceAccountConfig,
+  StateBackendConfig,
+  TerraformAuthConfig,
+  TerraformConfig,
+  describeEnvironments,
+  describeLocation,
+  describeMaintenance,
+  describeNetwork,
+  describeSecurity,
+  getNodeServiceAccountEmail,
+  getStateBucket,
+  getStatePrefix,
+  getWorkflowAuth,
+  hasWorkloadIdentity,
+  isAutopilot,
+  isMultiEnvironment,
+  resolveEnvironment,
+  validateDriftDetection,
+  validateEnvironments,
+  validateLocation,
+  validateMaintenance,
+  validateNetwork,
+  validateNodePool,
+  validateResources,
+  validateSecurity,
+  validateServiceAccount,
+  validateTerraformAuth
+} from '../utils/terraformGenerator';
+import AksSettings from './AksSettings';
+import ClusterImportSettings from './ClusterImportSettings';
+import DriftDetectionSettings from './DriftDetectionSettings';
+import EksSettings from './EksSettings';
+import EnvironmentProtectionSettings from './EnvironmentProtectionSettings';
+import EnvironmentSettings from './EnvironmentSettings';
+import GcpAuthSettings from './GcpAuthSettings';
+import MaintenanceSettings from './MaintenanceSettings';
+import NetworkSettings from './NetworkSettings';
+import NodePoolSettings from './NodePoolSettings';
+import ResourceCatalogSettings from './ResourceCatalogSettings';
+import SecuritySettings from './SecuritySettings';
 
 interface ConfigurationFormProps {
   config: TerraformConfig;
@@ -25,6 +61,18 @@ const ConfigurationForm: React.FC<ConfigurationFormProps> = ({ config, onChange,
     onChange(newConfig);
   };
 
+  const handleBackendChange = (field: keyof StateBackendConfig, value: string | boolean) => {
+    handleChange('stateBackend', { ...config.stateBackend, [field]: value });
+  };
+
+  const handleServiceAccountChange = (field: keyof ServiceAccountConfig, value: string | boolean) => {
+    handleChange('serviceAccount', { ...config.serviceAccount, [field]: value });
+  };
+
+  const handleAuthChange = (field: keyof TerraformAuthConfig, value: string | boolean) => {
+    handleChange('auth', { ...config.auth, [field]: value });
+  };
+
   // Auto-save indication
   const [showSaved, setShowSaved] = React.useState(false);
 
@@ -34,33 +82,243 @@ const ConfigurationForm: React.FC<ConfigurationFormProps> = ({ config, onChange,
     return () => clearTimeout(timer);
   }, [config]);
 
-  const regions = [
-    'us-central1', 'us-east1', 'us-west1', 'us-west2',
-    'europe-west1', 'europe-west2', 'asia-east1', 'asia-southeast1'
-  ];
+  const handleRegionChange = (region: string) => {
+    // Zone names differ per region, so start from the new region's defaults
+    onChange({ ...config, region, location: { ...config.location, zones: getDefaultZones(region) } });
+  };
+
+  const toggleZone = (zone: string, selected: boolean) => {
+    const zones = selected
+      ? getZonesForRegion(config.region).filter(z => z === zone || config.location.zones.includes(z))
+      : config.location.zones.filter(z => z !== zone);
+    handleChange('location', { ...config.location, zones });
+  };
+
+  const moveZoneFirst = (zone: string) => {
+    handleChange('location', { ...config.location, zones: [zone, ...config.location.zones.filter(z => z !== zone)] });
+  };
 
   const machineTypes = [
     'e2-micro', 'e2-small', 'e2-medium', 'e2-standard-2', 'e2-standard-4',
-    'n1-standard-1', 'n1-standard-2', 'n1-standard-4', 'n2-standard-2'
+    'n1-standard-1', 'n1-standard-2', 'n1-standard-4', 'n2-standard-2',
+    'e2-highmem-2', 'e2-highmem-4', 'n2-highmem-4'
   ];
 
-  const isValid = config.projectId && config.clusterName && config.region;
+  // Instance and VM sizes offered for EKS node groups and AKS node pools
+  const providerMachineTypes: Record<Exclude<CloudProvider, 'gcp'>, string[]> = {
+    aws: ['t3.medium', 't3.large', 'm6i.large', 'm6i.xlarge', 'm7g.large', 'c6i.large', 'r6i.large'],
+    azure: ['Standard_B2s', 'Standard_D2s_v5', 'Standard_D4s_v5', 'Standard_D8s_v5', 'Standard_E4s_v5', 'Standard_F4s_v2']
+  };
 
-  return (
-    <div className="p-6">
-      <div className="mb-6 flex items-center justify-between">
-        <div>
-          <h2 className="text-2xl font-bold text-gray-900 mb-2">GKE Cluster Configuration</h2>
-          <p className="text-gray-600">Configure your Google Kubernetes Engine cluster parameters</p>
+  const autopilot = isAutopilot(config);
+
+  // Node pools are kept but ignored in Autopilot mode so switching back restores them
+  const arePoolsValid = autopilot || (config.nodePools.length > 0 &&
+    config.nodePools.every(pool => validateNodePool(pool, config.nodePools).length === 0));
+
+  const multiEnvironment = isMultiEnvironment(config);
+  // In the multi-environment layout each environment is validated on its own
+  const environmentErrors = validateEnvironments(config);
+  const isEnvironmentValid = environmentErrors.length === 0 &&
+    (config.multiEnvironment.enabled || /^[a-z][a-z0-9-]*$/.test(config.environment));
+
+  const serviceAccountErrors = validateServiceAccount(config.serviceAccount);
+  const authErrors = validateTerraformAuth(config);
+  const isAuthValid = authErrors.length === 0 && validateGcpAuth(getWorkflowAuth(config)).length === 0;
+
+  const locationErrors = validateLocation(config);
+
+  const provider = TERRAFORM_PROVIDERS[config.provider];
+  const isValid = validateDriftDetection(config).length === 0 && (config.provider !== 'gcp'
+    ? isEnvironmentValid && provider.validate(config).length === 0
+    : config.projectId && config.clusterName && config.region && isEnvironmentValid &&
+    arePoolsValid && serviceAccountErrors.length === 0 && isAuthValid && validateNetwork(config.network).length === 0 &&
+    locationErrors.length === 0 && validateMaintenance(config).length === 0 && validateSecurity(config).length === 0 &&
+    validateResources(config).length === 0);
+
+  const header = (
+    <div className="mb-6 flex items-center justify-between">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">{provider.cluster} Cluster Configuration</h2>
+        <p className="text-gray-600">Configure your {provider.label} cluster parameters</p>
+      </div>
+      
+      {/* Auto-save indicator */}
+      {showSaved && (
+        <div className="flex items-center space-x-2 text-green-600 bg-green-50 px-3 py-1 rounded-md">
+          <Save className="h-4 w-4" />
+          <span className="text-sm font-medium">Auto-saved</span>
         </div>
-        
-        {/* Auto-save indicator */}
-        {showSaved && (
-          <div className="flex items-center space-x-2 text-green-600 bg-green-50 px-3 py-1 rounded-md">
-            <Save className="h-4 w-4" />
-            <span className="text-sm font-medium">Auto-saved</span>
+      )}
+    </div>
+  );
+
+  const providerSelector = (
+    <div className="mb-6">
+      <label className="block text-sm font-medium text-gray-700 mb-1">
+        Cloud Provider *
+      </label>
+      <div className="flex flex-wrap gap-4">
+        {(Object.keys(TERRAFORM_PROVIDERS) as CloudProvider[]).map(key => (
+          <label key={key} className="flex items-center space-x-2">
+            <input
+              type="radio"
+              checked={config.provider === key}
+              onChange={() => handleChange('provider', key)}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+            />
+            <span className="text-sm text-gray-700">{TERRAFORM_PROVIDERS[key].label}</span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+
+  const driftDetectionSection = (
+    <div className="mt-6 space-y-4">
+      <h3 className="text-lg font-semibold text-gray-800 border-b pb-2">Drift Detection</h3>
+      <DriftDetectionSettings
+        config={config}
+        onChange={(driftDetection) => handleChange('driftDetection', driftDetection)}
+      />
+    </div>
+  );
+
+  const nextButton = (
+    <div className="mt-8 flex justify-end">
+      <button
+        onClick={onNext}
+        disabled={!isValid}
+        className={`flex items-center space-x-2 px-6 py-2 rounded-md font-medium transition-colors ${
+          isValid
+            ? 'bg-blue-600 text-white hover:bg-blue-700'
+            : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+        }`}
+      >
+        <span>Generate Terraform Code</span>
+        <ArrowRight className="h-4 w-4" />
+      </button>
+    </div>
+  );
+
+  if (config.provider !== 'gcp') {
+    const pools = config.provider === 'aws' ? config.aws.nodeGroups : config.azure.nodePools;
+    const handlePoolsChange = (updated: NodePoolConfig[]) =>
+      config.provider === 'aws'
+        ? handleChange('aws', { ...config.aws, nodeGroups: updated })
+        : handleChange('azure', { ...config.azure, nodePools: updated });
+
+    return (
+      <div className="p-6">
+        {header}
+        {providerSelector}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <h3 className="text-lg font-semibold text-gray-800 border-b pb-2">Basic Settings</h3>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Cluster Name *
+              </label>
+              <input
+                type="text"
+                value={config.clusterName}
+                onChange={(e) => handleChange('clusterName', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="my-cluster"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Environment *
+              </label>
+              <input
+                type="text"
+                value={config.environment}
+                onChange={(e) => handleChange('environment', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="production"
+              />
+              {!/^[a-z][a-z0-9-]*$/.test(config.environment) && (
+                <p className="text-xs text-red-600 mt-1">Use lowercase letters, digits and hyphens</p>
+              )}
+            </div>
           </div>
-        )}
+
+          <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg h-fit">
+            <div className="flex items-start space-x-2">
+              <Info className="h-5 w-5 text-blue-600 mt-0.5" />
+              <div className="text-sm text-blue-800">
+                <p className="font-medium mb-1">Generated for {provider.label}:</p>
+                <ul className="list-disc list-inside space-y-1">
+                  {provider.getSummary(config).map(item => (
+                    <li key={item.label}>{item.label}: {item.value}</li>
+                  ))}
+                  <li>Multiple environments, module output and the additional resource catalog are GKE-only</li>
+                </ul>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="mt-6 space-y-4">
+          <h3 className="text-lg font-semibold text-gray-800 border-b pb-2">Cluster &amp; Network</h3>
+          {config.provider === 'aws' ? (
+            <EksSettings config={config} onChange={(aws) => handleChange('aws', aws)} />
+          ) : (
+            <AksSettings config={config} onChange={(azure) => handleChange('azure', azure)} />
+          )}
+        </div>
+
+        <div className="mt-6 space-y-4">
+          <h3 className="text-lg font-semibold text-gray-800 border-b pb-2">
+            {config.provider === 'aws' ? 'Managed Node Groups' : 'Node Pools'}
+          </h3>
+          <NodePoolSettings
+            provider={config.provider}
+            pools={pools}
+            machineTypes={providerMachineTypes[config.provider]}
+            onChange={handlePoolsChange}
+          />
+        </div>
+
+        <div className="mt-6 space-y-4">
+          <h3 className="text-lg font-semibold text-gray-800 border-b pb-2">GitHub Environment</h3>
+          <p className="text-xs text-gray-500">
+            The deploy workflow runs under the GitHub Environment{' '}
+            <span className="font-mono">{config.environment}</span>, created with these protection rules.
+          </p>
+          <EnvironmentProtectionSettings
+            protection={config.environmentProtection}
+            onChange={(environmentProtection) => handleChange('environmentProtection', environmentProtection)}
+          />
+          {environmentErrors.length > 0 && (
+            <ul className="text-xs text-red-600 space-y-0.5">
+              {environmentErrors.map(error => (
+                <li key={error}>• {error}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {driftDetectionSection}
+
+        {nextButton}
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      {header}
+      {providerSelector}
+
+      {/* Import Existing Cluster */}
+      <div className="mb-6 space-y-4">
+        <h3 className="text-lg font-semibold text-gray-800 border-b pb-2">Import Existing Cluster</h3>
+        <ClusterImportSettings config={config} onChange={onChange} />
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -94,70 +352,375 @@ const ConfigurationForm: React.FC<ConfigurationFormProps> = ({ config, onChange,
             />
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Cluster Mode *
+            </label>
+            <div className="flex space-x-4">
+              {(['standard', 'autopilot'] as const).map(mode => (
+                <label key={mode} className="flex items-center space-x-2">
+                  <input
+                    type="radio"
+                    checked={config.clusterMode === mode}
+                    onChange={() => handleChange('clusterMode', mode)}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+                  />
+                  <span className="text-sm text-gray-700 capitalize">{mode}</span>
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              {autopilot
+                ? 'Google provisions, scales and secures the nodes; you pay for the CPU and memory your pods request'
+                : 'You define and pay for node pools; full control over machine types, taints and sizing'}
+            </p>
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Region *
             </label>
             <select
               value={config.region}
-              onChange={(e) => handleChange('region', e.target.value)}
+              onChange={(e) => handleRegionChange(e.target.value)}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             >
-              {regions.map(region => (
+              {GCP_REGIONS.map(region => (
                 <option key={region} value={region}>{region}</option>
               ))}
             </select>
           </div>
+
+          {autopilot ? (
+            <p className="text-xs text-gray-600 bg-gray-50 p-2 rounded">
+              Autopilot clusters are regional; Google spreads nodes across the zones of {config.region}
+            </p>
+          ) : (
+            <>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Cluster Type *
+              </label>
+              <div className="flex space-x-4">
+                {(['regional', 'zonal'] as const).map(type => (
+                  <label key={type} className="flex items-center space-x-2">
+                    <input
+                      type="radio"
+                      checked={config.location.type === type}
+                      onChange={() => handleChange('location', { ...config.location, type })}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+                    />
+                    <span className="text-sm text-gray-700 capitalize">{type}</span>
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                {config.location.type === 'regional'
+                  ? 'Control plane replicated across the region; survives a zone outage'
+                  : 'Single control plane in the first selected zone; no cluster management fee for one zonal cluster'}
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Node Zones *
+              </label>
+              <div className="flex flex-wrap gap-3">
+                {getZonesForRegion(config.region).map(zone => (
+                  <label key={zone} className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      checked={config.location.zones.includes(zone)}
+                      onChange={(e) => toggleZone(zone, e.target.checked)}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    />
+                    <span className="text-sm text-gray-700">{zone}</span>
+                    {config.location.type === 'zonal' && config.location.zones.length > 1 && (
+                      config.location.zones[0] === zone ? (
+                        <span className="text-xs text-blue-600">(cluster zone)</span>
+                      ) : config.location.zones.includes(zone) && (
+                        <button
+                          type="button"
+                          onClick={() => moveZoneFirst(zone)}
+                          className="text-xs text-gray-500 hover:text-blue-600"
+                        >
+                          make cluster zone
+                        </button>
+                      )
+                    )}
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-1">Node pool sizes apply per zone</p>
+              {locationErrors.length > 0 && (
+                <ul className="text-xs text-red-600 mt-1 space-y-0.5">
+                  {locationErrors.map(error => (
+                    <li key={error}>• {error}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+            </>
+          )}
+
+          {!config.multiEnvironment.enabled && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Environment *
+              </label>
+              <input
+                type="text"
+                value={config.environment}
+                onChange={(e) => handleChange('environment', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="production"
+              />
+              {!/^[a-z][a-z0-9-]*$/.test(config.environment) && (
+                <p className="text-xs text-red-600 mt-1">Use lowercase letters, digits and hyphens</p>
+              )}
+            </div>
+          )}
         </div>
 
-        {/* Node Configuration */}
+        {/* Remote State Backend */}
         <div className="space-y-4">
-          <h3 className="text-lg font-semibold text-gray-800 border-b pb-2">Node Pool Settings</h3>
-          
+          <h3 className="text-lg font-semibold text-gray-800 border-b pb-2">Remote State Backend</h3>
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
-              Machine Type
+              GCS State Bucket
             </label>
-            <select
-              value={config.machineType}
-              onChange={(e) => handleChange('machineType', e.target.value)}
+            <input
+              type="text"
+              value={config.stateBackend.bucket}
+              onChange={(e) => handleBackendChange('bucket', e.target.value)}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-            >
-              {machineTypes.map(type => (
-                <option key={type} value={type}>{type}</option>
-              ))}
-            </select>
+              placeholder={getStateBucket({ ...config, stateBackend: { ...config.stateBackend, bucket: '' } })}
+            />
+            <p className="text-xs text-gray-500 mt-1">Leave empty to use a bucket named after the project</p>
           </div>
 
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
-              Node Count (Fixed to 2 for optimal performance)
+              State Prefix
             </label>
-            <input
-              type="number"
-              value={2}
-              disabled
-              className="w-full px-3 py-2 border border-gray-300 rounded-md bg-gray-100 text-gray-500 cursor-not-allowed"
-            />
-            <p className="text-xs text-gray-500 mt-1">Simplified configuration uses exactly 2 nodes</p>
+            <p className="px-3 py-2 bg-gray-100 border border-gray-300 rounded-md font-mono text-xs text-gray-700 break-all whitespace-pre-line">
+              {multiEnvironment
+                ? config.multiEnvironment.environments.map(environment => getStatePrefix(resolveEnvironment(config, environment))).join('\n')
+                : getStatePrefix(config)}
+            </p>
+            <p className="text-xs text-gray-500 mt-1">Derived from project, cluster and environment so clusters never share state</p>
           </div>
 
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
-              Disk Size (GB)
+              KMS Encryption Key (optional)
             </label>
             <input
-              type="number"
-              min="10"
-              max="1000"
-              value={config.diskSize}
-              onChange={(e) => handleChange('diskSize', parseInt(e.target.value))}
+              type="text"
+              value={config.stateBackend.kmsEncryptionKey}
+              onChange={(e) => handleBackendChange('kmsEncryptionKey', e.target.value)}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="projects/my-project/locations/us/keyRings/tf/cryptoKeys/state"
             />
           </div>
+
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={config.stateBackend.stateLock}
+              onChange={(e) => handleBackendChange('stateLock', e.target.checked)}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            />
+            <span className="text-sm text-gray-700">Wait for the state lock (recommended)</span>
+          </label>
+
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={config.stateBackend.createBucket}
+              onChange={(e) => handleBackendChange('createBucket', e.target.checked)}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            />
+            <span className="text-sm text-gray-700">Generate bootstrap module that creates the versioned state bucket</span>
+          </label>
+        </div>
+      </div>
+
+      {/* Networking */}
+      <div className="mt-6 space-y-4">
+        <h3 className="text-lg font-semibold text-gray-800 border-b pb-2">Networking</h3>
+        <NetworkSettings
+          network={config.network}
+          onChange={(network) => handleChange('network', network)}
+        />
+      </div>
+
+      {/* Environments */}
+      <div className="mt-6 space-y-4">
+        <h3 className="text-lg font-semibold text-gray-800 border-b pb-2">Environments</h3>
+        <EnvironmentSettings
+          config={config}
+          onChange={(multiEnvironment) => handleChange('multiEnvironment', multiEnvironment)}
+          onProtectionChange={(environmentProtection) => handleChange('environmentProtection', environmentProtection)}
+        />
+      </div>
+
+      {/* Upgrades & Maintenance */}
+      <div className="mt-6 space-y-4">
+        <h3 className="text-lg font-semibold text-gray-800 border-b pb-2">Upgrades & Maintenance</h3>
+        <MaintenanceSettings
+          config={config}
+          onChange={(maintenance) => handleChange('maintenance', maintenance)}
+        />
+      </div>
+
+      {/* Security */}
+      <div className="mt-6 space-y-4">
+        <h3 className="text-lg font-semibold text-gray-800 border-b pb-2">Security</h3>
+        <SecuritySettings
+          config={config}
+          onChange={(security) => handleChange('security', security)}
+          onWorkloadIdentityChange={(enabled) => handleServiceAccountChange('workloadIdentity', enabled)}
+        />
+      </div>
+
+      {/* Identity & Access */}
+      <div className="mt-6 space-y-4">
+        <h3 className="text-lg font-semibold text-gray-800 border-b pb-2">Identity & Access</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Deployer Service Account *
+              </label>
+              <input
+                type="text"
+                value={config.serviceAccount.email}
+                onChange={(e) => handleServiceAccountChange('email', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder={`github-actions@${config.projectId || 'my-project'}.iam.gserviceaccount.com`}
+              />
+              <p className="text-xs text-gray-500 mt-1">The account GitHub Actions authenticates as to run Terraform</p>
+            </div>
+
+          </div>
+
+          <div className="space-y-4">
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={config.serviceAccount.createNodeServiceAccount}
+                onChange={(e) => handleServiceAccountChange('createNodeServiceAccount', e.target.checked)}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <span className="text-sm text-gray-700">Create a dedicated least-privilege node service account</span>
+            </label>
+
+            {config.serviceAccount.createNodeServiceAccount ? (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Node Service Account ID
+                </label>
+                <input
+                  type="text"
+                  value={config.serviceAccount.nodeServiceAccountId}
+                  onChange={(e) => handleServiceAccountChange('nodeServiceAccountId', e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="gke-nodes"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Granted only: {NODE_SERVICE_ACCOUNT_ROLES.map(role => role.replace('roles/', '')).join(', ')}
+                </p>
+              </div>
+            ) : (
+              <p className="text-xs text-gray-500">Nodes will run as the deployer service account</p>
+            )}
+
+            <p className="text-xs text-gray-600">
+              Nodes run as <span className="font-mono">{getNodeServiceAccountEmail(config) || '—'}</span>
+            </p>
+          </div>
         </div>
+        {serviceAccountErrors.length > 0 && (
+          <ul className="text-xs text-red-600 space-y-1">
+            {serviceAccountErrors.map(error => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        )}
       </div>
 
+      {/* GitHub Actions Authentication */}
+      <div className="mt-6 space-y-4">
+        <h3 className="text-lg font-semibold text-gray-800 border-b pb-2">GitHub Actions Authentication</h3>
+        <GcpAuthSettings
+          auth={getWorkflowAuth(config)}
+          onChange={({ mode, workloadIdentityProvider }) => handleChange('auth', { ...config.auth, mode, workloadIdentityProvider })}
+          showServiceAccount={false}
+        />
+        {config.auth.mode === 'workload-identity-federation' && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={config.auth.createWorkloadIdentityPool}
+                onChange={(e) => handleAuthChange('createWorkloadIdentityPool', e.target.checked)}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <span className="text-sm text-gray-700">Generate Terraform for the identity pool and provider</span>
+            </label>
+
+            {config.auth.createWorkloadIdentityPool && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  GitHub Repository *
+                </label>
+                <input
+                  type="text"
+                  value={config.auth.githubRepository}
+                  onChange={(e) => handleAuthChange('githubRepository', e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="my-org/my-infra-repo"
+                />
+                <p className="text-xs text-gray-500 mt-1">Only workflows in this repository may impersonate the deployer account</p>
+              </div>
+            )}
+          </div>
+        )}
+        {authErrors.length > 0 && (
+          <ul className="text-xs text-red-600 space-y-1">
+            {authErrors.map(error => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Node Pools */}
+      {!autopilot && (
+        <div className="mt-6 space-y-4">
+          <h3 className="text-lg font-semibold text-gray-800 border-b pb-2">Node Pools</h3>
+          <NodePoolSettings
+            pools={config.nodePools}
+            machineTypes={machineTypes}
+            onChange={(pools) => handleChange('nodePools', pools)}
+          />
+        </div>
+      )}
+
+      {/* Additional Resources */}
+      <div className="mt-6 space-y-4">
+        <h3 className="text-lg font-semibold text-gray-800 border-b pb-2">Additional Resources</h3>
+        <ResourceCatalogSettings
+          config={config}
+          onChange={(resources) => handleChange('resources', resources)}
+        />
+      </div>
+
+      {/* Drift Detection */}
+      {driftDetectionSection}
+
       {/* Simplified Configuration Notice */}
       <div className="mt-6 p-4 bg-green-50 border border-green-200 rounded-lg">
         <div className="flex items-start space-x-2">
@@ -165,11 +728,20 @@ const ConfigurationForm: React.FC<ConfigurationFormProps> = ({ config, onChange,
           <div className="text-sm text-green-800">
             <p className="font-medium mb-1">⚡ Simplified Configuration for Fast Creation:</p>
             <ul className="list-disc list-inside space-y-1">
-              <li>Fixed 2-node cluster (no autoscaling complexity)</li>
-              <li>Removed network policy, IP allocation, and workload identity</li>
-              <li>Removed auto-repair/upgrade for faster initial creation</li>
-              <li>Uses pd-standard disks to avoid SSD quota issues</li>
-              <li>Service account configured for both cluster and nodes</li>
+              <li>
+                {autopilot
+                  ? 'Autopilot: nodes managed by Google'
+                  : `${config.nodePools.length} node pool(s): ${config.nodePools.map(pool => pool.name).join(', ')}`}
+              </li>
+              <li>Environments: {describeEnvironments(config)}</li>
+              <li>Location: {describeLocation(config)}</li>
+              <li>Network: {describeNetwork(config.network)}</li>
+              <li>Security: {describeSecurity(config)}</li>
+              <li>Workload Identity {hasWorkloadIdentity(config) ? 'enabled' : 'disabled'}</li>
+              <li>Upgrades: {describeMaintenance(config.maintenance)}</li>
+              <li>Additional resources: {describeResources(config.resources)}</li>
+              <li>pd-standard disks by default to avoid SSD quota issues</li>
+              <li>{config.serviceAccount.createNodeServiceAccount ? 'Dedicated node service account with minimal roles' : 'Deployer service account reused for nodes'}</li>
             </ul>
           </div>
         </div>
@@ -191,21 +763,7 @@ const ConfigurationForm: React.FC<ConfigurationFormProps> = ({ config, onChange,
         </div>
       </div>*/}
 
-      {/* Next Button */}
-      <div className="mt-8 flex justify-end">
-        <button
-          onClick={onNext}
-          disabled={!isValid}
-          className={`flex items-center space-x-2 px-6 py-2 rounded-md font-medium transition-colors ${
-            isValid
-              ? 'bg-blue-600 text-white hover:bg-blue-700'
-              : 'bg-gray-300 text-gray-500 cursor-not-allowed'
-          }`}
-        >
-          <span>Generate Terraform Code</span>
-          <ArrowRight className="h-4 w-4" />
-        </button>
-      </div>
+      {nextButton}
     </div>
   );
 };
@@ -0,0 +1,86 @@
+import React from 'react';
+import { DriftDetectionConfig, TerraformConfig, getDriftRoots, validateDriftDetection } from '../utils/terraformGenerator';
+import { DRIFT_ISSUE_LABEL, DRIFT_WORKFLOW_FILE } from '../utils/terraformWorkflow';
+
+interface DriftDetectionSettingsProps {
+  config: TerraformConfig;
+  onChange: (driftDetection: DriftDetectionConfig) => void;
+}
+
+const schedulePresets = [
+  { value: '0 6 * * 1-5', label: 'Weekdays at 06:00 UTC' },
+  { value: '0 6 * * *', label: 'Daily at 06:00 UTC' },
+  { value: '0 */6 * * *', label: 'Every 6 hours' },
+  { value: '0 6 * * 1', label: 'Mondays at 06:00 UTC' }
+];
+
+const DriftDetectionSettings: React.FC<DriftDetectionSettingsProps> = ({ config, onChange }) => {
+  const { driftDetection } = config;
+  const errors = validateDriftDetection(config);
+  const roots = getDriftRoots(config);
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-center space-x-2">
+        <input
+          type="checkbox"
+          checked={driftDetection.enabled}
+          onChange={(e) => onChange({ ...driftDetection, enabled: e.target.checked })}
+          className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+        />
+        <span className="text-sm text-gray-700">Check for drift on a schedule</span>
+      </label>
+
+      {driftDetection.enabled && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Schedule (cron, UTC)</label>
+            <input
+              type="text"
+              value={driftDetection.schedule}
+              onChange={(e) => onChange({ ...driftDetection, schedule: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono"
+              placeholder="0 6 * * 1-5"
+            />
+            <div className="flex flex-wrap gap-2 mt-2">
+              {schedulePresets.map(preset => (
+                <button
+                  key={preset.value}
+                  onClick={() => onChange({ ...driftDetection, schedule: preset.value })}
+                  className={`px-2 py-1 rounded text-xs border transition-colors ${
+                    driftDetection.schedule.trim() === preset.value
+                      ? 'bg-blue-50 border-blue-300 text-blue-700'
+                      : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="text-xs text-gray-500 space-y-1">
+            <p>
+              <code className="bg-gray-100 px-1 rounded">.github/workflows/{DRIFT_WORKFLOW_FILE}</code> runs
+              {' '}<code className="bg-gray-100 px-1 rounded">terraform plan -detailed-exitcode</code> against{' '}
+              {roots.map(root => root.name).join(', ')} and uploads a report for the Resources tab.
+            </p>
+            <p>
+              When drift is found it opens an issue labelled <code className="bg-gray-100 px-1 rounded">{DRIFT_ISSUE_LABEL}</code>,
+              or comments on the one already open. GitHub pauses schedules in repositories without activity for 60 days.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-600 space-y-0.5">
+          {errors.map(error => (
+            <li key={error}>• {error}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default DriftDetectionSettings;
@@ -0,0 +1,153 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, CheckCircle, ExternalLink, GitCompare, RefreshCw, XCircle } from 'lucide-react';
+import { DriftCheckResult, DriftStatus, describeDriftReport, fetchLatestDriftReports } from '../utils/driftReport';
+import { GitHubService } from '../utils/githubApi';
+import { TerraformConfig, getDriftRoots } from '../utils/terraformGenerator';
+import { DRIFT_WORKFLOW_FILE } from '../utils/terraformWorkflow';
+
+interface DriftStatusPanelProps {
+  githubConfig: {
+    token: string;
+    owner: string;
+    repo: string;
+  };
+  terraformConfig: TerraformConfig;
+}
+
+const STATUS_STYLES: Record<DriftStatus | 'unknown', { icon: React.ElementType; className: string }> = {
+  clean: { icon: CheckCircle, className: 'bg-green-100 text-green-800' },
+  drift: { icon: AlertTriangle, className: 'bg-yellow-100 text-yellow-800' },
+  error: { icon: XCircle, className: 'bg-red-100 text-red-800' },
+  unknown: { icon: XCircle, className: 'bg-gray-100 text-gray-600' }
+};
+
+// Latest scheduled drift check per cluster, read from the reports the workflow uploads
+const DriftStatusPanel: React.FC<DriftStatusPanelProps> = ({ githubConfig, terraformConfig }) => {
+  const { token, owner, repo } = githubConfig;
+  const [result, setResult] = useState<DriftCheckResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [refreshCount, setRefreshCount] = useState(0);
+
+  const enabled = terraformConfig.driftDetection.enabled;
+  const configured = Boolean(token && owner && repo);
+  const roots = useMemo(() => getDriftRoots(terraformConfig), [terraformConfig]);
+
+  useEffect(() => {
+    if (!enabled || !configured) {
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    setError('');
+    fetchLatestDriftReports(new GitHubService(token), owner, repo, roots)
+      .then(latest => {
+        if (!cancelled) {
+          setResult(latest);
+        }
+      })
+      .catch(e => {
+        if (!cancelled) {
+          setError(e instanceof Error ? e.message : 'Unknown error');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, configured, token, owner, repo, roots, refreshCount]);
+
+  const renderBody = () => {
+    if (!enabled) {
+      return <p className="text-sm text-gray-600">Turn on drift detection in the cluster configuration and push the workflows to check for drift on a schedule.</p>;
+    }
+    if (!configured) {
+      return <p className="text-sm text-gray-600">Connect a GitHub repository to read the drift check results.</p>;
+    }
+    if (error) {
+      return <p className="text-sm text-red-600">The drift reports could not be loaded: {error}</p>;
+    }
+    if (!result) {
+      return <p className="text-sm text-gray-600">Loading drift reports...</p>;
+    }
+    if (!result.run) {
+      return (
+        <p className="text-sm text-gray-600">
+          {result.running
+            ? 'The first drift check is running.'
+            : `${DRIFT_WORKFLOW_FILE} has not run yet. Push it and wait for the schedule or start it from the Actions tab.`}
+        </p>
+      );
+    }
+    return (
+      <div className="space-y-2">
+        {result.reports.map(({ root, report }) => {
+          const style = STATUS_STYLES[report?.status ?? 'unknown'];
+          const Icon = style.icon;
+          return (
+            <div key={root.name} className="flex items-center justify-between p-3 bg-white border border-gray-200 rounded-lg">
+              <div>
+                <p className="text-sm font-medium text-gray-900">{root.name}</p>
+                <p className="text-xs text-gray-500">
+                  {root.cluster !== root.name && `${root.cluster} · `}
+                  {report ? `checked ${new Date(report.checkedAt).toLocaleString()}` : 'no report in the latest run'}
+                </p>
+              </div>
+              <span className={`flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium ${style.className}`}>
+                <Icon className="h-3 w-3" />
+                <span>{report ? describeDriftReport(report) : 'Unknown'}</span>
+              </span>
+            </div>
+          );
+        })}
+        {result.reports.some(({ report }) => report?.drifted.length) && (
+          <ul className="text-xs text-yellow-800 space-y-0.5">
+            {result.reports.flatMap(({ root, report }) =>
+              (report?.drifted ?? []).map(address => <li key={`${root.name}-${address}`}>• {root.name}: {address}</li>))}
+          </ul>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <GitCompare className="h-5 w-5 text-gray-600" />
+          <h3 className="font-semibold text-gray-900">Drift Status</h3>
+        </div>
+        <div className="flex items-center space-x-3">
+          {result?.run && (
+            <a
+              href={result.run.htmlUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800"
+            >
+              <ExternalLink className="h-3 w-3" />
+              <span>{new Date(result.run.createdAt).toLocaleString()}</span>
+            </a>
+          )}
+          {enabled && configured && (
+            <button
+              onClick={() => setRefreshCount(count => count + 1)}
+              disabled={loading}
+              className="p-1 text-gray-500 hover:text-gray-700 disabled:opacity-50"
+              title="Refresh drift status"
+            >
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            </button>
+          )}
+        </div>
+      </div>
+      {renderBody()}
+    </div>
+  );
+};
+
+export default DriftStatusPanel;
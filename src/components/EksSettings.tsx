@@ -0,0 +1,168 @@
+import React from 'react';
+import { AWS_ROLE_ARN_VARIABLE, getEksStateBucket } from '../utils/eksGenerator';
+import { AwsConfig, TerraformConfig, validateAws } from '../utils/terraformGenerator';
+
+interface EksSettingsProps {
+  config: TerraformConfig;
+  onChange: (aws: AwsConfig) => void;
+}
+
+const awsRegions = [
+  'us-east-1', 'us-east-2', 'us-west-1', 'us-west-2', 'ca-central-1',
+  'eu-west-1', 'eu-west-2', 'eu-central-1', 'eu-north-1',
+  'ap-south-1', 'ap-southeast-1', 'ap-southeast-2', 'ap-northeast-1', 'sa-east-1'
+];
+
+const kubernetesVersions = ['1.31', '1.30', '1.29'];
+
+const EksSettings: React.FC<EksSettingsProps> = ({ config, onChange }) => {
+  const { aws } = config;
+  const handleChange = <K extends keyof AwsConfig>(field: K, value: AwsConfig[K]) => {
+    onChange({ ...aws, [field]: value });
+  };
+
+  const errors = validateAws(config);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Region *
+            </label>
+            <select
+              value={aws.region}
+              onChange={(e) => handleChange('region', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {(awsRegions.includes(aws.region) ? awsRegions : [aws.region, ...awsRegions]).map(region => (
+                <option key={region} value={region}>{region}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Kubernetes Version
+            </label>
+            <select
+              value={aws.kubernetesVersion}
+              onChange={(e) => handleChange('kubernetesVersion', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {kubernetesVersions.map(version => (
+                <option key={version} value={version}>{version}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                VPC Range
+              </label>
+              <input
+                type="text"
+                value={aws.vpcCidr}
+                onChange={(e) => handleChange('vpcCidr', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm"
+                placeholder="10.0.0.0/16"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Availability Zones
+              </label>
+              <input
+                type="number"
+                min="2"
+                max="6"
+                value={aws.availabilityZoneCount}
+                onChange={(e) => handleChange('availabilityZoneCount', parseInt(e.target.value))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={aws.singleNatGateway}
+              onChange={(e) => handleChange('singleNatGateway', e.target.checked)}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            />
+            <span className="text-sm text-gray-700">Single NAT gateway (cheaper; one per zone survives a zone outage)</span>
+          </label>
+
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={aws.endpointPublicAccess}
+              onChange={(e) => handleChange('endpointPublicAccess', e.target.checked)}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            />
+            <span className="text-sm text-gray-700">Public API endpoint (private access is always enabled)</span>
+          </label>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Deployer Role ARN
+            </label>
+            <input
+              type="text"
+              value={aws.roleArn}
+              onChange={(e) => handleChange('roleArn', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm"
+              placeholder="arn:aws:iam::123456789012:role/github-deployer"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Assumed through GitHub OIDC. Left empty, the workflow reads the {AWS_ROLE_ARN_VARIABLE} repository variable.
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              State Bucket
+            </label>
+            <input
+              type="text"
+              value={aws.stateBucket}
+              onChange={(e) => handleChange('stateBucket', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder={getEksStateBucket(config)}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              State Lock Table
+            </label>
+            <input
+              type="text"
+              value={aws.stateLockTable}
+              onChange={(e) => handleChange('stateLockTable', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="terraform-locks"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              The workflow creates the bucket and DynamoDB table on first run if they do not exist
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-600 space-y-0.5">
+          {errors.map(error => (
+            <li key={error}>• {error}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default EksSettings;
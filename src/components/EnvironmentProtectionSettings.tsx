@@ -0,0 +1,68 @@
+import React from 'react';
+import { Plus, Minus } from 'lucide-react';
+import { EnvironmentProtectionConfig } from '../utils/terraformGenerator';
+
+interface EnvironmentProtectionSettingsProps {
+  protection: EnvironmentProtectionConfig;
+  onChange: (protection: EnvironmentProtectionConfig) => void;
+}
+
+const EnvironmentProtectionSettings: React.FC<EnvironmentProtectionSettingsProps> = ({ protection, onChange }) => {
+  const update = (changes: Partial<EnvironmentProtectionConfig>) => onChange({ ...protection, ...changes });
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center space-x-2">
+        <input
+          type="checkbox"
+          checked={protection.protectedBranchesOnly}
+          onChange={(e) => update({ protectedBranchesOnly: e.target.checked })}
+          className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+        />
+        <span className="text-sm text-gray-700">Only deploy from protected branches</span>
+      </label>
+      <label className="flex items-center space-x-2">
+        <input
+          type="checkbox"
+          checked={protection.requireApproval}
+          onChange={(e) => update({ requireApproval: e.target.checked })}
+          className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+        />
+        <span className="text-sm text-gray-700">Require approval before workflow runs</span>
+      </label>
+
+      {protection.requireApproval && (
+        <div className="ml-6 space-y-2">
+          {protection.reviewers.map((reviewer, reviewerIndex) => (
+            <div key={reviewerIndex} className="flex space-x-2">
+              <input
+                type="text"
+                value={reviewer}
+                onChange={(e) => update({
+                  reviewers: protection.reviewers.map((r, i) => (i === reviewerIndex ? e.target.value.trim() : r))
+                })}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="github-username"
+              />
+              <button
+                onClick={() => update({ reviewers: protection.reviewers.filter((_, i) => i !== reviewerIndex) })}
+                className="p-2 text-red-600 hover:bg-red-50 rounded-md"
+              >
+                <Minus className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => update({ reviewers: [...protection.reviewers, ''] })}
+            className="flex items-center space-x-2 px-3 py-2 text-blue-600 hover:bg-blue-50 rounded-md text-sm"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add Reviewer</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EnvironmentProtectionSettings;
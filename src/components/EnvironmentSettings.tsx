@@ -0,0 +1,224 @@
+import React from 'react';
+import { Plus, Minus, Trash2 } from 'lucide-react';
+import EnvironmentProtectionSettings from './EnvironmentProtectionSettings';
+import {
+  EnvironmentConfig,
+  EnvironmentProtectionConfig,
+  MultiEnvironmentConfig,
+  TerraformConfig,
+  getStatePrefix,
+  resolveEnvironment,
+  validateEnvironments
+} from '../utils/terraformGenerator';
+import { defaultEnvironment } from '../utils/storage';
+
+interface EnvironmentSettingsProps {
+  config: TerraformConfig;
+  onChange: (multiEnvironment: MultiEnvironmentConfig) => void;
+  onProtectionChange: (environmentProtection: EnvironmentProtectionConfig) => void;
+}
+
+const EnvironmentSettings: React.FC<EnvironmentSettingsProps> = ({ config, onChange, onProtectionChange }) => {
+  const { multiEnvironment } = config;
+  const { environments } = multiEnvironment;
+
+  const updateEnvironment = (index: number, changes: Partial<EnvironmentConfig>) => {
+    onChange({
+      ...multiEnvironment,
+      environments: environments.map((environment, i) => (i === index ? { ...environment, ...changes } : environment))
+    });
+  };
+
+  const addEnvironment = () => {
+    let name = 'env';
+    for (let suffix = 2; environments.some(environment => environment.name === name); suffix++) {
+      name = `env-${suffix}`;
+    }
+    onChange({ ...multiEnvironment, environments: [...environments, { ...defaultEnvironment, name }] });
+  };
+
+  const errors = validateEnvironments(config);
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-center space-x-2">
+        <input
+          type="checkbox"
+          checked={multiEnvironment.enabled}
+          onChange={(e) => onChange({ ...multiEnvironment, enabled: e.target.checked })}
+          className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+        />
+        <span className="text-sm text-gray-700">Generate a shared module with one Terraform root per environment</span>
+      </label>
+
+      {multiEnvironment.enabled && (
+        <>
+          <p className="text-xs text-gray-500">
+            Each environment gets <code className="bg-gray-100 px-1 rounded">terraform/environments/&lt;name&gt;</code> with its
+            own state prefix, VPC and node service account. The deploy workflow asks for the environment and runs under the
+            matching GitHub Environment.
+          </p>
+
+          {environments.map((environment, index) => {
+            const resolved = resolveEnvironment(config, environment);
+
+            return (
+              <div key={index} className="p-4 border border-gray-200 rounded-lg bg-gray-50 space-y-4">
+                <div className="flex items-center justify-between">
+                  <h4 className="font-semibold text-gray-800">
+                    {environment.name || 'unnamed'}
+                    {environment.requireApproval && <span className="ml-2 text-xs px-2 py-0.5 bg-amber-100 text-amber-700 rounded">approval</span>}
+                  </h4>
+                  <button
+                    onClick={() => onChange({ ...multiEnvironment, environments: environments.filter((_, i) => i !== index) })}
+                    disabled={environments.length === 1}
+                    className={`p-2 rounded-md ${
+                      environments.length === 1 ? 'text-gray-300 cursor-not-allowed' : 'text-red-600 hover:bg-red-50'
+                    }`}
+                    title={environments.length === 1 ? 'At least one environment is required' : 'Remove environment'}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                    <input
+                      type="text"
+                      value={environment.name}
+                      onChange={(e) => updateEnvironment(index, { name: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      placeholder="staging"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Project ID</label>
+                    <input
+                      type="text"
+                      value={environment.projectId}
+                      onChange={(e) => updateEnvironment(index, { projectId: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      placeholder={config.projectId || 'same as base project'}
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Cluster Name</label>
+                    <input
+                      type="text"
+                      value={environment.clusterName}
+                      onChange={(e) => updateEnvironment(index, { clusterName: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      placeholder={resolveEnvironment(config, { ...environment, clusterName: '' }).clusterName}
+                    />
+                  </div>
+                </div>
+
+                <p className="text-xs text-gray-500">
+                  State prefix: <span className="font-mono">{getStatePrefix(resolved)}</span>
+                </p>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {/* Labels */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Labels</label>
+                    <div className="space-y-2">
+                      {Object.entries(environment.labels).map(([key, value], labelIndex) => (
+                        <div key={labelIndex} className="flex space-x-2">
+                          <input
+                            type="text"
+                            value={key}
+                            onChange={(e) => {
+                              const labels = { ...environment.labels };
+                              delete labels[key];
+                              labels[e.target.value] = value;
+                              updateEnvironment(index, { labels });
+                            }}
+                            className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            placeholder="key"
+                          />
+                          <input
+                            type="text"
+                            value={value}
+                            onChange={(e) => updateEnvironment(index, { labels: { ...environment.labels, [key]: e.target.value } })}
+                            className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            placeholder="value"
+                          />
+                          <button
+                            onClick={() => {
+                              const labels = { ...environment.labels };
+                              delete labels[key];
+                              updateEnvironment(index, { labels });
+                            }}
+                            className="p-2 text-red-600 hover:bg-red-50 rounded-md"
+                          >
+                            <Minus className="h-4 w-4" />
+                          </button>
+                        </div>
+                      ))}
+                      <button
+                        onClick={() => updateEnvironment(index, { labels: { ...environment.labels, [`label-${Date.now()}`]: '' } })}
+                        className="flex items-center space-x-2 px-3 py-2 text-blue-600 hover:bg-blue-50 rounded-md text-sm"
+                      >
+                        <Plus className="h-4 w-4" />
+                        <span>Add Label</span>
+                      </button>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">The env label is always set to the environment name</p>
+                  </div>
+
+                  {/* Protection */}
+                  <div className="space-y-2">
+                    <label className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        checked={environment.deletionProtection}
+                        onChange={(e) => updateEnvironment(index, { deletionProtection: e.target.checked })}
+                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                      />
+                      <span className="text-sm text-gray-700">Cluster deletion protection</span>
+                    </label>
+                    <EnvironmentProtectionSettings
+                      protection={environment}
+                      onChange={(protection) => updateEnvironment(index, protection)}
+                    />
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+
+          <button
+            onClick={addEnvironment}
+            className="flex items-center space-x-2 px-3 py-2 border border-blue-300 text-blue-600 hover:bg-blue-50 rounded-md text-sm"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add Environment</span>
+          </button>
+        </>
+      )}
+
+      {!multiEnvironment.enabled && (
+        <>
+          <p className="text-xs text-gray-500">
+            The deploy workflow runs under the GitHub Environment{' '}
+            <span className="font-mono">{config.environment}</span>, created with these protection rules.
+          </p>
+          <EnvironmentProtectionSettings protection={config.environmentProtection} onChange={onProtectionChange} />
+        </>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-600 space-y-0.5">
+          {errors.map(error => (
+            <li key={error}>• {error}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default EnvironmentSettings;
@@ -0,0 +1,114 @@
+import React from 'react';
+import { KeyRound, ShieldCheck } from 'lucide-react';
+import {
+  GcpAuthConfig,
+  GcpAuthMode,
+  SERVICE_ACCOUNT_VARIABLE,
+  WORKLOAD_IDENTITY_PROVIDER_VARIABLE,
+  validateGcpAuth
+} from '../utils/gcpAuth';
+
+interface GcpAuthSettingsProps {
+  auth: GcpAuthConfig;
+  onChange: (auth: GcpAuthConfig) => void;
+  // Hidden when the workflow always impersonates an account configured elsewhere
+  showServiceAccount?: boolean;
+}
+
+const authModes: { value: GcpAuthMode; label: string; description: string; icon: React.ElementType }[] = [
+  {
+    value: 'workload-identity-federation',
+    label: 'Workload Identity Federation',
+    description: 'Keyless: exchanges the GitHub OIDC token for short-lived credentials',
+    icon: ShieldCheck
+  },
+  {
+    value: 'service-account-key',
+    label: 'Service Account Key',
+    description: 'Long-lived JSON key stored in the GCP_SA_KEY secret',
+    icon: KeyRound
+  }
+];
+
+const GcpAuthSettings: React.FC<GcpAuthSettingsProps> = ({ auth, onChange, showServiceAccount = true }) => {
+  const handleChange = (field: keyof GcpAuthConfig, value: string) => {
+    onChange({ ...auth, [field]: value });
+  };
+
+  const errors = validateGcpAuth(auth);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {authModes.map(mode => {
+          const Icon = mode.icon;
+          const selected = auth.mode === mode.value;
+          return (
+            <button
+              key={mode.value}
+              type="button"
+              onClick={() => handleChange('mode', mode.value)}
+              className={`flex items-start space-x-3 p-3 border rounded-lg text-left transition-colors ${
+                selected ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              <Icon className={`h-5 w-5 mt-0.5 ${selected ? 'text-blue-600' : 'text-gray-500'}`} />
+              <div>
+                <p className="text-sm font-medium text-gray-800">{mode.label}</p>
+                <p className="text-xs text-gray-600">{mode.description}</p>
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      {auth.mode === 'workload-identity-federation' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Workload Identity Provider
+            </label>
+            <input
+              type="text"
+              value={auth.workloadIdentityProvider}
+              onChange={(e) => handleChange('workloadIdentityProvider', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="projects/123456789/locations/global/workloadIdentityPools/github/providers/github-actions"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Leave empty to read it from the <code>{WORKLOAD_IDENTITY_PROVIDER_VARIABLE}</code> repository variable
+            </p>
+          </div>
+
+          {showServiceAccount && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Service Account to Impersonate
+              </label>
+              <input
+                type="text"
+                value={auth.serviceAccount}
+                onChange={(e) => handleChange('serviceAccount', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="github-actions@my-project.iam.gserviceaccount.com"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Leave empty to read it from the <code>{SERVICE_ACCOUNT_VARIABLE}</code> repository variable
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-600 space-y-1">
+          {errors.map(error => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default GcpAuthSettings;
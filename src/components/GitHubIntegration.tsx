@@ -1,19 +1,18 @@
 import React, { useState } from 'react';
 import { ArrowLeft, ArrowRight, Github, Upload, CheckCircle, AlertCircle, Info } from 'lucide-react';
 import { GitHubService } from '../utils/githubApi';
-import { generateTerraformFiles } from '../utils/terraformGenerator';
-
-interface TerraformConfig {
-  projectId: string;
-  clusterName: string;
-  region: string;
-  nodeCount: number;
-  machineType: string;
-  diskSize: number;
-  enableAutoscaling: boolean;
-  minNodes: number;
-  maxNodes: number;
-}
+import { hasBlockingViolations } from '../utils/policyCheck';
+import {
+  checkPolicies,
+  generateTerraformFiles,
+  getNodeServiceAccountEmail,
+  getStateBucket,
+  getStatePrefix,
+  getTerraformProvider,
+  isMultiEnvironment,
+  resolveEnvironment,
+  TerraformConfig
+} from '../utils/terraformGenerator';
 
 interface GitHubConfig {
   token: string;
@@ -21,6 +20,20 @@ interface GitHubConfig {
   repo: string;
 }
 
+// What the EKS and AKS deployers must be able to create; GKE roles are listed inline
+const deployerPermissions: Record<'aws' | 'azure', string[]> = {
+  aws: [
+    'EKS clusters, node groups and add-ons',
+    'VPCs, subnets, NAT gateways and Elastic IPs',
+    'IAM roles, policies and OIDC providers (IRSA)',
+    'The S3 state bucket and DynamoDB lock table'
+  ],
+  azure: [
+    'Contributor (resource groups, networking, AKS, storage account keys)',
+    'User Access Administrator or Role Based Access Control Administrator (Network Contributor assignment for the cluster identity)'
+  ]
+};
+
 interface GitHubIntegrationProps {
   config: GitHubConfig;
   terraformConfig: TerraformConfig;
@@ -38,7 +51,13 @@ const GitHubIntegration: React.FC<GitHubIntegrationProps> = ({
 }) => {
   const [uploadStatus, setUploadStatus] = useState<'idle' | 'uploading' | 'success' | 'error'>('idle');
   const [errorMessage, setErrorMessage] = useState('');
+  const [environmentWarnings, setEnvironmentWarnings] = useState<string[]>([]);
   const [validationStatus, setValidationStatus] = useState<'idle' | 'validating' | 'valid' | 'invalid'>('idle');
+  const provider = getTerraformProvider(terraformConfig);
+  const gke = terraformConfig.provider === 'gcp';
+  const requirements = provider.getAuthRequirements(terraformConfig);
+  const policyResult = checkPolicies(terraformConfig);
+  const policyBlocked = hasBlockingViolations(policyResult);
 
   const handleChange = (field: keyof GitHubConfig, value: string) => {
     onChange({ ...config, [field]: value });
@@ -78,6 +97,12 @@ const GitHubIntegration: React.FC<GitHubIntegrationProps> = ({
   };
 
   const uploadToGitHub = async () => {
+    if (policyBlocked) {
+      setErrorMessage('Policy checks failed. Fix the violations listed in the Terraform preview or disable the rules before uploading.');
+      setUploadStatus('error');
+      return;
+    }
+
     // First validate the repository
     const isValid = await validateRepository();
     if (!isValid) {
@@ -101,6 +126,28 @@ const GitHubIntegration: React.FC<GitHubIntegrationProps> = ({
         files,
         'Add GKE Terraform infrastructure files with remote state backend via IaC Generator'
       );
+
+      // Protection rules are best effort: the files are already committed and the
+      // environments can still be configured by hand in the repository settings
+      const warnings: string[] = [];
+      if (isMultiEnvironment(terraformConfig)) {
+        for (const environment of terraformConfig.multiEnvironment.environments) {
+          try {
+            await githubService.createOrUpdateEnvironment(config.owner, config.repo, environment.name, environment);
+          } catch (error) {
+            warnings.push(error instanceof Error ? error.message : `Failed to configure environment ${environment.name}`);
+          }
+        }
+      } else {
+        try {
+          await githubService.createOrUpdateEnvironment(
+            config.owner, config.repo, terraformConfig.environment, terraformConfig.environmentProtection
+          );
+        } catch (error) {
+          warnings.push(error instanceof Error ? error.message : `Failed to configure environment ${terraformConfig.environment}`);
+        }
+      }
+      setEnvironmentWarnings(warnings);
       
       setUploadStatus('success');
     } catch (error) {
@@ -226,9 +273,9 @@ const GitHubIntegration: React.FC<GitHubIntegrationProps> = ({
           <div>
             <button
               onClick={uploadToGitHub}
-              disabled={validationStatus !== 'valid' || uploadStatus === 'uploading'}
+              disabled={validationStatus !== 'valid' || uploadStatus === 'uploading' || policyBlocked}
               className={`w-full flex items-center justify-center space-x-2 px-4 py-3 rounded-md font-medium transition-colors ${
-                validationStatus === 'valid' && uploadStatus !== 'uploading'
+                validationStatus === 'valid' && uploadStatus !== 'uploading' && !policyBlocked
                   ? 'bg-green-600 text-white hover:bg-green-700'
                   : 'bg-gray-300 text-gray-500 cursor-not-allowed'
               }`}
@@ -246,6 +293,19 @@ const GitHubIntegration: React.FC<GitHubIntegrationProps> = ({
               )}
             </button>
 
+            {/* Policy Checks */}
+            {policyResult.violations.length > 0 && (
+              <div className={`mt-3 flex items-start space-x-2 text-sm ${policyBlocked ? 'text-red-600' : 'text-yellow-700'}`}>
+                <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                <span>
+                  {policyBlocked
+                    ? `Upload blocked by ${policyResult.violations.filter(violation => violation.severity === 'error').length} policy violation(s).`
+                    : `${policyResult.violations.length} policy warning(s).`}
+                  {' '}See Policy Checks on the Terraform preview.
+                </span>
+              </div>
+            )}
+
             {/* Status Messages */}
             {uploadStatus === 'success' && (
               <div className="mt-3 flex items-center space-x-2 text-green-600">
@@ -254,6 +314,17 @@ const GitHubIntegration: React.FC<GitHubIntegrationProps> = ({
               </div>
             )}
 
+            {uploadStatus === 'success' && environmentWarnings.length > 0 && (
+              <div className="mt-3 p-3 bg-yellow-50 border border-yellow-200 rounded-md text-sm text-yellow-800">
+                <p className="font-medium mb-1">GitHub Environments need manual setup (admin access required):</p>
+                <ul className="text-xs space-y-0.5">
+                  {environmentWarnings.map(warning => (
+                    <li key={warning}>• {warning}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {(uploadStatus === 'error' || validationStatus === 'invalid') && errorMessage && (
               <div className="mt-3 flex items-start space-x-2 text-red-600">
                 <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
@@ -270,51 +341,107 @@ const GitHubIntegration: React.FC<GitHubIntegrationProps> = ({
           <div className="bg-gray-50 p-4 rounded-lg">
             <h4 className="font-medium text-gray-800 mb-2">Files to be created:</h4>
             <ul className="text-sm text-gray-600 space-y-1">
-              <li>📁 terraform/backend.tf</li>
-              <li>📁 terraform/main.tf</li>
-              <li>📁 terraform/variables.tf</li>
-              <li>📁 terraform/outputs.tf</li>
-              <li>📁 terraform/terraform.tfvars</li>
-              <li>📁 .github/workflows/deploy.yml</li>
+              {generateTerraformFiles(terraformConfig).map(file => (
+                <li key={file.path}>📁 {file.path}</li>
+              ))}
             </ul>
           </div>
 
-          <div className="bg-green-50 border border-green-200 p-4 rounded-lg">
-            <h4 className="font-medium text-green-800 mb-2">Remote State Backend:</h4>
-            <div className="text-sm text-green-700 space-y-1">
-              <p><strong>Backend:</strong> Google Cloud Storage</p>
-              <p><strong>Bucket:</strong> terraform-statefile-bucket-tf2</p>
-              <p><strong>Prefix:</strong> terraform/state/gke-cluster</p>
-              <p><strong>Service Account:</strong> githubactions-sa@turnkey-guild-441104-f3.iam.gserviceaccount.com</p>
-            </div>
-          </div>
+          {terraformConfig.provider === 'gcp' ? (
+            <>
+              <div className="bg-green-50 border border-green-200 p-4 rounded-lg">
+                <h4 className="font-medium text-green-800 mb-2">Remote State Backend:</h4>
+                <div className="text-sm text-green-700 space-y-1">
+                  <p><strong>Backend:</strong> Google Cloud Storage</p>
+                  <p><strong>Bucket:</strong> {getStateBucket(terraformConfig)}</p>
+                  {isMultiEnvironment(terraformConfig)
+                    ? terraformConfig.multiEnvironment.environments.map(environment => (
+                      <p key={environment.name}>
+                        <strong>Prefix ({environment.name}):</strong> {getStatePrefix(resolveEnvironment(terraformConfig, environment))}
+                      </p>
+                    ))
+                    : <p><strong>Prefix:</strong> {getStatePrefix(terraformConfig)}</p>}
+                  <p><strong>Deployer:</strong> {terraformConfig.serviceAccount.email}</p>
+                  <p><strong>Nodes:</strong> {getNodeServiceAccountEmail(terraformConfig)}</p>
+                </div>
+              </div>
 
-          <div className="bg-red-50 border border-red-200 p-4 rounded-lg">
-            <h4 className="font-medium text-red-800 mb-2">⚠️ Service Account Permissions Required:</h4>
-            <p className="text-sm text-red-700 mb-2">
-              The service account needs these roles on your target project:
-            </p>
-            <ul className="text-sm text-red-700 space-y-1">
-              <li>• <strong>Kubernetes Engine Admin</strong> (roles/container.admin)</li>
-              <li>• <strong>Compute Admin</strong> (roles/compute.admin)</li>
-              <li>• <strong>Service Account User</strong> (roles/iam.serviceAccountUser)</li>
-            </ul>
-            <div className="mt-3 p-2 bg-red-100 rounded text-xs font-mono text-red-800">
-              <p>Run these commands in Google Cloud Console:</p>
-              <p className="mt-1">gcloud projects add-iam-policy-binding YOUR_PROJECT_ID \</p>
-              <p>--member='serviceAccount:githubactions-sa@turnkey-guild-441104-f3.iam.gserviceaccount.com' \</p>
-              <p>--role='roles/container.admin'</p>
-            </div>
-          </div>
+              <div className="bg-red-50 border border-red-200 p-4 rounded-lg">
+                <h4 className="font-medium text-red-800 mb-2">⚠️ Service Account Permissions Required:</h4>
+                <p className="text-sm text-red-700 mb-2">
+                  The service account needs these roles on your target project:
+                </p>
+                <ul className="text-sm text-red-700 space-y-1">
+                  <li>• <strong>Kubernetes Engine Admin</strong> (roles/container.admin)</li>
+                  <li>• <strong>Compute Admin</strong> (roles/compute.admin)</li>
+                  <li>• <strong>Service Account User</strong> (roles/iam.serviceAccountUser)</li>
+                  {terraformConfig.serviceAccount.createNodeServiceAccount && (
+                    <>
+                      <li>• <strong>Service Account Admin</strong> (roles/iam.serviceAccountAdmin)</li>
+                      <li>• <strong>Project IAM Admin</strong> (roles/resourcemanager.projectIamAdmin)</li>
+                    </>
+                  )}
+                </ul>
+                <div className="mt-3 p-2 bg-red-100 rounded text-xs font-mono text-red-800">
+                  <p>Run these commands in Google Cloud Console:</p>
+                  <p className="mt-1">gcloud projects add-iam-policy-binding YOUR_PROJECT_ID \</p>
+                  <p>--member='serviceAccount:{terraformConfig.serviceAccount.email}' \</p>
+                  <p>--role='roles/container.admin'</p>
+                </div>
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="bg-green-50 border border-green-200 p-4 rounded-lg">
+                <h4 className="font-medium text-green-800 mb-2">Remote State Backend:</h4>
+                <div className="text-sm text-green-700 space-y-1">
+                  <p><strong>Backend:</strong> {terraformConfig.provider === 'aws' ? 'Amazon S3 with DynamoDB locking' : 'Azure Blob Storage'}</p>
+                  <p className="break-all"><strong>State:</strong> {provider.getStateLocation(terraformConfig)}</p>
+                </div>
+              </div>
+
+              <div className="bg-red-50 border border-red-200 p-4 rounded-lg">
+                <h4 className="font-medium text-red-800 mb-2">⚠️ Deployer Permissions Required:</h4>
+                <p className="text-sm text-red-700 mb-2">
+                  {terraformConfig.provider === 'aws'
+                    ? 'The role assumed by the workflow needs to trust token.actions.githubusercontent.com for this repository and be allowed to manage:'
+                    : 'The identity used by the workflow needs a federated credential for this repository and these roles on the subscription:'}
+                </p>
+                <ul className="text-sm text-red-700 space-y-1">
+                  {deployerPermissions[terraformConfig.provider].map(permission => (
+                    <li key={permission}>• {permission}</li>
+                  ))}
+                </ul>
+              </div>
+            </>
+          )}
 
           <div className="bg-yellow-50 border border-yellow-200 p-4 rounded-lg">
-            <h4 className="font-medium text-yellow-800 mb-2">Required Secrets:</h4>
-            <p className="text-sm text-yellow-700 mb-2">
-              Make sure you have added this secret to your GitHub repository:
-            </p>
-            <ul className="text-sm text-yellow-700 space-y-1">
-              <li><code className="bg-yellow-100 px-1 rounded">GCP_SA_KEY</code> - Service Account JSON key</li>
-            </ul>
+            <h4 className="font-medium text-yellow-800 mb-2">Required Secrets & Variables:</h4>
+            {requirements.length > 0 ? (
+              <>
+                <p className="text-sm text-yellow-700 mb-2">
+                  Make sure you have added these to your GitHub repository:
+                </p>
+                <ul className="text-sm text-yellow-700 space-y-1">
+                  {requirements.map(requirement => (
+                    <li key={requirement.name}>
+                      <code className="bg-yellow-100 px-1 rounded">{requirement.name}</code> - {requirement.description}
+                      {requirement.kind === 'variable' && ' (variable)'}
+                    </li>
+                  ))}
+                </ul>
+              </>
+            ) : (
+              <p className="text-sm text-yellow-700">
+                None: the workflow authenticates keylessly through {gke ? 'Workload Identity Federation' : 'GitHub OIDC'}
+              </p>
+            )}
+            {gke && terraformConfig.auth.mode === 'workload-identity-federation' && terraformConfig.auth.createWorkloadIdentityPool && (
+              <p className="text-xs text-yellow-700 mt-2">
+                Apply <code className="bg-yellow-100 px-1 rounded">terraform/github-oidc</code> once with your own credentials to create the identity pool before the first run
+              </p>
+            )}
             <p className="text-xs text-yellow-600 mt-2">
               Go to Settings → Secrets and variables → Actions in your repository
             </p>
@@ -326,8 +453,8 @@ const GitHubIntegration: React.FC<GitHubIntegrationProps> = ({
               <li>✅ <strong>Plan:</strong> Preview infrastructure changes</li>
               <li>✅ <strong>Apply:</strong> Create/update infrastructure</li>
               <li>✅ <strong>Destroy:</strong> Remove all infrastructure</li>
-              <li>✅ Remote state management with GCS</li>
-              <li>✅ Service account permission validation</li>
+              <li>✅ Remote state management with {gke ? 'GCS' : terraformConfig.provider === 'aws' ? 'S3' : 'Azure Storage'}</li>
+              {gke && <li>✅ Service account permission validation</li>}
               <li>✅ Manual workflow dispatch with parameters</li>
             </ul>
           </div>
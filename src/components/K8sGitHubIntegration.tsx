@@ -1,25 +1,16 @@
 import React, { useState } from 'react';
 import { ArrowLeft, ArrowRight, Github, Upload, CheckCircle, AlertCircle, Info } from 'lucide-react';
 import { GitHubService } from '../utils/githubApi';
-import { generateK8sFiles } from '../utils/k8sGenerator';
-
-interface K8sConfig {
-  projectId: string;
-  clusterName: string;
-  region: string;
-  zone: string;
-  namespace: string;
-  appName: string;
-  frontendImage: string;
-  backendImage: string;
-  frontendPort: number;
-  backendPort: number;
-  replicas: number;
-  enablePersistentVolume: boolean;
-  storageSize: string;
-  enableIngress: boolean;
-  domain: string;
-}
+import { getGcpAuthRequirements } from '../utils/gcpAuth';
+import {
+  generateK8sFiles,
+  getActionsSecretNames,
+  getActionsSecretValues,
+  getSecretMode,
+  K8sConfig,
+  markActionsSecretsStored,
+  SecretMode
+} from '../utils/k8sGenerator';
 
 interface GitHubConfig {
   token: string;
@@ -31,14 +22,23 @@ interface K8sGitHubIntegrationProps {
   config: GitHubConfig;
   k8sConfig: K8sConfig;
   onChange: (config: GitHubConfig) => void;
+  onK8sConfigChange: (config: K8sConfig) => void;
   onBack: () => void;
   onNext: () => void;
 }
 
+const secretModeLabels: Record<SecretMode, string> = {
+  'opaque': 'Plain Secret committed to the repository',
+  'external-secrets': 'ExternalSecret from GCP Secret Manager',
+  'sealed-secrets': 'SealedSecret',
+  'github-actions': 'GitHub Actions secrets'
+};
+
 const K8sGitHubIntegration: React.FC<K8sGitHubIntegrationProps> = ({
   config,
   k8sConfig,
   onChange,
+  onK8sConfigChange,
   onBack,
   onNext
 }) => {
@@ -107,6 +107,13 @@ const K8sGitHubIntegration: React.FC<K8sGitHubIntegrationProps> = ({
         files,
         'Add Kubernetes manifests and deployment workflow via IaC Generator'
       );
+
+      // The workflow builds the Secret from these, so they never reach the repository contents
+      const actionsSecrets = getActionsSecretValues(k8sConfig);
+      if (Object.keys(actionsSecrets).length > 0) {
+        await githubService.setActionsSecrets(config.owner, config.repo, actionsSecrets);
+        onK8sConfigChange(markActionsSecretsStored(k8sConfig));
+      }
       
       setUploadStatus('success');
     } catch (error) {
@@ -118,6 +125,9 @@ const K8sGitHubIntegration: React.FC<K8sGitHubIntegrationProps> = ({
   };
 
   const isFormValid = config.token && config.owner && config.repo;
+  const secretsManifest = k8sConfig.manifests.find(m => m.type === 'secrets' && m.enabled);
+  const secretMode = secretsManifest && getSecretMode(secretsManifest);
+  const actionsSecretNames = getActionsSecretNames(k8sConfig);
 
   return (
     <div className="p-6">
@@ -276,15 +286,9 @@ const K8sGitHubIntegration: React.FC<K8sGitHubIntegrationProps> = ({
           <div className="bg-gray-50 p-4 rounded-lg">
             <h4 className="font-medium text-gray-800 mb-2">Files to be created:</h4>
             <ul className="text-sm text-gray-600 space-y-1">
-              <li>📁 k8s/namespace.yaml</li>
-              <li>📁 k8s/frontend-deployment.yaml</li>
-              <li>📁 k8s/backend-deployment.yaml</li>
-              <li>📁 k8s/frontend-service.yaml</li>
-              <li>📁 k8s/backend-service.yaml</li>
-              {k8sConfig.enablePersistentVolume && <li>📁 k8s/persistent-volume.yaml</li>}
-              {k8sConfig.enableIngress && <li>📁 k8s/ingress.yaml</li>}
-              {k8sConfig.enableIngress && k8sConfig.domain && <li>📁 k8s/managed-certificate.yaml</li>}
-              <li>📁 .github/workflows/k8s-deploy.yml</li>
+              {generateK8sFiles(k8sConfig).map(file => (
+                <li key={file.path}>📁 {file.path}</li>
+              ))}
             </ul>
           </div>
 
@@ -296,17 +300,28 @@ const K8sGitHubIntegration: React.FC<K8sGitHubIntegrationProps> = ({
               <p><strong>Region:</strong> {k8sConfig.region}</p>
               <p><strong>Zone:</strong> {k8sConfig.zone}</p>
               <p><strong>Namespace:</strong> {k8sConfig.namespace}</p>
-              <p><strong>App Name:</strong> {k8sConfig.appName}</p>
+              <p><strong>GCP Auth:</strong> {k8sConfig.auth.mode === 'workload-identity-federation' ? 'Workload Identity Federation (keyless)' : 'Service account key'}</p>
+              {secretMode && (
+                <p>
+                  <strong>Secrets:</strong> {secretModeLabels[secretMode]}
+                  {actionsSecretNames.length > 0 && ` (${actionsSecretNames.join(', ')})`}
+                </p>
+              )}
             </div>
           </div>
 
           <div className="bg-red-50 border border-red-200 p-4 rounded-lg">
-            <h4 className="font-medium text-red-800 mb-2">⚠️ Required Secrets:</h4>
+            <h4 className="font-medium text-red-800 mb-2">⚠️ Required Secrets & Variables:</h4>
             <p className="text-sm text-red-700 mb-2">
-              Make sure you have added these secrets to your GitHub repository:
+              Make sure you have added these to your GitHub repository:
             </p>
             <ul className="text-sm text-red-700 space-y-1">
-              <li><code className="bg-red-100 px-1 rounded">GCP_SA_KEY</code> - Service Account JSON key</li>
+              {getGcpAuthRequirements(k8sConfig.auth).map(requirement => (
+                <li key={requirement.name}>
+                  <code className="bg-red-100 px-1 rounded">{requirement.name}</code> - {requirement.description}
+                  {requirement.kind === 'variable' && ' (variable)'}
+                </li>
+              ))}
               <li><code className="bg-red-100 px-1 rounded">GCP_PROJECT_ID</code> - Your GCP Project ID</li>
             </ul>
             <p className="text-xs text-red-600 mt-2">
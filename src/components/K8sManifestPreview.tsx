@@ -1,20 +1,6 @@
 import React from 'react';
 import { ArrowLeft, ArrowRight, Copy, Download } from 'lucide-react';
-
-interface ManifestConfig {
-  type: 'frontend' | 'backend' | 'secrets' | 'ingress' | 'db-init-job';
-  enabled: boolean;
-  config: Record<string, any>;
-}
-
-interface K8sConfig {
-  projectId: string;
-  clusterName: string;
-  region: string;
-  zone: string;
-  namespace: string;
-  manifests: ManifestConfig[];
-}
+import { K8sConfig, generateK8sManifests, getClusterLocationFlag } from '../utils/k8sGenerator';
 
 interface K8sManifestPreviewProps {
   config: K8sConfig;
@@ -23,337 +9,13 @@ interface K8sManifestPreviewProps {
 }
 
 const K8sManifestPreview: React.FC<K8sManifestPreviewProps> = ({ config, onBack, onNext }) => {
-  // Browser-compatible base64 encoding function
-  const encodeToBase64 = (str: string): string => {
-    const encoder = new TextEncoder();
-    const data = encoder.encode(str);
-    let binary = '';
-    const len = data.byteLength;
-    for (let i = 0; i < len; i++) {
-      binary += String.fromCharCode(data[i]);
-    }
-    return btoa(binary);
-  };
-
-  const generateNamespace = () => {
-    return `apiVersion: v1
-kind: Namespace
-metadata:
-  name: ${config.namespace}
-  labels:
-    managed-by: iac-generator`;
-  };
-
-  const generateFrontendDeployment = (manifest: ManifestConfig) => {
-    const { image, port, replicas } = manifest.config;
-    return `apiVersion: apps/v1
-kind: Deployment
-metadata:
-  name: frontend
-  namespace: ${config.namespace}
-  labels:
-    app: frontend
-    component: frontend
-spec:
-  replicas: ${replicas || 2}
-  selector:
-    matchLabels:
-      app: frontend
-      component: frontend
-  template:
-    metadata:
-      labels:
-        app: frontend
-        component: frontend
-    spec:
-      containers:
-      - name: frontend
-        image: ${image}
-        ports:
-        - containerPort: ${port || 80}
-          name: http
-        resources:
-          requests:
-            memory: "128Mi"
-            cpu: "100m"
-          limits:
-            memory: "512Mi"
-            cpu: "500m"
-        livenessProbe:
-          httpGet:
-            path: /
-            port: ${port || 80}
-          initialDelaySeconds: 30
-          periodSeconds: 10
-        readinessProbe:
-          httpGet:
-            path: /
-            port: ${port || 80}
-          initialDelaySeconds: 5
-          periodSeconds: 5`;
-  };
-
-  const generateFrontendService = (manifest: ManifestConfig) => {
-    const { port, serviceType } = manifest.config;
-    return `apiVersion: v1
-kind: Service
-metadata:
-  name: frontend
-  namespace: ${config.namespace}
-  labels:
-    app: frontend
-    component: frontend
-spec:
-  type: ${serviceType || 'LoadBalancer'}
-  ports:
-  - port: 80
-    targetPort: ${port || 80}
-    protocol: TCP
-    name: http
-  selector:
-    app: frontend
-    component: frontend`;
-  };
-
-  const generateBackendDeployment = (manifest: ManifestConfig) => {
-    const { image, port, replicas } = manifest.config;
-    return `apiVersion: apps/v1
-kind: Deployment
-metadata:
-  name: backend
-  namespace: ${config.namespace}
-  labels:
-    app: backend
-    component: backend
-spec:
-  replicas: ${replicas || 2}
-  selector:
-    matchLabels:
-      app: backend
-      component: backend
-  template:
-    metadata:
-      labels:
-        app: backend
-        component: backend
-    spec:
-      containers:
-      - name: backend
-        image: ${image}
-        ports:
-        - containerPort: ${port || 8080}
-          name: http
-        env:
-        - name: NODE_ENV
-          value: "production"
-        resources:
-          requests:
-            memory: "256Mi"
-            cpu: "200m"
-          limits:
-            memory: "1Gi"
-            cpu: "1000m"
-        livenessProbe:
-          httpGet:
-            path: /health
-            port: ${port || 8080}
-          initialDelaySeconds: 30
-          periodSeconds: 10
-        readinessProbe:
-          httpGet:
-            path: /health
-            port: ${port || 8080}
-          initialDelaySeconds: 5
-          periodSeconds: 5`;
-  };
-
-  const generateBackendService = (manifest: ManifestConfig) => {
-    const { port, serviceType } = manifest.config;
-    return `apiVersion: v1
-kind: Service
-metadata:
-  name: backend
-  namespace: ${config.namespace}
-  labels:
-    app: backend
-    component: backend
-spec:
-  type: ${serviceType || 'ClusterIP'}
-  ports:
-  - port: ${port || 8080}
-    targetPort: ${port || 8080}
-    protocol: TCP
-    name: http
-  selector:
-    app: backend
-    component: backend`;
-  };
-
-  const generateSecrets = (manifest: ManifestConfig) => {
-    const { name, data } = manifest.config;
-    return `apiVersion: v1
-kind: Secret
-metadata:
-  name: ${name || 'app-secrets'}
-  namespace: ${config.namespace}
-  labels:
-    managed-by: iac-generator
-type: Opaque
-data:
-${Object.entries(data || {}).map(([key, value]) => 
-  `  ${key}: ${encodeToBase64(value as string)}`
-).join('\n')}`;
-  };
-
-  const generateIngress = (manifest: ManifestConfig) => {
-    const { domain, enableSSL } = manifest.config;
-    return `apiVersion: networking.k8s.io/v1
-kind: Ingress
-metadata:
-  name: app-ingress
-  namespace: ${config.namespace}
-  labels:
-    managed-by: iac-generator
-  annotations:
-    nginx.ingress.kubernetes.io/rewrite-target: /
-spec:
-  ingressClassName: nginx
-  rules:
-  - host: ${domain || 'example.com'}
-    http:
-      paths:
-      # Backend API routes
-      - path: /api
-        pathType: Prefix
-        backend:
-          service:
-            name: backend
-            port:
-              number: 8080
-      # Frontend static files (must be last)
-      - path: /
-        pathType: Prefix
-        backend:
-          service:
-            name: frontend
-            port:
-              number: 80${enableSSL ? `
-  tls:
-  - hosts:
-    - ${domain || 'example.com'}
-    secretName: app-tls-secret` : ''}`;
-  };
-
-  const generateDbInitJob = (manifest: ManifestConfig) => {
-    const { image, command, restartPolicy } = manifest.config;
-    return `apiVersion: batch/v1
-kind: Job
-metadata:
-  name: db-init-job
-  namespace: ${config.namespace}
-  labels:
-    managed-by: iac-generator
-spec:
-  template:
-    spec:
-      containers:
-      - name: postgres-client
-        image: ${image || 'postgres:15'}
-        env:
-        - name: PGHOST
-          value: "127.0.0.1"
-        - name: PGPORT
-          value: "5432"
-        - name: PGDATABASE
-          valueFrom:
-            secretKeyRef:
-              name: db-credentials
-              key: DB_NAME
-        - name: PGUSER
-          valueFrom:
-            secretKeyRef:
-              name: db-credentials
-              key: DB_USER
-        - name: PGPASSWORD
-          valueFrom:
-            secretKeyRef:
-              name: db-credentials
-              key: DB_PASSWORD
-        command:
-        - /bin/bash
-        - -c
-        - |
-          echo "Waiting for database connection..."
-          until psql -c '\\q'; do
-            echo "PostgreSQL is unavailable - sleeping"
-            sleep 1
-          done
-          
-          echo "PostgreSQL is up - executing commands"
-          ${command || 'psql -c "CREATE DATABASE IF NOT EXISTS myapp;"'}
-          
-      # Cloud SQL Proxy sidecar
-      - name: cloudsql-proxy
-        image: gcr.io/cloud-sql-connectors/cloud-sql-proxy:2.8.0
-        args:
-          - "--structured-logs"
-          - "--port=5432"
-          - "--private-ip"
-          - "$(INSTANCE_CONNECTION_NAME)"
-        env:
-        - name: INSTANCE_CONNECTION_NAME
-          valueFrom:
-            secretKeyRef:
-              name: db-credentials
-              key: INSTANCE_CONNECTION_NAME
-        - name: GOOGLE_APPLICATION_CREDENTIALS
-          value: /secrets/service-account.json
-        volumeMounts:
-        - name: cloudsql-key
-          mountPath: /secrets
-          readOnly: true
-      
-      volumes:
-      - name: cloudsql-key
-        secret:
-          secretName: cloudsql-key
-      
-      restartPolicy: ${restartPolicy || 'Never'}
-  backoffLimit: 4`;
-  };
-
-  // Generate files based on enabled manifests
-  const files: { name: string; content: string; type: string }[] = [];
-  
-  // Always include namespace
-  files.push({ name: 'namespace.yaml', content: generateNamespace(), type: 'namespace' });
-
-  // Add files for each enabled manifest
-  config.manifests.filter(m => m.enabled).forEach(manifest => {
-    switch (manifest.type) {
-      case 'frontend':
-        files.push(
-          { name: 'frontend-deployment.yaml', content: generateFrontendDeployment(manifest), type: 'frontend' },
-          { name: 'frontend-service.yaml', content: generateFrontendService(manifest), type: 'frontend' }
-        );
-        break;
-      case 'backend':
-        files.push(
-          { name: 'backend-deployment.yaml', content: generateBackendDeployment(manifest), type: 'backend' },
-          { name: 'backend-service.yaml', content: generateBackendService(manifest), type: 'backend' }
-        );
-        break;
-      case 'secrets':
-        files.push({ name: 'secrets.yaml', content: generateSecrets(manifest), type: 'secrets' });
-        break;
-      case 'ingress':
-        files.push({ name: 'ingress.yaml', content: generateIngress(manifest), type: 'ingress' });
-        break;
-      case 'db-init-job':
-        files.push({ name: 'db-init-job.yaml', content: generateDbInitJob(manifest), type: 'db-init-job' });
-        break;
-    }
-  });
+  const files = generateK8sManifests(config).map(file => ({
+    name: file.path.replace(/^k8s\//, ''),
+    content: file.content,
+    type: file.source
+  }));
+  const enabledWorkloads = config.workloads.filter(w => w.enabled);
+  const enabledManifests = config.manifests.filter(m => m.enabled);
 
   const [activeFile, setActiveFile] = React.useState(0);
 
@@ -382,9 +44,9 @@ spec:
   const getFileTypeColor = (type: string) => {
     const colors: Record<string, string> = {
       'namespace': 'bg-gray-100 text-gray-800',
-      'frontend': 'bg-blue-100 text-blue-800',
-      'backend': 'bg-green-100 text-green-800',
+      'workload': 'bg-blue-100 text-blue-800',
       'secrets': 'bg-yellow-100 text-yellow-800',
+      'configmap': 'bg-teal-100 text-teal-800',
       'ingress': 'bg-purple-100 text-purple-800',
       'db-init-job': 'bg-indigo-100 text-indigo-800'
     };
@@ -394,9 +56,9 @@ spec:
   const getFileTypeIcon = (type: string) => {
     const icons: Record<string, string> = {
       'namespace': '📁',
-      'frontend': '🌐',
-      'backend': '⚙️',
+      'workload': '⚙️',
       'secrets': '🔐',
+      'configmap': '🧾',
       'ingress': '🌍',
       'db-init-job': '🗄️'
     };
@@ -416,7 +78,16 @@ spec:
       <div className="mb-6 p-4 bg-purple-50 border border-purple-200 rounded-lg">
         <h3 className="font-semibold text-purple-900 mb-2">📦 Selected Manifests for Deployment</h3>
         <div className="flex flex-wrap gap-2">
-          {config.manifests.filter(m => m.enabled).map(manifest => (
+          {enabledWorkloads.map(workload => (
+            <span
+              key={workload.name}
+              className={`inline-flex items-center space-x-1 px-3 py-1 rounded-full text-sm font-medium ${getFileTypeColor('workload')}`}
+            >
+              <span>{getFileTypeIcon('workload')}</span>
+              <span>{workload.name}</span>
+            </span>
+          ))}
+          {enabledManifests.map(manifest => (
             <span
               key={manifest.type}
               className={`inline-flex items-center space-x-1 px-3 py-1 rounded-full text-sm font-medium ${getFileTypeColor(manifest.type)}`}
@@ -425,7 +96,7 @@ spec:
               <span className="capitalize">{manifest.type.replace('-', ' ')}</span>
             </span>
           ))}
-          {config.manifests.filter(m => m.enabled).length === 0 && (
+          {enabledWorkloads.length === 0 && enabledManifests.length === 0 && (
             <span className="text-purple-700">No manifests selected</span>
           )}
         </div>
@@ -495,7 +166,7 @@ spec:
           </div>
           <h3 className="text-lg font-medium text-gray-900 mb-2">No Application Manifests Selected</h3>
           <p className="text-gray-600 mb-4">
-            Go back to configuration and select at least one manifest type to deploy.
+            Go back to configuration and add a workload or select a manifest type to deploy.
           </p>
           <button
             onClick={onBack}
@@ -515,19 +186,19 @@ spec:
             <h3 className="font-semibold text-blue-900 mb-2">📋 Deployment Order</h3>
             <div className="text-sm text-blue-800 space-y-1">
               <p><strong>1. Namespace:</strong> Create isolated environment</p>
-              {config.manifests.find(m => m.enabled && m.type === 'secrets') && (
+              {enabledManifests.some(m => m.type === 'secrets') && (
                 <p><strong>2. Secrets:</strong> Environment variables and credentials</p>
               )}
-              {config.manifests.find(m => m.enabled && m.type === 'db-init-job') && (
-                <p><strong>3. DB Init Job:</strong> Database initialization</p>
+              {enabledManifests.some(m => m.type === 'configmap') && (
+                <p><strong>3. ConfigMap:</strong> Settings and config files</p>
               )}
-              {config.manifests.find(m => m.enabled && m.type === 'backend') && (
-                <p><strong>4. Backend:</strong> API services and deployments</p>
+              {enabledManifests.some(m => m.type === 'db-init-job') && (
+                <p><strong>4. DB Init Job:</strong> Database initialization</p>
               )}
-              {config.manifests.find(m => m.enabled && m.type === 'frontend') && (
-                <p><strong>5. Frontend:</strong> Web application and services</p>
+              {enabledWorkloads.length > 0 && (
+                <p><strong>5. Workloads:</strong> {enabledWorkloads.map(w => w.name).join(', ')}</p>
               )}
-              {config.manifests.find(m => m.enabled && m.type === 'ingress') && (
+              {enabledManifests.some(m => m.type === 'ingress') && (
                 <p><strong>6. Ingress:</strong> External routing and SSL</p>
               )}
             </div>
@@ -537,7 +208,20 @@ spec:
           <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
             <h3 className="font-semibold text-green-900 mb-2">🚀 Manifest Features</h3>
             <div className="text-sm space-y-2">
-              {config.manifests.filter(m => m.enabled).map(manifest => (
+              {enabledWorkloads.map(workload => (
+                <div key={workload.name} className="flex items-center space-x-2">
+                  <div className="w-2 h-2 bg-green-500 rounded-full"></div>
+                  <span className="text-green-800">
+                    {workload.name}: {workload.autoscaling.enabled
+                      ? `${workload.autoscaling.minReplicas}-${workload.autoscaling.maxReplicas} replicas (autoscaled)`
+                      : `${workload.replicas} replica(s)`}
+                    {workload.serviceType !== 'None' ? `, ${workload.serviceType} Service` : ''}
+                    {workload.disruptionBudget.enabled ? ', disruption budget' : ''}
+                    {workload.volumes.length > 0 ? `, ${workload.volumes.length} volume(s)` : ''}
+                  </span>
+                </div>
+              ))}
+              {enabledManifests.map(manifest => (
                 <div key={manifest.type} className="flex items-center space-x-2">
                   <div className="w-2 h-2 bg-green-500 rounded-full"></div>
                   <span className="text-green-800 capitalize">
@@ -565,7 +249,7 @@ spec:
           <div className="text-sm text-yellow-800 space-y-2">
             <p><strong>1. Connect to your GKE cluster:</strong></p>
             <code className="block bg-yellow-100 p-2 rounded text-xs font-mono">
-              gcloud container clusters get-credentials {config.clusterName} --region {config.region} --project {config.projectId}
+              gcloud container clusters get-credentials {config.clusterName} {getClusterLocationFlag(config)} --project {config.projectId}
             </code>
             
             <p><strong>2. Apply manifests in order:</strong></p>
@@ -3,21 +3,7 @@ import { ArrowLeft, Play, RefreshCw, ExternalLink, CheckCircle, XCircle, Clock,
 import { GitHubService } from '../utils/githubApi';
 import { useBasicAuth } from '../contexts/BasicAuthContext';
 import AuthModal from './auth/AuthModal';
-
-interface K8sConfig {
-  projectId: string;
-  clusterName: string;
-  region: string;
-  zone: string;
-  namespace: string;
-  manifests: ManifestConfig[];
-}
-
-interface ManifestConfig {
-  type: 'frontend' | 'backend' | 'secrets' | 'ingress' | 'db-init-job';
-  enabled: boolean;
-  config: Record<string, any>;
-}
+import { K8sConfig, getSelectedManifestNames } from '../utils/k8sGenerator';
 
 interface GitHubConfig {
   token: string;
@@ -177,7 +163,6 @@ const K8sWorkflowStatus: React.FC<K8sWorkflowStatusProps> = ({
         cluster_name: k8sConfig.clusterName,
         region: k8sConfig.region,
         zone: k8sConfig.zone,
-        namespace: k8sConfig.namespace,
       };
 
       // Trigger the workflow
@@ -286,8 +271,8 @@ const K8sWorkflowStatus: React.FC<K8sWorkflowStatusProps> = ({
     }
   };
 
-  const enabledManifests = k8sConfig.manifests.filter(m => m.enabled);
-  const manifestTypes = enabledManifests.map(m => m.type).join(', ');
+  const selectedManifests = getSelectedManifestNames(k8sConfig);
+  const manifestTypes = selectedManifests.join(', ');
 
   return (
     <div className="p-6">
@@ -335,10 +320,10 @@ const K8sWorkflowStatus: React.FC<K8sWorkflowStatusProps> = ({
             <div className="bg-purple-50 p-4 rounded-lg mb-4">
               <h4 className="font-medium text-purple-800 mb-2">Selected Manifests</h4>
               <div className="text-sm text-purple-700 space-y-1">
-                <p><strong>Count:</strong> {enabledManifests.length} manifest(s)</p>
+                <p><strong>Count:</strong> {selectedManifests.length} manifest(s)</p>
                 <p><strong>Types:</strong> {manifestTypes || 'None selected'}</p>
-                {enabledManifests.map(manifest => (
-                  <p key={manifest.type}>• {manifest.type.replace('-', ' ')}</p>
+                {selectedManifests.map(name => (
+                  <p key={name}>• {name}</p>
                 ))}
               </div>
             </div>
@@ -0,0 +1,202 @@
+import React from 'react';
+import { Plus, Minus } from 'lucide-react';
+import {
+  MAINTENANCE_DAYS,
+  MaintenanceConfig,
+  MaintenanceDay,
+  MaintenanceExclusion,
+  MaintenanceExclusionScope,
+  ReleaseChannel,
+  TerraformConfig,
+  isAutopilot,
+  validateMaintenance
+} from '../utils/terraformGenerator';
+
+interface MaintenanceSettingsProps {
+  config: TerraformConfig;
+  onChange: (maintenance: MaintenanceConfig) => void;
+}
+
+const releaseChannels: { value: ReleaseChannel; label: string }[] = [
+  { value: 'RAPID', label: 'Rapid (newest features, least tested)' },
+  { value: 'REGULAR', label: 'Regular (balanced, GKE default)' },
+  { value: 'STABLE', label: 'Stable (most tested, slowest to update)' },
+  { value: 'UNSPECIFIED', label: 'None (manage versions yourself)' }
+];
+
+const exclusionScopes: { value: MaintenanceExclusionScope; label: string }[] = [
+  { value: 'NO_UPGRADES', label: 'No upgrades (max 30 days)' },
+  { value: 'NO_MINOR_UPGRADES', label: 'No minor upgrades' },
+  { value: 'NO_MINOR_OR_NODE_UPGRADES', label: 'No minor or node upgrades' }
+];
+
+const MaintenanceSettings: React.FC<MaintenanceSettingsProps> = ({ config, onChange }) => {
+  const { maintenance } = config;
+
+  const handleChange = <K extends keyof MaintenanceConfig>(field: K, value: MaintenanceConfig[K]) => {
+    onChange({ ...maintenance, [field]: value });
+  };
+
+  const updateExclusion = (index: number, changes: Partial<MaintenanceExclusion>) => {
+    handleChange('exclusions', maintenance.exclusions.map((exclusion, i) => (
+      i === index ? { ...exclusion, ...changes } : exclusion
+    )));
+  };
+
+  const toggleDay = (day: MaintenanceDay) => {
+    handleChange('windowDays', maintenance.windowDays.includes(day)
+      ? maintenance.windowDays.filter(d => d !== day)
+      : [...maintenance.windowDays, day]);
+  };
+
+  const errors = validateMaintenance(config);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Release Channel
+            </label>
+            <select
+              value={maintenance.releaseChannel}
+              onChange={(e) => handleChange('releaseChannel', e.target.value as ReleaseChannel)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {releaseChannels
+                .filter(channel => !isAutopilot(config) || channel.value !== 'UNSPECIFIED')
+                .map(channel => (
+                  <option key={channel.value} value={channel.value}>{channel.label}</option>
+                ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">Enrolled clusters and nodes are upgraded automatically to the channel's versions</p>
+          </div>
+
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={maintenance.enableWindow}
+              onChange={(e) => handleChange('enableWindow', e.target.checked)}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            />
+            <span className="text-sm text-gray-700">Only upgrade inside a recurring maintenance window</span>
+          </label>
+        </div>
+
+        {maintenance.enableWindow && (
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Maintenance Days</label>
+              <div className="flex flex-wrap gap-2">
+                {MAINTENANCE_DAYS.map(day => (
+                  <button
+                    key={day}
+                    type="button"
+                    onClick={() => toggleDay(day)}
+                    className={`px-3 py-1 text-sm rounded-md border transition-colors ${
+                      maintenance.windowDays.includes(day)
+                        ? 'border-blue-500 bg-blue-50 text-blue-700'
+                        : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+                    }`}
+                  >
+                    {day}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Start (UTC)</label>
+                <input
+                  type="time"
+                  value={maintenance.windowStartTime}
+                  onChange={(e) => handleChange('windowStartTime', e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Duration (hours)</label>
+                <input
+                  type="number"
+                  min="4"
+                  max="24"
+                  value={maintenance.windowDurationHours}
+                  onChange={(e) => handleChange('windowDurationHours', parseInt(e.target.value))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Maintenance Exclusions */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Maintenance Exclusions</label>
+        <p className="text-xs text-gray-500 mb-2">Block upgrades during release freezes or peak traffic</p>
+        <div className="space-y-2">
+          {maintenance.exclusions.map((exclusion, index) => (
+            <div key={index} className="flex space-x-2">
+              <input
+                type="text"
+                value={exclusion.name}
+                onChange={(e) => updateExclusion(index, { name: e.target.value })}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="holiday-freeze"
+              />
+              <input
+                type="date"
+                value={exclusion.startDate}
+                onChange={(e) => updateExclusion(index, { startDate: e.target.value })}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <input
+                type="date"
+                value={exclusion.endDate}
+                onChange={(e) => updateExclusion(index, { endDate: e.target.value })}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <select
+                value={exclusion.scope}
+                onChange={(e) => updateExclusion(index, { scope: e.target.value as MaintenanceExclusionScope })}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {exclusionScopes.map(scope => (
+                  <option key={scope.value} value={scope.value}>{scope.label}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => handleChange('exclusions', maintenance.exclusions.filter((_, i) => i !== index))}
+                className="p-2 text-red-600 hover:bg-red-50 rounded-md"
+              >
+                <Minus className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => handleChange('exclusions', [
+              ...maintenance.exclusions,
+              { name: '', startDate: '', endDate: '', scope: 'NO_MINOR_UPGRADES' }
+            ])}
+            className="flex items-center space-x-2 px-3 py-2 text-blue-600 hover:bg-blue-50 rounded-md text-sm"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add Exclusion</span>
+          </button>
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-600 space-y-0.5">
+          {errors.map(error => (
+            <li key={error}>• {error}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default MaintenanceSettings;
@@ -0,0 +1,187 @@
+import React from 'react';
+import { Plus, Minus } from 'lucide-react';
+import { NetworkConfig, validateNetwork } from '../utils/terraformGenerator';
+
+interface NetworkSettingsProps {
+  network: NetworkConfig;
+  onChange: (network: NetworkConfig) => void;
+}
+
+const NetworkSettings: React.FC<NetworkSettingsProps> = ({ network, onChange }) => {
+  const handleChange = <K extends keyof NetworkConfig>(field: K, value: NetworkConfig[K]) => {
+    onChange({ ...network, [field]: value });
+  };
+
+  const errors = validateNetwork(network);
+
+  const rangeFields: { field: 'subnetCidr' | 'podsCidr' | 'servicesCidr'; label: string; placeholder: string }[] = [
+    { field: 'subnetCidr', label: 'Node Subnet Range', placeholder: '10.0.0.0/20' },
+    { field: 'podsCidr', label: 'Pods Secondary Range', placeholder: '10.4.0.0/14' },
+    { field: 'servicesCidr', label: 'Services Secondary Range', placeholder: '10.8.0.0/20' }
+  ];
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-center space-x-2">
+        <input
+          type="checkbox"
+          checked={network.createVpc}
+          onChange={(e) => handleChange('createVpc', e.target.checked)}
+          className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+        />
+        <span className="text-sm text-gray-700">Create a dedicated VPC (otherwise the project's default network is used)</span>
+      </label>
+
+      {network.createVpc && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Network Name
+              </label>
+              <input
+                type="text"
+                value={network.networkName}
+                onChange={(e) => handleChange('networkName', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                placeholder="gke-network"
+              />
+            </div>
+
+            {rangeFields.map(range => (
+              <div key={range.field}>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {range.label}
+                </label>
+                <input
+                  type="text"
+                  value={network[range.field]}
+                  onChange={(e) => handleChange(range.field, e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm"
+                  placeholder={range.placeholder}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-4">
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={network.enableCloudNat}
+                onChange={(e) => handleChange('enableCloudNat', e.target.checked)}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <span className="text-sm text-gray-700">Cloud Router + Cloud NAT for outbound traffic</span>
+            </label>
+
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={network.privateNodes}
+                onChange={(e) => onChange({
+                  ...network,
+                  privateNodes: e.target.checked,
+                  privateEndpoint: e.target.checked && network.privateEndpoint
+                })}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <span className="text-sm text-gray-700">Private nodes (internal IPs only)</span>
+            </label>
+
+            {network.privateNodes && (
+              <>
+                {!network.enableCloudNat && (
+                  <p className="text-xs text-yellow-700 bg-yellow-50 p-2 rounded">
+                    Private nodes without Cloud NAT cannot pull images from outside Google Cloud
+                  </p>
+                )}
+
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={network.privateEndpoint}
+                    onChange={(e) => handleChange('privateEndpoint', e.target.checked)}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <span className="text-sm text-gray-700">Private control plane endpoint</span>
+                </label>
+                {network.privateEndpoint && (
+                  <p className="text-xs text-yellow-700 bg-yellow-50 p-2 rounded">
+                    GitHub-hosted runners cannot reach a private endpoint; use a self-hosted runner inside the VPC for kubectl steps
+                  </p>
+                )}
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Control Plane Range (/28)
+                  </label>
+                  <input
+                    type="text"
+                    value={network.masterIpv4Cidr}
+                    onChange={(e) => handleChange('masterIpv4Cidr', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm"
+                    placeholder="172.16.0.0/28"
+                  />
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Master Authorized Networks */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Master Authorized Networks</label>
+        <p className="text-xs text-gray-500 mb-2">Leave empty to allow any address to reach the control plane</p>
+        <div className="space-y-2">
+          {network.masterAuthorizedNetworks.map((authorized, index) => (
+            <div key={index} className="flex space-x-2">
+              <input
+                type="text"
+                value={authorized.name}
+                onChange={(e) => handleChange('masterAuthorizedNetworks', network.masterAuthorizedNetworks.map((n, i) => (
+                  i === index ? { ...n, name: e.target.value } : n
+                )))}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="office"
+              />
+              <input
+                type="text"
+                value={authorized.cidr}
+                onChange={(e) => handleChange('masterAuthorizedNetworks', network.masterAuthorizedNetworks.map((n, i) => (
+                  i === index ? { ...n, cidr: e.target.value } : n
+                )))}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+                placeholder="203.0.113.0/24"
+              />
+              <button
+                onClick={() => handleChange('masterAuthorizedNetworks', network.masterAuthorizedNetworks.filter((_, i) => i !== index))}
+                className="p-2 text-red-600 hover:bg-red-50 rounded-md"
+              >
+                <Minus className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => handleChange('masterAuthorizedNetworks', [...network.masterAuthorizedNetworks, { name: '', cidr: '' }])}
+            className="flex items-center space-x-2 px-3 py-2 text-blue-600 hover:bg-blue-50 rounded-md text-sm"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add Authorized Network</span>
+          </button>
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-600 space-y-0.5">
+          {errors.map(error => (
+            <li key={error}>• {error}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default NetworkSettings;
@@ -0,0 +1,462 @@
+import React from 'react';
+import { Plus, Minus, Trash2 } from 'lucide-react';
+import { CloudProvider, NodePoolConfig, NodeTaintEffect, validateNodePool } from '../utils/terraformGenerator';
+import { defaultAksNodePool, defaultAwsNodeGroup, defaultNodePool } from '../utils/storage';
+
+interface NodePoolSettingsProps {
+  pools: NodePoolConfig[];
+  machineTypes: string[];
+  onChange: (pools: NodePoolConfig[]) => void;
+  provider?: CloudProvider;
+}
+
+const gkePoolPresets: { label: string; pool: NodePoolConfig }[] = [
+  {
+    label: 'General',
+    pool: { ...defaultNodePool, name: 'general' }
+  },
+  {
+    label: 'Spot',
+    pool: {
+      ...defaultNodePool,
+      name: 'spot',
+      spot: true,
+      enableAutoscaling: true,
+      minNodes: 0,
+      maxNodes: 5,
+      locationPolicy: 'ANY',
+      labels: { 'workload-type': 'spot' },
+      taints: [{ key: 'cloud.google.com/gke-spot', value: 'true', effect: 'NO_SCHEDULE' }]
+    }
+  },
+  {
+    label: 'High-memory',
+    pool: {
+      ...defaultNodePool,
+      name: 'highmem',
+      machineType: 'e2-highmem-4',
+      diskType: 'pd-balanced',
+      nodeCount: 1,
+      labels: { 'workload-type': 'highmem' }
+    }
+  }
+];
+
+const eksPoolPresets: { label: string; pool: NodePoolConfig }[] = [
+  {
+    label: 'General',
+    pool: { ...defaultAwsNodeGroup, name: 'general' }
+  },
+  {
+    label: 'Spot',
+    pool: {
+      ...defaultAwsNodeGroup,
+      name: 'spot',
+      spot: true,
+      minNodes: 0,
+      maxNodes: 5,
+      labels: { 'workload-type': 'spot' },
+      taints: [{ key: 'spot', value: 'true', effect: 'NO_SCHEDULE' }]
+    }
+  },
+  {
+    label: 'Memory-optimized',
+    pool: {
+      ...defaultAwsNodeGroup,
+      name: 'highmem',
+      machineType: 'r6i.large',
+      labels: { 'workload-type': 'highmem' }
+    }
+  }
+];
+
+// AKS taints spot pools itself, see aksGenerator
+const aksPoolPresets: { label: string; pool: NodePoolConfig }[] = [
+  {
+    label: 'User',
+    pool: { ...defaultAksNodePool, name: 'user' }
+  },
+  {
+    label: 'Spot',
+    pool: {
+      ...defaultAksNodePool,
+      name: 'spot',
+      spot: true,
+      minNodes: 0,
+      maxNodes: 5,
+      labels: { 'workload-type': 'spot' }
+    }
+  },
+  {
+    label: 'High-memory',
+    pool: {
+      ...defaultAksNodePool,
+      name: 'highmem',
+      machineType: 'Standard_E4s_v5',
+      labels: { 'workload-type': 'highmem' }
+    }
+  }
+];
+
+const poolPresets: Record<CloudProvider, { label: string; pool: NodePoolConfig }[]> = {
+  gcp: gkePoolPresets,
+  aws: eksPoolPresets,
+  azure: aksPoolPresets
+};
+
+const taintEffects: NodeTaintEffect[] = ['NO_SCHEDULE', 'PREFER_NO_SCHEDULE', 'NO_EXECUTE'];
+
+const NodePoolSettings: React.FC<NodePoolSettingsProps> = ({ pools, machineTypes, onChange, provider = 'gcp' }) => {
+  const gke = provider === 'gcp';
+  // GKE sizes pools per zone; EKS node groups and AKS pools are sized as a whole
+  const sizeSuffix = gke ? ' (per zone)' : '';
+
+  const updatePool = (index: number, changes: Partial<NodePoolConfig>) => {
+    onChange(pools.map((pool, i) => (i === index ? { ...pool, ...changes } : pool)));
+  };
+
+  const addPool = (preset: NodePoolConfig) => {
+    // Suffix the preset name until it no longer collides with an existing pool;
+    // AKS pool names cannot contain hyphens
+    let name = preset.name;
+    for (let suffix = 2; pools.some(pool => pool.name === name); suffix++) {
+      name = provider === 'azure' ? `${preset.name}${suffix}` : `${preset.name}-${suffix}`;
+    }
+    onChange([...pools, { ...preset, name }]);
+  };
+
+  const removePool = (index: number) => {
+    onChange(pools.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-4">
+      {pools.map((pool, index) => {
+        const errors = validateNodePool(pool, pools, provider);
+
+        return (
+          <div key={index} className="p-4 border border-gray-200 rounded-lg bg-gray-50 space-y-4">
+            <div className="flex items-center justify-between">
+              <h4 className="font-semibold text-gray-800">
+                {pool.name || 'unnamed'}
+                {provider === 'azure' && index === 0 && <span className="ml-1 text-xs px-2 py-0.5 bg-blue-100 text-blue-700 rounded">system</span>}
+                {pool.spot && <span className="ml-1 text-xs px-2 py-0.5 bg-orange-100 text-orange-700 rounded">spot</span>}
+              </h4>
+              <button
+                onClick={() => removePool(index)}
+                disabled={pools.length === 1}
+                className={`p-2 rounded-md ${
+                  pools.length === 1 ? 'text-gray-300 cursor-not-allowed' : 'text-red-600 hover:bg-red-50'
+                }`}
+                title={pools.length === 1 ? 'A cluster needs at least one node pool' : 'Remove node pool'}
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Pool Name</label>
+                <input
+                  type="text"
+                  value={pool.name}
+                  onChange={(e) => updatePool(index, { name: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="general"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Machine Type</label>
+                <select
+                  value={pool.machineType}
+                  onChange={(e) => updatePool(index, { machineType: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {(machineTypes.includes(pool.machineType) ? machineTypes : [pool.machineType, ...machineTypes]).map(type => (
+                    <option key={type} value={type}>{type}</option>
+                  ))}
+                </select>
+              </div>
+
+              {gke && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Disk Type</label>
+                  <select
+                    value={pool.diskType}
+                    onChange={(e) => updatePool(index, { diskType: e.target.value as NodePoolConfig['diskType'] })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="pd-standard">pd-standard (no SSD quota)</option>
+                    <option value="pd-balanced">pd-balanced</option>
+                    <option value="pd-ssd">pd-ssd</option>
+                  </select>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Disk Size (GB)</label>
+                <input
+                  type="number"
+                  min="10"
+                  max="1000"
+                  value={pool.diskSize}
+                  onChange={(e) => updatePool(index, { diskSize: parseInt(e.target.value) })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-6">
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={pool.spot}
+                  onChange={(e) => updatePool(index, { spot: e.target.checked })}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <span className="text-sm font-medium text-gray-700">{provider === 'aws' ? 'Spot Instances' : 'Spot VMs'}</span>
+              </label>
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={pool.enableAutoscaling}
+                  onChange={(e) => updatePool(index, { enableAutoscaling: e.target.checked })}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <span className="text-sm font-medium text-gray-700">Enable Autoscaling</span>
+              </label>
+            </div>
+
+            {pool.enableAutoscaling ? (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Min Nodes{sizeSuffix}</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max={pool.maxNodes}
+                    value={pool.minNodes}
+                    onChange={(e) => updatePool(index, { minNodes: parseInt(e.target.value) })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Max Nodes{sizeSuffix}</label>
+                  <input
+                    type="number"
+                    min={Math.max(1, pool.minNodes)}
+                    max="100"
+                    value={pool.maxNodes}
+                    onChange={(e) => updatePool(index, { maxNodes: parseInt(e.target.value) })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                {gke && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Location Policy</label>
+                    <select
+                      value={pool.locationPolicy}
+                      onChange={(e) => updatePool(index, { locationPolicy: e.target.value as NodePoolConfig['locationPolicy'] })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="BALANCED">BALANCED</option>
+                      <option value="ANY">ANY</option>
+                    </select>
+                  </div>
+                )}
+              </div>
+            ) : (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Node Count{sizeSuffix}</label>
+                <input
+                  type="number"
+                  min="1"
+                  max="100"
+                  value={pool.nodeCount}
+                  onChange={(e) => updatePool(index, { nodeCount: parseInt(e.target.value) })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+            )}
+
+            {/* Upgrades */}
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+              {gke && (
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={pool.autoRepair}
+                    onChange={(e) => updatePool(index, { autoRepair: e.target.checked })}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <span className="text-sm font-medium text-gray-700">Auto-repair</span>
+                </label>
+              )}
+              {gke && (
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={pool.autoUpgrade}
+                    onChange={(e) => updatePool(index, { autoUpgrade: e.target.checked })}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <span className="text-sm font-medium text-gray-700">Auto-upgrade</span>
+                </label>
+              )}
+              {provider !== 'aws' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Max Surge</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="20"
+                    value={pool.maxSurge}
+                    onChange={(e) => updatePool(index, { maxSurge: parseInt(e.target.value) })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              )}
+              {provider !== 'azure' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Max Unavailable</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="20"
+                    value={pool.maxUnavailable}
+                    onChange={(e) => updatePool(index, { maxUnavailable: parseInt(e.target.value) })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              )}
+            </div>
+
+            {/* Labels */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Node Labels</label>
+              <div className="space-y-2">
+                {Object.entries(pool.labels).map(([key, value], labelIndex) => (
+                  <div key={labelIndex} className="flex space-x-2">
+                    <input
+                      type="text"
+                      value={key}
+                      onChange={(e) => {
+                        const labels = { ...pool.labels };
+                        delete labels[key];
+                        labels[e.target.value] = value;
+                        updatePool(index, { labels });
+                      }}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="key"
+                    />
+                    <input
+                      type="text"
+                      value={value}
+                      onChange={(e) => updatePool(index, { labels: { ...pool.labels, [key]: e.target.value } })}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="value"
+                    />
+                    <button
+                      onClick={() => {
+                        const labels = { ...pool.labels };
+                        delete labels[key];
+                        updatePool(index, { labels });
+                      }}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-md"
+                    >
+                      <Minus className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() => updatePool(index, { labels: { ...pool.labels, [`label-${Date.now()}`]: '' } })}
+                  className="flex items-center space-x-2 px-3 py-2 text-blue-600 hover:bg-blue-50 rounded-md text-sm"
+                >
+                  <Plus className="h-4 w-4" />
+                  <span>Add Label</span>
+                </button>
+              </div>
+            </div>
+
+            {/* Taints */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Node Taints</label>
+              <div className="space-y-2">
+                {pool.taints.map((taint, taintIndex) => (
+                  <div key={taintIndex} className="flex space-x-2">
+                    <input
+                      type="text"
+                      value={taint.key}
+                      onChange={(e) => updatePool(index, {
+                        taints: pool.taints.map((t, i) => (i === taintIndex ? { ...t, key: e.target.value } : t))
+                      })}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="key"
+                    />
+                    <input
+                      type="text"
+                      value={taint.value}
+                      onChange={(e) => updatePool(index, {
+                        taints: pool.taints.map((t, i) => (i === taintIndex ? { ...t, value: e.target.value } : t))
+                      })}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="value"
+                    />
+                    <select
+                      value={taint.effect}
+                      onChange={(e) => updatePool(index, {
+                        taints: pool.taints.map((t, i) => (i === taintIndex ? { ...t, effect: e.target.value as NodeTaintEffect } : t))
+                      })}
+                      className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {taintEffects.map(effect => (
+                        <option key={effect} value={effect}>{effect}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => updatePool(index, { taints: pool.taints.filter((_, i) => i !== taintIndex) })}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-md"
+                    >
+                      <Minus className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() => updatePool(index, { taints: [...pool.taints, { key: '', value: '', effect: 'NO_SCHEDULE' }] })}
+                  className="flex items-center space-x-2 px-3 py-2 text-blue-600 hover:bg-blue-50 rounded-md text-sm"
+                >
+                  <Plus className="h-4 w-4" />
+                  <span>Add Taint</span>
+                </button>
+              </div>
+            </div>
+
+            {errors.length > 0 && (
+              <ul className="text-xs text-red-600 space-y-0.5">
+                {errors.map(error => (
+                  <li key={error}>• {error}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex flex-wrap gap-2">
+        {poolPresets[provider].map(preset => (
+          <button
+            key={preset.label}
+            onClick={() => addPool(preset.pool)}
+            className="flex items-center space-x-2 px-3 py-2 border border-blue-300 text-blue-600 hover:bg-blue-50 rounded-md text-sm"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add {preset.label} Pool</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default NodePoolSettings;
@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { AlertTriangle, CheckCircle, ShieldCheck, XCircle } from 'lucide-react';
+import {
+  BUILTIN_POLICY_RULES,
+  EXAMPLE_POLICY_RULES,
+  PolicyConfig,
+  PolicyViolation,
+  parsePolicyRules
+} from '../utils/policyCheck';
+import { TerraformConfig, checkPolicies } from '../utils/terraformGenerator';
+
+interface PolicyChecksProps {
+  config: TerraformConfig;
+  onChange: (policy: PolicyConfig) => void;
+}
+
+const formatRules = (rules: PolicyConfig['customRules']) => (rules.length > 0 ? JSON.stringify(rules, null, 2) : '');
+
+const PolicyChecks: React.FC<PolicyChecksProps> = ({ config, onChange }) => {
+  const { policy } = config;
+  const [rulesText, setRulesText] = useState(() => formatRules(policy.customRules));
+  const [rulesError, setRulesError] = useState('');
+
+  const result = checkPolicies(config);
+  const errors = result.violations.filter(violation => violation.severity === 'error');
+  const warnings = result.violations.filter(violation => violation.severity === 'warning');
+
+  const toggleRule = (id: string, enabled: boolean) => {
+    onChange({
+      ...policy,
+      disabledRules: enabled ? policy.disabledRules.filter(rule => rule !== id) : [...policy.disabledRules, id]
+    });
+  };
+
+  const applyRules = () => {
+    try {
+      const customRules = rulesText.trim() ? parsePolicyRules(rulesText) : [];
+      onChange({ ...policy, customRules });
+      setRulesText(formatRules(customRules));
+      setRulesError('');
+    } catch (e) {
+      setRulesError(e instanceof Error ? e.message : 'The rules could not be parsed');
+    }
+  };
+
+  const renderViolations = (violations: PolicyViolation[], className: string) => (
+    <ul className={`text-xs space-y-0.5 ${className}`}>
+      {violations.map(violation => (
+        <li key={`${violation.ruleId}-${violation.target}`}>
+          • <strong>{violation.target}</strong>: {violation.description} ({violation.message}) <span className="font-mono">[{violation.ruleId}]</span>
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <div className="mt-6 space-y-4">
+      <div className="flex items-center space-x-2 border-b pb-2">
+        <ShieldCheck className="h-5 w-5 text-gray-700" />
+        <h3 className="text-lg font-semibold text-gray-800">Policy Checks</h3>
+      </div>
+
+      {result.violations.length === 0 ? (
+        <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center space-x-2 text-sm text-green-800">
+          <CheckCircle className="h-5 w-5 text-green-600" />
+          <span>All {result.checked} rule(s) pass.</span>
+        </div>
+      ) : (
+        <>
+          {errors.length > 0 && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+              <div className="flex items-start space-x-2">
+                <XCircle className="h-5 w-5 text-red-600 mt-0.5" />
+                <div>
+                  <p className="text-sm font-medium text-red-800 mb-1">
+                    {errors.length} violation(s) block the upload to GitHub
+                  </p>
+                  {renderViolations(errors, 'text-red-600')}
+                </div>
+              </div>
+            </div>
+          )}
+          {warnings.length > 0 && (
+            <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+              <div className="flex items-start space-x-2">
+                <AlertTriangle className="h-5 w-5 text-yellow-600 mt-0.5" />
+                <div>
+                  <p className="text-sm font-medium text-yellow-800 mb-1">{warnings.length} warning(s)</p>
+                  {renderViolations(warnings, 'text-yellow-800')}
+                </div>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      <details className="p-4 border border-gray-200 rounded-lg bg-gray-50">
+        <summary className="text-sm font-medium text-gray-700 cursor-pointer">Rules</summary>
+        <div className="mt-4 space-y-4">
+          <div className="space-y-2">
+            {BUILTIN_POLICY_RULES.map(rule => (
+              <label key={rule.id} className="flex items-start space-x-2">
+                <input
+                  type="checkbox"
+                  checked={!policy.disabledRules.includes(rule.id)}
+                  onChange={(e) => toggleRule(rule.id, e.target.checked)}
+                  className="mt-0.5 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <span className="text-sm text-gray-700">
+                  {rule.description}
+                  <span className={`ml-2 px-1.5 py-0.5 rounded text-xs ${
+                    rule.severity === 'error' ? 'bg-red-100 text-red-700' : 'bg-yellow-100 text-yellow-800'
+                  }`}>
+                    {rule.severity}
+                  </span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Custom Rules (JSON)</label>
+            <textarea
+              value={rulesText}
+              onChange={(e) => setRulesText(e.target.value)}
+              rows={8}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-xs"
+              placeholder={JSON.stringify(EXAMPLE_POLICY_RULES, null, 2)}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Each rule checks <code className="bg-gray-100 px-1 rounded">require</code> on every cluster that matches all of its
+              {' '}<code className="bg-gray-100 px-1 rounded">when</code> conditions, in the same shape as the example. Custom rules are
+              saved with the configuration.
+            </p>
+            {rulesError && (
+              <ul className="text-xs text-red-600 space-y-0.5 mt-2">
+                {rulesError.split('\n').map(error => <li key={error}>• {error}</li>)}
+              </ul>
+            )}
+            <div className="flex items-center space-x-3 mt-2">
+              <button
+                onClick={applyRules}
+                className="px-4 py-2 rounded-md text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+              >
+                Apply Rules
+              </button>
+              {!rulesText.trim() && (
+                <button
+                  onClick={() => setRulesText(formatRules(EXAMPLE_POLICY_RULES))}
+                  className="text-xs text-blue-700 underline hover:text-blue-900"
+                >
+                  Start from the example
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </details>
+    </div>
+  );
+};
+
+export default PolicyChecks;
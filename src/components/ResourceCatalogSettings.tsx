@@ -0,0 +1,413 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  ArtifactRegistryFormat,
+  BucketNodeAccess,
+  CatalogResource,
+  CloudSqlAvailabilityType,
+  CloudSqlDatabaseVersion,
+  MemorystoreTier,
+  MemorystoreVersion,
+  RESOURCE_CATALOG,
+  RESOURCE_KINDS,
+  ResourceKind,
+  StorageClass,
+  createResource,
+  describeNodeAccess,
+  getResourceGcpName
+} from '../utils/resourceCatalog';
+import { TerraformConfig, isMultiEnvironment, resolveEnvironment, validateResources } from '../utils/terraformGenerator';
+
+interface ResourceCatalogSettingsProps {
+  config: TerraformConfig;
+  onChange: (resources: CatalogResource[]) => void;
+}
+
+const defaultNames: Record<ResourceKind, string> = {
+  'cloud-sql': 'db',
+  memorystore: 'cache',
+  'artifact-registry': 'images',
+  'gcs-bucket': 'assets'
+};
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+const checkboxClassName = 'h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded';
+
+const ResourceCatalogSettings: React.FC<ResourceCatalogSettingsProps> = ({ config, onChange }) => {
+  const { resources } = config;
+
+  const updateResource = <R extends CatalogResource>(index: number, changes: Partial<R>) => {
+    onChange(resources.map((resource, i) => (i === index ? { ...resource, ...changes } as CatalogResource : resource)));
+  };
+
+  const addResource = (kind: ResourceKind) => {
+    let name = defaultNames[kind];
+    for (let suffix = 2; resources.some(resource => resource.kind === kind && resource.name === name); suffix++) {
+      name = `${defaultNames[kind]}-${suffix}`;
+    }
+    onChange([...resources, createResource(kind, name)]);
+  };
+
+  const errors = validateResources(config);
+  const multiEnvironment = isMultiEnvironment(config);
+  // Preview names for the first environment; the others follow the same pattern
+  const naming = multiEnvironment ? resolveEnvironment(config, config.multiEnvironment.environments[0]) : config;
+
+  const renderFields = (resource: CatalogResource, index: number) => {
+    switch (resource.kind) {
+      case 'cloud-sql':
+        return (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Database Version</label>
+              <select
+                value={resource.databaseVersion}
+                onChange={(e) => updateResource(index, { databaseVersion: e.target.value as CloudSqlDatabaseVersion })}
+                className={inputClassName}
+              >
+                <option value="POSTGRES_16">PostgreSQL 16</option>
+                <option value="POSTGRES_15">PostgreSQL 15</option>
+                <option value="MYSQL_8_0">MySQL 8.0</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Machine Tier</label>
+              <input
+                type="text"
+                value={resource.tier}
+                onChange={(e) => updateResource(index, { tier: e.target.value })}
+                className={inputClassName}
+                placeholder="db-custom-1-3840"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Availability</label>
+              <select
+                value={resource.availabilityType}
+                onChange={(e) => updateResource(index, { availabilityType: e.target.value as CloudSqlAvailabilityType })}
+                className={inputClassName}
+              >
+                <option value="ZONAL">Zonal (single zone)</option>
+                <option value="REGIONAL">Regional (HA standby)</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Database Name</label>
+              <input
+                type="text"
+                value={resource.databaseName}
+                onChange={(e) => updateResource(index, { databaseName: e.target.value })}
+                className={inputClassName}
+                placeholder="app"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Disk Size (GB)</label>
+              <input
+                type="number"
+                min="10"
+                value={resource.diskSizeGb}
+                onChange={(e) => updateResource(index, { diskSizeGb: parseInt(e.target.value) })}
+                className={inputClassName}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={resource.backupsEnabled}
+                  onChange={(e) => updateResource(index, { backupsEnabled: e.target.checked })}
+                  className={checkboxClassName}
+                />
+                <span className="text-sm text-gray-700">Automated daily backups</span>
+              </label>
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={resource.pointInTimeRecovery}
+                  disabled={!resource.backupsEnabled}
+                  onChange={(e) => updateResource(index, { pointInTimeRecovery: e.target.checked })}
+                  className={checkboxClassName}
+                />
+                <span className="text-sm text-gray-700">Point-in-time recovery</span>
+              </label>
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={resource.deletionProtection}
+                  onChange={(e) => updateResource(index, { deletionProtection: e.target.checked })}
+                  className={checkboxClassName}
+                />
+                <span className="text-sm text-gray-700">Deletion protection</span>
+              </label>
+            </div>
+            {resource.backupsEnabled && (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Backup Start (UTC)</label>
+                  <input
+                    type="time"
+                    value={resource.backupStartTime}
+                    onChange={(e) => updateResource(index, { backupStartTime: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Retained Backups</label>
+                  <input
+                    type="number"
+                    min="1"
+                    max="365"
+                    value={resource.retainedBackups}
+                    onChange={(e) => updateResource(index, { retainedBackups: parseInt(e.target.value) })}
+                    className={inputClassName}
+                  />
+                </div>
+              </>
+            )}
+          </div>
+        );
+
+      case 'memorystore':
+        return (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Tier</label>
+              <select
+                value={resource.tier}
+                onChange={(e) => updateResource(index, { tier: e.target.value as MemorystoreTier })}
+                className={inputClassName}
+              >
+                <option value="BASIC">Basic (no replica)</option>
+                <option value="STANDARD_HA">Standard (replica with failover)</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Memory (GB)</label>
+              <input
+                type="number"
+                min="1"
+                max="300"
+                value={resource.memorySizeGb}
+                onChange={(e) => updateResource(index, { memorySizeGb: parseInt(e.target.value) })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Redis Version</label>
+              <select
+                value={resource.redisVersion}
+                onChange={(e) => updateResource(index, { redisVersion: e.target.value as MemorystoreVersion })}
+                className={inputClassName}
+              >
+                <option value="REDIS_7_2">Redis 7.2</option>
+                <option value="REDIS_7_0">Redis 7.0</option>
+                <option value="REDIS_6_X">Redis 6.x</option>
+              </select>
+            </div>
+            <div className="space-y-2">
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={resource.authEnabled}
+                  onChange={(e) => updateResource(index, { authEnabled: e.target.checked })}
+                  className={checkboxClassName}
+                />
+                <span className="text-sm text-gray-700">Require AUTH string</span>
+              </label>
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={resource.transitEncryption}
+                  onChange={(e) => updateResource(index, { transitEncryption: e.target.checked })}
+                  className={checkboxClassName}
+                />
+                <span className="text-sm text-gray-700">TLS in transit</span>
+              </label>
+            </div>
+          </div>
+        );
+
+      case 'artifact-registry':
+        return (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Format</label>
+              <select
+                value={resource.format}
+                onChange={(e) => updateResource(index, { format: e.target.value as ArtifactRegistryFormat })}
+                className={inputClassName}
+              >
+                <option value="DOCKER">Docker images</option>
+                <option value="NPM">npm packages</option>
+                <option value="PYTHON">Python packages</option>
+                <option value="MAVEN">Maven artifacts</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Delete Versions Older Than (days)</label>
+              <input
+                type="number"
+                min="0"
+                value={resource.cleanupOlderThanDays}
+                onChange={(e) => updateResource(index, { cleanupOlderThanDays: parseInt(e.target.value) })}
+                className={inputClassName}
+              />
+              <p className="text-xs text-gray-500 mt-1">0 keeps every version</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Always Keep Latest</label>
+              <input
+                type="number"
+                min="1"
+                value={resource.keepRecentVersions}
+                disabled={resource.cleanupOlderThanDays === 0}
+                onChange={(e) => updateResource(index, { keepRecentVersions: parseInt(e.target.value) })}
+                className={inputClassName}
+              />
+            </div>
+            {resource.format === 'DOCKER' && (
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={resource.immutableTags}
+                  onChange={(e) => updateResource(index, { immutableTags: e.target.checked })}
+                  className={checkboxClassName}
+                />
+                <span className="text-sm text-gray-700">Immutable image tags</span>
+              </label>
+            )}
+          </div>
+        );
+
+      case 'gcs-bucket':
+        return (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Storage Class</label>
+              <select
+                value={resource.storageClass}
+                onChange={(e) => updateResource(index, { storageClass: e.target.value as StorageClass })}
+                className={inputClassName}
+              >
+                <option value="STANDARD">Standard</option>
+                <option value="NEARLINE">Nearline</option>
+                <option value="COLDLINE">Coldline</option>
+                <option value="ARCHIVE">Archive</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Node Access</label>
+              <select
+                value={resource.nodeAccess}
+                onChange={(e) => updateResource(index, { nodeAccess: e.target.value as BucketNodeAccess })}
+                className={inputClassName}
+              >
+                <option value="read">Read objects</option>
+                <option value="read-write">Read and write objects</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Delete Objects After (days)</label>
+              <input
+                type="number"
+                min="0"
+                value={resource.deleteAfterDays}
+                onChange={(e) => updateResource(index, { deleteAfterDays: parseInt(e.target.value) })}
+                className={inputClassName}
+              />
+              <p className="text-xs text-gray-500 mt-1">0 keeps objects forever</p>
+            </div>
+            <div className="space-y-2">
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={resource.versioning}
+                  onChange={(e) => updateResource(index, { versioning: e.target.checked })}
+                  className={checkboxClassName}
+                />
+                <span className="text-sm text-gray-700">Object versioning</span>
+              </label>
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={resource.forceDestroy}
+                  onChange={(e) => updateResource(index, { forceDestroy: e.target.checked })}
+                  className={checkboxClassName}
+                />
+                <span className="text-sm text-gray-700">Allow destroy with objects inside</span>
+              </label>
+            </div>
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-500">
+        Created next to the cluster in {config.region}. The node service account is granted access to each resource;
+        Cloud SQL and Memorystore are peered into the cluster VPC and get private IPs only.
+      </p>
+
+      {resources.map((resource, index) => (
+        <div key={index} className="p-4 border border-gray-200 rounded-lg bg-gray-50 space-y-4">
+          <div className="flex items-center justify-between">
+            <h4 className="font-semibold text-gray-800">
+              {RESOURCE_CATALOG[resource.kind].label}
+              <span className="ml-2 text-xs font-normal text-gray-500">Nodes: {describeNodeAccess(resource)}</span>
+            </h4>
+            <button
+              onClick={() => onChange(resources.filter((_, i) => i !== index))}
+              className="p-2 text-red-600 hover:bg-red-50 rounded-md"
+              title="Remove resource"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input
+              type="text"
+              value={resource.name}
+              onChange={(e) => updateResource(index, { name: e.target.value })}
+              className={inputClassName}
+              placeholder={defaultNames[resource.kind]}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Created as <span className="font-mono">{getResourceGcpName(resource, naming)}</span>
+              {multiEnvironment && ` in ${config.multiEnvironment.environments[0].name}; every environment gets its own copy`}
+            </p>
+          </div>
+
+          {renderFields(resource, index)}
+        </div>
+      ))}
+
+      <div className="flex flex-wrap gap-2">
+        {RESOURCE_KINDS.map(kind => (
+          <button
+            key={kind}
+            onClick={() => addResource(kind)}
+            className="flex items-center space-x-2 px-3 py-2 border border-blue-300 text-blue-600 hover:bg-blue-50 rounded-md text-sm"
+            title={RESOURCE_CATALOG[kind].description}
+          >
+            <Plus className="h-4 w-4" />
+            <span>{RESOURCE_CATALOG[kind].label}</span>
+          </button>
+        ))}
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-600 space-y-0.5">
+          {errors.map(error => (
+            <li key={error}>• {error}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ResourceCatalogSettings;
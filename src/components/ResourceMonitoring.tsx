@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { RefreshCw, Cloud, Network, Database, Shield, Settings, ExternalLink, Eye, AlertCircle, CheckCircle, Clock, Server, HardDrive, Cpu, Globe, Play, FileText, Download } from 'lucide-react';
 import { GitHubService } from '../utils/githubApi';
+import DriftStatusPanel from './DriftStatusPanel';
+import { getNodeServiceAccountEmail, getStateBucket, getStatePrefix, getWorkflowInputs, TerraformConfig } from '../utils/terraformGenerator';
 
 interface TerraformResource {
   address: string;
@@ -28,11 +30,7 @@ interface ResourceMonitoringProps {
     owner: string;
     repo: string;
   };
-  terraformConfig: {
-    projectId: string;
-    clusterName: string;
-    region: string;
-  };
+  terraformConfig: TerraformConfig;
 }
 
 const ResourceMonitoring: React.FC<ResourceMonitoringProps> = ({ githubConfig, terraformConfig }) => {
@@ -88,15 +86,7 @@ const ResourceMonitoring: React.FC<ResourceMonitoringProps> = ({ githubConfig, t
         githubConfig.owner,
         githubConfig.repo,
         'deploy.yml',
-        {
-          terraform_action: 'show-state',
-          project_id: terraformConfig.projectId,
-          cluster_name: terraformConfig.clusterName,
-          region: terraformConfig.region,
-          node_count: '2',
-          machine_type: 'e2-medium',
-          disk_size: '100'
-        }
+        getWorkflowInputs(terraformConfig, 'show-state')
       );
 
       const workflowUrl = `https://github.com/${githubConfig.owner}/${githubConfig.repo}/actions`;
@@ -173,12 +163,12 @@ const ResourceMonitoring: React.FC<ResourceMonitoringProps> = ({ githubConfig, t
           value: `${terraformConfig.clusterName}-node-pool`,
           type: "string"
         },
-        service_account_email: {
-          value: "githubactions-sa@turnkey-guild-441104-f3.iam.gserviceaccount.com",
+        node_service_account_email: {
+          value: getNodeServiceAccountEmail(terraformConfig),
           type: "string"
         },
         node_zones: {
-          value: [`${terraformConfig.region}-a`, `${terraformConfig.region}-c`],
+          value: terraformConfig.location.zones,
           type: ["list", "string"]
         }
       },
@@ -196,7 +186,7 @@ const ResourceMonitoring: React.FC<ResourceMonitoringProps> = ({ githubConfig, t
             project: terraformConfig.projectId,
             network: "default",
             subnetwork: "default",
-            node_locations: [`${terraformConfig.region}-a`, `${terraformConfig.region}-c`],
+            node_locations: terraformConfig.location.zones,
             initial_node_count: 1,
             remove_default_node_pool: true,
             deletion_protection: false,
@@ -223,12 +213,12 @@ const ResourceMonitoring: React.FC<ResourceMonitoringProps> = ({ githubConfig, t
             cluster: terraformConfig.clusterName,
             project: terraformConfig.projectId,
             node_count: 2,
-            node_locations: [`${terraformConfig.region}-a`, `${terraformConfig.region}-c`],
+            node_locations: terraformConfig.location.zones,
             node_config: {
               machine_type: "e2-medium",
               disk_size_gb: 100,
               disk_type: "pd-standard",
-              service_account: "githubactions-sa@turnkey-guild-441104-f3.iam.gserviceaccount.com",
+              service_account: getNodeServiceAccountEmail(terraformConfig),
               oauth_scopes: ["https://www.googleapis.com/auth/cloud-platform"],
               labels: {
                 env: "production"
@@ -239,10 +229,9 @@ const ResourceMonitoring: React.FC<ResourceMonitoringProps> = ({ githubConfig, t
               }
             },
             status: "RUNNING",
-            instance_group_urls: [
-              `https://www.googleapis.com/compute/v1/projects/${terraformConfig.projectId}/zones/${terraformConfig.region}-a/instanceGroups/gke-${terraformConfig.clusterName}-node-pool-${Math.random().toString(36).substr(2, 8)}`,
-              `https://www.googleapis.com/compute/v1/projects/${terraformConfig.projectId}/zones/${terraformConfig.region}-c/instanceGroups/gke-${terraformConfig.clusterName}-node-pool-${Math.random().toString(36).substr(2, 8)}`
-            ]
+            instance_group_urls: terraformConfig.location.zones.map(zone => (
+              `https://www.googleapis.com/compute/v1/projects/${terraformConfig.projectId}/zones/${zone}/instanceGroups/gke-${terraformConfig.clusterName}-node-pool-${Math.random().toString(36).substr(2, 8)}`
+            ))
           }
         },
         // Network resources that are automatically created/used by GKE
@@ -369,7 +358,7 @@ const ResourceMonitoring: React.FC<ResourceMonitoringProps> = ({ githubConfig, t
             project: terraformConfig.projectId,
             network: "default",
             subnetwork: "default",
-            node_locations: [`${terraformConfig.region}-a`, `${terraformConfig.region}-c`],
+            node_locations: terraformConfig.location.zones,
             initial_node_count: 1,
             remove_default_node_pool: true,
             deletion_protection: false,
@@ -392,12 +381,12 @@ const ResourceMonitoring: React.FC<ResourceMonitoringProps> = ({ githubConfig, t
             cluster: terraformConfig.clusterName,
             project: terraformConfig.projectId,
             node_count: 2,
-            node_locations: [`${terraformConfig.region}-a`, `${terraformConfig.region}-c`],
+            node_locations: terraformConfig.location.zones,
             node_config: {
               machine_type: "e2-medium",
               disk_size_gb: 100,
               disk_type: "pd-standard",
-              service_account: "githubactions-sa@turnkey-guild-441104-f3.iam.gserviceaccount.com",
+              service_account: getNodeServiceAccountEmail(terraformConfig),
               oauth_scopes: ["https://www.googleapis.com/auth/cloud-platform"]
             },
             status: "RUNNING (Demo)"
@@ -672,14 +661,19 @@ const ResourceMonitoring: React.FC<ResourceMonitoringProps> = ({ githubConfig, t
         </div>
       </div>
 
+      {/* Drift Status */}
+      <div className="bg-white p-4 rounded-lg border border-gray-200">
+        <DriftStatusPanel githubConfig={githubConfig} terraformConfig={terraformConfig} />
+      </div>
+
       {/* Remote State Info */}
       {stateSource === 'remote' && (
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
           <h4 className="font-medium text-blue-900 mb-2">🔄 Remote State Backend</h4>
           <div className="text-sm text-blue-800 space-y-1">
             <p>• <strong>Backend:</strong> Google Cloud Storage</p>
-            <p>• <strong>Bucket:</strong> terraform-statefile-bucket-tf2</p>
-            <p>• <strong>State Path:</strong> terraform/state/gke-cluster</p>
+            <p>• <strong>Bucket:</strong> {getStateBucket(terraformConfig)}</p>
+            <p>• <strong>State Path:</strong> {getStatePrefix(terraformConfig)}</p>
             <p>• <strong>Project:</strong> {terraformConfig.projectId}</p>
             <p>• <strong>Method:</strong> Terraform show-state workflow via GitHub Actions</p>
           </div>
@@ -860,7 +854,7 @@ const ResourceMonitoring: React.FC<ResourceMonitoringProps> = ({ githubConfig, t
       <div className="bg-green-50 border border-green-200 rounded-lg p-4">
         <h4 className="font-medium text-green-900 mb-2">📊 Real Infrastructure Monitoring</h4>
         <div className="text-sm text-green-800 space-y-1">
-          <p>• <strong>Remote State:</strong> Fetches actual Terraform state from GCS backend (terraform-statefile-bucket-tf2)</p>
+          <p>• <strong>Remote State:</strong> Fetches actual Terraform state from GCS backend ({getStateBucket(terraformConfig)})</p>
           <p>• <strong>Demo State:</strong> Shows simulated infrastructure for demonstration purposes</p>
           <p>• <strong>Real-time Sync:</strong> Remote state reflects actual resources created by Terraform</p>
           <p>• <strong>GitHub Integration:</strong> Uses terraform show-state workflow to access remote state</p>
@@ -0,0 +1,293 @@
+import React, { useState } from 'react';
+import { Cloud, FileWarning, Github, Lock, Minus, Plus } from 'lucide-react';
+import { ManifestConfig, SecretMode, getSecretMode } from '../utils/k8sGenerator';
+import { getSealingScope, sealSecretValues } from '../utils/sealedSecrets';
+
+interface SecretsSettingsProps {
+  manifest: ManifestConfig;
+  namespace: string;
+  onChange: (config: ManifestConfig['config']) => void;
+}
+
+const secretModes: { value: SecretMode; label: string; description: string; icon: React.ElementType }[] = [
+  {
+    value: 'github-actions',
+    label: 'GitHub Actions Secrets',
+    description: 'Stored as repository secrets; the workflow creates the Secret on deploy',
+    icon: Github
+  },
+  {
+    value: 'external-secrets',
+    label: 'External Secrets',
+    description: 'An ExternalSecret syncs the values from GCP Secret Manager',
+    icon: Cloud
+  },
+  {
+    value: 'sealed-secrets',
+    label: 'Sealed Secrets',
+    description: 'Encrypted in the browser; only the in-cluster controller can decrypt them',
+    icon: Lock
+  },
+  {
+    value: 'opaque',
+    label: 'Plain Secret',
+    description: 'Values committed base64-encoded in k8s/secrets.yaml',
+    icon: FileWarning
+  }
+];
+
+const inputClassName = 'flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500';
+
+// Renames an entry in place so the list does not reorder while typing
+const renameEntry = (entries: Record<string, string>, from: string, to: string) =>
+  Object.fromEntries(Object.entries(entries).map(([key, value]) => [key === from ? to : key, value]));
+
+const SecretsSettings: React.FC<SecretsSettingsProps> = ({ manifest, namespace, onChange }) => {
+  const [sealing, setSealing] = useState(false);
+  const [sealError, setSealError] = useState('');
+
+  const secrets = manifest.config;
+  const mode = getSecretMode(manifest);
+  const name: string = secrets.name || 'app-secrets';
+  const data: Record<string, string> = secrets.data || {};
+  const encryptedData: Record<string, string> = secrets.encryptedData || {};
+  const storedSecrets: string[] = secrets.storedSecrets || [];
+
+  const handleModeChange = (value: SecretMode) => {
+    // Start the Secret Manager references from the keys already entered
+    const remoteRefs = value === 'external-secrets' && !secrets.remoteRefs
+      ? Object.fromEntries(Object.keys(data).map(key => [key, key.toLowerCase().replace(/_/g, '-')]))
+      : secrets.remoteRefs;
+    onChange({ ...secrets, mode: value, remoteRefs, secretStore: secrets.secretStore || 'gcp-secret-manager' });
+  };
+
+  // Sealed values replace the plaintext ones, which are no longer kept in the browser
+  const sealValues = async () => {
+    setSealing(true);
+    setSealError('');
+    try {
+      const sealed = await sealSecretValues(secrets.certificate || '', namespace, name, data);
+      const scope = getSealingScope(namespace, name);
+      onChange({
+        ...secrets,
+        data: {},
+        // Values sealed for another name or namespace would not decrypt alongside the new ones
+        encryptedData: secrets.sealedFor === scope ? { ...encryptedData, ...sealed } : sealed,
+        sealedFor: scope
+      });
+    } catch (error) {
+      setSealError(error instanceof Error ? error.message : 'The values could not be sealed');
+    } finally {
+      setSealing(false);
+    }
+  };
+
+  const renderEntries = (field: 'data' | 'remoteRefs', valuePlaceholder: string, addLabel: string) => {
+    const entries: Record<string, string> = secrets[field] || {};
+    return (
+      <div className="space-y-2">
+        {Object.entries(entries).map(([key, value], index) => (
+          <div key={index} className="flex space-x-2">
+            <input
+              type="text"
+              value={key}
+              onChange={(e) => onChange({ ...secrets, [field]: renameEntry(entries, key, e.target.value) })}
+              className={inputClassName}
+              placeholder="KEY"
+            />
+            <input
+              type={field === 'data' && mode !== 'opaque' ? 'password' : 'text'}
+              value={value}
+              onChange={(e) => onChange({ ...secrets, [field]: { ...entries, [key]: e.target.value } })}
+              className={inputClassName}
+              placeholder={valuePlaceholder}
+            />
+            <button
+              onClick={() => {
+                const newEntries = { ...entries };
+                delete newEntries[key];
+                onChange({ ...secrets, [field]: newEntries });
+              }}
+              className="p-2 text-red-600 hover:bg-red-50 rounded-md"
+            >
+              <Minus className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => onChange({ ...secrets, [field]: { ...entries, [`NEW_KEY_${Date.now()}`]: '' } })}
+          className="flex items-center space-x-2 px-3 py-2 text-yellow-600 hover:bg-yellow-50 rounded-md"
+        >
+          <Plus className="h-4 w-4" />
+          <span>{addLabel}</span>
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {secretModes.map(secretMode => {
+          const Icon = secretMode.icon;
+          const selected = mode === secretMode.value;
+          return (
+            <button
+              key={secretMode.value}
+              type="button"
+              onClick={() => handleModeChange(secretMode.value)}
+              className={`flex items-start space-x-3 p-3 border rounded-lg text-left transition-colors ${
+                selected ? 'border-yellow-500 bg-yellow-50' : 'border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              <Icon className={`h-5 w-5 mt-0.5 ${selected ? 'text-yellow-600' : 'text-gray-500'}`} />
+              <div>
+                <p className="text-sm font-medium text-gray-800">{secretMode.label}</p>
+                <p className="text-xs text-gray-600">{secretMode.description}</p>
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Secret Name</label>
+        <input
+          type="text"
+          value={secrets.name || ''}
+          onChange={(e) => onChange({ ...secrets, name: e.target.value })}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+          placeholder="app-secrets"
+        />
+      </div>
+
+      {mode === 'opaque' && (
+        <>
+          <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md text-xs text-yellow-800">
+            Base64 is an encoding, not encryption: anyone who can read the repository can read these values.
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Environment Variables</label>
+            {renderEntries('data', 'value', 'Add Environment Variable')}
+          </div>
+        </>
+      )}
+
+      {mode === 'github-actions' && (
+        <>
+          {storedSecrets.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Stored as Repository Secrets</label>
+              <div className="flex flex-wrap gap-2">
+                {storedSecrets.map(key => (
+                  <span key={key} className="flex items-center space-x-1 px-2 py-1 bg-white border border-gray-300 rounded text-xs font-mono">
+                    <Github className="h-3 w-3 text-gray-500" />
+                    <span>{key}</span>
+                    <button
+                      onClick={() => onChange({ ...secrets, storedSecrets: storedSecrets.filter(stored => stored !== key) })}
+                      className="text-red-600 hover:text-red-800"
+                    >
+                      <Minus className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Environment Variables</label>
+            {renderEntries('data', 'value', 'Add Environment Variable')}
+            <p className="text-xs text-gray-500 mt-1">
+              Each key is stored as a repository secret of the same name when the manifests are pushed, which needs a token
+              allowed to manage Actions secrets. The deploy and update actions create the Secret from them. Values are
+              not saved with the configuration and are cleared once pushed; enter a stored key again to replace its value.
+            </p>
+          </div>
+        </>
+      )}
+
+      {mode === 'external-secrets' && (
+        <>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">SecretStore Name</label>
+            <input
+              type="text"
+              value={secrets.secretStore || ''}
+              onChange={(e) => onChange({ ...secrets, secretStore: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+              placeholder="gcp-secret-manager"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Keys and Secret Manager Secrets</label>
+            {renderEntries('remoteRefs', 'database-url', 'Add Key')}
+            <p className="text-xs text-gray-500 mt-1">
+              Needs the External Secrets Operator in the cluster, with its service account granted
+              {' '}<code className="bg-gray-100 px-1 rounded">roles/secretmanager.secretAccessor</code> through Workload Identity.
+              The latest version of each secret is read.
+            </p>
+          </div>
+        </>
+      )}
+
+      {mode === 'sealed-secrets' && (
+        <>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Controller Certificate</label>
+            <textarea
+              value={secrets.certificate || ''}
+              onChange={(e) => onChange({ ...secrets, certificate: e.target.value })}
+              rows={4}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500 font-mono text-xs"
+              placeholder="-----BEGIN CERTIFICATE-----"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Print it with <code className="bg-gray-100 px-1 rounded">kubeseal --fetch-cert</code>. It is public and saved with the configuration.
+            </p>
+          </div>
+          {Object.keys(encryptedData).length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Sealed for {secrets.sealedFor}</label>
+              <div className="flex flex-wrap gap-2">
+                {Object.keys(encryptedData).map(key => (
+                  <span key={key} className="flex items-center space-x-1 px-2 py-1 bg-white border border-gray-300 rounded text-xs font-mono">
+                    <Lock className="h-3 w-3 text-gray-500" />
+                    <span>{key}</span>
+                    <button
+                      onClick={() => {
+                        const newEncryptedData = { ...encryptedData };
+                        delete newEncryptedData[key];
+                        onChange({ ...secrets, encryptedData: newEncryptedData });
+                      }}
+                      className="text-red-600 hover:text-red-800"
+                    >
+                      <Minus className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Values to Seal</label>
+            {renderEntries('data', 'value', 'Add Value')}
+            <p className="text-xs text-gray-500 mt-1">
+              Sealing a key again replaces its value. Sealed values only decrypt into the Secret
+              {' '}<code className="bg-gray-100 px-1 rounded">{getSealingScope(namespace, name)}</code>.
+            </p>
+          </div>
+          {sealError && <p className="text-xs text-red-600">{sealError}</p>}
+          <button
+            onClick={sealValues}
+            disabled={sealing || Object.keys(data).length === 0 || !secrets.certificate}
+            className="px-4 py-2 rounded-md text-sm font-medium bg-yellow-600 text-white hover:bg-yellow-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+          >
+            {sealing ? 'Sealing...' : 'Seal Values'}
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SecretsSettings;
@@ -0,0 +1,185 @@
+import React from 'react';
+import {
+  LOGGING_COMPONENTS,
+  MONITORING_COMPONENTS,
+  NetworkPolicyMode,
+  SecurityConfig,
+  TerraformConfig,
+  isAutopilot,
+  validateSecurity
+} from '../utils/terraformGenerator';
+
+interface SecuritySettingsProps {
+  config: TerraformConfig;
+  onChange: (security: SecurityConfig) => void;
+  onWorkloadIdentityChange: (enabled: boolean) => void;
+}
+
+const networkPolicyModes: { value: NetworkPolicyMode; label: string }[] = [
+  { value: 'dataplane-v2', label: 'Dataplane V2 (eBPF, recommended)' },
+  { value: 'calico', label: 'Calico network policy add-on' },
+  { value: 'disabled', label: 'Disabled (all pod traffic allowed)' }
+];
+
+const toggle = <T,>(values: T[], value: T, enabled: boolean) =>
+  enabled ? [...values, value] : values.filter(v => v !== value);
+
+const SecuritySettings: React.FC<SecuritySettingsProps> = ({ config, onChange, onWorkloadIdentityChange }) => {
+  const { security } = config;
+  const autopilot = isAutopilot(config);
+
+  const handleChange = <K extends keyof SecurityConfig>(field: K, value: SecurityConfig[K]) => {
+    onChange({ ...security, [field]: value });
+  };
+
+  const errors = validateSecurity(config);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          {autopilot ? (
+            <p className="text-xs text-gray-600 bg-gray-50 p-2 rounded">
+              Autopilot always runs shielded nodes with secure boot, Dataplane V2 and the GKE metadata server
+            </p>
+          ) : (
+            <>
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={security.shieldedNodes}
+                  onChange={(e) => onChange({
+                    ...security,
+                    shieldedNodes: e.target.checked,
+                    secureBoot: e.target.checked && security.secureBoot
+                  })}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <span className="text-sm text-gray-700">Shielded GKE nodes</span>
+              </label>
+
+              <div className="ml-6 space-y-2">
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={security.secureBoot}
+                    disabled={!security.shieldedNodes}
+                    onChange={(e) => handleChange('secureBoot', e.target.checked)}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <span className="text-sm text-gray-700">Secure boot</span>
+                </label>
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={security.integrityMonitoring}
+                    onChange={(e) => handleChange('integrityMonitoring', e.target.checked)}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <span className="text-sm text-gray-700">Integrity monitoring</span>
+                </label>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Network Policy
+                </label>
+                <select
+                  value={security.networkPolicy}
+                  onChange={(e) => handleChange('networkPolicy', e.target.value as NetworkPolicyMode)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {networkPolicyModes.map(mode => (
+                    <option key={mode.value} value={mode.value}>{mode.label}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">Switching to or from Dataplane V2 recreates the cluster</p>
+              </div>
+
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={config.serviceAccount.workloadIdentity}
+                  onChange={(e) => onWorkloadIdentityChange(e.target.checked)}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <span className="text-sm text-gray-700">Workload Identity with the GKE metadata server (hides node credentials from pods)</span>
+              </label>
+            </>
+          )}
+
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={security.binaryAuthorization}
+              onChange={(e) => handleChange('binaryAuthorization', e.target.checked)}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            />
+            <span className="text-sm text-gray-700">Enforce Binary Authorization policy</span>
+          </label>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Secrets Encryption Key (optional)
+            </label>
+            <input
+              type="text"
+              value={security.databaseEncryptionKey}
+              onChange={(e) => handleChange('databaseEncryptionKey', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder={`projects/my-project/locations/${config.region}/keyRings/gke/cryptoKeys/etcd`}
+            />
+            <p className="text-xs text-gray-500 mt-1">Cloud KMS key in {config.region}; the GKE service agent is granted access to it</p>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Cloud Logging Components</label>
+            <div className="grid grid-cols-2 gap-2">
+              {LOGGING_COMPONENTS.map(component => (
+                <label key={component} className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={security.loggingComponents.includes(component)}
+                    onChange={(e) => handleChange('loggingComponents', toggle(security.loggingComponents, component, e.target.checked))}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <span className="text-xs text-gray-700 font-mono">{component}</span>
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Control plane components (APISERVER, SCHEDULER, CONTROLLER_MANAGER) are usually required for CIS audits</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Cloud Monitoring Components</label>
+            <div className="grid grid-cols-2 gap-2">
+              {MONITORING_COMPONENTS.map(component => (
+                <label key={component} className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={security.monitoringComponents.includes(component)}
+                    onChange={(e) => handleChange('monitoringComponents', toggle(security.monitoringComponents, component, e.target.checked))}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <span className="text-xs text-gray-700 font-mono">{component}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-600 space-y-0.5">
+          {errors.map(error => (
+            <li key={error}>• {error}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SecuritySettings;
@@ -0,0 +1,232 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, FileText, RefreshCw, Upload } from 'lucide-react';
+import { GitHubService } from '../utils/githubApi';
+import { PlanAction, TerraformPlan, describePlan, parseTerraformPlan } from '../utils/terraformPlan';
+import { PLAN_ARTIFACT_NAME, PLAN_JSON_FILE } from '../utils/terraformWorkflow';
+import { readZipTextFiles } from '../utils/zipArchive';
+
+interface TerraformPlanViewerProps {
+  token: string;
+  owner: string;
+  repo: string;
+  runId: number;
+  onLoad?: (plan: TerraformPlan) => void;
+}
+
+const ACTION_STYLES: Record<PlanAction, { symbol: string; label: string; className: string }> = {
+  create: { symbol: '+', label: 'create', className: 'bg-green-100 text-green-700' },
+  update: { symbol: '~', label: 'update', className: 'bg-yellow-100 text-yellow-800' },
+  delete: { symbol: '-', label: 'destroy', className: 'bg-red-100 text-red-700' },
+  replace: { symbol: '-/+', label: 'replace', className: 'bg-red-100 text-red-700' },
+  read: { symbol: '<=', label: 'read', className: 'bg-blue-100 text-blue-700' },
+  'no-op': { symbol: ' ', label: 'no change', className: 'bg-gray-100 text-gray-600' }
+};
+
+const TerraformPlanViewer: React.FC<TerraformPlanViewerProps> = ({ token, owner, repo, runId, onLoad }) => {
+  const [plan, setPlan] = useState<TerraformPlan | null>(null);
+  const [state, setState] = useState<'loading' | 'loaded' | 'missing' | 'error'>('loading');
+  const [error, setError] = useState('');
+  const [pastedPlan, setPastedPlan] = useState('');
+  const [manualError, setManualError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    setState('loading');
+    new GitHubService(token)
+      .getArtifactFile(owner, repo, runId, PLAN_ARTIFACT_NAME, PLAN_JSON_FILE)
+      .then(content => {
+        if (cancelled) {
+          return;
+        }
+        if (content === null) {
+          setState('missing');
+          return;
+        }
+        const parsed = parseTerraformPlan(content);
+        setPlan(parsed);
+        setState('loaded');
+        onLoad?.(parsed);
+      })
+      .catch(e => {
+        if (!cancelled) {
+          setError(e instanceof Error ? e.message : 'Unknown error');
+          setState('error');
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token, owner, repo, runId, onLoad]);
+
+  // Browsers often cannot follow GitHub's redirect to the artifact storage, so the
+  // artifact can also be downloaded from the run page and loaded here
+  const loadManualPlan = (content: string) => {
+    try {
+      const parsed = parseTerraformPlan(content);
+      setPlan(parsed);
+      setState('loaded');
+      setManualError('');
+      onLoad?.(parsed);
+    } catch (e) {
+      setManualError(e instanceof Error ? e.message : 'The plan could not be read');
+    }
+  };
+
+  const handlePlanFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+    try {
+      const content = file.name.endsWith('.zip')
+        ? (await readZipTextFiles(await file.arrayBuffer()))[PLAN_JSON_FILE]
+        : await file.text();
+      if (content === undefined) {
+        setManualError(`${file.name} has no ${PLAN_JSON_FILE}`);
+        return;
+      }
+      loadManualPlan(content);
+    } catch (e) {
+      setManualError(e instanceof Error ? e.message : 'The file could not be read');
+    }
+  };
+
+  if (state === 'loading') {
+    return (
+      <div className="flex items-center space-x-2 text-sm text-gray-600">
+        <RefreshCw className="h-4 w-4 animate-spin" />
+        <span>Downloading plan from run {runId}...</span>
+      </div>
+    );
+  }
+
+  if (state === 'missing' || state === 'error' || !plan) {
+    return (
+      <div className="space-y-3">
+        <p className="text-sm text-gray-600">
+          {state === 'error'
+            ? `The plan could not be loaded: ${error}`
+            : `Run ${runId} uploaded no ${PLAN_ARTIFACT_NAME} artifact. Push the regenerated workflow to preview plans here.`}
+        </p>
+        <p className="text-xs text-gray-500">
+          Download the <code className="bg-gray-100 px-1 rounded">{PLAN_ARTIFACT_NAME}</code> artifact from the
+          {' '}<a
+            href={`https://github.com/${owner}/${repo}/actions/runs/${runId}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-blue-600 hover:underline"
+          >
+            run page
+          </a>{' '}
+          and load the zip or its <code className="bg-gray-100 px-1 rounded">{PLAN_JSON_FILE}</code>, or paste the JSON below.
+        </p>
+        <textarea
+          value={pastedPlan}
+          onChange={(e) => setPastedPlan(e.target.value)}
+          rows={4}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-xs"
+          placeholder='{"format_version": "1.2", "resource_changes": [...]}'
+        />
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => loadManualPlan(pastedPlan)}
+            disabled={!pastedPlan.trim()}
+            className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+              pastedPlan.trim() ? 'bg-blue-600 text-white hover:bg-blue-700' : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+            }`}
+          >
+            Load Plan
+          </button>
+          <label className="flex items-center space-x-2 px-3 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors text-sm cursor-pointer">
+            <Upload className="h-4 w-4" />
+            <span>Load Artifact File</span>
+            <input
+              type="file"
+              accept=".json,.zip"
+              onChange={handlePlanFile}
+              className="hidden"
+            />
+          </label>
+        </div>
+        {manualError && <p className="text-xs text-red-600">• {manualError}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <FileText className="h-5 w-5 text-gray-600" />
+          <span className="font-medium text-gray-800">Plan: {describePlan(plan)}</span>
+        </div>
+        {plan.terraformVersion && <span className="text-xs text-gray-500">Terraform {plan.terraformVersion}</span>}
+      </div>
+
+      {plan.warnings.length > 0 && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+          <div className="flex items-start space-x-2">
+            <AlertTriangle className="h-5 w-5 text-red-600 mt-0.5" />
+            <div>
+              <p className="text-sm font-medium text-red-800 mb-1">Destructive changes</p>
+              <ul className="text-xs text-red-600 space-y-0.5">
+                {plan.warnings.map((warning, i) => <li key={i}>• {warning}</li>)}
+              </ul>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {plan.resources.length === 0 ? (
+        <p className="text-sm text-gray-600">No changes. The infrastructure matches the configuration.</p>
+      ) : (
+        <div className="space-y-2">
+          {plan.resources.map(resource => {
+            const style = ACTION_STYLES[resource.action];
+            return (
+              <details
+                key={resource.address}
+                open={resource.action === 'replace'}
+                className="border border-gray-200 rounded-lg bg-white"
+              >
+                <summary className="flex items-center space-x-2 px-3 py-2 cursor-pointer text-sm">
+                  <span className={`px-2 py-0.5 rounded text-xs font-mono ${style.className}`}>{style.symbol} {style.label}</span>
+                  <span className="font-mono text-gray-800 break-all">{resource.address}</span>
+                </summary>
+                <div className="px-3 pb-3 space-y-1">
+                  {resource.reason && <p className="text-xs text-gray-500">Because {resource.reason}</p>}
+                  {resource.attributes.length > 0 && (
+                    <table className="w-full text-xs font-mono">
+                      <tbody>
+                        {resource.attributes.map(attribute => (
+                          <tr key={attribute.path} className="align-top">
+                            <td className="pr-3 py-0.5 text-gray-700 break-all">{attribute.path}</td>
+                            <td className="pr-3 py-0.5 text-red-700 break-all">{attribute.before ?? ''}</td>
+                            <td className="pr-1 py-0.5 text-gray-400">→</td>
+                            <td className="py-0.5 text-green-700 break-all">
+                              {attribute.after ?? 'null'}
+                              {attribute.forcesReplacement && <span className="ml-2 text-red-600"># forces replacement</span>}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              </details>
+            );
+          })}
+        </div>
+      )}
+
+      {plan.outputs.length > 0 && (
+        <p className="text-xs text-gray-500">
+          Outputs changing: {plan.outputs.map(output => `${output.name} (${ACTION_STYLES[output.action].label})`).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default TerraformPlanViewer;
@@ -1,229 +1,56 @@
 import React from 'react';
 import { ArrowLeft, ArrowRight, Copy, Download } from 'lucide-react';
-
-interface TerraformConfig {
-  projectId: string;
-  clusterName: string;
-  region: string;
-  nodeCount: number;
-  machineType: string;
-  diskSize: number;
-  enableAutoscaling: boolean;
-  minNodes: number;
-  maxNodes: number;
-}
+import {
+  describeEnvironments,
+  describeLocation,
+  describeMaintenance,
+  describeNetwork,
+  describeNodePoolSize,
+  describeSecurity,
+  generateTerraformFiles,
+  getTerraformProvider,
+  GKE_MODULE_PATH,
+  GKE_MODULE_VERSION,
+  getNodeServiceAccountEmail,
+  getStateBucket,
+  getStatePrefix,
+  hasWorkloadIdentity,
+  isAutopilot,
+  isMultiEnvironment,
+  TerraformConfig,
+  TerraformOutputMode
+} from '../utils/terraformGenerator';
+import { RESOURCE_CATALOG, describeResource, describeResources } from '../utils/resourceCatalog';
+import PolicyChecks from './PolicyChecks';
 
 interface TerraformPreviewProps {
   config: TerraformConfig;
+  onChange: (config: TerraformConfig) => void;
   onBack: () => void;
   onNext: () => void;
 }
 
-const TerraformPreview: React.FC<TerraformPreviewProps> = ({ config, onBack, onNext }) => {
-  const generateBackendTf = () => {
-    return `terraform {
-  backend "gcs" {
-    bucket = "terraform-statefile-bucket-tf2"
-    prefix = "terraform/state/gke-cluster"
-  }
-}`;
-  };
-
-  const generateMainTf = () => {
-    return `terraform {
-  required_version = ">= 1.0"
-  required_providers {
-    google = {
-      source  = "hashicorp/google"
-      version = "~> 5.0"
-    }
-  }
-}
-
-provider "google" {
-  project = var.project_id
-  region  = var.region
-}
-
-# Define local values for zones (a and c)
-locals {
-  node_zones = [
-    "\${var.region}-a",
-    "\${var.region}-c"
-  ]
-}
-
-# Create the GKE cluster with minimal configuration for fast creation
-resource "google_container_cluster" "primary" {
-  name     = var.cluster_name
-  location = var.region
-
-  # Allow deletion without protection
-  deletion_protection = false
-
-  # Specify node locations (zones) for the cluster
-  node_locations = local.node_zones
-
-  # We can't create a cluster with no node pool defined, but we want to only use
-  # separately managed node pools. So we create the smallest possible default
-  # node pool and immediately delete it.
-  remove_default_node_pool = true
-  initial_node_count       = 1
-
-  network    = "default"
-  subnetwork = "default"
-
-  # CRITICAL: Specify service account for the cluster's default node pool
-  # Even though we remove it, we need to specify the SA to avoid using default
-  node_config {
-    service_account = var.service_account_email
-    oauth_scopes = [
-      "https://www.googleapis.com/auth/cloud-platform"
-    ]
-  }
-}
-
-# Create the node pool with explicit service account and simplified configuration
-resource "google_container_node_pool" "primary_nodes" {
-  name       = "\${var.cluster_name}-node-pool"
-  location   = var.region
-  cluster    = google_container_cluster.primary.name
-  node_count = var.node_count  # Fixed count, no autoscaling complexity
-
-  # Specify node locations (zones) for the node pool
-  node_locations = local.node_zones
-
-  node_config {
-    preemptible  = false
-    machine_type = var.machine_type
-    disk_size_gb = var.disk_size
-    disk_type    = "pd-standard"
-
-    # CRITICAL: Use the GitHub Actions service account for node pool
-    service_account = var.service_account_email
-    oauth_scopes = [
-      "https://www.googleapis.com/auth/cloud-platform"
-    ]
-
-    labels = {
-      env = "production"
-    }
-
-    tags = ["gke-node", "\${var.cluster_name}-node"]
-
-    metadata = {
-      disable-legacy-endpoints = "true"
-    }
-  }
-}`;
-  };
-
-  const generateVariablesTf = () => {
-    return `variable "project_id" {
-  description = "The GCP project ID"
-  type        = string
-}
-
-variable "cluster_name" {
-  description = "The name of the GKE cluster"
-  type        = string
-  default     = "${config.clusterName}"
-}
-
-variable "region" {
-  description = "The GCP region for the cluster"
-  type        = string
-  default     = "${config.region}"
-}
-
-variable "node_count" {
-  description = "Number of nodes in the node pool"
-  type        = number
-  default     = 2
-}
-
-variable "machine_type" {
-  description = "Machine type for the nodes"
-  type        = string
-  default     = "${config.machineType}"
-}
-
-variable "disk_size" {
-  description = "Disk size in GB for each node"
-  type        = number
-  default     = ${config.diskSize}
-}
-
-variable "service_account_email" {
-  description = "Service account email for GKE cluster and nodes"
-  type        = string
-  default     = "githubactions-sa@turnkey-guild-441104-f3.iam.gserviceaccount.com"
-}`;
-  };
-
-  const generateOutputsTf = () => {
-    return `output "cluster_name" {
-  description = "GKE cluster name"
-  value       = google_container_cluster.primary.name
-}
-
-output "cluster_endpoint" {
-  description = "GKE cluster endpoint"
-  value       = google_container_cluster.primary.endpoint
-  sensitive   = true
-}
-
-output "cluster_location" {
-  description = "GKE cluster location"
-  value       = google_container_cluster.primary.location
-}
-
-output "cluster_ca_certificate" {
-  description = "GKE cluster CA certificate"
-  value       = google_container_cluster.primary.master_auth.0.cluster_ca_certificate
-  sensitive   = true
-}
-
-output "node_pool_name" {
-  description = "GKE node pool name"
-  value       = google_container_node_pool.primary_nodes.name
-}
-
-output "service_account_email" {
-  description = "Service account email used by cluster and nodes"
-  value       = var.service_account_email
-}
-
-output "node_zones" {
-  description = "Node zones for the cluster"
-  value       = local.node_zones
-}
-
-output "deletion_protection" {
-  description = "Deletion protection status"
-  value       = google_container_cluster.primary.deletion_protection
-}`;
-  };
+const outputModes: { value: TerraformOutputMode; label: string; description: string }[] = [
+  { value: 'root', label: 'Root configuration', description: 'Every resource in terraform/main.tf' },
+  { value: 'module', label: 'Reusable module', description: `Versioned ${GKE_MODULE_PATH.replace('terraform/', '')} module called from a thin root` }
+];
 
-  const generateTerraformTfvars = () => {
-    return `project_id = "${config.projectId}"
-cluster_name = "${config.clusterName}"
-region = "${config.region}"
-node_count = 2
-machine_type = "${config.machineType}"
-disk_size = ${config.diskSize}
-service_account_email = "githubactions-sa@turnkey-guild-441104-f3.iam.gserviceaccount.com"`;
-  };
-
-  const files = [
-    { name: 'backend.tf', content: generateBackendTf() },
-    { name: 'main.tf', content: generateMainTf() },
-    { name: 'variables.tf', content: generateVariablesTf() },
-    { name: 'outputs.tf', content: generateOutputsTf() },
-    { name: 'terraform.tfvars', content: generateTerraformTfvars() }
-  ];
+const TerraformPreview: React.FC<TerraformPreviewProps> = ({ config, onChange, onBack, onNext }) => {
+  // Render exactly what GitHubIntegration uploads so the preview never drifts
+  const files = generateTerraformFiles(config)
+    .filter(file => file.path.startsWith('terraform/'))
+    .map(file => ({ name: file.path.replace('terraform/', ''), content: file.content }));
 
   const [activeFile, setActiveFile] = React.useState(0);
+  const autopilot = isAutopilot(config);
+  const multiEnvironment = isMultiEnvironment(config);
+  const provider = getTerraformProvider(config);
+  const gke = config.provider === 'gcp';
+
+  const changeOutputMode = (outputMode: TerraformOutputMode) => {
+    setActiveFile(0);
+    onChange({ ...config, outputMode });
+  };
 
   const copyToClipboard = (content: string) => {
     navigator.clipboard.writeText(content);
@@ -245,12 +72,44 @@ service_account_email = "githubactions-sa@turnkey-guild-441104-f3.iam.gserviceac
     <div className="p-6">
       <div className="mb-6">
         <h2 className="text-2xl font-bold text-gray-900 mb-2">Generated Terraform Code</h2>
-        <p className="text-gray-600">Simplified configuration for fast GKE cluster creation</p>
+        <p className="text-gray-600">Simplified configuration for fast {provider.cluster} cluster creation</p>
       </div>
 
+      {/* Output Mode */}
+      {gke && (
+        <div className="mb-6 p-4 border border-gray-200 rounded-lg bg-gray-50">
+          <div className="flex flex-wrap gap-6">
+            {outputModes.map(mode => (
+              <label key={mode.value} className="flex items-start space-x-2">
+                <input
+                  type="radio"
+                  name="outputMode"
+                  value={mode.value}
+                  checked={multiEnvironment ? mode.value === 'module' : config.outputMode === mode.value}
+                  disabled={multiEnvironment}
+                  onChange={() => changeOutputMode(mode.value)}
+                  className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-700">{mode.label}</span>
+                  <span className="block text-xs text-gray-500">{mode.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            {multiEnvironment
+              ? 'Environments always call the shared module, one root per environment'
+              : config.outputMode === 'module'
+                ? `Module interface v${GKE_MODULE_VERSION}; moved blocks keep existing state addresses when switching from a root configuration`
+                : 'Switch to a module to reuse the cluster definition from other Terraform roots'}
+          </p>
+        </div>
+      )}
+
       {/* File Tabs */}
       <div className="border-b border-gray-200 mb-4">
-        <nav className="-mb-px flex space-x-8">
+        <nav className="-mb-px flex space-x-8 overflow-x-auto">
           {files.map((file, index) => (
             <button
               key={file.name}
@@ -291,104 +150,180 @@ service_account_email = "githubactions-sa@turnkey-guild-441104-f3.iam.gserviceac
         </pre>
       </div>
 
-      {/* Configuration Summary */}
-      <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-6">
-        {/* Infrastructure Configuration */}
-        <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
-          <h3 className="font-semibold text-blue-900 mb-2">Simplified Infrastructure Configuration</h3>
-          <div className="grid grid-cols-2 gap-4 text-sm">
-            <div>
-              <span className="text-blue-700 font-medium">Project:</span>
-              <p className="text-blue-900">{config.projectId}</p>
-            </div>
-            <div>
-              <span className="text-blue-700 font-medium">Cluster:</span>
-              <p className="text-blue-900">{config.clusterName}</p>
-            </div>
-            <div>
-              <span className="text-blue-700 font-medium">Region:</span>
-              <p className="text-blue-900">{config.region}</p>
-            </div>
-            <div>
-              <span className="text-blue-700 font-medium">Zones:</span>
-              <p className="text-blue-900">{config.region}-a, {config.region}-c</p>
+      <PolicyChecks config={config} onChange={(policy) => onChange({ ...config, policy })} />
+
+      {gke ? (
+        <>
+          {/* Configuration Summary */}
+          <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+            {/* Infrastructure Configuration */}
+            <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
+              <h3 className="font-semibold text-blue-900 mb-2">Simplified Infrastructure Configuration</h3>
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <span className="text-blue-700 font-medium">Project:</span>
+                  <p className="text-blue-900">{config.projectId}</p>
+                </div>
+                <div>
+                  <span className="text-blue-700 font-medium">Cluster:</span>
+                  <p className="text-blue-900">{config.clusterName}</p>
+                </div>
+                <div>
+                  <span className="text-blue-700 font-medium">Region:</span>
+                  <p className="text-blue-900">{config.region}</p>
+                </div>
+                <div>
+                  <span className="text-blue-700 font-medium">Location:</span>
+                  <p className="text-blue-900">{describeLocation(config)}</p>
+                </div>
+                <div className="col-span-2">
+                  <span className="text-blue-700 font-medium">{autopilot ? 'Nodes:' : 'Node Pools:'}</span>
+                  <div className="mt-1 space-y-1">
+                    {autopilot && (
+                      <div className="text-blue-900">Autopilot: provisioned and scaled by Google from pod requests</div>
+                    )}
+                    {!autopilot && config.nodePools.map(pool => (
+                      <div key={pool.name} className="text-blue-900">
+                        <span className="font-mono">{pool.name}</span>: {pool.machineType}
+                        {pool.spot && ' (spot)'} · {describeNodePoolSize(pool)} · {pool.diskSize}GB {pool.diskType}
+                        {pool.taints.length > 0 && ` · ${pool.taints.length} taint(s)`}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+                {config.resources.length > 0 && (
+                  <div className="col-span-2">
+                    <span className="text-blue-700 font-medium">Additional Resources:</span>
+                    <div className="mt-1 space-y-1">
+                      {config.resources.map(resource => (
+                        <div key={`${resource.kind}-${resource.name}`} className="text-blue-900">
+                          {RESOURCE_CATALOG[resource.kind].label} <span className="font-mono">{resource.name}</span>: {describeResource(resource)}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
             </div>
-            <div>
-              <span className="text-blue-700 font-medium">Nodes:</span>
-              <p className="text-blue-900">2 (fixed count)</p>
-            </div>
-            <div>
-              <span className="text-blue-700 font-medium">Machine Type:</span>
-              <p className="text-blue-900">{config.machineType}</p>
+
+            {/* Service Account & State Configuration */}
+            <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+              <h3 className="font-semibold text-green-900 mb-2">Service Account & Backend</h3>
+              <div className="text-sm space-y-2">
+                <div>
+                  <span className="text-green-700 font-medium">Deployer Service Account:</span>
+                  <p className="text-green-900 font-mono text-xs">{config.serviceAccount.email}</p>
+                </div>
+                <div>
+                  <span className="text-green-700 font-medium">Node Service Account:</span>
+                  <p className="text-green-900 font-mono text-xs">{getNodeServiceAccountEmail(config)}</p>
+                  <p className="text-green-700 text-xs">
+                    {config.serviceAccount.createNodeServiceAccount ? 'Created by Terraform with least-privilege roles' : 'Reuses the deployer service account'}
+                    {hasWorkloadIdentity(config) && ' · Workload Identity enabled'}
+                  </p>
+                </div>
+                <div>
+                  <span className="text-green-700 font-medium">GitHub Actions Auth:</span>
+                  <p className="text-green-900 text-xs">
+                    {config.auth.mode === 'workload-identity-federation' ? 'Workload Identity Federation (keyless)' : 'Service account JSON key (GCP_SA_KEY)'}
+                  </p>
+                </div>
+                <div>
+                  <span className="text-green-700 font-medium">Backend:</span>
+                  <p className="text-green-900">Google Cloud Storage</p>
+                </div>
+                <div>
+                  <span className="text-green-700 font-medium">State Bucket:</span>
+                  <p className="text-green-900 font-mono text-xs">{getStateBucket(config)}</p>
+                  {config.stateBackend.createBucket && (
+                    <p className="text-green-700 text-xs">Created by terraform/bootstrap if missing</p>
+                  )}
+                </div>
+                <div>
+                  <span className="text-green-700 font-medium">State Prefix:</span>
+                  <p className="text-green-900 font-mono text-xs">
+                    {isMultiEnvironment(config) ? 'terraform/state/<project>/<cluster>/<environment>' : getStatePrefix(config)}
+                  </p>
+                </div>
+                <div>
+                  <span className="text-green-700 font-medium">Locking / Encryption:</span>
+                  <p className="text-green-900 text-xs">
+                    {config.stateBackend.stateLock ? 'Waits for state lock' : 'Locking disabled'} · {config.stateBackend.kmsEncryptionKey ? 'Cloud KMS key' : 'Google-managed key'}
+                  </p>
+                </div>
+              </div>
             </div>
           </div>
-        </div>
 
-        {/* Service Account & State Configuration */}
-        <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
-          <h3 className="font-semibold text-green-900 mb-2">Service Account & Backend</h3>
-          <div className="text-sm space-y-2">
-            <div>
-              <span className="text-green-700 font-medium">Service Account:</span>
-              <p className="text-green-900 font-mono text-xs">githubactions-sa@turnkey-guild-441104-f3.iam.gserviceaccount.com</p>
-              <p className="text-green-700 text-xs">Used for BOTH cluster and node pool</p>
+          {/* Optimizations Applied */}
+          <div className="mt-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+            <h3 className="font-semibold text-yellow-900 mb-2">⚡ Performance Optimizations Applied</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-yellow-800">
+              <ul className="space-y-1">
+                <li>✅ <strong>Security:</strong> {describeSecurity(config)}</li>
+                <li>✅ <strong>Network:</strong> {describeNetwork(config.network)}</li>
+                <li>✅ <strong>Environments:</strong> {describeEnvironments(config)}</li>
+                <li>✅ <strong>Logging:</strong> {config.security.loggingComponents.join(', ')}</li>
+                <li>✅ <strong>Monitoring:</strong> {config.security.monitoringComponents.join(', ')}</li>
+              </ul>
+              <ul className="space-y-1">
+                <li>✅ <strong>Upgrades:</strong> {describeMaintenance(config.maintenance)}</li>
+                <li>
+                  ✅ <strong>Node pools:</strong> {autopilot ? 'none, Autopilot manages the nodes' : `${config.nodePools.length} pool(s) created with for_each`}
+                </li>
+                <li>✅ <strong>Workload Identity:</strong> {hasWorkloadIdentity(config) ? 'enabled' : 'disabled'}</li>
+                <li>✅ <strong>Additional resources:</strong> {describeResources(config.resources)}</li>
+              </ul>
             </div>
-            <div>
-              <span className="text-green-700 font-medium">Backend:</span>
-              <p className="text-green-900">Google Cloud Storage</p>
+          </div>
+
+          {/* Service Account Fix Notice */}
+          <div className="mt-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+            <h3 className="font-semibold text-green-900 mb-2">🚀 Simplified & Optimized Configuration</h3>
+            <div className="text-sm text-green-800">
+              <p className="mb-2">
+                <strong>Faster Creation:</strong> Removed complex features that slow down cluster provisioning
+              </p>
+              <p className="mb-2">
+                {autopilot
+                  ? <><strong>Autopilot:</strong> Nodes are created, sized and upgraded by Google to fit the pods you schedule</>
+                  : <><strong>Node Pools:</strong> Each pool is sized independently, either fixed or managed by the cluster autoscaler</>}
+              </p>
+              <p className="mb-2">
+                <strong>Service Account:</strong> Nodes run as <code className="bg-green-100 px-1 rounded">{getNodeServiceAccountEmail(config)}</code>
+              </p>
+              <p className="mb-2">
+                <strong>Minimal Configuration:</strong> Only essential settings for a working GKE cluster
+              </p>
+              <p>
+                <strong>Result:</strong> Much faster cluster creation with reliable service account configuration
+              </p>
             </div>
+          </div>
+        </>
+      ) : (
+        <div className="mt-6 p-4 bg-blue-50 border border-blue-200 rounded-lg">
+          <h3 className="font-semibold text-blue-900 mb-2">{provider.label} Configuration</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
             <div>
-              <span className="text-green-700 font-medium">State Bucket:</span>
-              <p className="text-green-900 font-mono text-xs">terraform-statefile-bucket-tf2</p>
+              <span className="font-medium text-blue-800">Cluster:</span>
+              <p className="text-blue-900">{config.clusterName} ({config.environment})</p>
             </div>
+            {provider.getSummary(config).map(item => (
+              <div key={item.label}>
+                <span className="font-medium text-blue-800">{item.label}:</span>
+                <p className="text-blue-900 break-all">{item.value}</p>
+              </div>
+            ))}
             <div>
-              <span className="text-green-700 font-medium">State Prefix:</span>
-              <p className="text-green-900 font-mono text-xs">terraform/state/gke-cluster</p>
+              <span className="font-medium text-blue-800">State:</span>
+              <p className="text-blue-900 break-all">{provider.getStateLocation(config)}</p>
             </div>
           </div>
+          <p className="text-sm text-blue-800 mt-3">Connect after apply:</p>
+          <code className="block bg-blue-100 p-2 rounded text-xs mt-1 font-mono">{provider.getCredentialsCommand(config)}</code>
         </div>
-      </div>
-
-      {/* Optimizations Applied */}
-      <div className="mt-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
-        <h3 className="font-semibold text-yellow-900 mb-2">⚡ Performance Optimizations Applied</h3>
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-yellow-800">
-          <ul className="space-y-1">
-            <li>✅ <strong>Removed:</strong> network_policy (faster creation)</li>
-            <li>✅ <strong>Removed:</strong> ip_allocation_policy (faster creation)</li>
-            <li>✅ <strong>Removed:</strong> workload_identity_config (faster creation)</li>
-            <li>✅ <strong>Removed:</strong> custom logging/monitoring (uses defaults)</li>
-          </ul>
-          <ul className="space-y-1">
-            <li>✅ <strong>Removed:</strong> management block (auto-repair/upgrade)</li>
-            <li>✅ <strong>Removed:</strong> autoscaling complexity</li>
-            <li>✅ <strong>Fixed:</strong> node_count = 2 (simple configuration)</li>
-            <li>✅ Service account for BOTH cluster and nodes</li>
-          </ul>
-        </div>
-      </div>
-
-      {/* Service Account Fix Notice */}
-      <div className="mt-6 p-4 bg-green-50 border border-green-200 rounded-lg">
-        <h3 className="font-semibold text-green-900 mb-2">🚀 Simplified & Optimized Configuration</h3>
-        <div className="text-sm text-green-800">
-          <p className="mb-2">
-            <strong>Faster Creation:</strong> Removed complex features that slow down cluster provisioning
-          </p>
-          <p className="mb-2">
-            <strong>Fixed Node Count:</strong> Always creates exactly 2 nodes (no autoscaling complexity)
-          </p>
-          <p className="mb-2">
-            <strong>Service Account:</strong> Uses <code className="bg-green-100 px-1 rounded">githubactions-sa@turnkey-guild-441104-f3.iam.gserviceaccount.com</code> for both cluster and nodes
-          </p>
-          <p className="mb-2">
-            <strong>Minimal Configuration:</strong> Only essential settings for a working GKE cluster
-          </p>
-          <p>
-            <strong>Result:</strong> Much faster cluster creation with reliable service account configuration
-          </p>
-        </div>
-      </div>
+      )}
 
       {/* Navigation */}
       <div className="mt-8 flex justify-between">
@@ -1,20 +1,28 @@
 import React, { useState, useEffect } from 'react';
 import { ArrowLeft, Play, RefreshCw, ExternalLink, CheckCircle, XCircle, Clock, Eye, Trash2, AlertTriangle } from 'lucide-react';
 import { GitHubService } from '../utils/githubApi';
+import {
+  describeLocation,
+  describeMaintenance,
+  describeNetwork,
+  describeNodePoolSize,
+  describeSecurity,
+  getNodeServiceAccountEmail,
+  getStateBucket,
+  getStatePrefix,
+  getTerraformProvider,
+  getWorkflowInputs,
+  hasWorkloadIdentity,
+  isAutopilot,
+  isMultiEnvironment,
+  resolveEnvironment,
+  TerraformConfig
+} from '../utils/terraformGenerator';
+import { TerraformPlan, describePlan, hasDestructiveChanges } from '../utils/terraformPlan';
+import { getWorkflowRunName } from '../utils/terraformWorkflow';
 import { useBasicAuth } from '../contexts/BasicAuthContext';
 import AuthModal from './auth/AuthModal';
-
-interface TerraformConfig {
-  projectId: string;
-  clusterName: string;
-  region: string;
-  nodeCount: number;
-  machineType: string;
-  diskSize: number;
-  enableAutoscaling: boolean;
-  minNodes: number;
-  maxNodes: number;
-}
+import TerraformPlanViewer from './TerraformPlanViewer';
 
 interface GitHubConfig {
   token: string;
@@ -38,10 +46,27 @@ interface WorkflowRun {
   html_url: string;
   created_at: string;
   updated_at: string;
+  run_number: number;
+  display_title: string;
+}
+
+// A successful plan run whose saved plan the next apply executes
+interface ReviewedPlan {
+  run: WorkflowRun;
+  environment: string;
 }
 
 type TerraformAction = 'plan' | 'apply' | 'destroy';
 
+// Runs are listed newest first. A plan is only current while no apply or destroy
+// for the same environment has succeeded since; applying it again would fail as stale.
+const findReviewedPlan = (runs: WorkflowRun[], environment: string): ReviewedPlan | null => {
+  const actions: TerraformAction[] = ['plan', 'apply', 'destroy'];
+  const latest = runs.find(run => run.status === 'completed' && run.conclusion === 'success' &&
+    actions.some(action => run.display_title === getWorkflowRunName(action, environment)));
+  return latest?.display_title === getWorkflowRunName('plan', environment) ? { run: latest, environment } : null;
+};
+
 const WorkflowStatus: React.FC<WorkflowStatusProps> = ({
   githubConfig,
   terraformConfig,
@@ -57,10 +82,40 @@ const WorkflowStatus: React.FC<WorkflowStatusProps> = ({
   const [isPolling, setIsPolling] = useState(false);
   const [currentAction, setCurrentAction] = useState<TerraformAction>('plan');
   const [showDestroyConfirm, setShowDestroyConfirm] = useState(false);
+  const [showApplyConfirm, setShowApplyConfirm] = useState(false);
+  // Plan of the last successful plan run, used to warn before applying destructive changes
+  const [loadedPlan, setLoadedPlan] = useState<TerraformPlan | null>(null);
+  // Recent deploy.yml runs, from which the reviewed plan is derived so it survives a reload
+  const [workflowRuns, setWorkflowRuns] = useState<WorkflowRun[]>([]);
+  // Environment the running operation was started for
+  const [operationEnvironment, setOperationEnvironment] = useState('');
   const [showAuthModal, setShowAuthModal] = useState(false);
+  const [selectedEnvironment, setSelectedEnvironment] = useState(terraformConfig.multiEnvironment.environments[0]?.name ?? '');
 
   const githubService = new GitHubService(githubConfig.token);
 
+  const multiEnvironment = isMultiEnvironment(terraformConfig);
+  const activeEnvironment = terraformConfig.multiEnvironment.environments.find(environment => environment.name === selectedEnvironment);
+  // Project, cluster and state prefix of the environment the buttons act on
+  const targetConfig = multiEnvironment && activeEnvironment
+    ? resolveEnvironment(terraformConfig, activeEnvironment)
+    : terraformConfig;
+
+  const provider = getTerraformProvider(terraformConfig);
+  const gke = terraformConfig.provider === 'gcp';
+  const stateBucket = getStateBucket(terraformConfig);
+  const statePrefix = getStatePrefix(targetConfig);
+  const stateLocation = provider.getStateLocation(targetConfig);
+  const reviewedPlan = findReviewedPlan(workflowRuns, multiEnvironment ? selectedEnvironment : terraformConfig.environment);
+  // The viewer only loads the plan of the run started from this page
+  const reviewedPlanDetails = reviewedPlan && currentWorkflowRun?.id === reviewedPlan.run.id ? loadedPlan : null;
+
+  const nodeSummary = isAutopilot(terraformConfig) && gke
+    ? 'Autopilot (managed by Google)'
+    : provider.getNodePools(terraformConfig)
+      .map(pool => `${pool.name}: ${describeNodePoolSize(pool, terraformConfig.provider)}`)
+      .join(', ');
+
   // Poll for workflow status updates
   useEffect(() => {
     let intervalId: NodeJS.Timeout;
@@ -89,7 +144,7 @@ const WorkflowStatus: React.FC<WorkflowStatusProps> = ({
                 if (currentAction === 'destroy') {
                   addLog('🗑️ Infrastructure destroyed successfully!');
                 } else if (currentAction === 'apply') {
-                  addLog('🎉 GKE cluster created successfully!');
+                  addLog('🎉 Cluster created successfully!');
                 } else {
                   addLog('📋 Terraform plan completed successfully!');
                 }
@@ -113,6 +168,25 @@ const WorkflowStatus: React.FC<WorkflowStatusProps> = ({
     };
   }, [isPolling, currentWorkflowRun, currentAction]);
 
+  // Reload the runs whenever an operation finishes so a new plan, or the apply that
+  // consumed it, is reflected
+  useEffect(() => {
+    if (!githubConfig.token || !githubConfig.owner || !githubConfig.repo || status === 'deploying') {
+      return;
+    }
+    let cancelled = false;
+    new GitHubService(githubConfig.token)
+      .getWorkflowRuns(githubConfig.owner, githubConfig.repo, 'deploy.yml', 50)
+      .then(runs => {
+        if (!cancelled) {
+          setWorkflowRuns(runs);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [githubConfig.token, githubConfig.owner, githubConfig.repo, status]);
+
   const addLog = (message: string) => {
     const timestamp = new Date().toLocaleTimeString();
     setLogs(prev => [...prev, `${timestamp} - ${message}`]);
@@ -121,6 +195,7 @@ const WorkflowStatus: React.FC<WorkflowStatusProps> = ({
   const updateLogsFromWorkflowStatus = (run: WorkflowRun) => {
     const statusMessages: Record<string, string> = {
       'queued': '📋 Workflow queued',
+      'waiting': '⏸️ Waiting for reviewer approval in GitHub',
       'in_progress': `🔄 ${currentAction} in progress`,
       'completed': run.conclusion === 'success' ? `✅ ${currentAction} completed successfully` : `❌ ${currentAction} failed`
     };
@@ -151,29 +226,36 @@ const WorkflowStatus: React.FC<WorkflowStatusProps> = ({
       return;
     }
 
+    if (action === 'apply' && !reviewedPlan) {
+      addLog('❌ Run a plan first; apply only runs a reviewed plan');
+      return;
+    }
+
     setCurrentAction(action);
     onStatusChange('deploying');
     setLogs([]);
+    setLoadedPlan(null);
+    setOperationEnvironment(selectedEnvironment);
     
     const actionMessages = {
       plan: '📋 Triggering Terraform plan...',
-      apply: '🚀 Triggering simplified infrastructure deployment...',
+      apply: `🚀 Triggering apply of the plan reviewed in run #${reviewedPlan?.run.run_number}...`,
       destroy: '🗑️ Triggering infrastructure destruction...'
     };
     
     addLog(actionMessages[action]);
 
     try {
-      // Prepare workflow inputs - simplified for fixed node count
-      const workflowInputs = {
-        terraform_action: action,
-        project_id: terraformConfig.projectId,
-        cluster_name: terraformConfig.clusterName,
-        region: terraformConfig.region,
-        node_count: '2', // Fixed to 2 nodes
-        machine_type: terraformConfig.machineType,
-        disk_size: terraformConfig.diskSize.toString()
-      };
+      // Prepare workflow inputs - node pool sizing is read from terraform.tfvars
+      const workflowInputs = getWorkflowInputs(
+        terraformConfig,
+        action,
+        selectedEnvironment,
+        action === 'apply' ? reviewedPlan?.run.id : undefined
+      );
+      if (multiEnvironment) {
+        addLog(`🌱 Environment: ${selectedEnvironment}${activeEnvironment?.requireApproval ? ' (waits for reviewer approval in GitHub)' : ''}`);
+      }
 
       // Trigger the workflow
       await githubService.triggerWorkflow(
@@ -232,7 +314,27 @@ const WorkflowStatus: React.FC<WorkflowStatusProps> = ({
     triggerWorkflow('destroy');
   };
 
+  const handleApplyClick = () => {
+    if (reviewedPlanDetails && hasDestructiveChanges(reviewedPlanDetails)) {
+      setShowApplyConfirm(true);
+    } else {
+      triggerWorkflow('apply');
+    }
+  };
+
+  const confirmApply = () => {
+    setShowApplyConfirm(false);
+    triggerWorkflow('apply');
+  };
+
+  // GitHub holds runs bound to a protected environment until a reviewer approves them
+  const awaitingApproval = status === 'deploying' && currentWorkflowRun?.status === 'waiting';
+  const canApply = status !== 'deploying' && reviewedPlan !== null;
+
   const getStatusIcon = () => {
+    if (awaitingApproval) {
+      return <Clock className="h-5 w-5 text-amber-600" />;
+    }
     switch (status) {
       case 'idle':
         return <Play className="h-5 w-5 text-blue-600" />;
@@ -246,6 +348,9 @@ const WorkflowStatus: React.FC<WorkflowStatusProps> = ({
   };
 
   const getStatusText = () => {
+    if (awaitingApproval) {
+      return 'Pending Approval';
+    }
     if (status === 'deploying') {
       const actionText = {
         plan: 'Planning...',
@@ -267,6 +372,9 @@ const WorkflowStatus: React.FC<WorkflowStatusProps> = ({
   };
 
   const getStatusColor = () => {
+    if (awaitingApproval) {
+      return 'text-amber-600';
+    }
     switch (status) {
       case 'idle':
         return 'text-blue-600';
@@ -283,7 +391,7 @@ const WorkflowStatus: React.FC<WorkflowStatusProps> = ({
     <div className="p-6">
       <div className="mb-6">
         <h2 className="text-2xl font-bold text-gray-900 mb-2">Terraform Operations</h2>
-        <p className="text-gray-600">Simplified GKE infrastructure with fixed 2-node configuration</p>
+        <p className="text-gray-600">Simplified {provider.cluster} infrastructure managed through GitHub Actions</p>
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
@@ -298,57 +406,83 @@ const WorkflowStatus: React.FC<WorkflowStatusProps> = ({
               </h3>
             </div>
 
+            {multiEnvironment && (
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Target Environment</label>
+                <select
+                  value={selectedEnvironment}
+                  onChange={(e) => setSelectedEnvironment(e.target.value)}
+                  disabled={status === 'deploying'}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {terraformConfig.multiEnvironment.environments.map(environment => (
+                    <option key={environment.name} value={environment.name}>
+                      {environment.name}{environment.requireApproval ? ' (approval required)' : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             {/* Configuration Summary */}
             <div className="bg-gray-50 p-4 rounded-lg mb-4">
               <h4 className="font-medium text-gray-800 mb-2">Simplified Configuration</h4>
               <div className="grid grid-cols-2 gap-2 text-sm">
-                <div>
-                  <span className="text-gray-600">Project:</span>
-                  <p className="font-medium">{terraformConfig.projectId}</p>
-                </div>
+                {gke && (
+                  <div>
+                    <span className="text-gray-600">Project:</span>
+                    <p className="font-medium">{targetConfig.projectId}</p>
+                  </div>
+                )}
                 <div>
                   <span className="text-gray-600">Cluster:</span>
-                  <p className="font-medium">{terraformConfig.clusterName}</p>
+                  <p className="font-medium">{targetConfig.clusterName}</p>
                 </div>
                 <div>
                   <span className="text-gray-600">Region:</span>
-                  <p className="font-medium">{terraformConfig.region}</p>
+                  <p className="font-medium">{provider.getRegion(terraformConfig)}</p>
                 </div>
-                <div>
-                  <span className="text-gray-600">Zones:</span>
-                  <p className="font-medium">{terraformConfig.region}-a, {terraformConfig.region}-c</p>
-                </div>
-                <div>
-                  <span className="text-gray-600">Nodes:</span>
-                  <p className="font-medium">2 (fixed count)</p>
-                </div>
-                <div>
-                  <span className="text-gray-600">Machine:</span>
-                  <p className="font-medium">{terraformConfig.machineType}</p>
+                {gke && (
+                  <div>
+                    <span className="text-gray-600">Location:</span>
+                    <p className="font-medium">{describeLocation(terraformConfig)}</p>
+                  </div>
+                )}
+                <div className="col-span-2">
+                  <span className="text-gray-600">Node Pools:</span>
+                  <p className="font-medium">{nodeSummary}</p>
                 </div>
               </div>
             </div>
 
             {/* Optimizations Applied */}
-            <div className="bg-green-50 p-4 rounded-lg mb-4">
-              <h4 className="font-medium text-green-800 mb-2">⚡ Performance Optimizations</h4>
-              <div className="text-sm text-green-700 space-y-1">
-                <p>✅ Removed network policy (faster creation)</p>
-                <p>✅ Removed IP allocation policy (faster creation)</p>
-                <p>✅ Removed workload identity (faster creation)</p>
-                <p>✅ Removed auto-repair/upgrade (faster creation)</p>
-                <p>✅ Fixed 2-node count (no autoscaling complexity)</p>
-                <p>✅ Service Account: githubactions-sa@turnkey-guild-441104-f3.iam.gserviceaccount.com</p>
+            {gke && (
+              <div className="bg-green-50 p-4 rounded-lg mb-4">
+                <h4 className="font-medium text-green-800 mb-2">⚡ Performance Optimizations</h4>
+                <div className="text-sm text-green-700 space-y-1">
+                  <p>✅ Security: {describeSecurity(terraformConfig)}</p>
+                  <p>✅ Network: {describeNetwork(terraformConfig.network)}</p>
+                  <p>✅ Workload Identity: {hasWorkloadIdentity(terraformConfig) ? 'enabled' : 'disabled'}</p>
+                  <p>✅ Upgrades: {describeMaintenance(terraformConfig.maintenance)}</p>
+                  <p>✅ Node pools: {nodeSummary}</p>
+                  <p>✅ Node Service Account: {getNodeServiceAccountEmail(targetConfig)}</p>
+                </div>
               </div>
-            </div>
+            )}
 
             {/* Remote State Info */}
             <div className="bg-blue-50 p-4 rounded-lg mb-4">
               <h4 className="font-medium text-blue-800 mb-2">Remote State Backend</h4>
               <div className="text-sm text-blue-700">
-                <p><strong>Backend:</strong> Google Cloud Storage</p>
-                <p><strong>Bucket:</strong> terraform-statefile-bucket-tf2</p>
-                <p><strong>Prefix:</strong> terraform/state/gke-cluster</p>
+                {gke ? (
+                  <>
+                    <p><strong>Backend:</strong> Google Cloud Storage</p>
+                    <p><strong>Bucket:</strong> {stateBucket}</p>
+                    <p><strong>Prefix:</strong> {statePrefix}</p>
+                  </>
+                ) : (
+                  <p className="break-all"><strong>State:</strong> {stateLocation}</p>
+                )}
               </div>
             </div>
 
@@ -363,7 +497,38 @@ const WorkflowStatus: React.FC<WorkflowStatusProps> = ({
                     <p><strong>Result:</strong> {currentWorkflowRun.conclusion}</p>
                   )}
                   <p><strong>Started:</strong> {new Date(currentWorkflowRun.created_at).toLocaleString()}</p>
+                  {currentAction === 'apply' && reviewedPlan && (
+                    <p>
+                      <strong>Plan:</strong>{' '}
+                      <a href={reviewedPlan.run.html_url} target="_blank" rel="noopener noreferrer" className="underline">
+                        run #{reviewedPlan.run.run_number}
+                      </a>
+                    </p>
+                  )}
                 </div>
+                {awaitingApproval && (
+                  <div className="mt-3 p-3 bg-amber-50 border border-amber-200 rounded-md text-sm text-amber-800">
+                    <p>
+                      This apply is waiting for a reviewer of the {operationEnvironment || 'target'} environment.{' '}
+                      <a href={currentWorkflowRun.html_url} target="_blank" rel="noopener noreferrer" className="underline">
+                        Review the deployment in GitHub
+                      </a>
+                    </p>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {reviewedPlan && status !== 'deploying' && (
+              <div className="bg-gray-50 p-4 rounded-lg mb-4 text-sm text-gray-700">
+                <p>
+                  <strong>Reviewed plan:</strong>{' '}
+                  <a href={reviewedPlan.run.html_url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800 underline">
+                    run #{reviewedPlan.run.run_number}
+                  </a>
+                  {multiEnvironment && ` for ${reviewedPlan.environment}`}
+                  {reviewedPlanDetails && ` (${describePlan(reviewedPlanDetails)})`}
+                </p>
               </div>
             )}
 
@@ -394,10 +559,11 @@ const WorkflowStatus: React.FC<WorkflowStatusProps> = ({
 
               {/* Apply Button */}
               <button
-                onClick={() => triggerWorkflow('apply')}
-                disabled={status === 'deploying'}
+                onClick={handleApplyClick}
+                disabled={!canApply}
+                title={reviewedPlan ? undefined : 'Run a plan first; apply runs exactly the reviewed plan'}
                 className={`w-full flex items-center justify-center space-x-2 px-4 py-3 rounded-md font-medium transition-colors ${
-                  status === 'deploying'
+                  !canApply
                     ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
                     : 'bg-green-600 text-white hover:bg-green-700'
                 }`}
@@ -405,12 +571,12 @@ const WorkflowStatus: React.FC<WorkflowStatusProps> = ({
                 {status === 'deploying' && currentAction === 'apply' ? (
                   <>
                     <RefreshCw className="h-4 w-4 animate-spin" />
-                    <span>Applying...</span>
+                    <span>{awaitingApproval ? 'Awaiting Approval...' : 'Applying...'}</span>
                   </>
                 ) : (
                   <>
                     <Play className="h-4 w-4" />
-                    <span>Terraform Apply (Fast)</span>
+                    <span>Apply Reviewed Plan</span>
                   </>
                 )}
               </button>
@@ -472,14 +638,14 @@ const WorkflowStatus: React.FC<WorkflowStatusProps> = ({
             <div className="bg-green-50 border border-green-200 rounded-lg p-6">
               <h4 className="font-medium text-green-800 mb-3">🎉 Simplified Infrastructure Created!</h4>
               <div className="space-y-2 text-sm text-green-700">
-                <p>✅ Your GKE cluster has been created successfully!</p>
+                <p>✅ Your {provider.cluster} cluster has been created successfully!</p>
                 <p>⚡ Fast creation with simplified configuration</p>
                 <p>🔧 Configure kubectl to connect to your cluster:</p>
                 <code className="block bg-green-100 p-2 rounded text-xs mt-2 font-mono">
-                  gcloud container clusters get-credentials {terraformConfig.clusterName} --region {terraformConfig.region} --project {terraformConfig.projectId}
+                  {provider.getCredentialsCommand(targetConfig)}
                 </code>
-                <p className="mt-2">💾 State is stored in: terraform-statefile-bucket-tf2/terraform/state/gke-cluster</p>
-                <p>📊 Cluster has exactly 2 nodes for optimal performance</p>
+                <p className="mt-2">💾 State is stored in: {stateLocation}</p>
+                <p>📊 Node pools: {nodeSummary}</p>
               </div>
             </div>
           )}
@@ -488,8 +654,8 @@ const WorkflowStatus: React.FC<WorkflowStatusProps> = ({
             <div className="bg-orange-50 border border-orange-200 rounded-lg p-6">
               <h4 className="font-medium text-orange-800 mb-3">🗑️ Infrastructure Destroyed!</h4>
               <div className="space-y-2 text-sm text-orange-700">
-                <p>✅ Your GKE cluster has been destroyed successfully!</p>
-                <p>💾 Remote state has been updated in GCS bucket</p>
+                <p>✅ Your {provider.cluster} cluster has been destroyed successfully!</p>
+                <p>💾 Remote state has been updated in {stateLocation}</p>
                 <p>💰 All associated resources have been cleaned up</p>
                 <p>🔄 You can now create a new cluster with different configuration</p>
               </div>
@@ -501,13 +667,26 @@ const WorkflowStatus: React.FC<WorkflowStatusProps> = ({
               <h4 className="font-medium text-blue-800 mb-3">📋 Plan Completed!</h4>
               <div className="space-y-2 text-sm text-blue-700">
                 <p>✅ Terraform plan has been generated successfully!</p>
-                <p>👀 Review the plan output in the GitHub Actions logs</p>
-                <p>🚀 If the plan looks good, proceed with "Terraform Apply (Fast)"</p>
-                <p>💾 Plan uses remote state from: terraform-statefile-bucket-tf2</p>
+                <p>👀 Review the changes below{loadedPlan ? ` (${describePlan(loadedPlan)})` : ''}</p>
+                <p>🚀 If the plan looks good, "Apply Reviewed Plan" applies exactly this plan</p>
+                <p>💾 Plan uses remote state from: {stateLocation}</p>
                 <p>⚡ Simplified configuration for faster deployment</p>
               </div>
             </div>
           )}
+
+          {status === 'success' && currentAction === 'plan' && currentWorkflowRun && (
+            <div className="bg-white border border-gray-200 rounded-lg p-6">
+              <h4 className="font-medium text-gray-800 mb-3">Plan Preview</h4>
+              <TerraformPlanViewer
+                token={githubConfig.token}
+                owner={githubConfig.owner}
+                repo={githubConfig.repo}
+                runId={currentWorkflowRun.id}
+                onLoad={setLoadedPlan}
+              />
+            </div>
+          )}
         </div>
 
         {/* Deployment Logs */}
@@ -555,10 +734,10 @@ const WorkflowStatus: React.FC<WorkflowStatusProps> = ({
             <h4 className="font-medium text-gray-800 mb-2">Simplified Operation Guide</h4>
             <div className="text-sm text-gray-600 space-y-1">
               <p><strong>Plan:</strong> Preview changes without applying them</p>
-              <p><strong>Apply (Fast):</strong> Create infrastructure with optimized settings</p>
+              <p><strong>Apply:</strong> Apply the last reviewed plan exactly as planned</p>
               <p><strong>Destroy:</strong> Remove all infrastructure resources</p>
               <p className="text-xs mt-2 text-gray-500">⚡ Configuration optimized for faster creation</p>
-              <p className="text-xs text-gray-500">📊 Fixed 2-node cluster for simplicity</p>
+              <p className="text-xs text-gray-500">📊 Node pools: {nodeSummary}</p>
             </div>
           </div>
         </div>
@@ -576,15 +755,15 @@ const WorkflowStatus: React.FC<WorkflowStatusProps> = ({
               Are you sure you want to destroy the infrastructure? This action will:
             </p>
             <ul className="text-sm text-gray-600 mb-6 space-y-1">
-              <li>• Delete the GKE cluster: <strong>{terraformConfig.clusterName}</strong></li>
-              <li>• Remove 2 nodes in zones: <strong>{terraformConfig.region}-a, {terraformConfig.region}-c</strong></li>
-              <li>• Clean up all associated GCP resources</li>
-              <li>• Update the remote state file in GCS</li>
+              <li>• Delete the {provider.cluster} cluster: <strong>{terraformConfig.clusterName}</strong></li>
+              {gke && <li>• Remove all nodes in zones: <strong>{terraformConfig.location.zones.join(', ')}</strong></li>}
+              <li>• Clean up all associated {gke ? 'GCP' : 'network and identity'} resources</li>
+              <li>• Update the remote state file in {gke ? 'GCS' : 'the state backend'}</li>
               <li>• <strong className="text-red-600">This action cannot be undone</strong></li>
             </ul>
             <div className="bg-yellow-50 border border-yellow-200 p-3 rounded-md mb-4">
               <p className="text-sm text-yellow-800">
-                <strong>Note:</strong> The remote state will be preserved in the GCS bucket for future reference.
+                <strong>Note:</strong> The remote state will be preserved in {gke ? 'the GCS bucket' : 'the state backend'} for future reference.
               </p>
             </div>
             <div className="flex space-x-3">
@@ -605,6 +784,38 @@ const WorkflowStatus: React.FC<WorkflowStatusProps> = ({
         </div>
       )}
 
+      {/* Apply Confirmation Modal */}
+      {showApplyConfirm && loadedPlan && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
+            <div className="flex items-center space-x-3 mb-4">
+              <AlertTriangle className="h-6 w-6 text-red-600" />
+              <h3 className="text-lg font-semibold text-gray-900">Apply Destructive Changes?</h3>
+            </div>
+            <p className="text-gray-600 mb-4">
+              The reviewed plan ({describePlan(loadedPlan)}) destroys or replaces existing resources:
+            </p>
+            <ul className="text-sm text-gray-600 mb-6 space-y-1">
+              {loadedPlan.warnings.map((warning, i) => <li key={i}>• {warning}</li>)}
+            </ul>
+            <div className="flex space-x-3">
+              <button
+                onClick={() => setShowApplyConfirm(false)}
+                className="flex-1 px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={confirmApply}
+                className="flex-1 px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors"
+              >
+                Apply Anyway
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Authentication Modal */}
       <AuthModal
         isOpen={showAuthModal}
@@ -0,0 +1,664 @@
+import React from 'react';
+import { Plus, Minus, Trash2 } from 'lucide-react';
+import {
+  CustomMetric,
+  PROBE_KINDS,
+  ProbeConfig,
+  ProbeKind,
+  ProbeType,
+  ResourceQuantities,
+  WorkloadAutoscaling,
+  WorkloadConfig,
+  WorkloadDisruptionBudget,
+  WorkloadEnvFrom,
+  WorkloadServiceType,
+  WorkloadVolume,
+  validateWorkload
+} from '../utils/k8sGenerator';
+import { defaultWorkload } from '../utils/storage';
+
+interface WorkloadSettingsProps {
+  workloads: WorkloadConfig[];
+  onChange: (workloads: WorkloadConfig[]) => void;
+}
+
+const serviceTypes: { value: WorkloadServiceType; label: string }[] = [
+  { value: 'ClusterIP', label: 'ClusterIP (inside the cluster)' },
+  { value: 'LoadBalancer', label: 'LoadBalancer (external IP)' },
+  { value: 'NodePort', label: 'NodePort' },
+  { value: 'None', label: 'None (no Service)' }
+];
+
+const volumeTypes: { value: WorkloadVolume['type']; label: string; placeholder: string }[] = [
+  { value: 'configMap', label: 'ConfigMap', placeholder: 'app-config' },
+  { value: 'secret', label: 'Secret', placeholder: 'app-secrets' },
+  { value: 'persistentVolumeClaim', label: 'PersistentVolumeClaim', placeholder: 'data' },
+  { value: 'emptyDir', label: 'emptyDir (scratch space)', placeholder: '' }
+];
+
+const resourceFields: { group: 'requests' | 'limits'; key: keyof ResourceQuantities; label: string; placeholder: string }[] = [
+  { group: 'requests', key: 'cpu', label: 'CPU Request', placeholder: '100m' },
+  { group: 'requests', key: 'memory', label: 'Memory Request', placeholder: '128Mi' },
+  { group: 'limits', key: 'cpu', label: 'CPU Limit', placeholder: '500m' },
+  { group: 'limits', key: 'memory', label: 'Memory Limit', placeholder: '512Mi' }
+];
+
+const probeLabels: Record<ProbeKind, string> = {
+  liveness: 'Liveness probe (restart the container when it fails)',
+  readiness: 'Readiness probe (stop sending traffic when it fails)',
+  startup: 'Startup probe (hold the other probes until the app has started)'
+};
+
+const probeTimingFields: { key: 'initialDelaySeconds' | 'periodSeconds' | 'timeoutSeconds' | 'failureThreshold'; label: string }[] = [
+  { key: 'initialDelaySeconds', label: 'Initial delay (s)' },
+  { key: 'periodSeconds', label: 'Period (s)' },
+  { key: 'timeoutSeconds', label: 'Timeout (s)' },
+  { key: 'failureThreshold', label: 'Failure threshold' }
+];
+
+const autoscalingFields: { key: 'minReplicas' | 'maxReplicas' | 'cpuUtilization' | 'memoryUtilization' | 'scaleDownStabilizationSeconds' | 'scaleDownPercent'; label: string }[] = [
+  { key: 'minReplicas', label: 'Min replicas' },
+  { key: 'maxReplicas', label: 'Max replicas' },
+  { key: 'cpuUtilization', label: 'CPU target (%)' },
+  { key: 'memoryUtilization', label: 'Memory target (%)' },
+  { key: 'scaleDownStabilizationSeconds', label: 'Scale-down window (s)' },
+  { key: 'scaleDownPercent', label: 'Scale-down per min (%)' }
+];
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent';
+
+const WorkloadSettings: React.FC<WorkloadSettingsProps> = ({ workloads, onChange }) => {
+  const updateWorkload = (index: number, changes: Partial<WorkloadConfig>) => {
+    onChange(workloads.map((workload, i) => (i === index ? { ...workload, ...changes } : workload)));
+  };
+
+  const updateAutoscaling = (index: number, changes: Partial<WorkloadAutoscaling>) => {
+    updateWorkload(index, { autoscaling: { ...workloads[index].autoscaling, ...changes } });
+  };
+
+  const updateVolume = (index: number, volumeIndex: number, changes: Partial<WorkloadVolume>) => {
+    updateWorkload(index, {
+      volumes: workloads[index].volumes.map((volume, i) => (i === volumeIndex ? { ...volume, ...changes } : volume))
+    });
+  };
+
+  const addVolume = (index: number) => {
+    const { volumes } = workloads[index];
+    let name = 'config';
+    for (let suffix = 2; volumes.some(volume => volume.name === name); suffix++) {
+      name = `config-${suffix}`;
+    }
+    updateWorkload(index, {
+      volumes: [...volumes, { name, type: 'configMap', source: 'app-config', mountPath: '', subPath: '', readOnly: true }]
+    });
+  };
+
+  const addWorkload = () => {
+    let name = defaultWorkload.name;
+    for (let suffix = 2; workloads.some(workload => workload.name === name); suffix++) {
+      name = `${defaultWorkload.name}-${suffix}`;
+    }
+    onChange([...workloads, { ...defaultWorkload, name }]);
+  };
+
+  const removeWorkload = (index: number) => {
+    onChange(workloads.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-4">
+      {workloads.length === 0 && (
+        <p className="text-sm text-gray-600">
+          No workloads yet. Each workload becomes a Deployment and, unless its service type is None, a Service with the same name.
+        </p>
+      )}
+
+      {workloads.map((workload, index) => {
+        const errors = validateWorkload(workload, workloads);
+
+        return (
+          <div key={index} className="p-4 border border-gray-200 rounded-lg bg-gray-50 space-y-4">
+            <div className="flex items-center justify-between">
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={workload.enabled}
+                  onChange={(e) => updateWorkload(index, { enabled: e.target.checked })}
+                  className="h-4 w-4 text-purple-600 focus:ring-purple-500 border-gray-300 rounded"
+                />
+                <span className="font-semibold text-gray-800">{workload.name || 'unnamed'}</span>
+                {!workload.enabled && <span className="text-xs px-2 py-0.5 bg-gray-200 text-gray-600 rounded">not deployed</span>}
+              </label>
+              <button
+                onClick={() => removeWorkload(index)}
+                className="p-2 rounded-md text-red-600 hover:bg-red-50"
+                title="Remove workload"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={workload.name}
+                  onChange={(e) => updateWorkload(index, { name: e.target.value })}
+                  className={inputClassName}
+                  placeholder="api"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Container Image</label>
+                <input
+                  type="text"
+                  value={workload.image}
+                  onChange={(e) => updateWorkload(index, { image: e.target.value })}
+                  className={inputClassName}
+                  placeholder="us-docker.pkg.dev/my-project/apps/api:1.0.0"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Replicas</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="50"
+                  value={workload.replicas}
+                  onChange={(e) => updateWorkload(index, { replicas: parseInt(e.target.value) })}
+                  disabled={workload.autoscaling.enabled}
+                  className={`${inputClassName} disabled:bg-gray-100 disabled:text-gray-400`}
+                />
+                {workload.autoscaling.enabled && (
+                  <p className="text-xs text-gray-500 mt-1">The autoscaler sets the replica count.</p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Service Type</label>
+                <select
+                  value={workload.serviceType}
+                  onChange={(e) => updateWorkload(index, { serviceType: e.target.value as WorkloadServiceType })}
+                  className={inputClassName}
+                >
+                  {serviceTypes.map(type => (
+                    <option key={type.value} value={type.value}>{type.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Container Arguments (one per line)</label>
+                <textarea
+                  value={workload.args.join('\n')}
+                  onChange={(e) => updateWorkload(index, { args: e.target.value ? e.target.value.split('\n') : [] })}
+                  rows={2}
+                  className={`${inputClassName} font-mono text-sm`}
+                  placeholder={'--port=8080\n--log-level=info'}
+                />
+              </div>
+            </div>
+
+            {/* Ports */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Ports (name, container port, service port)</label>
+              <div className="space-y-2">
+                {workload.ports.map((port, portIndex) => (
+                  <div key={portIndex} className="flex space-x-2">
+                    <input
+                      type="text"
+                      value={port.name}
+                      onChange={(e) => updateWorkload(index, {
+                        ports: workload.ports.map((p, i) => (i === portIndex ? { ...p, name: e.target.value } : p))
+                      })}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      placeholder="http"
+                    />
+                    <input
+                      type="number"
+                      min="1"
+                      max="65535"
+                      value={port.containerPort}
+                      onChange={(e) => updateWorkload(index, {
+                        ports: workload.ports.map((p, i) => (i === portIndex ? { ...p, containerPort: parseInt(e.target.value) } : p))
+                      })}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    />
+                    <input
+                      type="number"
+                      min="1"
+                      max="65535"
+                      value={port.servicePort}
+                      onChange={(e) => updateWorkload(index, {
+                        ports: workload.ports.map((p, i) => (i === portIndex ? { ...p, servicePort: parseInt(e.target.value) } : p))
+                      })}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    />
+                    <button
+                      onClick={() => updateWorkload(index, { ports: workload.ports.filter((_, i) => i !== portIndex) })}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-md"
+                    >
+                      <Minus className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() => updateWorkload(index, {
+                    ports: [...workload.ports, { name: `port-${workload.ports.length + 1}`, containerPort: 9090, servicePort: 9090 }]
+                  })}
+                  className="flex items-center space-x-2 px-3 py-2 text-purple-600 hover:bg-purple-50 rounded-md text-sm"
+                >
+                  <Plus className="h-4 w-4" />
+                  <span>Add Port</span>
+                </button>
+              </div>
+            </div>
+
+            {/* Environment */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Environment Variables</label>
+              <div className="space-y-2">
+                {workload.env.map((variable, envIndex) => (
+                  <div key={envIndex} className="flex space-x-2">
+                    <input
+                      type="text"
+                      value={variable.name}
+                      onChange={(e) => updateWorkload(index, {
+                        env: workload.env.map((v, i) => (i === envIndex ? { ...v, name: e.target.value } : v))
+                      })}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      placeholder="NAME"
+                    />
+                    <input
+                      type="text"
+                      value={variable.value}
+                      onChange={(e) => updateWorkload(index, {
+                        env: workload.env.map((v, i) => (i === envIndex ? { ...v, value: e.target.value } : v))
+                      })}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      placeholder="value"
+                    />
+                    <button
+                      onClick={() => updateWorkload(index, { env: workload.env.filter((_, i) => i !== envIndex) })}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-md"
+                    >
+                      <Minus className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() => updateWorkload(index, { env: [...workload.env, { name: '', value: '' }] })}
+                  className="flex items-center space-x-2 px-3 py-2 text-purple-600 hover:bg-purple-50 rounded-md text-sm"
+                >
+                  <Plus className="h-4 w-4" />
+                  <span>Add Environment Variable</span>
+                </button>
+              </div>
+            </div>
+
+            {/* Environment from Secrets and ConfigMaps */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Load Environment From</label>
+              <div className="space-y-2">
+                {workload.envFrom.map((source, sourceIndex) => (
+                  <div key={sourceIndex} className="flex space-x-2">
+                    <select
+                      value={source.kind}
+                      onChange={(e) => updateWorkload(index, {
+                        envFrom: workload.envFrom.map((s, i) => (i === sourceIndex ? { ...s, kind: e.target.value as WorkloadEnvFrom['kind'] } : s))
+                      })}
+                      className="w-40 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    >
+                      <option value="secret">Secret</option>
+                      <option value="configMap">ConfigMap</option>
+                    </select>
+                    <input
+                      type="text"
+                      value={source.name}
+                      onChange={(e) => updateWorkload(index, {
+                        envFrom: workload.envFrom.map((s, i) => (i === sourceIndex ? { ...s, name: e.target.value } : s))
+                      })}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      placeholder="app-secrets"
+                    />
+                    <button
+                      onClick={() => updateWorkload(index, { envFrom: workload.envFrom.filter((_, i) => i !== sourceIndex) })}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-md"
+                    >
+                      <Minus className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() => updateWorkload(index, { envFrom: [...workload.envFrom, { kind: 'secret', name: '' }] })}
+                  className="flex items-center space-x-2 px-3 py-2 text-purple-600 hover:bg-purple-50 rounded-md text-sm"
+                >
+                  <Plus className="h-4 w-4" />
+                  <span>Add Secret or ConfigMap</span>
+                </button>
+              </div>
+            </div>
+
+            {/* Volumes */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Volumes</label>
+              <div className="space-y-2">
+                {workload.volumes.map((volume, volumeIndex) => (
+                  <div key={volumeIndex} className="flex flex-wrap items-center gap-2">
+                    <input
+                      type="text"
+                      value={volume.name}
+                      onChange={(e) => updateVolume(index, volumeIndex, { name: e.target.value })}
+                      className="w-28 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      placeholder="config"
+                    />
+                    <select
+                      value={volume.type}
+                      onChange={(e) => updateVolume(index, volumeIndex, { type: e.target.value as WorkloadVolume['type'] })}
+                      className="w-48 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    >
+                      {volumeTypes.map(type => (
+                        <option key={type.value} value={type.value}>{type.label}</option>
+                      ))}
+                    </select>
+                    {volume.type !== 'emptyDir' && (
+                      <input
+                        type="text"
+                        value={volume.source}
+                        onChange={(e) => updateVolume(index, volumeIndex, { source: e.target.value })}
+                        className="w-36 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                        placeholder={volumeTypes.find(type => type.value === volume.type)?.placeholder}
+                      />
+                    )}
+                    <input
+                      type="text"
+                      value={volume.mountPath}
+                      onChange={(e) => updateVolume(index, volumeIndex, { mountPath: e.target.value })}
+                      className="flex-1 min-w-[10rem] px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 font-mono text-sm"
+                      placeholder="/etc/nginx/conf.d/default.conf"
+                    />
+                    <input
+                      type="text"
+                      value={volume.subPath}
+                      onChange={(e) => updateVolume(index, volumeIndex, { subPath: e.target.value })}
+                      className="w-32 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 font-mono text-sm"
+                      placeholder="sub path"
+                    />
+                    <label className="flex items-center space-x-1 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={volume.readOnly}
+                        onChange={(e) => updateVolume(index, volumeIndex, { readOnly: e.target.checked })}
+                        className="h-4 w-4 text-purple-600 focus:ring-purple-500 border-gray-300 rounded"
+                      />
+                      <span>Read-only</span>
+                    </label>
+                    <button
+                      onClick={() => updateWorkload(index, { volumes: workload.volumes.filter((_, i) => i !== volumeIndex) })}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-md"
+                    >
+                      <Minus className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() => addVolume(index)}
+                  className="flex items-center space-x-2 px-3 py-2 text-purple-600 hover:bg-purple-50 rounded-md text-sm"
+                >
+                  <Plus className="h-4 w-4" />
+                  <span>Add Volume</span>
+                </button>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Pods restart on their own when the generated Secret or ConfigMap they use changes.
+              </p>
+            </div>
+
+            {/* Resources */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {resourceFields.map(field => (
+                <div key={`${field.group}-${field.key}`}>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{field.label}</label>
+                  <input
+                    type="text"
+                    value={workload.resources[field.group][field.key]}
+                    onChange={(e) => updateWorkload(index, {
+                      resources: {
+                        ...workload.resources,
+                        [field.group]: { ...workload.resources[field.group], [field.key]: e.target.value }
+                      }
+                    })}
+                    className={inputClassName}
+                    placeholder={field.placeholder}
+                  />
+                </div>
+              ))}
+            </div>
+
+            {/* Autoscaling */}
+            <div className="space-y-2">
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={workload.autoscaling.enabled}
+                  onChange={(e) => updateAutoscaling(index, { enabled: e.target.checked })}
+                  className="h-4 w-4 text-purple-600 focus:ring-purple-500 border-gray-300 rounded"
+                />
+                <span className="text-sm font-medium text-gray-700">Horizontal Pod Autoscaler</span>
+              </label>
+              {workload.autoscaling.enabled && (
+                <div className="pl-6 space-y-3">
+                  <div className="grid grid-cols-2 md:grid-cols-6 gap-2">
+                    {autoscalingFields.map(field => (
+                      <div key={field.key}>
+                        <label className="block text-xs text-gray-500 mb-0.5">{field.label}</label>
+                        <input
+                          type="number"
+                          min="0"
+                          value={workload.autoscaling[field.key]}
+                          onChange={(e) => updateAutoscaling(index, { [field.key]: parseInt(e.target.value) || 0 })}
+                          className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <div className="space-y-2">
+                    {workload.autoscaling.customMetrics.map((metric, metricIndex) => {
+                      const updateMetric = (changes: Partial<CustomMetric>) => updateAutoscaling(index, {
+                        customMetrics: workload.autoscaling.customMetrics.map((m, i) => (i === metricIndex ? { ...m, ...changes } : m))
+                      });
+
+                      return (
+                        <div key={metricIndex} className="flex space-x-2">
+                          <select
+                            value={metric.type}
+                            onChange={(e) => updateMetric({ type: e.target.value as CustomMetric['type'] })}
+                            className="w-32 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                          >
+                            <option value="Pods">Pods</option>
+                            <option value="External">External</option>
+                          </select>
+                          <input
+                            type="text"
+                            value={metric.name}
+                            onChange={(e) => updateMetric({ name: e.target.value })}
+                            className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                            placeholder="http_requests_per_second"
+                          />
+                          <input
+                            type="text"
+                            value={metric.averageValue}
+                            onChange={(e) => updateMetric({ averageValue: e.target.value })}
+                            className="w-28 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                            placeholder="100"
+                          />
+                          <button
+                            onClick={() => updateAutoscaling(index, {
+                              customMetrics: workload.autoscaling.customMetrics.filter((_, i) => i !== metricIndex)
+                            })}
+                            className="p-2 text-red-600 hover:bg-red-50 rounded-md"
+                          >
+                            <Minus className="h-4 w-4" />
+                          </button>
+                        </div>
+                      );
+                    })}
+                    <button
+                      onClick={() => updateAutoscaling(index, {
+                        customMetrics: [...workload.autoscaling.customMetrics, { type: 'Pods', name: '', averageValue: '' }]
+                      })}
+                      className="flex items-center space-x-2 px-3 py-2 text-purple-600 hover:bg-purple-50 rounded-md text-sm"
+                    >
+                      <Plus className="h-4 w-4" />
+                      <span>Add Custom Metric</span>
+                    </button>
+                    <p className="text-xs text-gray-500">
+                      Utilization targets are percentages of the requests; 0 leaves a target out. Custom metrics need a metrics adapter
+                      such as the Custom Metrics Stackdriver Adapter in the cluster.
+                    </p>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* Disruption budget */}
+            <div className="space-y-2">
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={workload.disruptionBudget.enabled}
+                  onChange={(e) => updateWorkload(index, { disruptionBudget: { ...workload.disruptionBudget, enabled: e.target.checked } })}
+                  className="h-4 w-4 text-purple-600 focus:ring-purple-500 border-gray-300 rounded"
+                />
+                <span className="text-sm font-medium text-gray-700">Pod Disruption Budget</span>
+              </label>
+              {workload.disruptionBudget.enabled && (
+                <div className="pl-6 flex space-x-2">
+                  <select
+                    value={workload.disruptionBudget.mode}
+                    onChange={(e) => updateWorkload(index, {
+                      disruptionBudget: { ...workload.disruptionBudget, mode: e.target.value as WorkloadDisruptionBudget['mode'] }
+                    })}
+                    className="w-48 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  >
+                    <option value="maxUnavailable">Max unavailable</option>
+                    <option value="minAvailable">Min available</option>
+                  </select>
+                  <input
+                    type="text"
+                    value={workload.disruptionBudget.value}
+                    onChange={(e) => updateWorkload(index, { disruptionBudget: { ...workload.disruptionBudget, value: e.target.value } })}
+                    className="w-28 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    placeholder="1 or 50%"
+                  />
+                </div>
+              )}
+            </div>
+
+            {/* Probes */}
+            <div className="space-y-3">
+              {PROBE_KINDS.map(kind => {
+                const probe = workload.probes[kind];
+                const updateProbe = (changes: Partial<ProbeConfig>) => updateWorkload(index, {
+                  probes: { ...workload.probes, [kind]: { ...probe, ...changes } }
+                });
+
+                return (
+                  <div key={kind} className="space-y-2">
+                    <label className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        checked={probe.enabled}
+                        onChange={(e) => updateProbe({ enabled: e.target.checked })}
+                        className="h-4 w-4 text-purple-600 focus:ring-purple-500 border-gray-300 rounded"
+                      />
+                      <span className="text-sm font-medium text-gray-700">{probeLabels[kind]}</span>
+                    </label>
+                    {probe.enabled && (
+                      <div className="grid grid-cols-2 md:grid-cols-7 gap-2 pl-6 items-end">
+                        <select
+                          value={probe.type}
+                          onChange={(e) => updateProbe({ type: e.target.value as ProbeType })}
+                          className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                        >
+                          <option value="http">HTTP GET</option>
+                          <option value="tcp">TCP socket</option>
+                          <option value="exec">Command</option>
+                        </select>
+                        {probe.type === 'exec' ? (
+                          <input
+                            type="text"
+                            value={probe.command}
+                            onChange={(e) => updateProbe({ command: e.target.value })}
+                            className="md:col-span-2 px-2 py-1 border border-gray-300 rounded-md text-sm font-mono focus:outline-none focus:ring-2 focus:ring-purple-500"
+                            placeholder="pg_isready -h localhost"
+                          />
+                        ) : (
+                          <>
+                            <select
+                              value={probe.port}
+                              onChange={(e) => updateProbe({ port: e.target.value })}
+                              className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                            >
+                              {!workload.ports.some(port => port.name === probe.port) && (
+                                <option value={probe.port}>{probe.port || 'Select a port'}</option>
+                              )}
+                              {workload.ports.map(port => (
+                                <option key={port.name} value={port.name}>{port.name} ({port.containerPort})</option>
+                              ))}
+                            </select>
+                            {probe.type === 'http' ? (
+                              <input
+                                type="text"
+                                value={probe.path}
+                                onChange={(e) => updateProbe({ path: e.target.value })}
+                                className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                                placeholder="/healthz"
+                              />
+                            ) : <div />}
+                          </>
+                        )}
+                        {probeTimingFields.map(field => (
+                          <div key={field.key}>
+                            <label className="block text-xs text-gray-500 mb-0.5">{field.label}</label>
+                            <input
+                              type="number"
+                              min={field.key === 'initialDelaySeconds' ? 0 : 1}
+                              value={probe[field.key]}
+                              onChange={(e) => updateProbe({ [field.key]: parseInt(e.target.value) })}
+                              className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+              <p className="text-xs text-gray-500">
+                Command probes run with <code className="bg-gray-100 px-1 rounded">sh -c</code>, so the image needs a shell.
+              </p>
+            </div>
+
+            {errors.length > 0 && (
+              <ul className="text-xs text-red-600 space-y-0.5">
+                {errors.map(error => (
+                  <li key={error}>• {error}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+
+      <button
+        onClick={addWorkload}
+        className="flex items-center space-x-2 px-3 py-2 border border-purple-300 text-purple-600 hover:bg-purple-50 rounded-md text-sm"
+      >
+        <Plus className="h-4 w-4" />
+        <span>Add Workload</span>
+      </button>
+    </div>
+  );
+};
+
+export default WorkloadSettings;
@@ -228,7 +228,7 @@ const SavedConfigurations: React.FC<SavedConfigurationsProps> = ({
                       <p><strong>Project:</strong> {config.configuration?.projectId || 'N/A'}</p>
                       <p><strong>Cluster:</strong> {config.configuration?.clusterName || 'N/A'}</p>
                       <p><strong>Region:</strong> {config.configuration?.region || 'N/A'}</p>
-                      <p><strong>Machine:</strong> {config.configuration?.machineType || 'N/A'}</p>
+                      <p><strong>Machine:</strong> {config.configuration?.nodePools?.[0]?.machineType || config.configuration?.machineType || 'N/A'}</p>
                     </>
                   ) : (
                     <>
@@ -6,8 +6,19 @@ import AnimatedButton from '../ui/AnimatedButton';
 import ProgressRing from '../ui/ProgressRing';
 import StatusBadge from '../ui/StatusBadge';
 import FloatingActionButton from '../ui/FloatingActionButton';
+import DriftStatusPanel from '../DriftStatusPanel';
+import { TerraformConfig } from '../../utils/terraformGenerator';
 
-const EnhancedDashboard: React.FC = () => {
+interface EnhancedDashboardProps {
+  githubConfig: {
+    token: string;
+    owner: string;
+    repo: string;
+  };
+  terraformConfig: TerraformConfig;
+}
+
+const EnhancedDashboard: React.FC<EnhancedDashboardProps> = ({ githubConfig, terraformConfig }) => {
   const [activeView, setActiveView] = useState('overview');
 
   const metrics = [
@@ -149,6 +160,13 @@ const EnhancedDashboard: React.FC = () => {
           </div>
         </div>
 
+        {/* Drift Status */}
+        <div className="mb-8">
+          <GlassCard className="p-6" hover={false}>
+            <DriftStatusPanel githubConfig={githubConfig} terraformConfig={terraformConfig} />
+          </GlassCard>
+        </div>
+
         {/* Resource Overview */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
           <GlassCard className="p-6">
@@ -41,21 +41,15 @@ import {
   clearAppState,
   exportConfiguration,
   importConfiguration,
-  getLastSavedTime
+  getLastSavedTime,
+  normalizeK8sConfig,
+  normalizeTerraformConfig
 } from '../../utils/storage';
 import { saveBasicDeployment, updateBasicDeploymentStatus } from '../../utils/basicDeploymentTracking';
-
-interface TerraformConfig {
-  projectId: string;
-  clusterName: string;
-  region: string;
-  nodeCount: number;
-  machineType: string;
-  diskSize: number;
-  enableAutoscaling: boolean;
-  minNodes: number;
-  maxNodes: number;
-}
+import { CIConfig } from '../../utils/ciGenerator';
+import { defaultGcpAuthConfig } from '../../utils/gcpAuth';
+import { K8sConfig, stripSecretValues } from '../../utils/k8sGenerator';
+import { TerraformConfig } from '../../utils/terraformGenerator';
 
 interface GitHubConfig {
   token: string;
@@ -63,65 +57,6 @@ interface GitHubConfig {
   repo: string;
 }
 
-interface K8sConfig {
-  projectId: string;
-  clusterName: string;
-  region: string;
-  zone: string;
-  namespace: string;
-  manifests: ManifestConfig[];
-}
-
-interface ManifestConfig {
-  type: 'frontend' | 'backend' | 'secrets' | 'ingress' | 'db-init-job';
-  enabled: boolean;
-  config: Record<string, any>;
-}
-
-interface DockerConfig {
-  enabled: boolean;
-  dockerfile: string;
-  context: string;
-  buildArgs: Record<string, string>;
-  target?: string;
-  platforms: string[];
-}
-
-interface RegistryConfig {
-  type: 'gcr' | 'dockerhub' | 'ghcr' | 'ecr';
-  registry: string;
-  repository: string;
-  username?: string;
-  enabled: boolean;
-}
-
-interface CIConfig {
-  projectName: string;
-  gitRepo: string;
-  branch: string;
-  buildTriggers: {
-    onPush: boolean;
-    onPR: boolean;
-    onTag: boolean;
-    manual: boolean;
-  };
-  docker: {
-    frontend: DockerConfig;
-    backend: DockerConfig;
-  };
-  registries: RegistryConfig[];
-  scanning: {
-    enabled: boolean;
-    failOnHigh: boolean;
-    failOnCritical: boolean;
-  };
-  notifications: {
-    slack?: string;
-    email?: string;
-    discord?: string;
-  };
-}
-
 type DeploymentMode = 'infrastructure' | 'application';
 type InfraTab = 'config' | 'terraform' | 'github' | 'deploy';
 type AppTab = 'k8s-config' | 'k8s-manifest' | 'k8s-github' | 'k8s-deploy';
@@ -279,7 +214,7 @@ const EnhancedMainApp: React.FC = () => {
       const deployment = saveBasicDeployment({
         deployment_type: type,
         project_name: type === 'infrastructure' ? config.clusterName : config.namespace,
-        configuration: config,
+        configuration: type === 'application' ? stripSecretValues(config) : config,
         status: 'pending',
         github_repo: githubRepo,
         workflow_url: workflowUrl,
@@ -307,11 +242,12 @@ const EnhancedMainApp: React.FC = () => {
 
   const handleLoadConfiguration = (config: any, type: 'infrastructure' | 'application') => {
     if (type === 'infrastructure') {
-      setTerraformConfig(config);
+      // Saved configurations may predate newer generator fields
+      setTerraformConfig(normalizeTerraformConfig(config));
       setMainTab('infrastructure');
       setActiveInfraTab('config');
     } else {
-      setK8sConfig(config);
+      setK8sConfig(normalizeK8sConfig(config));
       setMainTab('application');
       setActiveAppTab('k8s-config');
     }
@@ -395,14 +331,15 @@ const EnhancedMainApp: React.FC = () => {
         failOnHigh: false,
         failOnCritical: true
       },
-      notifications: {}
+      notifications: {},
+      auth: defaultGcpAuthConfig
     };
   }
 
   const renderMainContent = () => {
     switch (mainTab) {
       case 'dashboard':
-        return <EnhancedDashboard />;
+        return <EnhancedDashboard githubConfig={githubConfig} terraformConfig={terraformConfig} />;
       
       case 'infrastructure':
         return (
@@ -446,6 +383,7 @@ const EnhancedMainApp: React.FC = () => {
               {activeInfraTab === 'terraform' && (
                 <TerraformPreview
                   config={terraformConfig}
+                  onChange={handleTerraformConfigChange}
                   onBack={() => setActiveInfraTab('config')}
                   onNext={() => setActiveInfraTab('github')}
                 />
@@ -527,6 +465,7 @@ const EnhancedMainApp: React.FC = () => {
                   config={k8sGithubConfig}
                   k8sConfig={k8sConfig}
                   onChange={handleK8sGithubConfigChange}
+                  onK8sConfigChange={handleK8sConfigChange}
                   onBack={() => setActiveAppTab('k8s-manifest')}
                   onNext={() => setActiveAppTab('k8s-deploy')}
                 />
@@ -633,7 +572,7 @@ const EnhancedMainApp: React.FC = () => {
 
       case 'cost-optimizer':
         return enabledPlugins.includes('cost-optimizer') ? (
-          <CostOptimizer />
+          <CostOptimizer terraformConfig={terraformConfig} />
         ) : (
           <PluginNotEnabled pluginName="Cost Optimizer" onEnable={() => setMainTab('plugins')} />
         );
@@ -646,7 +585,7 @@ const EnhancedMainApp: React.FC = () => {
           <BasicSavedConfigurations
             onLoadConfiguration={handleLoadConfiguration}
             currentInfraConfig={terraformConfig}
-            currentAppConfig={k8sConfig}
+            currentAppConfig={stripSecretValues(k8sConfig)}
           />
         );
 
@@ -659,7 +598,7 @@ const EnhancedMainApp: React.FC = () => {
         );
 
       default:
-        return <EnhancedDashboard />;
+        return <EnhancedDashboard githubConfig={githubConfig} terraformConfig={terraformConfig} />;
     }
   };
 
@@ -209,7 +209,7 @@ const DeploymentHistory: React.FC = () => {
                           </div>
                           <div>
                             <span className="text-gray-500">Machine:</span>
-                            <p className="font-medium">{deployment.configuration?.machineType || 'N/A'}</p>
+                            <p className="font-medium">{deployment.configuration?.nodePools?.[0]?.machineType || deployment.configuration?.machineType || 'N/A'}</p>
                           </div>
                         </>
                       ) : (
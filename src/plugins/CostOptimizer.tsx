@@ -1,47 +1,92 @@
 import React, { useState } from 'react';
 import { DollarSign, TrendingDown, Lightbulb, Calculator, PieChart } from 'lucide-react';
+import { AutopilotRequests, defaultAutopilotRequests, estimateMonthlyCost } from '../utils/gkePricing';
+import { defaultTerraformConfig } from '../utils/storage';
+import { TerraformConfig, isAutopilot } from '../utils/terraformGenerator';
 
-const CostOptimizer: React.FC = () => {
+interface CostOptimizerProps {
+  terraformConfig?: TerraformConfig;
+}
+
+const CostOptimizer: React.FC<CostOptimizerProps> = ({ terraformConfig = defaultTerraformConfig }) => {
   const [analysis, setAnalysis] = useState<any>(null);
   const [loading, setLoading] = useState(false);
+  const [autopilotRequests, setAutopilotRequests] = useState<AutopilotRequests>(defaultAutopilotRequests);
+
+  const autopilot = isAutopilot(terraformConfig);
+  const estimate = estimateMonthlyCost(terraformConfig, autopilotRequests);
+  const monthlyTotal = estimate.reduce((sum, item) => sum + item.amount, 0);
+  const podCost = autopilot ? estimate[0].amount + estimate[1].amount : 0;
 
-  const recommendations = [
+  const standardRecommendations = [
     {
       title: 'Right-size Node Pools',
-      savings: '$45.20/month',
+      savings: 45.20,
       impact: 'high',
       description: 'Your nodes are over-provisioned. Consider using e2-small instead of e2-medium.',
       effort: 'Low'
     },
     {
       title: 'Enable Cluster Autoscaling',
-      savings: '$23.80/month',
+      savings: 23.80,
       impact: 'medium',
       description: 'Automatically scale nodes based on demand to avoid paying for idle resources.',
       effort: 'Medium'
     },
     {
       title: 'Use Preemptible Nodes',
-      savings: '$67.50/month',
+      savings: 67.50,
       impact: 'high',
       description: 'Switch to preemptible nodes for non-critical workloads (up to 80% savings).',
       effort: 'High'
     },
     {
       title: 'Optimize Storage',
-      savings: '$12.30/month',
+      savings: 12.30,
       impact: 'low',
       description: 'Use standard persistent disks instead of SSD for non-performance critical data.',
       effort: 'Low'
     }
   ];
 
-  const costBreakdown = [
-    { category: 'Compute Engine', amount: 89.45, percentage: 65 },
-    { category: 'Kubernetes Engine', amount: 24.50, percentage: 18 },
-    { category: 'Persistent Disks', amount: 15.30, percentage: 11 },
-    { category: 'Load Balancing', amount: 8.20, percentage: 6 }
-  ];
+  // Autopilot has no nodes to right-size; savings come from what pods request
+  const autopilotRecommendations = [
+    {
+      title: 'Right-size Pod Requests',
+      savings: podCost * 0.2,
+      impact: 'high',
+      description: 'Autopilot bills requested CPU and memory, not usage. Apply VerticalPodAutoscaler recommendations to trim over-sized requests.',
+      effort: 'Low'
+    },
+    {
+      title: 'Run Fault-tolerant Pods on Spot',
+      savings: podCost * (1 - autopilotRequests.spotShare) * 0.35,
+      impact: 'high',
+      description: 'Add the cloud.google.com/gke-spot node selector to batch and stateless workloads for Spot Pod pricing.',
+      effort: 'Medium'
+    },
+    {
+      title: 'Scale Idle Workloads to Zero',
+      savings: podCost * 0.1,
+      impact: 'medium',
+      description: 'Autopilot charges nothing once pods are gone. Scale non-production deployments down outside working hours.',
+      effort: 'Medium'
+    }
+  ].filter(rec => rec.savings >= 0.01);
+
+  const recommendations = autopilot ? autopilotRecommendations : standardRecommendations;
+  const potentialSavings = recommendations.reduce((sum, rec) => sum + rec.savings, 0);
+
+  const costBreakdown = estimate.map(item => ({
+    ...item,
+    percentage: monthlyTotal > 0 ? Math.round((item.amount / monthlyTotal) * 100) : 0
+  }));
+
+  const formatCost = (amount: number) => `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  const handleRequestChange = <K extends keyof AutopilotRequests>(field: K, value: AutopilotRequests[K]) => {
+    setAutopilotRequests({ ...autopilotRequests, [field]: value });
+  };
 
   const runCostAnalysis = () => {
     setLoading(true);
@@ -91,10 +136,10 @@ const CostOptimizer: React.FC = () => {
         <div className="bg-white p-6 rounded-lg border border-gray-200">
           <div className="flex items-center space-x-2 mb-2">
             <DollarSign className="h-5 w-5 text-green-600" />
-            <h3 className="font-medium text-gray-900">Current Month</h3>
+            <h3 className="font-medium text-gray-900">Estimated Monthly</h3>
           </div>
-          <p className="text-2xl font-bold text-gray-900">$137.45</p>
-          <p className="text-sm text-green-600">↓ 8% from last month</p>
+          <p className="text-2xl font-bold text-gray-900">{formatCost(monthlyTotal)}</p>
+          <p className="text-sm text-gray-600">{autopilot ? 'Autopilot: billed per pod request' : 'Standard: billed per node'}</p>
         </div>
 
         <div className="bg-white p-6 rounded-lg border border-gray-200">
@@ -102,7 +147,7 @@ const CostOptimizer: React.FC = () => {
             <TrendingDown className="h-5 w-5 text-blue-600" />
             <h3 className="font-medium text-gray-900">Potential Savings</h3>
           </div>
-          <p className="text-2xl font-bold text-blue-600">$148.80</p>
+          <p className="text-2xl font-bold text-blue-600">{formatCost(potentialSavings)}</p>
           <p className="text-sm text-gray-600">Per month</p>
         </div>
 
@@ -120,11 +165,59 @@ const CostOptimizer: React.FC = () => {
             <Lightbulb className="h-5 w-5 text-yellow-600" />
             <h3 className="font-medium text-gray-900">Recommendations</h3>
           </div>
-          <p className="text-2xl font-bold text-yellow-600">4</p>
+          <p className="text-2xl font-bold text-yellow-600">{recommendations.length}</p>
           <p className="text-sm text-gray-600">Active suggestions</p>
         </div>
       </div>
 
+      {/* Autopilot Requests */}
+      {autopilot && (
+        <div className="bg-white p-6 rounded-lg border border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900 mb-1">Autopilot Pod Requests</h3>
+          <p className="text-sm text-gray-600 mb-4">
+            Autopilot has no node pools to price. Enter the total CPU and memory your pods request across the cluster.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">vCPU</label>
+              <input
+                type="number"
+                min="0"
+                step="0.25"
+                value={autopilotRequests.vcpu}
+                onChange={(e) => handleRequestChange('vcpu', Math.max(0, parseFloat(e.target.value) || 0))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Memory (GiB)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.5"
+                value={autopilotRequests.memoryGb}
+                onChange={(e) => handleRequestChange('memoryGb', Math.max(0, parseFloat(e.target.value) || 0))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Spot Pods ({Math.round(autopilotRequests.spotShare * 100)}%)
+              </label>
+              <input
+                type="range"
+                min="0"
+                max="100"
+                step="5"
+                value={Math.round(autopilotRequests.spotShare * 100)}
+                onChange={(e) => handleRequestChange('spotShare', parseInt(e.target.value) / 100)}
+                className="w-full"
+              />
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Cost Breakdown */}
       <div className="bg-white p-6 rounded-lg border border-gray-200">
         <h3 className="text-lg font-semibold text-gray-900 mb-4">Cost Breakdown</h3>
@@ -147,7 +240,7 @@ const CostOptimizer: React.FC = () => {
                     }}
                   ></div>
                 </div>
-                <span className="font-bold text-gray-900">${item.amount}</span>
+                <span className="font-bold text-gray-900">{formatCost(item.amount)}</span>
                 <span className="text-sm text-gray-600">{item.percentage}%</span>
               </div>
             </div>
@@ -165,7 +258,7 @@ const CostOptimizer: React.FC = () => {
                 <div className="flex-1">
                   <div className="flex items-center space-x-3 mb-2">
                     <h4 className="font-medium text-gray-900">{rec.title}</h4>
-                    <span className="text-lg font-bold text-green-600">{rec.savings}</span>
+                    <span className="text-lg font-bold text-green-600">{formatCost(rec.savings)}/month</span>
                     <span className={`px-2 py-1 rounded-full text-xs font-medium ${getImpactColor(rec.impact)}`}>
                       {rec.impact.toUpperCase()} IMPACT
                     </span>
@@ -189,16 +282,16 @@ const CostOptimizer: React.FC = () => {
         <h3 className="font-semibold text-green-900 mb-2">💰 Total Potential Savings</h3>
         <div className="flex items-center space-x-4">
           <div>
-            <p className="text-3xl font-bold text-green-600">$148.80</p>
+            <p className="text-3xl font-bold text-green-600">{formatCost(potentialSavings)}</p>
             <p className="text-green-700">per month</p>
           </div>
           <div>
-            <p className="text-2xl font-bold text-blue-600">$1,785.60</p>
+            <p className="text-2xl font-bold text-blue-600">{formatCost(potentialSavings * 12)}</p>
             <p className="text-blue-700">per year</p>
           </div>
         </div>
         <p className="text-sm text-gray-700 mt-2">
-          By implementing all recommendations, you could save up to 52% on your infrastructure costs.
+          By implementing all recommendations, you could save up to {monthlyTotal > 0 ? Math.min(100, Math.round((potentialSavings / monthlyTotal) * 100)) : 0}% on your infrastructure costs.
         </p>
       </div>
     </div>
@@ -0,0 +1,446 @@
+import { hclAttribute, hclBlock, hclMap, hclObject, hclOutput, hclVariable, renderHcl } from './hcl';
+import { NodePoolConfig, NodeTaint, NodeTaintEffect, TerraformConfig } from './terraformGenerator';
+import { DRIFT_WORKFLOW_FILE, renderDriftWorkflow, renderTerraformWorkflow } from './terraformWorkflow';
+
+export const AZURE_CLIENT_ID_VARIABLE = 'AZURE_CLIENT_ID';
+export const AZURE_TENANT_ID_VARIABLE = 'AZURE_TENANT_ID';
+export const AZURE_SUBSCRIPTION_ID_VARIABLE = 'AZURE_SUBSCRIPTION_ID';
+
+// AKS adds this taint to every spot pool; leaving it out of node_taints makes
+// every plan try to remove it
+const SPOT_TAINT = 'kubernetes.azure.com/scalesetpriority=spot:NoSchedule';
+
+const TAINT_EFFECTS: Record<NodeTaintEffect, string> = {
+  NO_SCHEDULE: 'NoSchedule',
+  PREFER_NO_SCHEDULE: 'PreferNoSchedule',
+  NO_EXECUTE: 'NoExecute'
+};
+
+export const getAksResourceGroup = (config: TerraformConfig) =>
+  config.azure.resourceGroup.trim() || `${config.clusterName}-rg`;
+
+// Storage account names are 3-24 lowercase letters and digits, globally unique
+export const getAksStateStorageAccount = (config: TerraformConfig) =>
+  config.azure.stateStorageAccount.trim() || `${config.clusterName.replace(/[^a-z0-9]/g, '')}tfstate`.slice(0, 24);
+
+export const getAksStateKey = (config: TerraformConfig) =>
+  `aks/${config.clusterName}/${config.environment}/terraform.tfstate`;
+
+export const getAksCredentialsCommand = (config: TerraformConfig, cluster = config.clusterName) =>
+  `az aks get-credentials --resource-group ${getAksResourceGroup(config)} --name ${cluster}`;
+
+const renderTaints = (taints: NodeTaint[]) =>
+  taints.map(taint => `${taint.key}=${taint.value}:${TAINT_EFFECTS[taint.effect]}`);
+
+const poolSizeEntries = (pool: NodePoolConfig) => ({
+  autoscaling: pool.enableAutoscaling,
+  node_count: pool.nodeCount,
+  min_count: pool.minNodes,
+  max_count: pool.maxNodes,
+  max_surge: String(pool.maxSurge)
+});
+
+const systemNodePoolValue = (pool: NodePoolConfig) => hclObject({
+  name: pool.name,
+  vm_size: pool.machineType,
+  os_disk_size_gb: pool.diskSize,
+  ...poolSizeEntries(pool),
+  labels: hclMap(pool.labels)
+});
+
+const userNodePoolsValue = (pools: NodePoolConfig[]) =>
+  hclObject(Object.fromEntries(pools.map(pool => [pool.name, hclObject({
+    vm_size: pool.machineType,
+    os_disk_size_gb: pool.diskSize,
+    spot: pool.spot,
+    ...poolSizeEntries(pool),
+    labels: hclMap(pool.labels),
+    taints: [...renderTaints(pool.taints), ...(pool.spot ? [SPOT_TAINT] : [])]
+  })])));
+
+const generateBackendTf = (config: TerraformConfig) => renderHcl([
+  hclBlock('terraform', [], [
+    hclBlock('backend', ['azurerm'], [
+      hclAttribute('resource_group_name', config.azure.stateResourceGroup),
+      hclAttribute('storage_account_name', getAksStateStorageAccount(config)),
+      hclAttribute('container_name', config.azure.stateContainer),
+      hclAttribute('key', getAksStateKey(config)),
+      hclAttribute('use_oidc', true)
+    ])
+  ])
+]);
+
+const generateMainTf = () => `terraform {
+  required_version = ">= 1.3"
+  required_providers {
+    azurerm = {
+      source  = "hashicorp/azurerm"
+      version = "~> 3.100"
+    }
+  }
+}
+
+provider "azurerm" {
+  features {}
+  use_oidc = true
+}
+
+locals {
+  tags = {
+    cluster     = var.cluster_name
+    environment = var.environment
+    managed-by  = "terraform"
+  }
+}
+
+resource "azurerm_resource_group" "main" {
+  name     = var.resource_group_name
+  location = var.location
+  tags     = local.tags
+}
+
+resource "azurerm_virtual_network" "main" {
+  name                = "\${var.cluster_name}-vnet"
+  location            = azurerm_resource_group.main.location
+  resource_group_name = azurerm_resource_group.main.name
+  address_space       = [var.vnet_cidr]
+  tags                = local.tags
+}
+
+resource "azurerm_subnet" "nodes" {
+  name                 = "nodes"
+  resource_group_name  = azurerm_resource_group.main.name
+  virtual_network_name = azurerm_virtual_network.main.name
+  address_prefixes     = [var.subnet_cidr]
+}
+
+# A user-assigned identity can be granted access to the VNet before the cluster exists
+resource "azurerm_user_assigned_identity" "cluster" {
+  name                = "\${var.cluster_name}-identity"
+  location            = azurerm_resource_group.main.location
+  resource_group_name = azurerm_resource_group.main.name
+  tags                = local.tags
+}
+
+resource "azurerm_role_assignment" "cluster_network" {
+  scope                = azurerm_virtual_network.main.id
+  role_definition_name = "Network Contributor"
+  principal_id         = azurerm_user_assigned_identity.cluster.principal_id
+}
+
+resource "azurerm_kubernetes_cluster" "main" {
+  name                = var.cluster_name
+  location            = azurerm_resource_group.main.location
+  resource_group_name = azurerm_resource_group.main.name
+  dns_prefix          = var.cluster_name
+  kubernetes_version  = var.kubernetes_version
+
+  # Workload identity lets pods exchange service account tokens for Entra ID tokens
+  oidc_issuer_enabled       = true
+  workload_identity_enabled = true
+
+  # The default pool hosts system components and cannot be spot or tainted
+  default_node_pool {
+    name                = var.system_node_pool.name
+    vm_size             = var.system_node_pool.vm_size
+    os_disk_size_gb     = var.system_node_pool.os_disk_size_gb
+    vnet_subnet_id      = azurerm_subnet.nodes.id
+    enable_auto_scaling = var.system_node_pool.autoscaling
+    node_count          = var.system_node_pool.autoscaling ? null : var.system_node_pool.node_count
+    min_count           = var.system_node_pool.autoscaling ? var.system_node_pool.min_count : null
+    max_count           = var.system_node_pool.autoscaling ? var.system_node_pool.max_count : null
+    node_labels         = var.system_node_pool.labels
+
+    upgrade_settings {
+      max_surge = var.system_node_pool.max_surge
+    }
+  }
+
+  identity {
+    type         = "UserAssigned"
+    identity_ids = [azurerm_user_assigned_identity.cluster.id]
+  }
+
+  # Overlay mode gives pods addresses outside the VNet, so the subnet only has to fit nodes
+  network_profile {
+    network_plugin      = "azure"
+    network_plugin_mode = "overlay"
+    load_balancer_sku   = "standard"
+  }
+
+  tags = local.tags
+
+  depends_on = [azurerm_role_assignment.cluster_network]
+}
+
+resource "azurerm_kubernetes_cluster_node_pool" "user" {
+  for_each = var.node_pools
+
+  name                  = each.key
+  kubernetes_cluster_id = azurerm_kubernetes_cluster.main.id
+  vm_size               = each.value.vm_size
+  os_disk_size_gb       = each.value.os_disk_size_gb
+  vnet_subnet_id        = azurerm_subnet.nodes.id
+  enable_auto_scaling   = each.value.autoscaling
+  node_count            = each.value.autoscaling ? null : each.value.node_count
+  min_count             = each.value.autoscaling ? each.value.min_count : null
+  max_count             = each.value.autoscaling ? each.value.max_count : null
+  node_labels           = each.value.labels
+  node_taints           = each.value.taints
+
+  priority        = each.value.spot ? "Spot" : "Regular"
+  eviction_policy = each.value.spot ? "Delete" : null
+  spot_max_price  = each.value.spot ? -1 : null
+
+  # Spot pools cannot surge
+  dynamic "upgrade_settings" {
+    for_each = each.value.spot ? [] : [each.value.max_surge]
+    content {
+      max_surge = upgrade_settings.value
+    }
+  }
+
+  tags = local.tags
+}`;
+
+const generateVariablesTf = (config: TerraformConfig) => renderHcl([
+  hclVariable({
+    name: 'cluster_name',
+    description: 'The name of the AKS cluster',
+    type: 'string',
+    defaultValue: config.clusterName,
+    validations: [{
+      condition: 'can(regex("^[a-zA-Z0-9][a-zA-Z0-9-]{0,61}[a-zA-Z0-9]$", var.cluster_name))',
+      errorMessage: 'cluster_name must be 2-63 letters, digits or hyphens and start and end with a letter or digit.'
+    }]
+  }),
+  hclVariable({
+    name: 'location',
+    description: 'The Azure location for the cluster',
+    type: 'string',
+    defaultValue: config.azure.location
+  }),
+  hclVariable({
+    name: 'resource_group_name',
+    description: 'Resource group created for the cluster',
+    type: 'string',
+    defaultValue: getAksResourceGroup(config)
+  }),
+  hclVariable({
+    name: 'environment',
+    description: 'Environment tag applied to every resource',
+    type: 'string',
+    defaultValue: config.environment
+  }),
+  hclVariable({
+    name: 'kubernetes_version',
+    description: 'AKS Kubernetes version',
+    type: 'string',
+    defaultValue: config.azure.kubernetesVersion
+  }),
+  hclVariable({
+    name: 'vnet_cidr',
+    description: 'Address space of the cluster VNet',
+    type: 'string',
+    defaultValue: config.azure.vnetCidr,
+    validations: [{
+      condition: 'can(cidrhost(var.vnet_cidr, 0))',
+      errorMessage: 'vnet_cidr must be a valid CIDR block.'
+    }]
+  }),
+  hclVariable({
+    name: 'subnet_cidr',
+    description: 'Node subnet inside the VNet',
+    type: 'string',
+    defaultValue: config.azure.subnetCidr,
+    validations: [{
+      condition: 'can(cidrhost(var.subnet_cidr, 0))',
+      errorMessage: 'subnet_cidr must be a valid CIDR block.'
+    }]
+  }),
+  hclVariable({
+    name: 'system_node_pool',
+    description: 'Default node pool that hosts system components',
+    type: `object({
+  name            = string
+  vm_size         = string
+  os_disk_size_gb = number
+  autoscaling     = bool
+  node_count      = number
+  min_count       = number
+  max_count       = number
+  max_surge       = string
+  labels          = map(string)
+})`,
+    validations: [{
+      condition: 'can(regex("^[a-z][a-z0-9]{0,11}$", var.system_node_pool.name))',
+      errorMessage: 'Node pool names must be 1-12 lowercase letters or digits and start with a letter.'
+    }]
+  }),
+  hclVariable({
+    name: 'node_pools',
+    description: 'Additional user node pools keyed by name',
+    type: `map(object({
+  vm_size         = string
+  os_disk_size_gb = number
+  spot            = bool
+  autoscaling     = bool
+  node_count      = number
+  min_count       = number
+  max_count       = number
+  max_surge       = string
+  labels          = map(string)
+  taints          = list(string)
+}))`,
+    defaultValue: hclMap({}),
+    validations: [{
+      condition: 'alltrue([for name in keys(var.node_pools) : can(regex("^[a-z][a-z0-9]{0,11}$", name))])',
+      errorMessage: 'Node pool names must be 1-12 lowercase letters or digits and start with a letter.'
+    }]
+  })
+]);
+
+const generateOutputsTf = () => renderHcl([
+  hclOutput({ name: 'cluster_name', description: 'AKS cluster name', value: 'azurerm_kubernetes_cluster.main.name' }),
+  hclOutput({ name: 'resource_group_name', description: 'Resource group holding the cluster', value: 'azurerm_resource_group.main.name' }),
+  hclOutput({ name: 'cluster_fqdn', description: 'AKS API server FQDN', value: 'azurerm_kubernetes_cluster.main.fqdn' }),
+  hclOutput({
+    name: 'kube_config',
+    description: 'Raw kubeconfig for the cluster',
+    value: 'azurerm_kubernetes_cluster.main.kube_config_raw',
+    sensitive: true
+  }),
+  hclOutput({
+    name: 'oidc_issuer_url',
+    description: 'OIDC issuer used by workload identity federation',
+    value: 'azurerm_kubernetes_cluster.main.oidc_issuer_url'
+  }),
+  hclOutput({
+    name: 'cluster_identity_principal_id',
+    description: "Principal ID of the cluster's managed identity",
+    value: 'azurerm_user_assigned_identity.cluster.principal_id'
+  }),
+  hclOutput({
+    name: 'kubelet_identity_object_id',
+    description: 'Object ID of the kubelet identity, e.g. for AcrPull role assignments',
+    value: 'azurerm_kubernetes_cluster.main.kubelet_identity[0].object_id'
+  }),
+  hclOutput({
+    name: 'kubectl_config_command',
+    description: 'Command to configure kubectl',
+    value: '"az aks get-credentials --resource-group ${azurerm_resource_group.main.name} --name ${azurerm_kubernetes_cluster.main.name}"'
+  })
+]);
+
+// cluster_name and location come from the workflow inputs through TF_VAR_*, which a
+// tfvars entry would override
+const generateTfvars = (config: TerraformConfig) => {
+  const [systemPool, ...userPools] = config.azure.nodePools;
+  return renderHcl([
+    hclAttribute('resource_group_name', getAksResourceGroup(config)),
+    hclAttribute('environment', config.environment),
+    hclAttribute('kubernetes_version', config.azure.kubernetesVersion),
+    hclAttribute('vnet_cidr', config.azure.vnetCidr),
+    hclAttribute('subnet_cidr', config.azure.subnetCidr),
+    hclAttribute('system_node_pool', systemNodePoolValue(systemPool)),
+    hclAttribute('node_pools', userNodePoolsValue(userPools))
+  ]);
+};
+
+const describeNodePools = (pools: NodePoolConfig[]) =>
+  pools.map((pool, index) => {
+    const size = pool.enableAutoscaling ? `${pool.minNodes}-${pool.maxNodes}` : `${pool.nodeCount}`;
+    return `${pool.name}${index === 0 ? ' (system)' : ''}: ${pool.machineType}${pool.spot ? ' spot' : ''}, ${size} nodes`;
+  }).join('; ');
+
+const describeVnet = (config: TerraformConfig) =>
+  `${config.azure.vnetCidr}, nodes in ${config.azure.subnetCidr} (Azure CNI overlay)`;
+
+export const getAksSummary = (config: TerraformConfig) => [
+  { label: 'Location', value: config.azure.location },
+  { label: 'Resource group', value: getAksResourceGroup(config) },
+  { label: 'Kubernetes', value: config.azure.kubernetesVersion },
+  { label: 'Node pools', value: describeNodePools(config.azure.nodePools) },
+  { label: 'VNet', value: describeVnet(config) },
+  { label: 'Identity', value: 'user-assigned managed identity, workload identity enabled' }
+];
+
+const getSubscriptionId = (config: TerraformConfig) =>
+  config.azure.subscriptionId || `\${{ vars.${AZURE_SUBSCRIPTION_ID_VARIABLE} }}`;
+
+// The azurerm provider and backend read the OIDC credentials from ARM_*
+const getArmEnv = (config: TerraformConfig) => ({
+  ARM_CLIENT_ID: `\${{ vars.${AZURE_CLIENT_ID_VARIABLE} }}`,
+  ARM_TENANT_ID: `\${{ vars.${AZURE_TENANT_ID_VARIABLE} }}`,
+  ARM_SUBSCRIPTION_ID: getSubscriptionId(config),
+  ARM_USE_OIDC: 'true'
+});
+
+const renderAuthStep = (config: TerraformConfig) => `    - name: Azure Login
+      uses: azure/login@v2
+      with:
+        client-id: \${{ vars.${AZURE_CLIENT_ID_VARIABLE} }}
+        tenant-id: \${{ vars.${AZURE_TENANT_ID_VARIABLE} }}
+        subscription-id: ${getSubscriptionId(config)}`;
+
+const generateWorkflowYml = (config: TerraformConfig) => {
+  const stateGroup = config.azure.stateResourceGroup;
+  const storageAccount = getAksStateStorageAccount(config);
+  const container = config.azure.stateContainer;
+
+  return renderTerraformWorkflow({
+    cluster: 'AKS',
+    clusterName: config.clusterName,
+    environment: config.environment,
+    region: config.azure.location,
+    regionLabel: 'Azure Location',
+    regionVariable: 'location',
+    env: getArmEnv(config),
+    permissions: { contents: 'read', 'id-token': 'write', actions: 'read' },
+    authSteps: renderAuthStep(config),
+    preInitSteps: `    - name: Ensure State Backend
+      run: |
+        echo "🪣 Ensuring state storage ${storageAccount}/${container}..."
+        az group create --name "${stateGroup}" --location ${config.azure.location} --output none
+        if ! az storage account show --name "${storageAccount}" --resource-group "${stateGroup}" --output none 2>/dev/null; then
+          az storage account create --name "${storageAccount}" --resource-group "${stateGroup}" \\
+            --location ${config.azure.location} --sku Standard_LRS --min-tls-version TLS1_2 \\
+            --allow-blob-public-access false --output none
+        fi
+        az storage container create --name "${container}" --account-name "${storageAccount}" --auth-mode key --output none
+        echo "✅ State backend ready"
+
+`,
+    showStateCommands: `        echo "🔍 CLUSTER STATUS:"
+        az aks show --name \${{ github.event.inputs.cluster_name }} --resource-group ${getAksResourceGroup(config)} --query provisioningState --output tsv || echo "Cluster not found"`,
+    summaryLines: [
+      `🖥️ Node pools: ${describeNodePools(config.azure.nodePools)}`,
+      `🌐 VNet: ${describeVnet(config)}`,
+      `🔐 Identity: user-assigned managed identity, workload identity enabled`
+    ],
+    credentialsCommand: getAksCredentialsCommand(config, '${{ github.event.inputs.cluster_name }}'),
+    stateLocation: `Azure Storage (${storageAccount}/${container}/${getAksStateKey(config)})`,
+    // Blob leases always lock the azurerm backend
+    lockFlag: '-lock-timeout=5m'
+  });
+};
+
+export const generateAksFiles = (config: TerraformConfig) => [
+  { path: 'terraform/backend.tf', content: generateBackendTf(config) },
+  { path: 'terraform/main.tf', content: generateMainTf() },
+  { path: 'terraform/variables.tf', content: generateVariablesTf(config) },
+  { path: 'terraform/outputs.tf', content: generateOutputsTf() },
+  { path: 'terraform/terraform.tfvars', content: generateTfvars(config) },
+  { path: '.github/workflows/deploy.yml', content: generateWorkflowYml(config) },
+  ...(config.driftDetection.enabled ? [{
+    path: `.github/workflows/${DRIFT_WORKFLOW_FILE}`,
+    content: renderDriftWorkflow({
+      cluster: 'AKS',
+      schedule: config.driftDetection.schedule.trim(),
+      roots: [{ name: config.clusterName, cluster: config.clusterName, workingDirectory: './terraform' }],
+      env: { ...getArmEnv(config), TF_VAR_cluster_name: config.clusterName, TF_VAR_location: config.azure.location },
+      permissions: { contents: 'read', 'id-token': 'write' },
+      authSteps: renderAuthStep(config)
+    })
+  }] : [])
+];
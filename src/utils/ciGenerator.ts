@@ -1,4 +1,6 @@
-interface DockerConfig {
+import { GcpAuthConfig, renderGcpAuthStep, renderJobPermissions } from './gcpAuth';
+
+export interface DockerConfig {
   enabled: boolean;
   dockerfile: string;
   context: string;
@@ -7,7 +9,7 @@ interface DockerConfig {
   platforms: string[];
 }
 
-interface RegistryConfig {
+export interface RegistryConfig {
   type: 'gcr' | 'dockerhub' | 'ghcr' | 'ecr';
   registry: string;
   repository: string;
@@ -15,7 +17,7 @@ interface RegistryConfig {
   enabled: boolean;
 }
 
-interface CIConfig {
+export interface CIConfig {
   projectName: string;
   gitRepo: string;
   branch: string;
@@ -40,6 +42,7 @@ interface CIConfig {
     email?: string;
     discord?: string;
   };
+  auth: GcpAuthConfig;
 }
 
 export const generateCIFiles = (config: CIConfig) => {
@@ -91,6 +94,17 @@ const generateCIWorkflow = (config: CIConfig) => {
   const frontendEnabled = config.docker.frontend.enabled;
   const backendEnabled = config.docker.backend.enabled;
 
+  // Without a JSON key, Google registries are logged in to with a short-lived access token
+  const registryTokenAuth = primaryRegistry?.type === 'gcr' && config.auth.mode === 'workload-identity-federation';
+  const registryUsername = registryTokenAuth ? 'oauth2accesstoken' : primaryRegistry?.type === 'gcr' ? '_json_key' : primaryRegistry?.type === 'ghcr' ? '${{ github.actor }}' : '${{ secrets.REGISTRY_USERNAME }}';
+  const registryPassword = registryTokenAuth ? '${{ steps.auth.outputs.access_token }}' : primaryRegistry?.type === 'gcr' ? '${{ secrets.GCP_SA_KEY }}' : primaryRegistry?.type === 'ghcr' ? '${{ secrets.GITHUB_TOKEN }}' : '${{ secrets.REGISTRY_PASSWORD }}';
+  const buildPermissions = registryTokenAuth
+    ? renderJobPermissions(config.auth, config.scanning.enabled ? ['security-events: write'] : [])
+    : '';
+  const registryAuthStep = registryTokenAuth
+    ? `${renderGcpAuthStep(config.auth, { id: 'auth', tokenFormat: true })}\n\n`
+    : '';
+
   const triggers = [];
   if (config.buildTriggers.onPush) triggers.push(`    branches: ['${config.branch}']`);
   if (config.buildTriggers.onTag) triggers.push(`    tags: ['v*']`);
@@ -141,19 +155,19 @@ jobs:
     runs-on: ubuntu-latest
     if: ${frontendEnabled ? "github.event.inputs.build_frontend != 'false'" : 'false'}
     
-    steps:
+${buildPermissions}    steps:
     - name: Checkout Repository
       uses: actions/checkout@v4
 
     - name: Set up Docker Buildx
       uses: docker/setup-buildx-action@v3
 
-    - name: Log in to Container Registry
+${registryAuthStep}    - name: Log in to Container Registry
       uses: docker/login-action@v3
       with:
         registry: \${{ env.REGISTRY }}
-        username: ${primaryRegistry?.type === 'gcr' ? '_json_key' : primaryRegistry?.type === 'ghcr' ? '${{ github.actor }}' : '${{ secrets.REGISTRY_USERNAME }}'}
-        password: ${primaryRegistry?.type === 'gcr' ? '${{ secrets.GCP_SA_KEY }}' : primaryRegistry?.type === 'ghcr' ? '${{ secrets.GITHUB_TOKEN }}' : '${{ secrets.REGISTRY_PASSWORD }}'}
+        username: ${registryUsername}
+        password: ${registryPassword}
 
     - name: Extract metadata
       id: meta
@@ -213,19 +227,19 @@ jobs:
     runs-on: ubuntu-latest
     if: ${backendEnabled ? "github.event.inputs.build_backend != 'false'" : 'false'}
     
-    steps:
+${buildPermissions}    steps:
     - name: Checkout Repository
       uses: actions/checkout@v4
 
     - name: Set up Docker Buildx
       uses: docker/setup-buildx-action@v3
 
-    - name: Log in to Container Registry
+${registryAuthStep}    - name: Log in to Container Registry
       uses: docker/login-action@v3
       with:
         registry: \${{ env.REGISTRY }}
-        username: ${primaryRegistry?.type === 'gcr' ? '_json_key' : primaryRegistry?.type === 'ghcr' ? '${{ github.actor }}' : '${{ secrets.REGISTRY_USERNAME }}'}
-        password: ${primaryRegistry?.type === 'gcr' ? '${{ secrets.GCP_SA_KEY }}' : primaryRegistry?.type === 'ghcr' ? '${{ secrets.GITHUB_TOKEN }}' : '${{ secrets.REGISTRY_PASSWORD }}'}
+        username: ${registryUsername}
+        password: ${registryPassword}
 
     - name: Extract metadata
       id: meta
@@ -287,14 +301,11 @@ jobs:
     if: github.event.inputs.deploy_to_k8s == 'true' && (github.ref == 'refs/heads/${config.branch}' || github.event.inputs.environment == 'production')
     environment: \${{ github.event.inputs.environment || 'staging' }}
     
-    steps:
+${renderJobPermissions(config.auth)}    steps:
     - name: Checkout Repository
       uses: actions/checkout@v4
 
-    - name: Authenticate to Google Cloud
-      uses: google-github-actions/auth@v2
-      with:
-        credentials_json: \${{ secrets.GCP_SA_KEY }}
+${renderGcpAuthStep(config.auth)}
 
     - name: Set up Cloud SDK
       uses: google-github-actions/setup-gcloud@v2
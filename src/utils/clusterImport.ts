@@ -0,0 +1,663 @@
+import { getDefaultZones } from './gcpRegions';
+import {
+  AuthorizedNetwork,
+  LOGGING_COMPONENTS,
+  LoggingComponent,
+  MAINTENANCE_DAYS,
+  MONITORING_COMPONENTS,
+  MaintenanceDay,
+  MaintenanceExclusion,
+  MaintenanceExclusionScope,
+  MonitoringComponent,
+  NetworkPolicyMode,
+  NodeDiskType,
+  NodePoolConfig,
+  NodeTaint,
+  NodeTaintEffect,
+  ReleaseChannel,
+  TerraformConfig
+} from './terraformGenerator';
+
+export type ClusterImportSource = 'terraform-state' | 'gcloud';
+
+export interface ClusterImportResult {
+  source: ClusterImportSource;
+  config: TerraformConfig;
+  // Settings the generator cannot reproduce; applying without reviewing them may
+  // change or replace the existing resources
+  warnings: string[];
+}
+
+export const CLUSTER_IMPORT_SOURCES: Record<ClusterImportSource, string> = {
+  'terraform-state': 'terraform show -json',
+  gcloud: 'gcloud container clusters describe --format=json'
+};
+
+// The cluster as read from either input format, before it is mapped onto the generator's settings
+interface DiscoveredNodePool {
+  name: string;
+  machineType: string;
+  diskType: string;
+  diskSizeGb: number;
+  spot: boolean;
+  preemptible: boolean;
+  nodeCount: number;
+  // The per-zone count the pool was created with, which may no longer match its size
+  initialCountOnly: boolean;
+  autoscaling: boolean;
+  minNodes: number;
+  maxNodes: number;
+  // Total limits apply to the whole pool instead of each zone
+  totalLimits: boolean;
+  locationPolicy: string;
+  locations: string[];
+  labels: Record<string, string>;
+  taints: { key: string; value: string; effect: string }[];
+  autoRepair: boolean;
+  autoUpgrade: boolean;
+  maxSurge: number;
+  maxUnavailable: number;
+  strategy: string;
+  serviceAccount: string;
+  imageType: string;
+  acceleratorCount: number;
+  localSsdCount: number;
+  secureBoot: boolean;
+  integrityMonitoring: boolean;
+}
+
+interface DiscoveredCluster {
+  name: string;
+  projectId: string;
+  location: string;
+  nodeLocations: string[];
+  autopilot: boolean;
+  network: string;
+  subnetwork: string;
+  subnetCidr: string;
+  podsRangeName: string;
+  servicesRangeName: string;
+  podsCidr: string;
+  servicesCidr: string;
+  cloudNat: boolean;
+  privateNodes: boolean;
+  privateEndpoint: boolean;
+  masterIpv4Cidr: string;
+  authorizedNetworks: AuthorizedNetwork[];
+  releaseChannel: string;
+  maintenanceWindow: { startTime: string; endTime: string; recurrence: string } | null;
+  dailyMaintenanceWindow: boolean;
+  exclusions: { name: string; startTime: string; endTime: string; scope: string }[];
+  shieldedNodes: boolean;
+  networkPolicy: NetworkPolicyMode;
+  binaryAuthorization: string;
+  databaseEncryptionKey: string;
+  loggingComponents: string[] | null;
+  monitoringComponents: string[] | null;
+  workloadIdentity: boolean;
+  labels: Record<string, string>;
+  legacyAbac: boolean;
+  nodePools: DiscoveredNodePool[];
+}
+
+type JsonObject = Record<string, unknown>;
+
+const asObject = (value: unknown): JsonObject =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) ? value as JsonObject : {};
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+const asString = (value: unknown) => (typeof value === 'string' ? value : '');
+
+const asNumber = (value: unknown) => {
+  const number = typeof value === 'string' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : 0;
+};
+
+const asStrings = (value: unknown) => asArray(value).map(asString).filter(Boolean);
+
+const asStringMap = (value: unknown): Record<string, string> =>
+  Object.fromEntries(Object.entries(asObject(value)).filter((entry): entry is [string, string] => typeof entry[1] === 'string'));
+
+// Terraform state renders nested blocks as single-element lists
+const firstBlock = (value: unknown) => asObject(asArray(value)[0]);
+
+// Self links and resource paths end in the resource name
+const lastSegment = (path: string) => path.split('/').pop() ?? '';
+
+const PROJECT_PATTERN = /projects\/([^/]+)\//;
+
+const readGcloudNodePool = (value: unknown): DiscoveredNodePool => {
+  const pool = asObject(value);
+  const config = asObject(pool.config);
+  const autoscaling = asObject(pool.autoscaling);
+  const management = asObject(pool.management);
+  const upgrade = asObject(pool.upgradeSettings);
+  const shielded = asObject(config.shieldedInstanceConfig);
+  const totalLimits = 'totalMaxNodeCount' in autoscaling;
+  return {
+    name: asString(pool.name),
+    machineType: asString(config.machineType),
+    diskType: asString(config.diskType),
+    diskSizeGb: asNumber(config.diskSizeGb),
+    spot: config.spot === true,
+    preemptible: config.preemptible === true,
+    nodeCount: asNumber(pool.currentNodeCount) || asNumber(pool.initialNodeCount),
+    initialCountOnly: !asNumber(pool.currentNodeCount),
+    autoscaling: autoscaling.enabled === true,
+    minNodes: asNumber(totalLimits ? autoscaling.totalMinNodeCount : autoscaling.minNodeCount),
+    maxNodes: asNumber(totalLimits ? autoscaling.totalMaxNodeCount : autoscaling.maxNodeCount),
+    totalLimits,
+    locationPolicy: asString(autoscaling.locationPolicy),
+    locations: asStrings(pool.locations),
+    labels: asStringMap(config.labels),
+    taints: asArray(config.taints).map(taint => {
+      const { key, value: taintValue, effect } = asObject(taint);
+      return { key: asString(key), value: asString(taintValue), effect: asString(effect) };
+    }),
+    autoRepair: management.autoRepair === true,
+    autoUpgrade: management.autoUpgrade === true,
+    maxSurge: asNumber(upgrade.maxSurge),
+    maxUnavailable: asNumber(upgrade.maxUnavailable),
+    strategy: asString(upgrade.strategy),
+    serviceAccount: asString(config.serviceAccount),
+    imageType: asString(config.imageType),
+    acceleratorCount: asArray(config.accelerators).length,
+    localSsdCount: asNumber(config.localSsdCount),
+    secureBoot: shielded.enableSecureBoot === true,
+    integrityMonitoring: shielded.enableIntegrityMonitoring === true
+  };
+};
+
+const readGcloudCluster = (cluster: JsonObject): DiscoveredCluster => {
+  const networkConfig = asObject(cluster.networkConfig);
+  const ipAllocation = asObject(cluster.ipAllocationPolicy);
+  const privateCluster = asObject(cluster.privateClusterConfig);
+  const authorized = asObject(cluster.masterAuthorizedNetworksConfig);
+  const maintenanceWindow = asObject(asObject(cluster.maintenancePolicy).window);
+  const recurringWindow = asObject(maintenanceWindow.recurringWindow);
+  const network = asString(cluster.network) || asString(networkConfig.network);
+  const databaseEncryption = asObject(cluster.databaseEncryption);
+  const loggingConfig = asObject(asObject(cluster.loggingConfig).componentConfig);
+  const monitoringConfig = asObject(asObject(cluster.monitoringConfig).componentConfig);
+  const binaryAuthorization = asObject(cluster.binaryAuthorization);
+  return {
+    name: asString(cluster.name),
+    projectId: PROJECT_PATTERN.exec(asString(cluster.selfLink))?.[1] ?? PROJECT_PATTERN.exec(asString(networkConfig.network))?.[1] ?? '',
+    location: asString(cluster.location) || asString(cluster.zone),
+    nodeLocations: asStrings(cluster.locations),
+    autopilot: asObject(cluster.autopilot).enabled === true,
+    network: lastSegment(network),
+    subnetwork: lastSegment(asString(cluster.subnetwork) || asString(networkConfig.subnetwork)),
+    subnetCidr: '',
+    podsRangeName: asString(ipAllocation.clusterSecondaryRangeName),
+    servicesRangeName: asString(ipAllocation.servicesSecondaryRangeName),
+    podsCidr: asString(ipAllocation.clusterIpv4CidrBlock),
+    servicesCidr: asString(ipAllocation.servicesIpv4CidrBlock),
+    cloudNat: false,
+    privateNodes: privateCluster.enablePrivateNodes === true,
+    privateEndpoint: privateCluster.enablePrivateEndpoint === true,
+    masterIpv4Cidr: asString(privateCluster.masterIpv4CidrBlock),
+    authorizedNetworks: authorized.enabled === true
+      ? asArray(authorized.cidrBlocks).map(block => ({
+        name: asString(asObject(block).displayName),
+        cidr: asString(asObject(block).cidrBlock)
+      }))
+      : [],
+    releaseChannel: asString(asObject(cluster.releaseChannel).channel),
+    maintenanceWindow: 'recurrence' in recurringWindow
+      ? {
+        startTime: asString(asObject(recurringWindow.window).startTime),
+        endTime: asString(asObject(recurringWindow.window).endTime),
+        recurrence: asString(recurringWindow.recurrence)
+      }
+      : null,
+    dailyMaintenanceWindow: 'dailyMaintenanceWindow' in maintenanceWindow,
+    exclusions: Object.entries(asObject(maintenanceWindow.maintenanceExclusions)).map(([name, value]) => {
+      const exclusion = asObject(value);
+      return {
+        name,
+        startTime: asString(exclusion.startTime),
+        endTime: asString(exclusion.endTime),
+        scope: asString(asObject(exclusion.maintenanceExclusionOptions).scope)
+      };
+    }),
+    shieldedNodes: asObject(cluster.shieldedNodes).enabled === true,
+    networkPolicy: networkConfig.datapathProvider === 'ADVANCED_DATAPATH'
+      ? 'dataplane-v2'
+      : asObject(cluster.networkPolicy).enabled === true ? 'calico' : 'disabled',
+    binaryAuthorization: asString(binaryAuthorization.evaluationMode)
+      || (binaryAuthorization.enabled === true ? 'PROJECT_SINGLETON_POLICY_ENFORCE' : ''),
+    databaseEncryptionKey: databaseEncryption.state === 'ENCRYPTED' ? asString(databaseEncryption.keyName) : '',
+    loggingComponents: 'enableComponents' in loggingConfig ? asStrings(loggingConfig.enableComponents) : null,
+    monitoringComponents: 'enableComponents' in monitoringConfig ? asStrings(monitoringConfig.enableComponents) : null,
+    workloadIdentity: asString(asObject(cluster.workloadIdentityConfig).workloadPool) !== '',
+    labels: asStringMap(cluster.resourceLabels),
+    legacyAbac: asObject(cluster.legacyAbac).enabled === true,
+    nodePools: asArray(cluster.nodePools).map(readGcloudNodePool)
+  };
+};
+
+const readStateNodePool = (value: unknown): DiscoveredNodePool => {
+  const pool = asObject(value);
+  const config = firstBlock(pool.node_config);
+  const autoscaling = firstBlock(pool.autoscaling);
+  const management = firstBlock(pool.management);
+  const upgrade = firstBlock(pool.upgrade_settings);
+  const shielded = firstBlock(config.shielded_instance_config);
+  const totalLimits = asNumber(autoscaling.total_max_node_count) > 0;
+  return {
+    name: asString(pool.name),
+    machineType: asString(config.machine_type),
+    diskType: asString(config.disk_type),
+    diskSizeGb: asNumber(config.disk_size_gb),
+    spot: config.spot === true,
+    preemptible: config.preemptible === true,
+    nodeCount: asNumber(pool.node_count) || asNumber(pool.initial_node_count),
+    initialCountOnly: !asNumber(pool.node_count),
+    autoscaling: 'min_node_count' in autoscaling || totalLimits,
+    minNodes: asNumber(totalLimits ? autoscaling.total_min_node_count : autoscaling.min_node_count),
+    maxNodes: asNumber(totalLimits ? autoscaling.total_max_node_count : autoscaling.max_node_count),
+    totalLimits,
+    locationPolicy: asString(autoscaling.location_policy),
+    locations: asStrings(pool.node_locations),
+    labels: asStringMap(config.labels),
+    taints: asArray(config.taint).map(taint => {
+      const { key, value: taintValue, effect } = asObject(taint);
+      return { key: asString(key), value: asString(taintValue), effect: asString(effect) };
+    }),
+    autoRepair: management.auto_repair === true,
+    autoUpgrade: management.auto_upgrade === true,
+    maxSurge: asNumber(upgrade.max_surge),
+    maxUnavailable: asNumber(upgrade.max_unavailable),
+    strategy: asString(upgrade.strategy),
+    serviceAccount: asString(config.service_account),
+    imageType: asString(config.image_type),
+    acceleratorCount: asArray(config.guest_accelerator).length,
+    localSsdCount: asNumber(config.local_ssd_count),
+    secureBoot: shielded.enable_secure_boot === true,
+    integrityMonitoring: shielded.enable_integrity_monitoring === true
+  };
+};
+
+interface StateResource {
+  type: string;
+  values: JsonObject;
+}
+
+// Managed resources of the root module and every child module
+const collectStateResources = (module: JsonObject): StateResource[] => [
+  ...asArray(module.resources)
+    .map(asObject)
+    .filter(resource => resource.mode !== 'data')
+    .map(resource => ({ type: asString(resource.type), values: asObject(resource.values) })),
+  ...asArray(module.child_modules).flatMap(child => collectStateResources(asObject(child)))
+];
+
+const readTerraformState = (state: JsonObject, warnings: string[]): DiscoveredCluster => {
+  const resources = collectStateResources(asObject(asObject(state.values).root_module));
+  const clusters = resources.filter(resource => resource.type === 'google_container_cluster');
+  if (clusters.length === 0) {
+    throw new Error('The Terraform state contains no google_container_cluster resource');
+  }
+  const cluster = clusters[0].values;
+  if (clusters.length > 1) {
+    warnings.push(`The state holds ${clusters.length} clusters; only ${asString(cluster.name)} was imported`);
+  }
+  const name = asString(cluster.name);
+  const ofType = (type: string) => resources.filter(resource => resource.type === type).map(resource => resource.values);
+
+  // Separately managed pools also appear in the cluster's node_pool attribute
+  const poolResources = ofType('google_container_node_pool').filter(pool => asString(pool.cluster) === name);
+  const subnetworkName = lastSegment(asString(cluster.subnetwork));
+  const subnetwork = ofType('google_compute_subnetwork').find(subnet => asString(subnet.name) === subnetworkName);
+  const ipAllocation = firstBlock(cluster.ip_allocation_policy);
+  const privateCluster = firstBlock(cluster.private_cluster_config);
+  const recurringWindow = firstBlock(firstBlock(cluster.maintenance_policy).recurring_window);
+  const databaseEncryption = firstBlock(cluster.database_encryption);
+  const loggingConfig = asArray(cluster.logging_config);
+  const monitoringConfig = asArray(cluster.monitoring_config);
+  const binaryAuthorization = firstBlock(cluster.binary_authorization);
+  return {
+    name,
+    projectId: asString(cluster.project),
+    location: asString(cluster.location),
+    nodeLocations: asStrings(cluster.node_locations),
+    autopilot: cluster.enable_autopilot === true,
+    network: lastSegment(asString(cluster.network)),
+    subnetwork: subnetworkName,
+    subnetCidr: asString(subnetwork?.ip_cidr_range),
+    podsRangeName: asString(ipAllocation.cluster_secondary_range_name),
+    servicesRangeName: asString(ipAllocation.services_secondary_range_name),
+    podsCidr: asString(ipAllocation.cluster_ipv4_cidr_block),
+    servicesCidr: asString(ipAllocation.services_ipv4_cidr_block),
+    cloudNat: ofType('google_compute_router_nat').length > 0,
+    privateNodes: privateCluster.enable_private_nodes === true,
+    privateEndpoint: privateCluster.enable_private_endpoint === true,
+    masterIpv4Cidr: asString(privateCluster.master_ipv4_cidr_block),
+    authorizedNetworks: asArray(firstBlock(cluster.master_authorized_networks_config).cidr_blocks).map(block => ({
+      name: asString(asObject(block).display_name),
+      cidr: asString(asObject(block).cidr_block)
+    })),
+    releaseChannel: asString(firstBlock(cluster.release_channel).channel),
+    maintenanceWindow: 'recurrence' in recurringWindow
+      ? {
+        startTime: asString(recurringWindow.start_time),
+        endTime: asString(recurringWindow.end_time),
+        recurrence: asString(recurringWindow.recurrence)
+      }
+      : null,
+    dailyMaintenanceWindow: asArray(firstBlock(cluster.maintenance_policy).daily_maintenance_window).length > 0,
+    exclusions: asArray(firstBlock(cluster.maintenance_policy).maintenance_exclusion).map(value => {
+      const exclusion = asObject(value);
+      return {
+        name: asString(exclusion.exclusion_name),
+        startTime: asString(exclusion.start_time),
+        endTime: asString(exclusion.end_time),
+        scope: asString(firstBlock(exclusion.exclusion_options).scope)
+      };
+    }),
+    shieldedNodes: cluster.enable_shielded_nodes === true,
+    networkPolicy: cluster.datapath_provider === 'ADVANCED_DATAPATH'
+      ? 'dataplane-v2'
+      : firstBlock(cluster.network_policy).enabled === true ? 'calico' : 'disabled',
+    binaryAuthorization: asString(binaryAuthorization.evaluation_mode)
+      || (binaryAuthorization.enabled === true ? 'PROJECT_SINGLETON_POLICY_ENFORCE' : ''),
+    databaseEncryptionKey: databaseEncryption.state === 'ENCRYPTED' ? asString(databaseEncryption.key_name) : '',
+    loggingComponents: loggingConfig.length > 0 ? asStrings(firstBlock(loggingConfig).enable_components) : null,
+    monitoringComponents: monitoringConfig.length > 0 ? asStrings(firstBlock(monitoringConfig).enable_components) : null,
+    workloadIdentity: asString(firstBlock(cluster.workload_identity_config).workload_pool) !== '',
+    labels: asStringMap(cluster.resource_labels),
+    legacyAbac: cluster.enable_legacy_abac === true,
+    nodePools: (poolResources.length > 0 ? poolResources : asArray(cluster.node_pool)).map(readStateNodePool)
+  };
+};
+
+const ZONE_PATTERN = /^([a-z]+-[a-z]+\d+)-[a-z]$/;
+const NODE_POOL_KEY_PATTERN = /^[a-z][a-z0-9-]{0,29}$/;
+const NODE_SERVICE_ACCOUNT_PATTERN = /^([a-z][a-z0-9-]{4,28}[a-z0-9])@([^.]+)\.iam\.gserviceaccount\.com$/;
+const DISK_TYPES: NodeDiskType[] = ['pd-standard', 'pd-balanced', 'pd-ssd'];
+const TAINT_EFFECTS: NodeTaintEffect[] = ['NO_SCHEDULE', 'PREFER_NO_SCHEDULE', 'NO_EXECUTE'];
+const RELEASE_CHANNELS: ReleaseChannel[] = ['RAPID', 'REGULAR', 'STABLE', 'UNSPECIFIED'];
+const EXCLUSION_SCOPES: MaintenanceExclusionScope[] = ['NO_UPGRADES', 'NO_MINOR_UPGRADES', 'NO_MINOR_OR_NODE_UPGRADES'];
+const WEEKLY_RECURRENCE_PATTERN = /^FREQ=WEEKLY;BYDAY=([A-Z,]+)$/;
+
+const mapNodePool = (pool: DiscoveredNodePool, clusterName: string, zoneCount: number, warnings: string[]): NodePoolConfig => {
+  const prefix = `${clusterName}-`;
+  const name = pool.name.startsWith(prefix) ? pool.name.slice(prefix.length) : pool.name;
+  const label = `Node pool ${pool.name}`;
+  if (!pool.name.startsWith(prefix)) {
+    warnings.push(`${label} is not named ${prefix}<key>; the generated pool is named ${prefix}${name} and replaces it`);
+  }
+  if (!NODE_POOL_KEY_PATTERN.test(name)) {
+    warnings.push(`${label}: "${name}" is not a valid node pool key`);
+  }
+  const diskType = DISK_TYPES.find(type => type === pool.diskType);
+  if (!diskType) {
+    warnings.push(`${label}: disk type ${pool.diskType || 'unknown'} is not supported and becomes pd-balanced`);
+  }
+  if (pool.preemptible) {
+    warnings.push(`${label}: preemptible nodes become spot nodes, which replaces the pool`);
+  }
+  if (pool.totalLimits) {
+    warnings.push(`${label}: total autoscaling limits are converted to per-zone limits`);
+  }
+  // Autoscaled pools only use the count as their initial size
+  if (pool.initialCountOnly && !pool.autoscaling) {
+    warnings.push(`${label}: only the initial node count (${pool.nodeCount} per zone) is known; check the pool's current size before applying`);
+  }
+  if (pool.imageType && pool.imageType !== 'COS_CONTAINERD') {
+    warnings.push(`${label}: image type ${pool.imageType} is not supported; nodes move to COS_CONTAINERD`);
+  }
+  if (pool.acceleratorCount > 0) {
+    warnings.push(`${label}: GPUs are not supported and would be removed, which replaces the pool`);
+  }
+  if (pool.localSsdCount > 0) {
+    warnings.push(`${label}: local SSDs are not supported and would be removed, which replaces the pool`);
+  }
+  if (pool.strategy === 'BLUE_GREEN') {
+    warnings.push(`${label}: blue-green upgrades are not supported; the pool switches to surge upgrades`);
+  }
+  const taints = pool.taints.filter((taint): taint is NodeTaint => {
+    const supported = TAINT_EFFECTS.some(effect => effect === taint.effect);
+    if (!supported) {
+      warnings.push(`${label}: taint ${taint.key} has unsupported effect ${taint.effect} and was dropped`);
+    }
+    return supported;
+  });
+  // env and pool labels are set by the generated configuration itself
+  const labels = Object.fromEntries(Object.entries(pool.labels).filter(([key]) => key !== 'env' && key !== 'pool'));
+  const perZone = (count: number, round: (value: number) => number) =>
+    pool.totalLimits ? round(count / Math.max(zoneCount, 1)) : count;
+
+  return {
+    name,
+    machineType: pool.machineType || 'e2-medium',
+    diskType: diskType ?? 'pd-balanced',
+    diskSize: pool.diskSizeGb || 100,
+    spot: pool.spot || pool.preemptible,
+    nodeCount: Math.max(pool.nodeCount, 1),
+    enableAutoscaling: pool.autoscaling,
+    minNodes: perZone(pool.minNodes, Math.floor),
+    maxNodes: Math.max(perZone(pool.maxNodes, Math.ceil), 1),
+    locationPolicy: pool.locationPolicy === 'ANY' ? 'ANY' : 'BALANCED',
+    labels,
+    taints,
+    autoRepair: pool.autoRepair,
+    autoUpgrade: pool.autoUpgrade,
+    maxSurge: pool.maxSurge,
+    maxUnavailable: pool.maxUnavailable
+  };
+};
+
+const toDate = (timestamp: string) => timestamp.slice(0, 10);
+
+const mapMaintenance = (cluster: DiscoveredCluster, base: TerraformConfig, warnings: string[]) => {
+  const releaseChannel = RELEASE_CHANNELS.find(channel => channel === cluster.releaseChannel) ?? 'UNSPECIFIED';
+  if (cluster.dailyMaintenanceWindow) {
+    warnings.push('Daily maintenance windows are not supported; the window is left off');
+  }
+  const exclusions = cluster.exclusions.map((exclusion): MaintenanceExclusion => ({
+    name: exclusion.name,
+    startDate: toDate(exclusion.startTime),
+    endDate: toDate(exclusion.endTime),
+    scope: EXCLUSION_SCOPES.find(scope => scope === exclusion.scope) ?? 'NO_UPGRADES'
+  }));
+
+  const window = cluster.maintenanceWindow;
+  const days = WEEKLY_RECURRENCE_PATTERN.exec(window?.recurrence ?? '')?.[1].split(',') ?? [];
+  const start = Date.parse(window?.startTime ?? '');
+  const end = Date.parse(window?.endTime ?? '');
+  if (!window || days.length === 0 || Number.isNaN(start) || Number.isNaN(end)) {
+    if (window) {
+      warnings.push(`Maintenance recurrence ${window.recurrence} is not a weekly window; the window is left off`);
+    }
+    return { ...base.maintenance, releaseChannel, enableWindow: false, exclusions };
+  }
+  return {
+    ...base.maintenance,
+    releaseChannel,
+    enableWindow: true,
+    windowDays: MAINTENANCE_DAYS.filter((day: MaintenanceDay) => days.includes(day)),
+    windowStartTime: new Date(start).toISOString().slice(11, 16),
+    windowDurationHours: Math.max(Math.round((end - start) / (60 * 60 * 1000)), 1),
+    exclusions
+  };
+};
+
+const pickComponents = <T extends string>(components: string[] | null, supported: T[], fallback: T[], kind: string, warnings: string[]) => {
+  if (components === null) {
+    return fallback;
+  }
+  const unsupported = components.filter(component => !supported.some(value => value === component));
+  if (unsupported.length > 0) {
+    warnings.push(`${kind} components ${unsupported.join(', ')} are not supported and were dropped`);
+  }
+  return supported.filter(value => components.includes(value));
+};
+
+const mapCluster = (cluster: DiscoveredCluster, base: TerraformConfig, warnings: string[]): TerraformConfig => {
+  const zoneMatch = ZONE_PATTERN.exec(cluster.location);
+  const region = zoneMatch ? zoneMatch[1] : cluster.location;
+  const nodeLocations = cluster.nodeLocations.length > 0
+    ? cluster.nodeLocations
+    : cluster.nodePools.find(pool => pool.locations.length > 0)?.locations ?? [];
+  let zones = zoneMatch
+    ? [cluster.location, ...nodeLocations.filter(zone => zone !== cluster.location)]
+    : nodeLocations;
+  if (zones.length === 0) {
+    zones = getDefaultZones(region);
+    warnings.push(`No node zones were found; using ${zones.join(', ')}`);
+  }
+  const zoneSet = [...zones].sort().join();
+  if (cluster.nodePools.some(pool => pool.locations.length > 0 && [...pool.locations].sort().join() !== zoneSet)) {
+    warnings.push('Some node pools use their own zones; every generated pool uses the cluster zones');
+  }
+
+  const pools = cluster.autopilot
+    ? []
+    : cluster.nodePools.map(pool => mapNodePool(pool, cluster.name, zones.length, warnings));
+  if (!cluster.autopilot && pools.length === 0) {
+    warnings.push('The cluster has no node pools; the default pool settings are kept');
+  }
+
+  // The first pool decides the node-level hardening; the generator applies one setting to every pool
+  const [firstPool] = cluster.nodePools;
+  if (cluster.nodePools.some(pool => pool.secureBoot !== firstPool.secureBoot || pool.integrityMonitoring !== firstPool.integrityMonitoring)) {
+    warnings.push('Node pools differ in secure boot or integrity monitoring; the first pool\'s settings apply to all');
+  }
+
+  const nodeAccounts = Array.from(new Set(cluster.nodePools.map(pool => pool.serviceAccount || 'default')));
+  if (nodeAccounts.length > 1) {
+    warnings.push(`Node pools run as different service accounts (${nodeAccounts.join(', ')}); all generated pools share one`);
+  }
+  const nodeAccount = nodeAccounts[0] ?? 'default';
+  const accountMatch = NODE_SERVICE_ACCOUNT_PATTERN.exec(nodeAccount);
+  const adoptServiceAccount = !cluster.autopilot && accountMatch?.[2] === cluster.projectId;
+  const usesDeployer = nodeAccount === base.serviceAccount.email;
+  if (!cluster.autopilot && !adoptServiceAccount && !usesDeployer) {
+    warnings.push(`Nodes run as ${nodeAccount}; the generated configuration runs them as a dedicated service account, which replaces the node pools`);
+  }
+
+  const customNetwork = cluster.network !== '' && cluster.network !== 'default';
+  const expectedSubnetwork = `${cluster.network}-${region}`;
+  const adoptSubnetwork = customNetwork && cluster.subnetwork === expectedSubnetwork;
+  if (customNetwork && !adoptSubnetwork) {
+    warnings.push(`Subnetwork ${cluster.subnetwork} does not match the generated name ${expectedSubnetwork}; Terraform would create a new subnetwork and replace the cluster`);
+  }
+  if (customNetwork && (cluster.podsRangeName !== 'pods' || cluster.servicesRangeName !== 'services')) {
+    warnings.push('Secondary ranges must be named pods and services to be adopted; other names replace the cluster');
+  }
+  if (customNetwork && !cluster.subnetCidr) {
+    warnings.push('The subnet range is not part of the cluster description; check it before applying');
+  }
+  if (!customNetwork && cluster.privateNodes) {
+    warnings.push('Private nodes are only generated with a dedicated VPC; the cluster in the default network would lose them');
+  }
+  if (customNetwork && cluster.privateNodes && !cluster.cloudNat) {
+    warnings.push('Cloud NAT is left off; turn it on only if the network has no NAT yet');
+  }
+
+  if (cluster.binaryAuthorization && !['PROJECT_SINGLETON_POLICY_ENFORCE', 'DISABLED'].includes(cluster.binaryAuthorization)) {
+    warnings.push(`Binary Authorization mode ${cluster.binaryAuthorization} is not supported; the project policy is enforced instead`);
+  }
+  if (cluster.legacyAbac) {
+    warnings.push('Legacy ABAC is not supported and would be turned off');
+  }
+
+  const { env, ...extraLabels } = cluster.labels;
+  const environment = env && /^[a-z][a-z0-9-]*$/.test(env) ? env : base.environment;
+  if (Object.keys(extraLabels).length > 0) {
+    warnings.push(`Cluster labels ${Object.keys(extraLabels).join(', ')} are not carried over; only env is`);
+  }
+  if (base.multiEnvironment.enabled) {
+    warnings.push('Multiple environments were turned off; imports need a single root configuration');
+  }
+
+  return {
+    ...base,
+    provider: 'gcp',
+    projectId: cluster.projectId || base.projectId,
+    clusterName: cluster.name,
+    region,
+    environment,
+    clusterMode: cluster.autopilot ? 'autopilot' : 'standard',
+    nodePools: pools.length > 0 ? pools : base.nodePools,
+    serviceAccount: {
+      ...base.serviceAccount,
+      createNodeServiceAccount: cluster.autopilot ? base.serviceAccount.createNodeServiceAccount : !usesDeployer,
+      nodeServiceAccountId: adoptServiceAccount && accountMatch ? accountMatch[1] : base.serviceAccount.nodeServiceAccountId,
+      workloadIdentity: cluster.workloadIdentity
+    },
+    network: {
+      ...base.network,
+      createVpc: customNetwork,
+      networkName: customNetwork ? cluster.network : base.network.networkName,
+      subnetCidr: cluster.subnetCidr || base.network.subnetCidr,
+      podsCidr: cluster.podsCidr || base.network.podsCidr,
+      servicesCidr: cluster.servicesCidr || base.network.servicesCidr,
+      enableCloudNat: customNetwork && cluster.cloudNat,
+      privateNodes: cluster.privateNodes,
+      privateEndpoint: cluster.privateEndpoint,
+      masterIpv4Cidr: cluster.masterIpv4Cidr || base.network.masterIpv4Cidr,
+      masterAuthorizedNetworks: cluster.authorizedNetworks
+    },
+    location: { type: zoneMatch ? 'zonal' : 'regional', zones },
+    maintenance: mapMaintenance(cluster, base, warnings),
+    security: {
+      ...base.security,
+      shieldedNodes: cluster.shieldedNodes,
+      secureBoot: firstPool?.secureBoot ?? base.security.secureBoot,
+      integrityMonitoring: firstPool?.integrityMonitoring ?? base.security.integrityMonitoring,
+      networkPolicy: cluster.networkPolicy,
+      binaryAuthorization: cluster.binaryAuthorization === 'PROJECT_SINGLETON_POLICY_ENFORCE',
+      databaseEncryptionKey: cluster.databaseEncryptionKey,
+      loggingComponents: pickComponents<LoggingComponent>(cluster.loggingComponents, LOGGING_COMPONENTS, base.security.loggingComponents, 'Logging', warnings),
+      monitoringComponents: pickComponents<MonitoringComponent>(cluster.monitoringComponents, MONITORING_COMPONENTS, base.security.monitoringComponents, 'Monitoring', warnings)
+    },
+    multiEnvironment: { ...base.multiEnvironment, enabled: false },
+    adoption: {
+      enabled: true,
+      nodePools: pools.filter((_, i) => cluster.nodePools[i].name.startsWith(`${cluster.name}-`)).map(pool => pool.name),
+      network: customNetwork,
+      subnetwork: adoptSubnetwork,
+      nodeServiceAccount: adoptServiceAccount
+    }
+  };
+};
+
+// Reverse-map `terraform show -json` output or a gcloud cluster description onto
+// the generator's settings. Throws when the input is neither.
+export const importCluster = (text: string, base: TerraformConfig): ClusterImportResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The input is not valid JSON');
+  }
+
+  const warnings: string[] = [];
+  // gcloud container clusters list --format=json returns an array
+  const items = asArray(parsed);
+  if (items.length > 1) {
+    warnings.push(`The input lists ${items.length} clusters; only the first was imported`);
+  }
+  const root = Array.isArray(parsed) ? asObject(items[0]) : asObject(parsed);
+
+  let source: ClusterImportSource;
+  let cluster: DiscoveredCluster;
+  if ('format_version' in root || 'values' in root) {
+    source = 'terraform-state';
+    cluster = readTerraformState(root, warnings);
+  } else if ('nodePools' in root || 'selfLink' in root || 'autopilot' in root) {
+    source = 'gcloud';
+    cluster = readGcloudCluster(root);
+  } else {
+    throw new Error(`Expected the output of ${CLUSTER_IMPORT_SOURCES['terraform-state']} or ${CLUSTER_IMPORT_SOURCES.gcloud}`);
+  }
+  if (!cluster.name || !cluster.location) {
+    throw new Error('The cluster has no name or location');
+  }
+
+  return { source, config: mapCluster(cluster, base, warnings), warnings };
+};
@@ -0,0 +1,112 @@
+// Reads the reports the scheduled drift check uploads, one artifact per Terraform root.
+import { GitHubService } from './githubApi';
+import {
+  DRIFT_REPORT_FILE,
+  DRIFT_WORKFLOW_FILE,
+  DriftRoot,
+  getDriftReportArtifact
+} from './terraformWorkflow';
+
+export type DriftStatus = 'clean' | 'drift' | 'error';
+
+export interface DriftChange {
+  address: string;
+  actions: string[];
+}
+
+export interface DriftReport {
+  root: string;
+  cluster: string;
+  status: DriftStatus;
+  checkedAt: string;
+  runId: number;
+  runUrl: string;
+  // What the plan would do to restore the configuration
+  changes: DriftChange[];
+  // Resources Terraform saw change outside of it while refreshing
+  drifted: string[];
+}
+
+export interface DriftCheckRun {
+  id: number;
+  htmlUrl: string;
+  conclusion: string | null;
+  createdAt: string;
+}
+
+export interface DriftCheckResult {
+  // Latest completed run; null until the schedule has run once
+  run: DriftCheckRun | null;
+  running: boolean;
+  reports: { root: DriftRoot; report: DriftReport | null }[];
+}
+
+const DRIFT_STATUSES: DriftStatus[] = ['clean', 'drift', 'error'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+// Throws when the text is not a drift report
+export const parseDriftReport = (text: string): DriftReport => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The drift report is not valid JSON');
+  }
+  if (!isRecord(parsed) || !DRIFT_STATUSES.includes(parsed.status as DriftStatus)) {
+    throw new Error(`Expected a ${DRIFT_REPORT_FILE} written by the drift check`);
+  }
+  return {
+    root: String(parsed.root ?? ''),
+    cluster: String(parsed.cluster ?? ''),
+    status: parsed.status as DriftStatus,
+    checkedAt: String(parsed.checked_at ?? ''),
+    runId: Number(parsed.run_id) || 0,
+    runUrl: String(parsed.run_url ?? ''),
+    changes: (Array.isArray(parsed.changes) ? parsed.changes : [])
+      .filter(isRecord)
+      .map(change => ({
+        address: String(change.address),
+        actions: Array.isArray(change.actions) ? change.actions.map(String) : []
+      })),
+    drifted: (Array.isArray(parsed.drifted) ? parsed.drifted : []).map(String)
+  };
+};
+
+export const describeDriftReport = (report: DriftReport) => {
+  if (report.status === 'clean') {
+    return 'No drift';
+  }
+  if (report.status === 'error') {
+    return 'Check failed';
+  }
+  return report.drifted.length > 0
+    ? `${report.drifted.length} resource(s) changed outside Terraform`
+    : `${report.changes.length} unapplied change(s)`;
+};
+
+// The latest completed drift check and the report each root uploaded in it. A root
+// without a report failed before it could plan.
+export const fetchLatestDriftReports = async (
+  service: GitHubService,
+  owner: string,
+  repo: string,
+  roots: DriftRoot[]
+): Promise<DriftCheckResult> => {
+  const runs = await service.getWorkflowRuns(owner, repo, DRIFT_WORKFLOW_FILE);
+  const latest = runs.find(run => run.status === 'completed');
+  const running = runs.some(run => run.status !== 'completed');
+  if (!latest) {
+    return { run: null, running, reports: roots.map(root => ({ root, report: null })) };
+  }
+  const reports = await Promise.all(roots.map(async root => {
+    const content = await service.getArtifactFile(owner, repo, latest.id, getDriftReportArtifact(root.name), DRIFT_REPORT_FILE);
+    return { root, report: content === null ? null : parseDriftReport(content) };
+  }));
+  return {
+    run: { id: latest.id, htmlUrl: latest.html_url, conclusion: latest.conclusion, createdAt: latest.created_at },
+    running,
+    reports
+  };
+};
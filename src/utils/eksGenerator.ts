@@ -0,0 +1,392 @@
+import { hclAttribute, hclBlock, hclMap, hclObject, hclOutput, hclVariable, renderHcl } from './hcl';
+import { NodePoolConfig, NodeTaint, TerraformConfig } from './terraformGenerator';
+import { DRIFT_WORKFLOW_FILE, renderDriftWorkflow, renderTerraformWorkflow } from './terraformWorkflow';
+
+export const AWS_ROLE_ARN_VARIABLE = 'AWS_ROLE_ARN';
+
+export const getEksStateBucket = (config: TerraformConfig) =>
+  config.aws.stateBucket.trim() || `${config.clusterName}-tfstate`;
+
+export const getEksStateKey = (config: TerraformConfig) =>
+  `eks/${config.clusterName}/${config.environment}/terraform.tfstate`;
+
+export const getEksCredentialsCommand = (config: TerraformConfig, cluster = config.clusterName, region = config.aws.region) =>
+  `aws eks update-kubeconfig --region ${region} --name ${cluster}`;
+
+// Fixed-size groups pin min, max and desired to the node count. Scaling between the
+// bounds needs Cluster Autoscaler or Karpenter running in the cluster.
+const getNodeGroupSize = (group: NodePoolConfig) =>
+  group.enableAutoscaling
+    ? { min: group.minNodes, max: group.maxNodes, desired: Math.max(group.minNodes, 1) }
+    : { min: group.nodeCount, max: group.nodeCount, desired: group.nodeCount };
+
+const taintsValue = (taints: NodeTaint[]) =>
+  taints.map(taint => hclObject({ key: taint.key, value: taint.value, effect: taint.effect }));
+
+const nodeGroupsValue = (groups: NodePoolConfig[]) =>
+  hclObject(Object.fromEntries(groups.map(group => {
+    const size = getNodeGroupSize(group);
+    return [group.name, hclObject({
+      instance_type: group.machineType,
+      disk_size_gb: group.diskSize,
+      spot: group.spot,
+      min_size: size.min,
+      max_size: size.max,
+      desired_size: size.desired,
+      max_unavailable: Math.max(group.maxUnavailable, 1),
+      labels: hclMap(group.labels),
+      taints: taintsValue(group.taints)
+    })];
+  })));
+
+const generateBackendTf = (config: TerraformConfig) => renderHcl([
+  hclBlock('terraform', [], [
+    hclBlock('backend', ['s3'], [
+      hclAttribute('bucket', getEksStateBucket(config)),
+      hclAttribute('key', getEksStateKey(config)),
+      hclAttribute('region', config.aws.region),
+      hclAttribute('dynamodb_table', config.aws.stateLockTable),
+      hclAttribute('encrypt', true)
+    ])
+  ])
+]);
+
+const generateMainTf = () => `terraform {
+  required_version = ">= 1.3"
+  required_providers {
+    aws = {
+      source  = "hashicorp/aws"
+      version = ">= 5.40"
+    }
+  }
+}
+
+provider "aws" {
+  region = var.region
+
+  default_tags {
+    tags = {
+      cluster     = var.cluster_name
+      environment = var.environment
+      managed-by  = "terraform"
+    }
+  }
+}
+
+data "aws_availability_zones" "available" {
+  state = "available"
+}
+
+locals {
+  azs = slice(data.aws_availability_zones.available.names, 0, var.availability_zone_count)
+}
+
+# Nodes run in private subnets; public subnets only hold the NAT gateways and
+# internet-facing load balancers
+module "vpc" {
+  source  = "terraform-aws-modules/vpc/aws"
+  version = "~> 5.0"
+
+  name = "\${var.cluster_name}-vpc"
+  cidr = var.vpc_cidr
+  azs  = local.azs
+
+  private_subnets = [for index, az in local.azs : cidrsubnet(var.vpc_cidr, 4, index)]
+  public_subnets  = [for index, az in local.azs : cidrsubnet(var.vpc_cidr, 8, index + 240)]
+
+  enable_nat_gateway   = true
+  single_nat_gateway   = var.single_nat_gateway
+  enable_dns_hostnames = true
+
+  # Lets the AWS Load Balancer Controller discover where to place load balancers
+  public_subnet_tags = {
+    "kubernetes.io/role/elb" = 1
+  }
+  private_subnet_tags = {
+    "kubernetes.io/role/internal-elb" = 1
+  }
+}
+
+module "eks" {
+  source  = "terraform-aws-modules/eks/aws"
+  version = "~> 20.0"
+
+  cluster_name    = var.cluster_name
+  cluster_version = var.kubernetes_version
+
+  cluster_endpoint_public_access           = var.endpoint_public_access
+  enable_cluster_creator_admin_permissions = true
+
+  # IAM roles for service accounts: pods assume IAM roles through the cluster's OIDC provider
+  enable_irsa = true
+
+  vpc_id     = module.vpc.vpc_id
+  subnet_ids = module.vpc.private_subnets
+
+  cluster_addons = {
+    coredns    = {}
+    kube-proxy = {}
+    vpc-cni    = {}
+    aws-ebs-csi-driver = {
+      service_account_role_arn = module.ebs_csi_irsa.iam_role_arn
+    }
+  }
+
+  eks_managed_node_groups = {
+    for name, group in var.node_groups : name => {
+      instance_types = [group.instance_type]
+      capacity_type  = group.spot ? "SPOT" : "ON_DEMAND"
+
+      min_size     = group.min_size
+      max_size     = group.max_size
+      desired_size = group.desired_size
+
+      # disk_size is only honoured on the EKS-managed launch template
+      use_custom_launch_template = false
+      disk_size                  = group.disk_size_gb
+
+      labels = group.labels
+      taints = { for taint in group.taints : taint.key => taint }
+
+      update_config = {
+        max_unavailable = group.max_unavailable
+      }
+    }
+  }
+}
+
+# The EBS CSI driver provisions persistent volumes with its own IRSA role
+module "ebs_csi_irsa" {
+  source  = "terraform-aws-modules/iam/aws//modules/iam-role-for-service-accounts-eks"
+  version = "~> 5.0"
+
+  role_name             = "\${var.cluster_name}-ebs-csi"
+  attach_ebs_csi_policy = true
+
+  oidc_providers = {
+    main = {
+      provider_arn               = module.eks.oidc_provider_arn
+      namespace_service_accounts = ["kube-system:ebs-csi-controller-sa"]
+    }
+  }
+}`;
+
+const generateVariablesTf = (config: TerraformConfig) => renderHcl([
+  hclVariable({
+    name: 'cluster_name',
+    description: 'The name of the EKS cluster',
+    type: 'string',
+    defaultValue: config.clusterName,
+    validations: [{
+      condition: 'can(regex("^[a-zA-Z][a-zA-Z0-9-]{0,99}$", var.cluster_name))',
+      errorMessage: 'cluster_name must start with a letter and use letters, digits or hyphens.'
+    }]
+  }),
+  hclVariable({
+    name: 'region',
+    description: 'The AWS region for the cluster',
+    type: 'string',
+    defaultValue: config.aws.region,
+    validations: [{
+      condition: 'can(regex("^[a-z]{2}(-[a-z]+)+-[0-9]+$", var.region))',
+      errorMessage: 'region must be an AWS region such as us-east-1.'
+    }]
+  }),
+  hclVariable({
+    name: 'environment',
+    description: 'Environment tag applied to every resource',
+    type: 'string',
+    defaultValue: config.environment
+  }),
+  hclVariable({
+    name: 'kubernetes_version',
+    description: 'EKS Kubernetes version',
+    type: 'string',
+    defaultValue: config.aws.kubernetesVersion
+  }),
+  hclVariable({
+    name: 'vpc_cidr',
+    description: 'CIDR block of the cluster VPC',
+    type: 'string',
+    defaultValue: config.aws.vpcCidr,
+    validations: [{
+      condition: 'can(cidrhost(var.vpc_cidr, 0))',
+      errorMessage: 'vpc_cidr must be a valid CIDR block.'
+    }]
+  }),
+  hclVariable({
+    name: 'availability_zone_count',
+    description: 'Number of availability zones to spread subnets and nodes across',
+    type: 'number',
+    defaultValue: config.aws.availabilityZoneCount,
+    validations: [{
+      condition: 'var.availability_zone_count >= 2 && var.availability_zone_count <= 6',
+      errorMessage: 'EKS needs subnets in at least two availability zones.'
+    }]
+  }),
+  hclVariable({
+    name: 'single_nat_gateway',
+    description: 'Share one NAT gateway across zones instead of one per zone',
+    type: 'bool',
+    defaultValue: config.aws.singleNatGateway
+  }),
+  hclVariable({
+    name: 'endpoint_public_access',
+    description: 'Expose the Kubernetes API endpoint publicly',
+    type: 'bool',
+    defaultValue: config.aws.endpointPublicAccess
+  }),
+  hclVariable({
+    name: 'node_groups',
+    description: 'EKS managed node groups keyed by name',
+    type: `map(object({
+  instance_type   = string
+  disk_size_gb    = number
+  spot            = bool
+  min_size        = number
+  max_size        = number
+  desired_size    = number
+  max_unavailable = number
+  labels          = map(string)
+  taints = list(object({
+    key    = string
+    value  = string
+    effect = string
+  }))
+}))`
+  })
+]);
+
+const generateOutputsTf = () => renderHcl([
+  hclOutput({ name: 'cluster_name', description: 'EKS cluster name', value: 'module.eks.cluster_name' }),
+  hclOutput({ name: 'cluster_endpoint', description: 'EKS cluster endpoint', value: 'module.eks.cluster_endpoint', sensitive: true }),
+  hclOutput({
+    name: 'cluster_certificate_authority_data',
+    description: 'EKS cluster CA certificate',
+    value: 'module.eks.cluster_certificate_authority_data',
+    sensitive: true
+  }),
+  hclOutput({
+    name: 'oidc_provider_arn',
+    description: 'OIDC provider used for IAM roles for service accounts',
+    value: 'module.eks.oidc_provider_arn'
+  }),
+  hclOutput({ name: 'vpc_id', description: 'VPC the cluster runs in', value: 'module.vpc.vpc_id' }),
+  hclOutput({ name: 'private_subnets', description: 'Private subnets hosting the nodes', value: 'module.vpc.private_subnets' }),
+  hclOutput({
+    name: 'kubectl_config_command',
+    description: 'Command to configure kubectl',
+    value: '"aws eks update-kubeconfig --region ${var.region} --name ${module.eks.cluster_name}"'
+  })
+]);
+
+// cluster_name and region come from the workflow inputs through TF_VAR_*, which a
+// tfvars entry would override
+const generateTfvars = (config: TerraformConfig) => renderHcl([
+  hclAttribute('environment', config.environment),
+  hclAttribute('kubernetes_version', config.aws.kubernetesVersion),
+  hclAttribute('vpc_cidr', config.aws.vpcCidr),
+  hclAttribute('availability_zone_count', config.aws.availabilityZoneCount),
+  hclAttribute('single_nat_gateway', config.aws.singleNatGateway),
+  hclAttribute('endpoint_public_access', config.aws.endpointPublicAccess),
+  hclAttribute('node_groups', nodeGroupsValue(config.aws.nodeGroups))
+]);
+
+const describeNodeGroups = (groups: NodePoolConfig[]) =>
+  groups.map(group => {
+    const size = getNodeGroupSize(group);
+    return `${group.name}: ${group.machineType}${group.spot ? ' spot' : ''}, ${size.min}-${size.max} nodes`;
+  }).join('; ') || 'none';
+
+const describeVpc = (config: TerraformConfig) =>
+  `${config.aws.vpcCidr} across ${config.aws.availabilityZoneCount} zones (${config.aws.singleNatGateway ? 'single' : 'one per zone'} NAT gateway)`;
+
+const describeEndpoint = (config: TerraformConfig) =>
+  `${config.aws.endpointPublicAccess ? 'public and private' : 'private only'}, IRSA enabled`;
+
+export const getEksSummary = (config: TerraformConfig) => [
+  { label: 'Region', value: config.aws.region },
+  { label: 'Kubernetes', value: config.aws.kubernetesVersion },
+  { label: 'Node groups', value: describeNodeGroups(config.aws.nodeGroups) },
+  { label: 'VPC', value: describeVpc(config) },
+  { label: 'Endpoint', value: describeEndpoint(config) }
+];
+
+const renderAuthStep = (config: TerraformConfig, region: string) => `    - name: Configure AWS Credentials
+      uses: aws-actions/configure-aws-credentials@v4
+      with:
+        role-to-assume: ${config.aws.roleArn || `\${{ vars.${AWS_ROLE_ARN_VARIABLE} }}`}
+        aws-region: ${region}`;
+
+const generateWorkflowYml = (config: TerraformConfig) => {
+  const bucket = getEksStateBucket(config);
+  const table = config.aws.stateLockTable;
+  const region = config.aws.region;
+  const createBucket = region === 'us-east-1'
+    ? `aws s3api create-bucket --bucket "${bucket}" --region ${region}`
+    : `aws s3api create-bucket --bucket "${bucket}" --region ${region} --create-bucket-configuration LocationConstraint=${region}`;
+
+  return renderTerraformWorkflow({
+    cluster: 'EKS',
+    clusterName: config.clusterName,
+    environment: config.environment,
+    region,
+    regionLabel: 'AWS Region',
+    regionVariable: 'region',
+    env: {},
+    permissions: { contents: 'read', 'id-token': 'write', actions: 'read' },
+    authSteps: renderAuthStep(config, '${{ github.event.inputs.region }}'),
+    preInitSteps: `    - name: Ensure State Backend
+      run: |
+        if aws s3api head-bucket --bucket "${bucket}" 2>/dev/null; then
+          echo "✅ State bucket ${bucket} exists"
+        else
+          echo "🪣 Creating state bucket ${bucket}..."
+          ${createBucket}
+          aws s3api put-bucket-versioning --bucket "${bucket}" --versioning-configuration Status=Enabled
+          aws s3api put-public-access-block --bucket "${bucket}" --public-access-block-configuration BlockPublicAcls=true,IgnorePublicAcls=true,BlockPublicPolicy=true,RestrictPublicBuckets=true
+        fi
+        if aws dynamodb describe-table --table-name "${table}" --region ${region} >/dev/null 2>&1; then
+          echo "✅ Lock table ${table} exists"
+        else
+          echo "🔒 Creating lock table ${table}..."
+          aws dynamodb create-table --table-name "${table}" --region ${region} \\
+            --attribute-definitions AttributeName=LockID,AttributeType=S \\
+            --key-schema AttributeName=LockID,KeyType=HASH \\
+            --billing-mode PAY_PER_REQUEST
+          aws dynamodb wait table-exists --table-name "${table}" --region ${region}
+        fi
+
+`,
+    showStateCommands: `        echo "🔍 CLUSTER STATUS:"
+        aws eks describe-cluster --name \${{ github.event.inputs.cluster_name }} --region \${{ github.event.inputs.region }} --query 'cluster.status' --output text || echo "Cluster not found"`,
+    summaryLines: [
+      `🖥️ Node groups: ${describeNodeGroups(config.aws.nodeGroups)}`,
+      `🌐 VPC: ${describeVpc(config)}`,
+      `🔐 Endpoint: ${describeEndpoint(config)}`
+    ],
+    credentialsCommand: getEksCredentialsCommand(config, '${{ github.event.inputs.cluster_name }}', '${{ github.event.inputs.region }}'),
+    stateLocation: `S3 (s3://${bucket}/${getEksStateKey(config)})`,
+    lockFlag: '-lock-timeout=5m'
+  });
+};
+
+export const generateEksFiles = (config: TerraformConfig) => [
+  { path: 'terraform/backend.tf', content: generateBackendTf(config) },
+  { path: 'terraform/main.tf', content: generateMainTf() },
+  { path: 'terraform/variables.tf', content: generateVariablesTf(config) },
+  { path: 'terraform/outputs.tf', content: generateOutputsTf() },
+  { path: 'terraform/terraform.tfvars', content: generateTfvars(config) },
+  { path: '.github/workflows/deploy.yml', content: generateWorkflowYml(config) },
+  ...(config.driftDetection.enabled ? [{
+    path: `.github/workflows/${DRIFT_WORKFLOW_FILE}`,
+    content: renderDriftWorkflow({
+      cluster: 'EKS',
+      schedule: config.driftDetection.schedule.trim(),
+      roots: [{ name: config.clusterName, cluster: config.clusterName, workingDirectory: './terraform' }],
+      env: { TF_VAR_cluster_name: config.clusterName, TF_VAR_region: config.aws.region },
+      permissions: { contents: 'read', 'id-token': 'write' },
+      authSteps: renderAuthStep(config, config.aws.region)
+    })
+  }] : [])
+];
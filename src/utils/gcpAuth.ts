@@ -0,0 +1,93 @@
+export type GcpAuthMode = 'service-account-key' | 'workload-identity-federation';
+
+export interface GcpAuthConfig {
+  mode: GcpAuthMode;
+  workloadIdentityProvider: string;
+  serviceAccount: string;
+}
+
+export interface GcpAuthRequirement {
+  kind: 'secret' | 'variable';
+  name: string;
+  description: string;
+}
+
+export const defaultGcpAuthConfig: GcpAuthConfig = {
+  mode: 'service-account-key',
+  workloadIdentityProvider: '',
+  serviceAccount: ''
+};
+
+// Left empty, the provider and service account are read from repository variables
+// so one workflow can be reused across projects
+export const WORKLOAD_IDENTITY_PROVIDER_VARIABLE = 'GCP_WORKLOAD_IDENTITY_PROVIDER';
+export const SERVICE_ACCOUNT_VARIABLE = 'GCP_SERVICE_ACCOUNT';
+
+const WORKLOAD_IDENTITY_PROVIDER_PATTERN = /^projects\/\d+\/locations\/global\/workloadIdentityPools\/[a-z0-9-]+\/providers\/[a-z0-9-]+$/;
+
+export const validateGcpAuth = (auth: GcpAuthConfig): string[] => {
+  const errors: string[] = [];
+  if (auth.mode !== 'workload-identity-federation') {
+    return errors;
+  }
+  if (auth.workloadIdentityProvider && !WORKLOAD_IDENTITY_PROVIDER_PATTERN.test(auth.workloadIdentityProvider)) {
+    errors.push('Provider must look like projects/<number>/locations/global/workloadIdentityPools/<pool>/providers/<provider>');
+  }
+  if (auth.serviceAccount && !auth.serviceAccount.endsWith('.gserviceaccount.com')) {
+    errors.push('Service account must be a Google service account email');
+  }
+  return errors;
+};
+
+export const getGcpAuthRequirements = (auth: GcpAuthConfig): GcpAuthRequirement[] => {
+  if (auth.mode === 'service-account-key') {
+    return [{ kind: 'secret', name: 'GCP_SA_KEY', description: 'Service Account JSON key' }];
+  }
+  const requirements: GcpAuthRequirement[] = [];
+  if (!auth.workloadIdentityProvider) {
+    requirements.push({
+      kind: 'variable',
+      name: WORKLOAD_IDENTITY_PROVIDER_VARIABLE,
+      description: 'Full resource name of the Workload Identity provider'
+    });
+  }
+  if (!auth.serviceAccount) {
+    requirements.push({
+      kind: 'variable',
+      name: SERVICE_ACCOUNT_VARIABLE,
+      description: 'Service account email to impersonate'
+    });
+  }
+  return requirements;
+};
+
+// Jobs that exchange a GitHub OIDC token need id-token: write. Declaring permissions
+// drops every unlisted scope, so callers pass any extra scopes the job still uses;
+// key-based jobs keep the repository defaults unless they need extra scopes.
+export const renderJobPermissions = (auth: GcpAuthConfig, extraScopes: string[] = []) => {
+  const oidc = auth.mode === 'workload-identity-federation';
+  if (!oidc && extraScopes.length === 0) {
+    return '';
+  }
+  const scopes = ['contents: read', ...(oidc ? ['id-token: write'] : []), ...extraScopes];
+  return `    permissions:
+${scopes.map(scope => `      ${scope}`).join('\n')}
+
+`;
+};
+
+// Emits the google-github-actions/auth step at the indentation used by every generated
+// workflow. Set tokenFormat when a later step needs an OAuth access token, e.g. docker login.
+export const renderGcpAuthStep = (auth: GcpAuthConfig, options: { id?: string; tokenFormat?: boolean } = {}) => {
+  const idLine = options.id ? `\n      id: ${options.id}` : '';
+  const credentials = auth.mode === 'workload-identity-federation'
+    ? `        workload_identity_provider: ${auth.workloadIdentityProvider || `\${{ vars.${WORKLOAD_IDENTITY_PROVIDER_VARIABLE} }}`}
+        service_account: ${auth.serviceAccount || `\${{ vars.${SERVICE_ACCOUNT_VARIABLE} }}`}`
+    : '        credentials_json: ${{ secrets.GCP_SA_KEY }}';
+  const tokenLine = options.tokenFormat ? '\n        token_format: access_token' : '';
+
+  return `    - name: Authenticate to Google Cloud${idLine}
+      uses: google-github-actions/auth@v2
+      with:
+${credentials}${tokenLine}`;
+};
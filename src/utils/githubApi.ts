@@ -1,4 +1,5 @@
 import { Octokit } from '@octokit/rest';
+import { readZipTextFiles } from './zipArchive';
 
 export interface GitHubFile {
   path: string;
@@ -13,6 +14,13 @@ export interface WorkflowRun {
   created_at: string;
   updated_at: string;
   run_number: number;
+  // The workflow's run-name, e.g. "Terraform plan (production)"
+  display_title: string;
+}
+
+export interface EnvironmentProtection {
+  reviewers: string[];
+  protectedBranchesOnly: boolean;
 }
 
 export class GitHubService {
@@ -169,17 +177,73 @@ export class GitHubService {
     }
   }
 
+  // Creating environments needs admin access to the repository
+  async createOrUpdateEnvironment(
+    owner: string,
+    repo: string,
+    name: string,
+    protection: EnvironmentProtection
+  ): Promise<void> {
+    try {
+      // Required reviewers are referenced by user ID rather than login
+      const reviewers = await Promise.all(
+        protection.reviewers.map(async (username) => {
+          const { data } = await this.octokit.rest.users.getByUsername({ username });
+          return { type: 'User' as const, id: data.id };
+        })
+      );
+
+      await this.octokit.rest.repos.createOrUpdateEnvironment({
+        owner,
+        repo,
+        environment_name: name,
+        reviewers: reviewers.length > 0 ? reviewers : null,
+        deployment_branch_policy: protection.protectedBranchesOnly
+          ? { protected_branches: true, custom_branch_policies: false }
+          : null,
+      });
+    } catch (error) {
+      console.error(`Error configuring environment ${name}:`, error);
+      throw new Error(`Failed to configure environment ${name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Values are encrypted with the repository's public key before they leave the browser
+  async setActionsSecrets(owner: string, repo: string, secrets: Record<string, string>): Promise<void> {
+    try {
+      const { default: sodium } = await import('libsodium-wrappers');
+      await sodium.ready;
+      const { data: publicKey } = await this.octokit.rest.actions.getRepoPublicKey({ owner, repo });
+      const key = sodium.from_base64(publicKey.key, sodium.base64_variants.ORIGINAL);
+
+      for (const [name, value] of Object.entries(secrets)) {
+        const encrypted = sodium.crypto_box_seal(sodium.from_string(value), key);
+        await this.octokit.rest.actions.createOrUpdateRepoSecret({
+          owner,
+          repo,
+          secret_name: name,
+          encrypted_value: sodium.to_base64(encrypted, sodium.base64_variants.ORIGINAL),
+          key_id: publicKey.key_id,
+        });
+      }
+    } catch (error) {
+      console.error('Error setting Actions secrets:', error);
+      throw new Error(`Failed to set Actions secrets: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   async getWorkflowRuns(
     owner: string,
     repo: string,
-    workflowId: string
+    workflowId: string,
+    perPage: number = 10
   ): Promise<WorkflowRun[]> {
     try {
       const { data } = await this.octokit.rest.actions.listWorkflowRuns({
         owner,
         repo,
         workflow_id: workflowId,
-        per_page: 10,
+        per_page: perPage,
       });
       return data.workflow_runs.map(run => ({
         id: run.id,
@@ -189,6 +253,7 @@ export class GitHubService {
         created_at: run.created_at,
         updated_at: run.updated_at,
         run_number: run.run_number,
+        display_title: run.display_title,
       }));
     } catch (error) {
       console.error('Error fetching workflow runs:', error);
@@ -232,6 +297,59 @@ export class GitHubService {
     }
   }
 
+  // The API answers with a redirect to blob storage. Browsers that cannot follow it
+  // (the storage host sends no CORS headers) fail before any response arrives,
+  // which octokit reports as a status 500 error.
+  private async downloadArtifactArchive(owner: string, repo: string, runId: number, artifactId: number): Promise<ArrayBuffer> {
+    let archive: unknown;
+    try {
+      ({ data: archive } = await this.octokit.rest.actions.downloadArtifact({
+        owner,
+        repo,
+        artifact_id: artifactId,
+        archive_format: 'zip',
+      }));
+    } catch (error) {
+      if (error instanceof Error && 'status' in error && error.status === 500) {
+        throw new Error(`the browser could not follow GitHub's redirect to the artifact storage; download it from https://github.com/${owner}/${repo}/actions/runs/${runId} instead`);
+      }
+      throw error;
+    }
+    if (!(archive instanceof ArrayBuffer)) {
+      throw new Error(`expected a zip archive but GitHub returned ${archive === null ? 'null' : typeof archive}`);
+    }
+    return archive;
+  }
+
+  // Contents of one file from a run's artifact, or null when the run uploaded no such artifact
+  async getArtifactFile(
+    owner: string,
+    repo: string,
+    runId: number,
+    artifactName: string,
+    fileName: string
+  ): Promise<string | null> {
+    try {
+      const { data } = await this.octokit.rest.actions.listWorkflowRunArtifacts({
+        owner,
+        repo,
+        run_id: runId,
+        name: artifactName,
+      });
+      const artifact = data.artifacts.find(item => item.name === artifactName && !item.expired);
+      if (!artifact) {
+        return null;
+      }
+
+      const archive = await this.downloadArtifactArchive(owner, repo, runId, artifact.id);
+      const files = await readZipTextFiles(archive);
+      return files[fileName] ?? null;
+    } catch (error) {
+      console.error(`Error downloading artifact ${artifactName}:`, error);
+      throw new Error(`Failed to download artifact ${artifactName}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   async checkRepository(owner: string, repo: string): Promise<boolean> {
     try {
       const { data } = await this.octokit.rest.repos.get({
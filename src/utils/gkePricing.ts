@@ -0,0 +1,90 @@
+import { NodeDiskType, TerraformConfig, isAutopilot } from './terraformGenerator';
+
+// Approximate us-central1 list prices in USD. Good enough to compare options,
+// not a substitute for the Google Cloud pricing calculator.
+const HOURS_PER_MONTH = 730;
+
+const CLUSTER_MANAGEMENT_FEE_PER_HOUR = 0.10;
+
+const MACHINE_PRICE_PER_HOUR: Record<string, number> = {
+  'e2-micro': 0.0084,
+  'e2-small': 0.0168,
+  'e2-medium': 0.0335,
+  'e2-standard-2': 0.0670,
+  'e2-standard-4': 0.1340,
+  'e2-highmem-2': 0.0904,
+  'e2-highmem-4': 0.1807,
+  'n1-standard-1': 0.0475,
+  'n1-standard-2': 0.0950,
+  'n1-standard-4': 0.1900,
+  'n2-standard-2': 0.0971,
+  'n2-highmem-4': 0.2620
+};
+
+// Spot VMs are typically 60-91% cheaper; assume the conservative end
+const SPOT_PRICE_FACTOR = 0.4;
+
+const DISK_PRICE_PER_GB_MONTH: Record<NodeDiskType, number> = {
+  'pd-standard': 0.04,
+  'pd-balanced': 0.10,
+  'pd-ssd': 0.17
+};
+
+// Autopilot bills the resources pods request rather than the nodes behind them
+const AUTOPILOT_VCPU_PER_HOUR = 0.0445;
+const AUTOPILOT_MEMORY_GB_PER_HOUR = 0.0049225;
+const AUTOPILOT_SPOT_PRICE_FACTOR = 0.3;
+
+export interface AutopilotRequests {
+  vcpu: number;
+  memoryGb: number;
+  spotShare: number;
+}
+
+export const defaultAutopilotRequests: AutopilotRequests = {
+  vcpu: 2,
+  memoryGb: 8,
+  spotShare: 0
+};
+
+export interface CostLineItem {
+  category: string;
+  amount: number;
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+const getZoneCount = (config: TerraformConfig) => Math.max(config.location.zones.length, 1);
+
+export const estimateStandardCost = (config: TerraformConfig): CostLineItem[] => {
+  const zones = getZoneCount(config);
+  let compute = 0;
+  let disks = 0;
+
+  config.nodePools.forEach(pool => {
+    // Autoscaled pools are costed at their floor; anything above it is demand driven
+    const nodes = (pool.enableAutoscaling ? pool.minNodes : pool.nodeCount) * zones;
+    const hourly = (MACHINE_PRICE_PER_HOUR[pool.machineType] ?? MACHINE_PRICE_PER_HOUR['e2-medium']) *
+      (pool.spot ? SPOT_PRICE_FACTOR : 1);
+    compute += nodes * hourly * HOURS_PER_MONTH;
+    disks += nodes * pool.diskSize * DISK_PRICE_PER_GB_MONTH[pool.diskType];
+  });
+
+  return [
+    { category: 'Compute Engine (nodes)', amount: round(compute) },
+    { category: 'Persistent Disks', amount: round(disks) },
+    { category: 'Kubernetes Engine (cluster fee)', amount: round(CLUSTER_MANAGEMENT_FEE_PER_HOUR * HOURS_PER_MONTH) }
+  ];
+};
+
+export const estimateAutopilotCost = (requests: AutopilotRequests): CostLineItem[] => {
+  const priceFactor = 1 - requests.spotShare + requests.spotShare * AUTOPILOT_SPOT_PRICE_FACTOR;
+  return [
+    { category: 'Autopilot vCPU requests', amount: round(requests.vcpu * AUTOPILOT_VCPU_PER_HOUR * priceFactor * HOURS_PER_MONTH) },
+    { category: 'Autopilot memory requests', amount: round(requests.memoryGb * AUTOPILOT_MEMORY_GB_PER_HOUR * priceFactor * HOURS_PER_MONTH) },
+    { category: 'Kubernetes Engine (cluster fee)', amount: round(CLUSTER_MANAGEMENT_FEE_PER_HOUR * HOURS_PER_MONTH) }
+  ];
+};
+
+export const estimateMonthlyCost = (config: TerraformConfig, requests: AutopilotRequests = defaultAutopilotRequests) =>
+  isAutopilot(config) ? estimateAutopilotCost(requests) : estimateStandardCost(config);
@@ -0,0 +1,183 @@
+import { describe, expect, it } from 'vitest';
+import {
+  hclAttribute,
+  hclBlank,
+  hclBlock,
+  hclComment,
+  hclHeredoc,
+  hclList,
+  hclMap,
+  hclObject,
+  hclRaw,
+  hclString,
+  hclVariable,
+  renderHcl,
+  renderHclValue
+} from './hcl';
+
+describe('hclString', () => {
+  it('escapes template interpolations', () => {
+    expect(hclString('${var.name}')).toBe('"$${var.name}"');
+    expect(hclString('a ${b} ${c}')).toBe('"a $${b} $${c}"');
+  });
+
+  it('escapes template directives', () => {
+    expect(hclString('%{ if true }x%{ endif }')).toBe('"%%{ if true }x%%{ endif }"');
+  });
+
+  it('leaves lone dollar and percent signs alone', () => {
+    expect(hclString('$5 or 50%')).toBe('"$5 or 50%"');
+  });
+
+  it('escapes quotes, backslashes and newlines', () => {
+    expect(hclString('say "hi"')).toBe('"say \\"hi\\""');
+    expect(hclString('C:\\temp')).toBe('"C:\\\\temp"');
+    expect(hclString('one\ntwo')).toBe('"one\\ntwo"');
+  });
+
+  it('escapes a backslash before a quote only once each', () => {
+    expect(hclString('\\"')).toBe('"\\\\\\""');
+  });
+});
+
+describe('hclHeredoc', () => {
+  it('indents the body and closing marker to the attribute', () => {
+    const rendered = renderHcl([
+      hclBlock('resource', ['null_resource', 'script'], [
+        hclAttribute('script', hclHeredoc('echo one\n\necho two\n'))
+      ])
+    ]);
+    expect(rendered).toBe([
+      'resource "null_resource" "script" {',
+      '  script = <<-EOT',
+      '    echo one',
+      '',
+      '    echo two',
+      '  EOT',
+      '}'
+    ].join('\n'));
+  });
+
+  it('escapes template sequences in the body', () => {
+    expect(renderHclValue(hclHeredoc('${HOME} %{x}'))).toBe('<<-EOT\n  $${HOME} %%{x}\nEOT');
+  });
+
+  it('picks a marker that does not appear in the body', () => {
+    expect(renderHclValue(hclHeredoc('a\nEOT\nb'))).toBe('<<-EOT_\n  a\n  EOT\n  b\nEOT_');
+  });
+});
+
+describe('renderHcl', () => {
+  it('aligns the equals signs of consecutive single-line attributes', () => {
+    expect(renderHcl([
+      hclAttribute('name', 'web'),
+      hclAttribute('machine_type', 'e2-medium'),
+      hclAttribute('count', 3)
+    ])).toBe([
+      'name         = "web"',
+      'machine_type = "e2-medium"',
+      'count        = 3'
+    ].join('\n'));
+  });
+
+  it('restarts alignment after a multi-line value, a blank line or a comment', () => {
+    expect(renderHcl([
+      hclAttribute('a', 1),
+      hclAttribute('labels', hclMap({ env: 'prod' })),
+      hclAttribute('longer_name', true),
+      hclBlank,
+      hclAttribute('b', false),
+      hclComment('note'),
+      hclAttribute('cc', null)
+    ])).toBe([
+      'a = 1',
+      'labels = {',
+      '  "env" = "prod"',
+      '}',
+      'longer_name = true',
+      '',
+      'b = false',
+      '# note',
+      'cc = null'
+    ].join('\n'));
+  });
+
+  it('renders nested blocks with a blank line between neighbouring blocks', () => {
+    expect(renderHcl([
+      hclBlock('resource', ['google_container_node_pool', 'primary'], [
+        hclAttribute('name', 'primary'),
+        hclAttribute('node_count', 1),
+        hclBlock('autoscaling', [], [
+          hclAttribute('min_node_count', 1),
+          hclAttribute('max_node_count', 3)
+        ]),
+        hclBlock('node_config', [], [
+          hclAttribute('oauth_scopes', hclList(['https://www.googleapis.com/auth/cloud-platform'], true)),
+          hclBlock('shielded_instance_config', [], [])
+        ])
+      ])
+    ])).toBe([
+      'resource "google_container_node_pool" "primary" {',
+      '  name       = "primary"',
+      '  node_count = 1',
+      '',
+      '  autoscaling {',
+      '    min_node_count = 1',
+      '    max_node_count = 3',
+      '  }',
+      '',
+      '  node_config {',
+      '    oauth_scopes = [',
+      '      "https://www.googleapis.com/auth/cloud-platform"',
+      '    ]',
+      '',
+      '    shielded_instance_config {}',
+      '  }',
+      '}'
+    ].join('\n'));
+  });
+
+  it('quotes map keys and object keys that are not identifiers', () => {
+    expect(renderHclValue(hclObject({ name: 'a', 'has.dot': 'b', skipped: undefined }))).toBe([
+      '{',
+      '  name      = "a"',
+      '  "has.dot" = "b"',
+      '}'
+    ].join('\n'));
+  });
+
+  it('escapes block labels and indents raw expressions', () => {
+    expect(renderHcl([
+      hclBlock('output', ['a"b'], [
+        hclAttribute('value', hclRaw('{\n  id = google_container_cluster.primary.id\n}'))
+      ])
+    ])).toBe([
+      'output "a\\"b" {',
+      '  value = {',
+      '    id = google_container_cluster.primary.id',
+      '  }',
+      '}'
+    ].join('\n'));
+  });
+
+  it('renders variables with defaults and validations', () => {
+    expect(renderHcl([hclVariable({
+      name: 'region',
+      description: 'Region',
+      type: 'string',
+      defaultValue: 'us-central1',
+      validations: [{ condition: 'length(var.region) > 0', errorMessage: 'Region is required.' }]
+    })])).toBe([
+      'variable "region" {',
+      '  description = "Region"',
+      '  type        = string',
+      '  default     = "us-central1"',
+      '',
+      '  validation {',
+      '    condition     = length(var.region) > 0',
+      '    error_message = "Region is required."',
+      '  }',
+      '}'
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,201 @@
+// Typed HCL syntax tree and an emitter that lays it out the way terraform fmt does.
+// Generated files that carry user input are built from these nodes so every value
+// reaches the output as an escaped literal instead of being spliced into a template.
+
+export type HclValue = string | number | boolean | null | HclExpression | HclValue[];
+
+export type HclExpression =
+  | { kind: 'raw'; text: string }
+  | { kind: 'list'; items: HclValue[]; multiline: boolean }
+  | { kind: 'object'; entries: [string, HclValue][]; quoteKeys: boolean }
+  | { kind: 'heredoc'; text: string };
+
+export type HclNode =
+  | { kind: 'attribute'; name: string; value: HclValue }
+  | { kind: 'block'; type: string; labels: string[]; body: HclNode[] }
+  | { kind: 'comment'; text: string }
+  | { kind: 'blank' };
+
+// Quote a string as an HCL literal, escaping template sequences so user input
+// can never be interpreted as an interpolation
+export const hclString = (value: string) =>
+  `"${value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    // A function replacer, since '$$' in a replacement string is a single '$'
+    .replace(/\$\{/g, () => '$${')
+    .replace(/%\{/g, '%%{')}"`;
+
+// Expression copied verbatim: references, function calls and type constraints.
+// Lines after the first are indented to wherever the expression is emitted.
+export const hclRaw = (text: string): HclExpression => ({ kind: 'raw', text });
+
+// Arrays render inline; a multiline list puts one item per line
+export const hclList = (items: HclValue[], multiline = false): HclExpression => ({ kind: 'list', items, multiline });
+
+// Object with attribute-style keys; undefined entries are left out
+export const hclObject = (entries: Record<string, HclValue | undefined>): HclExpression => ({
+  kind: 'object',
+  entries: Object.entries(entries).filter((entry): entry is [string, HclValue] => entry[1] !== undefined),
+  quoteKeys: false
+});
+
+// Map with user-chosen keys, which are always quoted
+export const hclMap = (values: Record<string, HclValue>): HclExpression => ({
+  kind: 'object',
+  entries: Object.entries(values),
+  quoteKeys: true
+});
+
+export const hclHeredoc = (text: string): HclExpression => ({ kind: 'heredoc', text });
+
+export const hclAttribute = (name: string, value: HclValue): HclNode => ({ kind: 'attribute', name, value });
+
+export const hclBlock = (type: string, labels: string[], body: HclNode[]): HclNode => ({ kind: 'block', type, labels, body });
+
+export const hclComment = (text: string): HclNode => ({ kind: 'comment', text });
+
+export const hclBlank: HclNode = { kind: 'blank' };
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+
+const indentFollowingLines = (text: string, indent: string) =>
+  text.split('\n').map((line, i) => (i === 0 || !line ? line : `${indent}${line}`)).join('\n');
+
+const renderHeredoc = (text: string, indent: string) => {
+  const lines = text.replace(/\n$/, '').replace(/\$\{/g, () => '$${').replace(/%\{/g, '%%{').split('\n');
+  let marker = 'EOT';
+  while (lines.some(line => line.trim() === marker)) {
+    marker = `${marker}_`;
+  }
+  return `<<-${marker}\n${lines.map(line => (line ? `${indent}  ${line}` : '')).join('\n')}\n${indent}${marker}`;
+};
+
+const renderList = (items: HclValue[], multiline: boolean, indent: string) => {
+  if (items.length === 0) {
+    return '[]';
+  }
+  const rendered = items.map(item => renderHclValue(item, `${indent}  `));
+  if (!multiline && !rendered.some(item => item.includes('\n'))) {
+    return `[${rendered.join(', ')}]`;
+  }
+  return `[\n${rendered.map(item => `${indent}  ${item}`).join(',\n')}\n${indent}]`;
+};
+
+export const renderHclValue = (value: HclValue, indent = ''): string => {
+  if (value === null) {
+    return 'null';
+  }
+  if (typeof value === 'string') {
+    return hclString(value);
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  if (Array.isArray(value)) {
+    return renderList(value, false, indent);
+  }
+  switch (value.kind) {
+    case 'raw':
+      return indentFollowingLines(value.text, indent);
+    case 'list':
+      return renderList(value.items, value.multiline, indent);
+    case 'heredoc':
+      return renderHeredoc(value.text, indent);
+    case 'object': {
+      if (value.entries.length === 0) {
+        return '{}';
+      }
+      const body = value.entries.map(([key, entry]) =>
+        hclAttribute(value.quoteKeys || !IDENTIFIER_PATTERN.test(key) ? hclString(key) : key, entry));
+      return `{\n${renderBody(body, `${indent}  `)}\n${indent}}`;
+    }
+  }
+};
+
+const renderBlock = (block: Extract<HclNode, { kind: 'block' }>, indent: string) => {
+  const header = [block.type, ...block.labels.map(hclString)].join(' ');
+  return block.body.length === 0
+    ? `${indent}${header} {}`
+    : `${indent}${header} {\n${renderBody(block.body, `${indent}  `)}\n${indent}}`;
+};
+
+// Consecutive single-line attributes align their equals signs; a multi-line value
+// ends the run, as does anything that is not an attribute. Blocks are separated
+// from their neighbours by a blank line unless a comment introduces them.
+const renderBody = (nodes: HclNode[], indent: string) => {
+  const lines: string[] = [];
+  let run: { name: string; value: string }[] = [];
+  const flushRun = () => {
+    const width = Math.max(...run.map(attribute => attribute.name.length));
+    run.forEach(attribute => lines.push(`${indent}${attribute.name.padEnd(width)} = ${attribute.value}`));
+    run = [];
+  };
+
+  nodes.forEach((node, i) => {
+    const previous = nodes[i - 1];
+    if (previous && previous.kind !== 'blank' && previous.kind !== 'comment' && node.kind !== 'blank'
+      && (node.kind === 'block' || previous.kind === 'block')) {
+      flushRun();
+      lines.push('');
+    }
+    if (node.kind === 'attribute') {
+      const value = renderHclValue(node.value, indent);
+      if (value.includes('\n')) {
+        flushRun();
+        lines.push(`${indent}${node.name} = ${value}`);
+      } else {
+        run.push({ name: node.name, value });
+      }
+      return;
+    }
+    flushRun();
+    if (node.kind === 'blank') {
+      lines.push('');
+    } else if (node.kind === 'comment') {
+      lines.push(...node.text.split('\n').map(line => `${indent}#${line ? ` ${line}` : ''}`));
+    } else {
+      lines.push(renderBlock(node, indent));
+    }
+  });
+  flushRun();
+  return lines.join('\n');
+};
+
+export const renderHcl = (nodes: HclNode[]) => renderBody(nodes, '');
+
+export interface HclVariableOptions {
+  name: string;
+  description: string;
+  type: string;
+  defaultValue?: HclValue;
+  sensitive?: boolean;
+  validations?: { condition: string; errorMessage: string }[];
+}
+
+export const hclVariable = ({ name, description, type, defaultValue, sensitive, validations = [] }: HclVariableOptions) =>
+  hclBlock('variable', [name], [
+    hclAttribute('description', description),
+    hclAttribute('type', hclRaw(type)),
+    ...(defaultValue === undefined ? [] : [hclAttribute('default', defaultValue)]),
+    ...(sensitive ? [hclAttribute('sensitive', true)] : []),
+    ...validations.map(validation => hclBlock('validation', [], [
+      hclAttribute('condition', hclRaw(validation.condition)),
+      hclAttribute('error_message', validation.errorMessage)
+    ]))
+  ]);
+
+export interface HclOutputOptions {
+  name: string;
+  description: string;
+  value: string;
+  sensitive?: boolean;
+}
+
+export const hclOutput = ({ name, description, value, sensitive }: HclOutputOptions) =>
+  hclBlock('output', [name], [
+    hclAttribute('description', description),
+    hclAttribute('value', hclRaw(value)),
+    ...(sensitive ? [hclAttribute('sensitive', true)] : [])
+  ]);
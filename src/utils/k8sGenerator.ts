@@ -1,18 +1,454 @@
-interface ManifestConfig {
-  type: 'frontend' | 'backend' | 'secrets' | 'ingress' | 'db-init-job';
+import { GcpAuthConfig, renderGcpAuthStep, renderJobPermissions } from './gcpAuth';
+import { getSealingScope } from './sealedSecrets';
+
+export interface ManifestConfig {
+  type: 'secrets' | 'configmap' | 'ingress' | 'db-init-job';
   enabled: boolean;
   config: Record<string, any>;
 }
 
-interface K8sConfig {
+// How the secrets manifest gets its values into the cluster without committing them:
+// opaque commits them base64-encoded, external-secrets reads them from GCP Secret
+// Manager, sealed-secrets commits them encrypted for the controller, and
+// github-actions keeps them in repository secrets until the workflow runs
+export type SecretMode = 'opaque' | 'external-secrets' | 'sealed-secrets' | 'github-actions';
+
+export type WorkloadServiceType = 'ClusterIP' | 'NodePort' | 'LoadBalancer' | 'None';
+
+export interface WorkloadPort {
+  name: string;
+  containerPort: number;
+  // Port the Service exposes, which ingress routes point at
+  servicePort: number;
+}
+
+export interface WorkloadEnvVar {
+  name: string;
+  value: string;
+}
+
+// Loads every key of a Secret or ConfigMap as environment variables
+export interface WorkloadEnvFrom {
+  kind: 'secret' | 'configMap';
+  name: string;
+}
+
+// Mounts a ConfigMap, Secret or existing PersistentVolumeClaim, or scratch space for emptyDir
+export interface WorkloadVolume {
+  name: string;
+  type: 'configMap' | 'secret' | 'emptyDir' | 'persistentVolumeClaim';
+  // ConfigMap, Secret or claim name; unused for emptyDir
+  source: string;
+  mountPath: string;
+  // Mounts one key or file instead of the whole volume
+  subPath: string;
+  readOnly: boolean;
+}
+
+export type ProbeType = 'http' | 'tcp' | 'exec';
+
+export interface ProbeConfig {
+  enabled: boolean;
+  type: ProbeType;
+  // HTTP only
+  path: string;
+  // Name of a workload port, for HTTP and TCP probes
+  port: string;
+  // Exec only; runs with sh -c, so the image needs a shell
+  command: string;
+  initialDelaySeconds: number;
+  periodSeconds: number;
+  timeoutSeconds: number;
+  failureThreshold: number;
+}
+
+export type ProbeKind = 'liveness' | 'readiness' | 'startup';
+
+export const PROBE_KINDS: ProbeKind[] = ['liveness', 'readiness', 'startup'];
+
+// Pods metrics are averaged over the workload's pods, External metrics come from outside the cluster
+export interface CustomMetric {
+  type: 'Pods' | 'External';
+  name: string;
+  averageValue: string;
+}
+
+export interface WorkloadAutoscaling {
+  enabled: boolean;
+  minReplicas: number;
+  maxReplicas: number;
+  // Average use of the container requests in percent; 0 leaves the metric out
+  cpuUtilization: number;
+  memoryUtilization: number;
+  customMetrics: CustomMetric[];
+  scaleDownStabilizationSeconds: number;
+  // Most of the replicas removed in one minute, in percent
+  scaleDownPercent: number;
+}
+
+export interface WorkloadDisruptionBudget {
+  enabled: boolean;
+  mode: 'minAvailable' | 'maxUnavailable';
+  // A pod count such as 1 or a percentage such as 50%
+  value: string;
+}
+
+// Kubernetes quantities such as 250m or 512Mi; empty values are left out
+export interface ResourceQuantities {
+  cpu: string;
+  memory: string;
+}
+
+// One Deployment and, unless serviceType is None, the Service in front of it
+export interface WorkloadConfig {
+  name: string;
+  enabled: boolean;
+  image: string;
+  replicas: number;
+  ports: WorkloadPort[];
+  serviceType: WorkloadServiceType;
+  args: string[];
+  env: WorkloadEnvVar[];
+  envFrom: WorkloadEnvFrom[];
+  volumes: WorkloadVolume[];
+  resources: {
+    requests: ResourceQuantities;
+    limits: ResourceQuantities;
+  };
+  probes: Record<ProbeKind, ProbeConfig>;
+  // The HorizontalPodAutoscaler owns the replica count while it is enabled
+  autoscaling: WorkloadAutoscaling;
+  disruptionBudget: WorkloadDisruptionBudget;
+}
+
+// Routes a path prefix on the ingress host to a workload's Service by name
+export interface IngressPath {
+  path: string;
+  workload: string;
+  port: number;
+}
+
+export interface K8sConfig {
   projectId: string;
   clusterName: string;
   region: string;
   zone: string;
+  // Zonal clusters are addressed by their zone, regional ones by their region
+  locationType: 'regional' | 'zonal';
   namespace: string;
+  workloads: WorkloadConfig[];
   manifests: ManifestConfig[];
+  auth: GcpAuthConfig;
+}
+
+export interface K8sManifestFile {
+  path: string;
+  content: string;
+  // Manifest type or workload the file was generated from
+  source: 'namespace' | 'workload' | ManifestConfig['type'];
 }
 
+export const getClusterLocationFlag = (config: K8sConfig, zone = config.zone, region = config.region) =>
+  config.locationType === 'zonal' ? `--zone ${zone}` : `--region ${region}`;
+
+const WORKLOAD_NAME_PATTERN = /^[a-z]([-a-z0-9]{0,61}[a-z0-9])?$/;
+const PORT_NAME_PATTERN = /^[a-z0-9]([-a-z0-9]{0,13}[a-z0-9])?$/;
+const ENV_NAME_PATTERN = /^[-._a-zA-Z][-._a-zA-Z0-9]*$/;
+const QUANTITY_PATTERN = /^\d+(\.\d+)?(m|k|M|G|T|Ki|Mi|Gi|Ti)?$/;
+
+const DISRUPTION_VALUE_PATTERN = /^(\d+|\d{1,3}%)$/;
+const REFERENCE_NAME_PATTERN = /^[a-z0-9]([-.a-z0-9]*[a-z0-9])?$/;
+
+const isValidPort = (port: number) => Number.isInteger(port) && port >= 1 && port <= 65535;
+
+const validateProbe = (kind: ProbeKind, probe: ProbeConfig, workload: WorkloadConfig): string[] => {
+  if (!probe.enabled) {
+    return [];
+  }
+  const errors: string[] = [];
+  if (probe.type === 'exec') {
+    if (!probe.command.trim()) {
+      errors.push(`The ${kind} probe needs a command`);
+    }
+  } else if (!workload.ports.some(port => port.name === probe.port)) {
+    errors.push(`The ${kind} probe checks port ${probe.port || '(none)'}, which the workload does not define`);
+  }
+  if (probe.type === 'http' && !probe.path.startsWith('/')) {
+    errors.push(`The ${kind} probe path must start with /`);
+  }
+  if (probe.initialDelaySeconds < 0 || probe.periodSeconds < 1 || probe.timeoutSeconds < 1 || probe.failureThreshold < 1) {
+    errors.push(`The ${kind} probe needs a delay of 0 or more and period, timeout and failure threshold of at least 1`);
+  }
+  return errors;
+};
+
+const validateAutoscaling = (workload: WorkloadConfig): string[] => {
+  const { autoscaling, resources } = workload;
+  if (!autoscaling.enabled) {
+    return [];
+  }
+  const errors: string[] = [];
+  if (autoscaling.minReplicas < 1 || autoscaling.maxReplicas < autoscaling.minReplicas) {
+    errors.push('Autoscaling needs at least 1 minimum replica and a maximum no lower than the minimum');
+  }
+  if (!autoscaling.cpuUtilization && !autoscaling.memoryUtilization && autoscaling.customMetrics.length === 0) {
+    errors.push('Autoscaling needs a CPU, memory or custom metric target');
+  }
+  if (autoscaling.cpuUtilization < 0 || autoscaling.memoryUtilization < 0) {
+    errors.push('Utilization targets cannot be negative');
+  }
+  // Utilization is measured against the requests
+  if (autoscaling.cpuUtilization > 0 && !resources.requests.cpu) {
+    errors.push('A CPU utilization target needs a CPU request');
+  }
+  if (autoscaling.memoryUtilization > 0 && !resources.requests.memory) {
+    errors.push('A memory utilization target needs a memory request');
+  }
+  if (autoscaling.customMetrics.some(metric => !metric.name.trim() || !QUANTITY_PATTERN.test(metric.averageValue))) {
+    errors.push('Custom metrics need a name and an average value such as 100 or 500m');
+  }
+  if (autoscaling.scaleDownStabilizationSeconds < 0 || autoscaling.scaleDownStabilizationSeconds > 3600) {
+    errors.push('Scale-down stabilization must be between 0 and 3600 seconds');
+  }
+  if (autoscaling.scaleDownPercent < 1 || autoscaling.scaleDownPercent > 100) {
+    errors.push('Scale-down rate must be between 1 and 100 percent');
+  }
+  return errors;
+};
+
+// A budget that never allows an eviction blocks node drains and upgrades
+const validateDisruptionBudget = (workload: WorkloadConfig): string[] => {
+  const { disruptionBudget, autoscaling } = workload;
+  if (!disruptionBudget.enabled) {
+    return [];
+  }
+  if (!DISRUPTION_VALUE_PATTERN.test(disruptionBudget.value)) {
+    return ['The disruption budget must be a pod count such as 1 or a percentage such as 50%'];
+  }
+  const replicas = autoscaling.enabled ? autoscaling.minReplicas : workload.replicas;
+  const { mode, value } = disruptionBudget;
+  // Kubernetes scales a percentage by the replica count and rounds up, so 50% of one pod is that pod
+  const percentage = value.endsWith('%');
+  const pods = percentage ? Math.ceil(parseInt(value) * replicas / 100) : parseInt(value);
+  const blocksEvictions = mode === 'maxUnavailable' ? pods === 0 : pods >= replicas;
+  return blocksEvictions
+    ? [`The disruption budget allows no pod to be evicted with ${replicas} replica(s)${percentage && mode === 'minAvailable' ? ` (${value} rounds up to ${pods})` : ''}, which blocks node drains`]
+    : [];
+};
+
+export const validateWorkload = (workload: WorkloadConfig, workloads: WorkloadConfig[]): string[] => {
+  const errors: string[] = [];
+  if (!WORKLOAD_NAME_PATTERN.test(workload.name)) {
+    errors.push('Name must start with a letter and use lowercase letters, digits and hyphens (max 63)');
+  }
+  if (workloads.filter(other => other.name === workload.name).length > 1) {
+    errors.push('Workload names must be unique');
+  }
+  if (!workload.image.trim()) {
+    errors.push('Set a container image');
+  }
+  if (!Number.isInteger(workload.replicas) || workload.replicas < 0) {
+    errors.push('Replicas must be 0 or more');
+  }
+  if (workload.ports.some(port => !PORT_NAME_PATTERN.test(port.name))) {
+    errors.push('Port names use lowercase letters, digits and hyphens (max 15)');
+  }
+  if (new Set(workload.ports.map(port => port.name)).size !== workload.ports.length) {
+    errors.push('Port names must be unique');
+  }
+  if (workload.ports.some(port => !isValidPort(port.containerPort) || !isValidPort(port.servicePort))) {
+    errors.push('Ports must be between 1 and 65535');
+  }
+  if (workload.serviceType !== 'None' && workload.ports.length === 0) {
+    errors.push('A Service needs at least one port');
+  }
+  if (workload.env.some(env => !ENV_NAME_PATTERN.test(env.name))) {
+    errors.push('Environment variable names cannot be empty or contain spaces');
+  }
+  if (new Set(workload.env.map(env => env.name)).size !== workload.env.length) {
+    errors.push('Environment variable names must be unique');
+  }
+  if (workload.envFrom.some(source => !REFERENCE_NAME_PATTERN.test(source.name))) {
+    errors.push('Secret and ConfigMap references need a lowercase name');
+  }
+  const { requests, limits } = workload.resources;
+  if ([requests.cpu, requests.memory, limits.cpu, limits.memory].some(quantity => quantity && !QUANTITY_PATTERN.test(quantity))) {
+    errors.push('Resources must be quantities such as 250m, 0.5, 512Mi or 1Gi');
+  }
+  if (workload.volumes.some(volume => !WORKLOAD_NAME_PATTERN.test(volume.name))) {
+    errors.push('Volume names must start with a letter and use lowercase letters, digits and hyphens');
+  }
+  if (new Set(workload.volumes.map(volume => volume.name)).size !== workload.volumes.length) {
+    errors.push('Volume names must be unique');
+  }
+  if (workload.volumes.some(volume => volume.type !== 'emptyDir' && !REFERENCE_NAME_PATTERN.test(volume.source))) {
+    errors.push('ConfigMap, Secret and claim volumes need the name of what they mount');
+  }
+  if (workload.volumes.some(volume => !volume.mountPath.startsWith('/'))) {
+    errors.push('Mount paths must be absolute');
+  }
+  if (new Set(workload.volumes.map(volume => volume.mountPath)).size !== workload.volumes.length) {
+    errors.push('Mount paths must be unique');
+  }
+  PROBE_KINDS.forEach(kind => errors.push(...validateProbe(kind, workload.probes[kind], workload)));
+  errors.push(...validateAutoscaling(workload), ...validateDisruptionBudget(workload));
+  return errors;
+};
+
+const getEnabledManifest = (config: K8sConfig, type: ManifestConfig['type']) =>
+  config.manifests.find(manifest => manifest.enabled && manifest.type === type);
+
+const CONFIG_KEY_PATTERN = /^[-._a-zA-Z0-9]+$/;
+const ACTIONS_SECRET_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const SECRET_MANAGER_ID_PATTERN = /^[A-Za-z0-9_-]{1,255}$/;
+
+// Configs saved before secret modes existed committed an Opaque Secret
+export const getSecretMode = (manifest: ManifestConfig): SecretMode => manifest.config.mode ?? 'opaque';
+
+export const validateSecrets = (config: K8sConfig): string[] => {
+  const secrets = getEnabledManifest(config, 'secrets');
+  if (!secrets) {
+    return [];
+  }
+  const name: string = secrets.config.name || 'app-secrets';
+  const data: Record<string, string> = secrets.config.data || {};
+  const errors: string[] = [];
+  if (!REFERENCE_NAME_PATTERN.test(name)) {
+    errors.push('The Secret needs a lowercase name');
+  }
+  switch (getSecretMode(secrets)) {
+    case 'external-secrets': {
+      const remoteRefs: Record<string, string> = secrets.config.remoteRefs || {};
+      if (!REFERENCE_NAME_PATTERN.test(secrets.config.secretStore || '')) {
+        errors.push('Name the SecretStore that reads from Secret Manager');
+      }
+      if (Object.keys(remoteRefs).some(key => !CONFIG_KEY_PATTERN.test(key))) {
+        errors.push('Secret keys use letters, digits, dots, dashes and underscores');
+      }
+      if (Object.values(remoteRefs).some(id => !SECRET_MANAGER_ID_PATTERN.test(id))) {
+        errors.push('Every key needs the Secret Manager secret it is read from (letters, digits, dashes and underscores)');
+      }
+      break;
+    }
+    case 'sealed-secrets': {
+      const sealedKeys = Object.keys(secrets.config.encryptedData || {});
+      if (Object.keys(data).length > 0) {
+        errors.push(`${Object.keys(data).length} value(s) are not sealed yet`);
+      }
+      if (sealedKeys.length > 0 && secrets.config.sealedFor !== getSealingScope(config.namespace, name)) {
+        errors.push(`The values were sealed for ${secrets.config.sealedFor}; seal them again for ${getSealingScope(config.namespace, name)}`);
+      }
+      break;
+    }
+    case 'github-actions':
+      if (Object.keys(data).some(key => !ACTIONS_SECRET_PATTERN.test(key) || /^github_/i.test(key))) {
+        errors.push('Keys become Actions secret names: letters, digits and underscores, not starting with GITHUB_');
+      }
+      if (Object.values(data).some(value => !value)) {
+        errors.push('Actions secrets cannot be empty');
+      }
+      break;
+    default:
+      if (Object.keys(data).some(key => !CONFIG_KEY_PATTERN.test(key))) {
+        errors.push('Secret keys use letters, digits, dots, dashes and underscores');
+      }
+  }
+  return errors;
+};
+
+// Values to store as repository secrets when the workflow creates the Secret
+export const getActionsSecretValues = (config: K8sConfig): Record<string, string> => {
+  const secrets = getEnabledManifest(config, 'secrets');
+  return secrets && getSecretMode(secrets) === 'github-actions' ? secrets.config.data || {} : {};
+};
+
+// Every repository secret the workflow reads: those already stored and those waiting to be
+export const getActionsSecretNames = (config: K8sConfig): string[] => {
+  const secrets = getEnabledManifest(config, 'secrets');
+  if (!secrets || getSecretMode(secrets) !== 'github-actions') {
+    return [];
+  }
+  const storedSecrets: string[] = secrets.config.storedSecrets || [];
+  return Array.from(new Set([...storedSecrets, ...Object.keys(secrets.config.data || {})]));
+};
+
+// Once the values are repository secrets only their names are kept
+export const markActionsSecretsStored = (config: K8sConfig): K8sConfig => ({
+  ...config,
+  manifests: config.manifests.map(manifest =>
+    manifest.type === 'secrets' && manifest.enabled && getSecretMode(manifest) === 'github-actions'
+      ? { ...manifest, config: { ...manifest.config, data: {}, storedSecrets: getActionsSecretNames(config) } }
+      : manifest)
+});
+
+// In these modes the values live in Secret Manager or repository secrets, so saved configurations leave them out
+const UNSAVED_VALUE_MODES: SecretMode[] = ['external-secrets', 'github-actions'];
+
+export const stripSecretValues = (config: K8sConfig): K8sConfig => ({
+  ...config,
+  manifests: config.manifests.map(manifest =>
+    manifest.type === 'secrets' && UNSAVED_VALUE_MODES.includes(getSecretMode(manifest))
+      ? { ...manifest, config: { ...manifest.config, data: {} } }
+      : manifest)
+});
+
+export const validateConfigMap = (config: K8sConfig): string[] => {
+  const configMap = getEnabledManifest(config, 'configmap');
+  if (!configMap) {
+    return [];
+  }
+  const { name, data, files } = configMap.config;
+  const keys = [...Object.keys(data || {}), ...Object.keys(files || {})];
+  const errors: string[] = [];
+  if (!REFERENCE_NAME_PATTERN.test(name || '')) {
+    errors.push('The ConfigMap needs a lowercase name');
+  }
+  if (keys.some(key => !CONFIG_KEY_PATTERN.test(key))) {
+    errors.push('ConfigMap keys and file names use letters, digits, dots, dashes and underscores');
+  }
+  if (new Set(keys).size !== keys.length) {
+    errors.push('A file name is also used as a key');
+  }
+  return errors;
+};
+
+export const getIngressPaths = (manifest: ManifestConfig): IngressPath[] =>
+  Array.isArray(manifest.config.paths) ? manifest.config.paths : [];
+
+// Every route has to reach a Service this configuration deploys
+export const validateIngress = (config: K8sConfig): string[] => {
+  const ingress = getEnabledManifest(config, 'ingress');
+  if (!ingress) {
+    return [];
+  }
+  const paths = getIngressPaths(ingress);
+  if (paths.length === 0) {
+    return ['Add at least one ingress route'];
+  }
+  return paths.flatMap(route => {
+    const workload = config.workloads.find(w => w.enabled && w.name === route.workload);
+    if (!route.path.startsWith('/')) {
+      return [`Route ${route.path || '(empty)'} must start with /`];
+    }
+    if (!workload) {
+      return [`Route ${route.path} points at ${route.workload || 'no workload'}, which is not deployed`];
+    }
+    if (workload.serviceType === 'None') {
+      return [`Route ${route.path} points at ${workload.name}, which has no Service`];
+    }
+    if (!workload.ports.some(port => port.servicePort === route.port)) {
+      return [`Route ${route.path}: ${workload.name} does not expose port ${route.port}`];
+    }
+    return [];
+  });
+};
+
+// Workload names followed by the other selected manifest types
+export const getSelectedManifestNames = (config: K8sConfig) => [
+  ...config.workloads.filter(workload => workload.enabled).map(workload => workload.name),
+  ...config.manifests.filter(manifest => manifest.enabled).map(manifest => manifest.type)
+];
+
 // Browser-compatible base64 encoding function
 const encodeToBase64 = (str: string): string => {
   const encoder = new TextEncoder();
@@ -25,10 +461,10 @@ const encodeToBase64 = (str: string): string => {
   return btoa(binary);
 };
 
-export const generateK8sFiles = (config: K8sConfig) => {
-  const files: { path: string; content: string }[] = [];
+// Apply order: the namespace, what workloads read at startup, the workloads, then the routes to them
+export const generateK8sManifests = (config: K8sConfig): K8sManifestFile[] => {
+  const files: K8sManifestFile[] = [];
 
-  // Always create namespace
   const namespace = `apiVersion: v1
 kind: Namespace
 metadata:
@@ -36,188 +472,362 @@ metadata:
   labels:
     managed-by: iac-generator`;
   
-  files.push({ path: 'k8s/namespace.yaml', content: namespace });
-
-  // Generate manifests based on selected types
-  config.manifests.filter(m => m.enabled).forEach(manifest => {
-    switch (manifest.type) {
-      case 'frontend':
-        files.push(...generateFrontendManifests(manifest, config.namespace));
-        break;
-      case 'backend':
-        files.push(...generateBackendManifests(manifest, config.namespace));
-        break;
-      case 'secrets':
-        files.push(...generateSecretsManifests(manifest, config.namespace));
-        break;
-      case 'ingress':
-        files.push(...generateIngressManifests(manifest, config.namespace));
-        break;
-      case 'db-init-job':
-        files.push(...generateDbInitJobManifests(manifest, config.namespace));
-        break;
+  files.push({ path: 'k8s/namespace.yaml', content: namespace, source: 'namespace' });
+
+  // Contents of the Secret and ConfigMap generated here, keyed by getConfigSourceKey
+  const configSources: Record<string, string> = {};
+  const secrets = getEnabledManifest(config, 'secrets');
+  if (secrets) {
+    const secretFiles = generateSecretsManifests(secrets, config);
+    // Secrets created by the workflow are not in the repo; the update action restarts the pods instead
+    if (secretFiles.length > 0) {
+      configSources[getConfigSourceKey('secret', secrets.config.name || 'app-secrets')] = secretFiles.map(file => file.content).join('\n');
     }
+    files.push(...secretFiles);
+  }
+  const configMap = getEnabledManifest(config, 'configmap');
+  if (configMap) {
+    const configMapFiles = generateConfigMapManifests(configMap, config.namespace);
+    configSources[getConfigSourceKey('configMap', configMap.config.name || 'app-config')] = configMapFiles.map(file => file.content).join('\n');
+    files.push(...configMapFiles);
+  }
+  const dbInitJob = getEnabledManifest(config, 'db-init-job');
+  if (dbInitJob) {
+    files.push(...generateDbInitJobManifests(dbInitJob, config.namespace));
+  }
+  config.workloads.filter(workload => workload.enabled).forEach(workload => {
+    files.push(...generateWorkloadManifests(workload, config.namespace, configSources));
   });
+  const ingress = getEnabledManifest(config, 'ingress');
+  if (ingress) {
+    files.push(...generateIngressManifests(ingress, config.namespace));
+  }
+
+  return files;
+};
+
+export const generateK8sFiles = (config: K8sConfig) => {
+  const manifests = generateK8sManifests(config);
+  const files: { path: string; content: string }[] = manifests.map(({ path, content }) => ({ path, content }));
 
   // Generate GitHub Actions workflow
-  const workflowYml = generateWorkflowYml(config);
+  const workflowYml = generateWorkflowYml(config, manifests);
   files.push({ path: '.github/workflows/k8s-deploy.yml', content: workflowYml });
 
   return files;
 };
 
-const generateFrontendManifests = (manifest: ManifestConfig, namespace: string) => {
-  const { image, port, replicas, serviceType } = manifest.config;
-  
+const renderResources = ({ requests, limits }: WorkloadConfig['resources']) => {
+  const renderQuantities = (key: string, quantities: ResourceQuantities) => {
+    const lines = [
+      quantities.memory && `            memory: "${quantities.memory}"`,
+      quantities.cpu && `            cpu: "${quantities.cpu}"`
+    ].filter(Boolean);
+    return lines.length > 0 ? `\n          ${key}:\n${lines.join('\n')}` : '';
+  };
+  const body = renderQuantities('requests', requests) + renderQuantities('limits', limits);
+  return body ? `\n        resources:${body}` : '';
+};
+
+const renderProbe = (kind: ProbeKind, probe: ProbeConfig) => {
+  if (!probe.enabled) {
+    return '';
+  }
+  const action = {
+    http: `
+          httpGet:
+            path: ${probe.path}
+            port: ${probe.port}`,
+    tcp: `
+          tcpSocket:
+            port: ${probe.port}`,
+    exec: `
+          exec:
+            command:
+            - sh
+            - -c
+            - ${JSON.stringify(probe.command)}`
+  }[probe.type];
+  return `
+        ${kind}Probe:${action}
+          initialDelaySeconds: ${probe.initialDelaySeconds}
+          periodSeconds: ${probe.periodSeconds}
+          timeoutSeconds: ${probe.timeoutSeconds}
+          failureThreshold: ${probe.failureThreshold}`;
+};
+
+const renderHpaMetrics = (autoscaling: WorkloadAutoscaling) => {
+  const resourceMetrics = ([['cpu', autoscaling.cpuUtilization], ['memory', autoscaling.memoryUtilization]] as const)
+    .filter(([, utilization]) => utilization > 0)
+    .map(([resource, utilization]) => `
+  - type: Resource
+    resource:
+      name: ${resource}
+      target:
+        type: Utilization
+        averageUtilization: ${utilization}`);
+  const customMetrics = autoscaling.customMetrics.map(metric => `
+  - type: ${metric.type}
+    ${metric.type === 'Pods' ? 'pods' : 'external'}:
+      metric:
+        name: ${metric.name}
+      target:
+        type: AverageValue
+        averageValue: "${metric.averageValue}"`);
+  return [...resourceMetrics, ...customMetrics].join('');
+};
+
+const getConfigSourceKey = (kind: 'secret' | 'configMap', name: string) => `${kind}/${name}`;
+
+// FNV-1a; the digest only has to change when the content does
+const hashContent = (content: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < content.length; i++) {
+    hash ^= content.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+const renderVolumeSource = (volume: WorkloadVolume) => {
+  switch (volume.type) {
+    case 'configMap':
+      return `
+        configMap:
+          name: ${volume.source}`;
+    case 'secret':
+      return `
+        secret:
+          secretName: ${volume.source}`;
+    case 'persistentVolumeClaim':
+      return `
+        persistentVolumeClaim:
+          claimName: ${volume.source}`;
+    default:
+      return `
+        emptyDir: {}`;
+  }
+};
+
+const generateWorkloadManifests = (
+  workload: WorkloadConfig,
+  namespace: string,
+  configSources: Record<string, string>
+): K8sManifestFile[] => {
+  const { name, image, replicas, ports, serviceType, args, env, envFrom, volumes, probes, autoscaling, disruptionBudget } = workload;
+  const labels = (indent: string) => `${indent}app: ${name}\n${indent}component: ${name}`;
+
+  const portsBlock = ports.length > 0 ? `
+        ports:${ports.map(port => `
+        - containerPort: ${port.containerPort}
+          name: ${port.name}`).join('')}` : '';
+  const argsBlock = args.length > 0 ? `
+        args:${args.map(arg => `
+        - ${JSON.stringify(arg)}`).join('')}` : '';
+  const envFromBlock = envFrom.length > 0 ? `
+        envFrom:${envFrom.map(source => `
+        - ${source.kind === 'secret' ? 'secretRef' : 'configMapRef'}:
+            name: ${source.name}`).join('')}` : '';
+  const envBlock = env.length > 0 ? `
+        env:${env.map(variable => `
+        - name: ${variable.name}
+          value: ${JSON.stringify(variable.value)}`).join('')}` : '';
+  const probeBlocks = PROBE_KINDS.map(kind => renderProbe(kind, probes[kind])).join('');
+  const volumeMountsBlock = volumes.length > 0 ? `
+        volumeMounts:${volumes.map(volume => `
+        - name: ${volume.name}
+          mountPath: ${volume.mountPath}${volume.subPath ? `
+          subPath: ${volume.subPath}` : ''}${volume.readOnly ? `
+          readOnly: true` : ''}`).join('')}` : '';
+  const volumesBlock = volumes.length > 0 ? `
+      volumes:${volumes.map(volume => `
+      - name: ${volume.name}${renderVolumeSource(volume)}`).join('')}` : '';
+
+  // Pods do not restart when a Secret or ConfigMap changes, so a checksum of the ones
+  // generated here is part of the pod template and a change rolls the Deployment
+  const referencedSources = [
+    ...envFrom.map(source => getConfigSourceKey(source.kind, source.name)),
+    ...volumes
+      .filter(volume => volume.type === 'configMap' || volume.type === 'secret')
+      .map(volume => getConfigSourceKey(volume.type === 'secret' ? 'secret' : 'configMap', volume.source))
+  ].filter((key, i, keys) => configSources[key] !== undefined && keys.indexOf(key) === i).sort();
+  const annotationsBlock = referencedSources.length > 0 ? `
+      annotations:
+        checksum/config: ${hashContent(referencedSources.map(key => configSources[key]).join('\n'))}` : '';
+
   const deployment = `apiVersion: apps/v1
 kind: Deployment
 metadata:
-  name: frontend
+  name: ${name}
   namespace: ${namespace}
   labels:
-    app: frontend
-    component: frontend
-spec:
-  replicas: ${replicas || 2}
+${labels('    ')}
+spec:${autoscaling.enabled ? '' : `
+  replicas: ${replicas}`}
   selector:
     matchLabels:
-      app: frontend
-      component: frontend
+${labels('      ')}
   template:
     metadata:
       labels:
-        app: frontend
-        component: frontend
+${labels('        ')}${annotationsBlock}
     spec:
       containers:
-      - name: frontend
-        image: ${image}
-        ports:
-        - containerPort: ${port || 80}
-          name: http
-        resources:
-          requests:
-            memory: "128Mi"
-            cpu: "100m"
-          limits:
-            memory: "512Mi"
-            cpu: "500m"
-        livenessProbe:
-          httpGet:
-            path: /
-            port: ${port || 80}
-          initialDelaySeconds: 30
-          periodSeconds: 10
-        readinessProbe:
-          httpGet:
-            path: /
-            port: ${port || 80}
-          initialDelaySeconds: 5
-          periodSeconds: 5`;
+      - name: ${name}
+        image: ${image}${argsBlock}${portsBlock}${envFromBlock}${envBlock}${renderResources(workload.resources)}${probeBlocks}${volumeMountsBlock}${volumesBlock}`;
+
+  const files: K8sManifestFile[] = [{ path: `k8s/${name}-deployment.yaml`, content: deployment, source: 'workload' }];
 
-  const service = `apiVersion: v1
+  if (serviceType !== 'None' && ports.length > 0) {
+    const service = `apiVersion: v1
 kind: Service
 metadata:
-  name: frontend
+  name: ${name}
   namespace: ${namespace}
   labels:
-    app: frontend
-    component: frontend
+${labels('    ')}
 spec:
-  type: ${serviceType || 'LoadBalancer'}
-  ports:
-  - port: 80
-    targetPort: ${port || 80}
+  type: ${serviceType}
+  ports:${ports.map(port => `
+  - port: ${port.servicePort}
+    targetPort: ${port.containerPort}
     protocol: TCP
-    name: http
+    name: ${port.name}`).join('')}
   selector:
-    app: frontend
-    component: frontend`;
+${labels('    ')}`;
+    files.push({ path: `k8s/${name}-service.yaml`, content: service, source: 'workload' });
+  }
 
-  return [
-    { path: 'k8s/frontend-deployment.yaml', content: deployment },
-    { path: 'k8s/frontend-service.yaml', content: service }
-  ];
-};
+  if (autoscaling.enabled) {
+    const hpa = `apiVersion: autoscaling/v2
+kind: HorizontalPodAutoscaler
+metadata:
+  name: ${name}
+  namespace: ${namespace}
+  labels:
+${labels('    ')}
+spec:
+  scaleTargetRef:
+    apiVersion: apps/v1
+    kind: Deployment
+    name: ${name}
+  minReplicas: ${autoscaling.minReplicas}
+  maxReplicas: ${autoscaling.maxReplicas}
+  metrics:${renderHpaMetrics(autoscaling)}
+  behavior:
+    scaleDown:
+      stabilizationWindowSeconds: ${autoscaling.scaleDownStabilizationSeconds}
+      policies:
+      - type: Percent
+        value: ${autoscaling.scaleDownPercent}
+        periodSeconds: 60`;
+    files.push({ path: `k8s/${name}-hpa.yaml`, content: hpa, source: 'workload' });
+  }
 
-const generateBackendManifests = (manifest: ManifestConfig, namespace: string) => {
-  const { image, port, replicas, serviceType } = manifest.config;
-  
-  const deployment = `apiVersion: apps/v1
-kind: Deployment
+  if (disruptionBudget.enabled) {
+    // Plain counts are integers, percentages are strings
+    const value = disruptionBudget.value.endsWith('%') ? `"${disruptionBudget.value}"` : disruptionBudget.value;
+    const pdb = `apiVersion: policy/v1
+kind: PodDisruptionBudget
 metadata:
-  name: backend
+  name: ${name}
   namespace: ${namespace}
   labels:
-    app: backend
-    component: backend
+${labels('    ')}
 spec:
-  replicas: ${replicas || 2}
+  ${disruptionBudget.mode}: ${value}
   selector:
     matchLabels:
-      app: backend
-      component: backend
-  template:
-    metadata:
-      labels:
-        app: backend
-        component: backend
-    spec:
-      containers:
-      - name: backend
-        image: ${image}
-        ports:
-        - containerPort: ${port || 8080}
-          name: http
-        env:
-        - name: NODE_ENV
-          value: "production"
-        resources:
-          requests:
-            memory: "256Mi"
-            cpu: "200m"
-          limits:
-            memory: "1Gi"
-            cpu: "1000m"
-        livenessProbe:
-          httpGet:
-            path: /health
-            port: ${port || 8080}
-          initialDelaySeconds: 30
-          periodSeconds: 10
-        readinessProbe:
-          httpGet:
-            path: /health
-            port: ${port || 8080}
-          initialDelaySeconds: 5
-          periodSeconds: 5`;
+${labels('      ')}`;
+    files.push({ path: `k8s/${name}-pdb.yaml`, content: pdb, source: 'workload' });
+  }
 
-  const service = `apiVersion: v1
-kind: Service
+  return files;
+};
+const generateExternalSecretManifests = (manifest: ManifestConfig, config: K8sConfig): K8sManifestFile[] => {
+  const { namespace, projectId } = config;
+  const name = manifest.config.name || 'app-secrets';
+  const secretStore = manifest.config.secretStore || 'gcp-secret-manager';
+  const remoteRefs: Record<string, string> = manifest.config.remoteRefs || {};
+
+  // Authenticates as the controller's Kubernetes service account through Workload Identity
+  const store = `apiVersion: external-secrets.io/v1
+kind: SecretStore
 metadata:
-  name: backend
+  name: ${secretStore}
   namespace: ${namespace}
   labels:
-    app: backend
-    component: backend
+    managed-by: iac-generator
 spec:
-  type: ${serviceType || 'ClusterIP'}
-  ports:
-  - port: ${port || 8080}
-    targetPort: ${port || 8080}
-    protocol: TCP
-    name: http
-  selector:
-    app: backend
-    component: backend`;
+  provider:
+    gcpsm:
+      projectID: ${projectId}`;
+
+  const externalSecret = `apiVersion: external-secrets.io/v1
+kind: ExternalSecret
+metadata:
+  name: ${name}
+  namespace: ${namespace}
+  labels:
+    managed-by: iac-generator
+spec:
+  refreshInterval: ${manifest.config.refreshInterval || '1h'}
+  secretStoreRef:
+    kind: SecretStore
+    name: ${secretStore}
+  target:
+    name: ${name}
+    creationPolicy: Owner
+  data:${Object.keys(remoteRefs).length > 0 ? Object.entries(remoteRefs).map(([key, id]) => `
+  - secretKey: ${key}
+    remoteRef:
+      key: ${id}`).join('') : ' []'}`;
 
   return [
-    { path: 'k8s/backend-deployment.yaml', content: deployment },
-    { path: 'k8s/backend-service.yaml', content: service }
+    { path: 'k8s/secret-store.yaml', content: store, source: 'secrets' },
+    { path: 'k8s/secrets.yaml', content: externalSecret, source: 'secrets' }
   ];
 };
 
-const generateSecretsManifests = (manifest: ManifestConfig, namespace: string) => {
+const generateSealedSecretManifests = (manifest: ManifestConfig, namespace: string): K8sManifestFile[] => {
+  const name = manifest.config.name || 'app-secrets';
+  const encryptedData: Record<string, string> = manifest.config.encryptedData || {};
+
+  const sealedSecret = `apiVersion: bitnami.com/v1alpha1
+kind: SealedSecret
+metadata:
+  name: ${name}
+  namespace: ${namespace}
+  labels:
+    managed-by: iac-generator
+spec:
+  encryptedData:${Object.keys(encryptedData).length > 0 ? Object.entries(encryptedData).map(([key, value]) => `
+    ${key}: ${value}`).join('') : ' {}'}
+  template:
+    metadata:
+      name: ${name}
+      namespace: ${namespace}
+      labels:
+        managed-by: iac-generator
+    type: Opaque`;
+
+  return [
+    { path: 'k8s/secrets.yaml', content: sealedSecret, source: 'secrets' }
+  ];
+};
+
+const generateSecretsManifests = (manifest: ManifestConfig, config: K8sConfig): K8sManifestFile[] => {
+  const mode = getSecretMode(manifest);
+  if (mode === 'external-secrets') {
+    return generateExternalSecretManifests(manifest, config);
+  }
+  if (mode === 'sealed-secrets') {
+    return generateSealedSecretManifests(manifest, config.namespace);
+  }
+  if (mode === 'github-actions') {
+    return [];
+  }
+  const { namespace } = config;
   const { name, data } = manifest.config;
   
   const secret = `apiVersion: v1
@@ -234,13 +844,44 @@ ${Object.entries(data || {}).map(([key, value]) =>
 ).join('\n')}`;
 
   return [
-    { path: 'k8s/secrets.yaml', content: secret }
+    { path: 'k8s/secrets.yaml', content: secret, source: 'secrets' }
+  ];
+};
+
+// Multi-line values become literal blocks so config files stay readable in the repo
+const renderConfigValue = (value: string) => {
+  // Trailing blank lines do not survive a literal block at the end of the file
+  if (!value.includes('\n') || value.endsWith('\n\n')) {
+    return JSON.stringify(value);
+  }
+  const chomping = value.endsWith('\n') ? '' : '-';
+  const body = value.endsWith('\n') ? value.slice(0, -1) : value;
+  // Content that starts indented needs an explicit indentation indicator
+  const indentation = /^[ \t]/.test(value) ? '2' : '';
+  return `|${indentation}${chomping}\n${body.split('\n').map(line => (line ? `    ${line}` : '')).join('\n')}`;
+};
+
+const generateConfigMapManifests = (manifest: ManifestConfig, namespace: string): K8sManifestFile[] => {
+  const { name, data, files } = manifest.config;
+  const entries = [...Object.entries(data || {}), ...Object.entries(files || {})] as [string, string][];
+
+  const configMap = `apiVersion: v1
+kind: ConfigMap
+metadata:
+  name: ${name || 'app-config'}
+  namespace: ${namespace}
+  labels:
+    managed-by: iac-generator
+data:${entries.length > 0 ? entries.map(([key, value]) => `
+  ${key}: ${renderConfigValue(value)}`).join('') : ' {}'}`;
+
+  return [
+    { path: 'k8s/configmap.yaml', content: configMap, source: 'configmap' }
   ];
 };
 
-const generateIngressManifests = (manifest: ManifestConfig, namespace: string) => {
+const generateIngressManifests = (manifest: ManifestConfig, namespace: string): K8sManifestFile[] => {
   const { domain, enableSSL } = manifest.config;
-  const files = [];
   
   const ingress = `apiVersion: networking.k8s.io/v1
 kind: Ingress
@@ -249,41 +890,30 @@ metadata:
   namespace: ${namespace}
   labels:
     managed-by: iac-generator
-  annotations:
-    nginx.ingress.kubernetes.io/rewrite-target: /
 spec:
   ingressClassName: nginx
   rules:
   - host: ${domain || 'example.com'}
     http:
-      paths:
-      # Backend API routes
-      - path: /api
+      paths:${getIngressPaths(manifest).map(route => `
+      - path: ${route.path}
         pathType: Prefix
         backend:
           service:
-            name: backend
+            name: ${route.workload}
             port:
-              number: 8080
-      # Frontend static files (must be last)
-      - path: /
-        pathType: Prefix
-        backend:
-          service:
-            name: frontend
-            port:
-              number: 80${enableSSL ? `
+              number: ${route.port}`).join('')}${enableSSL ? `
   tls:
   - hosts:
     - ${domain || 'example.com'}
     secretName: app-tls-secret` : ''}`;
 
-  files.push({ path: 'k8s/ingress.yaml', content: ingress });
-
-  return files;
+  return [
+    { path: 'k8s/ingress.yaml', content: ingress, source: 'ingress' }
+  ];
 };
 
-const generateDbInitJobManifests = (manifest: ManifestConfig, namespace: string) => {
+const generateDbInitJobManifests = (manifest: ManifestConfig, namespace: string): K8sManifestFile[] => {
   const { image, command, restartPolicy } = manifest.config;
   
   const job = `apiVersion: batch/v1
@@ -379,23 +1009,52 @@ spec:
   backoffLimit: 4`;
 
   return [
-    { path: 'k8s/db-init-job.yaml', content: job }
+    { path: 'k8s/db-init-job.yaml', content: job, source: 'db-init-job' }
   ];
 };
 
-const generateWorkflowYml = (config: K8sConfig) => {
-  const enabledManifests = config.manifests.filter(m => m.enabled);
-  const manifestTypes = enabledManifests.map(m => m.type).join(', ');
-  const manifestFiles = enabledManifests.map(m => {
-    switch (m.type) {
-      case 'frontend': return 'frontend-deployment.yaml frontend-service.yaml';
-      case 'backend': return 'backend-deployment.yaml backend-service.yaml';
-      case 'secrets': return 'secrets.yaml';
-      case 'ingress': return 'ingress.yaml';
-      case 'db-init-job': return 'db-init-job.yaml';
-      default: return '';
-    }
-  }).join(' ').split(' ').filter(f => f).join(' ');
+// Deployments that read the Secret through envFrom or a volume
+const getSecretConsumers = (config: K8sConfig, secretName: string) =>
+  config.workloads
+    .filter(workload => workload.enabled && (
+      workload.envFrom.some(source => source.kind === 'secret' && source.name === secretName) ||
+      workload.volumes.some(volume => volume.type === 'secret' && volume.source === secretName)
+    ))
+    .map(workload => workload.name);
+
+// Builds the Secret from repository secrets on deploy and update; values reach
+// kubectl through the environment so they never appear in the workflow file
+const renderActionsSecretStep = (config: K8sConfig) => {
+  const secrets = getEnabledManifest(config, 'secrets');
+  const keys = getActionsSecretNames(config);
+  if (!secrets || keys.length === 0) {
+    return '';
+  }
+  const name = secrets.config.name || 'app-secrets';
+  return `
+    - name: Create Secret from Actions Secrets
+      if: github.event.inputs.k8s_action == 'deploy' || github.event.inputs.k8s_action == 'update'
+      env:${keys.map(key => `
+        SECRET_${key}: \${{ secrets.${key} }}`).join('')}
+      run: |
+        echo "🔐 Creating ${name} from GitHub Actions secrets..."
+        kubectl apply -f k8s/namespace.yaml
+        kubectl create secret generic ${name} -n ${config.namespace} \\${keys.map(key => `
+          --from-literal=${key}="$SECRET_${key}" \\`).join('')}
+          --dry-run=client -o yaml | kubectl apply -f -
+`;
+};
+
+const generateWorkflowYml = (config: K8sConfig, manifests: K8sManifestFile[]) => {
+  const manifestTypes = getSelectedManifestNames(config).join(', ');
+  // The namespace is applied on its own before the selected files
+  const manifestFiles = manifests
+    .filter(file => file.source !== 'namespace')
+    .map(file => file.path.replace(/^k8s\//, ''))
+    .join(' ');
+  const actionsSecretStep = renderActionsSecretStep(config);
+  const actionsSecretName = getEnabledManifest(config, 'secrets')?.config.name || 'app-secrets';
+  const actionsSecretConsumers = actionsSecretStep ? getSecretConsumers(config, actionsSecretName) : [];
 
   return `name: Kubernetes Modular Deployment
 
@@ -428,31 +1087,25 @@ on:
         description: 'GCP Zone'
         required: true
         default: '${config.zone}'
-      namespace:
-        description: 'Kubernetes Namespace'
-        required: true
-        default: '${config.namespace}'
 
 env:
   PROJECT_ID: \${{ github.event.inputs.project_id }}
   CLUSTER_NAME: \${{ github.event.inputs.cluster_name }}
   REGION: \${{ github.event.inputs.region }}
   ZONE: \${{ github.event.inputs.zone }}
-  NAMESPACE: \${{ github.event.inputs.namespace }}
+  # Fixed rather than an input: the manifests and sealed secrets are generated for this namespace
+  NAMESPACE: ${config.namespace}
 
 jobs:
   kubernetes-operations:
     name: 'Kubernetes \${{ github.event.inputs.k8s_action }}'
     runs-on: ubuntu-latest
     
-    steps:
+${renderJobPermissions(config.auth)}    steps:
     - name: Checkout Repository
       uses: actions/checkout@v4
 
-    - name: Authenticate to Google Cloud
-      uses: google-github-actions/auth@v2
-      with:
-        credentials_json: \${{ secrets.GCP_SA_KEY }}
+${renderGcpAuthStep(config.auth)}
 
     - name: Set up Cloud SDK
       uses: google-github-actions/setup-gcloud@v2
@@ -478,8 +1131,8 @@ jobs:
     - name: Connect to GKE Cluster
       run: |
         echo "🔗 Connecting to GKE cluster..."
-        gcloud container clusters get-credentials \${{ github.event.inputs.cluster_name }} \
-          --region \${{ github.event.inputs.region }} \
+        gcloud container clusters get-credentials \${{ github.event.inputs.cluster_name }} \\
+          ${getClusterLocationFlag(config, '${{ github.event.inputs.zone }}', '${{ github.event.inputs.region }}')} \\
           --project \${{ github.event.inputs.project_id }}
         
         echo "✅ Connected to cluster: \${{ github.event.inputs.cluster_name }}"
@@ -494,26 +1147,32 @@ jobs:
         echo "🎯 Selected manifests: ${manifestTypes}"
         echo ""
         echo "🔍 Namespace status:"
-        kubectl get namespace \${{ github.event.inputs.namespace }} || echo "Namespace does not exist"
+        kubectl get namespace ${config.namespace} || echo "Namespace does not exist"
         echo ""
         echo "🚀 Deployment status:"
-        kubectl get deployments -n \${{ github.event.inputs.namespace }} || echo "No deployments found"
+        kubectl get deployments -n ${config.namespace} || echo "No deployments found"
         echo ""
         echo "🌐 Service status:"
-        kubectl get services -n \${{ github.event.inputs.namespace }} || echo "No services found"
+        kubectl get services -n ${config.namespace} || echo "No services found"
         echo ""
         echo "📦 Pod status:"
-        kubectl get pods -n \${{ github.event.inputs.namespace }} || echo "No pods found"
+        kubectl get pods -n ${config.namespace} || echo "No pods found"
         echo ""
         echo "🔐 Secret status:"
-        kubectl get secrets -n \${{ github.event.inputs.namespace }} || echo "No secrets found"
+        kubectl get secrets -n ${config.namespace} || echo "No secrets found"
+        echo ""
+        echo "🧾 ConfigMap status:"
+        kubectl get configmaps -n ${config.namespace} || echo "No configmaps found"
         echo ""
         echo "🌍 Ingress status:"
-        kubectl get ingress -n \${{ github.event.inputs.namespace }} || echo "No ingress found"
+        kubectl get ingress -n ${config.namespace} || echo "No ingress found"
         echo ""
         echo "🗄️ Job status:"
-        kubectl get jobs -n \${{ github.event.inputs.namespace }} || echo "No jobs found"
-
+        kubectl get jobs -n ${config.namespace} || echo "No jobs found"
+        echo ""
+        echo "📈 Autoscaler and disruption budget status:"
+        kubectl get hpa,pdb -n ${config.namespace} || echo "No autoscalers or disruption budgets found"
+${actionsSecretStep}
     # DEPLOY OPERATION
     - name: Deploy Selected Manifests
       if: github.event.inputs.k8s_action == 'deploy'
@@ -534,12 +1193,12 @@ jobs:
         done
         
         echo "⏳ Waiting for deployments to be ready..."
-        kubectl wait --for=condition=available --timeout=300s deployment --all -n \${{ github.event.inputs.namespace }} || true
+        kubectl wait --for=condition=available --timeout=300s deployment --all -n ${config.namespace} || true
         
         echo "✅ Selected manifests deployed successfully!"
         echo ""
         echo "📊 DEPLOYMENT SUMMARY:"
-        kubectl get all -n \${{ github.event.inputs.namespace }}
+        kubectl get all -n ${config.namespace}
 
     # UPDATE OPERATION
     - name: Update Selected Manifests
@@ -558,11 +1217,12 @@ jobs:
           fi
         done
         
-        # Restart deployments for rolling update
-        kubectl rollout restart deployment --all -n \${{ github.event.inputs.namespace }} || true
+${actionsSecretConsumers.length > 0 ? `        # The Secret's values come from Actions secrets rather than the manifests, so no
+        # checksum annotation rolls the Deployments that read it
+        kubectl rollout restart ${actionsSecretConsumers.map(name => `deployment/${name}`).join(' ')} -n ${config.namespace}
         
-        echo "⏳ Waiting for rolling update to complete..."
-        kubectl rollout status deployment --all -n \${{ github.event.inputs.namespace }} || true
+` : ''}        echo "⏳ Waiting for rolling update to complete..."
+        kubectl rollout status deployment --all -n ${config.namespace} || true
         
         echo "✅ Selected manifests updated successfully!"
 
@@ -581,10 +1241,11 @@ jobs:
           else
             echo "⚠️ File k8s/\$file not found, skipping..."
           fi
-        done
+        done${actionsSecretStep ? `
+        kubectl delete secret ${actionsSecretName} -n ${config.namespace} --ignore-not-found=true` : ''}
         
         echo "⏳ Waiting for resources to be deleted..."
-        kubectl wait --for=delete pod --all -n \${{ github.event.inputs.namespace }} --timeout=120s || true
+        kubectl wait --for=delete pod --all -n ${config.namespace} --timeout=120s || true
         
         echo "✅ Selected manifests deleted successfully!"
 
@@ -599,7 +1260,7 @@ jobs:
         echo "📍 Project: \${{ github.event.inputs.project_id }}"
         echo "🏷️ Cluster: \${{ github.event.inputs.cluster_name }}"
         echo "🌍 Region: \${{ github.event.inputs.region }}"
-        echo "📦 Namespace: \${{ github.event.inputs.namespace }}"
+        echo "📦 Namespace: ${config.namespace}"
         echo "🚀 Selected Manifests: ${manifestTypes}"
         echo "📄 Deployed Files: ${manifestFiles}"
         echo ""
@@ -607,11 +1268,11 @@ jobs:
         if [ "\${{ github.event.inputs.k8s_action }}" = "deploy" ]; then
           echo "🎉 SUCCESS: Selected manifests have been deployed!"
           echo "🌐 Check service endpoints:"
-          echo "kubectl get services -n \${{ github.event.inputs.namespace }}"
+          echo "kubectl get services -n ${config.namespace}"
         elif [ "\${{ github.event.inputs.k8s_action }}" = "update" ]; then
           echo "🔄 SUCCESS: Selected manifests have been updated!"
           echo "📊 Check rollout status:"
-          echo "kubectl get pods -n \${{ github.event.inputs.namespace }}"
+          echo "kubectl get pods -n ${config.namespace}"
         elif [ "\${{ github.event.inputs.k8s_action }}" = "delete" ]; then
           echo "🗑️ SUCCESS: Selected manifests have been deleted!"
           echo "🧹 Selected resources cleaned up from namespace"
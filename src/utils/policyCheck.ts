@@ -0,0 +1,293 @@
+// Declarative rules checked against each cluster the generated Terraform deploys
+// before the files are uploaded. Rules are plain JSON so they can be saved and
+// shared with the rest of the configuration.
+
+export type PolicySeverity = 'error' | 'warning';
+
+// Facts known about every generated cluster. A fact a provider does not have is
+// left out, and rules that need it do not apply to that cluster.
+export interface PolicyFacts {
+  provider: string;
+  environment: string;
+  clusterName: string;
+  region: string;
+  clusterMode?: string;
+  publicEndpoint: boolean;
+  privateNodes?: boolean;
+  deletionProtection?: boolean;
+  machineTypes: string[];
+  spotNodes: boolean;
+  labels?: Record<string, string>;
+  releaseChannel?: string;
+  networkPolicy?: string;
+  workloadIdentity?: boolean;
+  binaryAuthorization?: boolean;
+  stateLock: boolean;
+}
+
+export type PolicyField = keyof PolicyFacts;
+
+export type PolicyOperator = 'equals' | 'notEquals' | 'in' | 'notIn' | 'startsWith' | 'notStartsWith' | 'matches' | 'hasKeys';
+
+export interface PolicyCondition {
+  field: PolicyField;
+  operator: PolicyOperator;
+  value: string | number | boolean | string[];
+}
+
+export interface PolicyRule {
+  id: string;
+  description: string;
+  // error blocks the upload, warning is only reported
+  severity: PolicySeverity;
+  // Every condition must hold for the rule to apply; no conditions applies it everywhere
+  when?: PolicyCondition[];
+  require: PolicyCondition;
+}
+
+export interface PolicyConfig {
+  disabledRules: string[];
+  customRules: PolicyRule[];
+}
+
+// One generated cluster; target names it in results, e.g. the environment
+export interface PolicySubject {
+  target: string;
+  facts: PolicyFacts;
+}
+
+export interface PolicyViolation {
+  ruleId: string;
+  description: string;
+  severity: PolicySeverity;
+  target: string;
+  message: string;
+}
+
+export interface PolicyResult {
+  checked: number;
+  violations: PolicyViolation[];
+}
+
+export const POLICY_FIELDS: PolicyField[] = [
+  'provider', 'environment', 'clusterName', 'region', 'clusterMode', 'publicEndpoint', 'privateNodes',
+  'deletionProtection', 'machineTypes', 'spotNodes', 'labels', 'releaseChannel', 'networkPolicy',
+  'workloadIdentity', 'binaryAuthorization', 'stateLock'
+];
+
+export const POLICY_OPERATORS: PolicyOperator[] = ['equals', 'notEquals', 'in', 'notIn', 'startsWith', 'notStartsWith', 'matches', 'hasKeys'];
+
+const PRODUCTION: PolicyCondition = { field: 'environment', operator: 'in', value: ['prod', 'production'] };
+
+export const BUILTIN_POLICY_RULES: PolicyRule[] = [
+  {
+    id: 'prod-private-endpoint',
+    description: 'Production control planes are not reachable from the internet',
+    severity: 'error',
+    when: [PRODUCTION],
+    require: { field: 'publicEndpoint', operator: 'equals', value: false }
+  },
+  {
+    id: 'prod-deletion-protection',
+    description: 'Production clusters have deletion protection',
+    severity: 'error',
+    when: [PRODUCTION],
+    require: { field: 'deletionProtection', operator: 'equals', value: true }
+  },
+  {
+    id: 'prod-no-shared-core-machines',
+    description: 'Production nodes do not use shared-core or burstable machine types',
+    severity: 'warning',
+    when: [PRODUCTION],
+    require: { field: 'machineTypes', operator: 'notStartsWith', value: ['e2-micro', 'e2-small', 'e2-medium', 'f1-', 'g1-', 't2.', 't3.', 't3a.', 't4g.', 'Standard_B'] }
+  },
+  {
+    id: 'required-labels',
+    description: 'Clusters carry a team label for ownership and cost reports',
+    severity: 'warning',
+    require: { field: 'labels', operator: 'hasKeys', value: ['team'] }
+  },
+  {
+    id: 'state-locking',
+    description: 'Terraform state is locked while plans and applies run',
+    severity: 'warning',
+    require: { field: 'stateLock', operator: 'equals', value: true }
+  }
+];
+
+export const EXAMPLE_POLICY_RULES: PolicyRule[] = [
+  {
+    id: 'allowed-machine-families',
+    description: 'Nodes use the approved machine families',
+    severity: 'error',
+    require: { field: 'machineTypes', operator: 'startsWith', value: ['e2-standard-', 'n2-', 'm6i.', 'Standard_D'] }
+  }
+];
+
+const formatFact = (value: unknown) => {
+  if (Array.isArray(value)) {
+    return value.length === 0 ? 'none' : value.join(', ');
+  }
+  if (value !== null && typeof value === 'object') {
+    const keys = Object.keys(value);
+    return keys.length === 0 ? 'no labels' : `labels ${keys.join(', ')}`;
+  }
+  return String(value);
+};
+
+const asList = (value: PolicyCondition['value']) => (Array.isArray(value) ? value : [String(value)]);
+
+// List facts such as machineTypes pass only when every element passes
+const testValue = (fact: string | number | boolean, condition: PolicyCondition) => {
+  const list = asList(condition.value);
+  switch (condition.operator) {
+    case 'equals':
+      return fact === condition.value;
+    case 'notEquals':
+      return fact !== condition.value;
+    case 'in':
+      return list.includes(String(fact));
+    case 'notIn':
+      return !list.includes(String(fact));
+    case 'startsWith':
+      return list.some(prefix => String(fact).startsWith(prefix));
+    case 'notStartsWith':
+      return !list.some(prefix => String(fact).startsWith(prefix));
+    case 'matches':
+      return new RegExp(String(condition.value)).test(String(fact));
+    default:
+      return false;
+  }
+};
+
+// undefined when the fact does not exist for the cluster
+const testCondition = (facts: PolicyFacts, condition: PolicyCondition): boolean | undefined => {
+  const fact = facts[condition.field];
+  if (fact === undefined) {
+    return undefined;
+  }
+  if (condition.operator === 'hasKeys') {
+    return typeof fact === 'object' && !Array.isArray(fact) && asList(condition.value).every(key => Boolean(fact[key]));
+  }
+  if (typeof fact === 'object' && !Array.isArray(fact)) {
+    return false;
+  }
+  return Array.isArray(fact) ? fact.every(item => testValue(item, condition)) : testValue(fact, condition);
+};
+
+const describeFailure = (facts: PolicyFacts, condition: PolicyCondition) => {
+  const fact = facts[condition.field];
+  if (condition.operator === 'hasKeys') {
+    const present = typeof fact === 'object' && !Array.isArray(fact) ? fact : {};
+    return `missing label ${asList(condition.value).filter(key => !present[key]).join(', ')}`;
+  }
+  if (Array.isArray(fact)) {
+    const failing = new Set(fact.filter(item => !testValue(item, condition)));
+    return `${condition.field} includes ${Array.from(failing).join(', ')}`;
+  }
+  return `${condition.field} is ${formatFact(fact)}`;
+};
+
+export const getActivePolicyRules = (policy: PolicyConfig) => [
+  ...BUILTIN_POLICY_RULES.filter(rule => !policy.disabledRules.includes(rule.id)),
+  ...policy.customRules
+];
+
+export const evaluatePolicies = (subjects: PolicySubject[], policy: PolicyConfig): PolicyResult => {
+  const rules = getActivePolicyRules(policy);
+  const violations = subjects.flatMap(subject => rules.flatMap(rule => {
+    const applies = (rule.when ?? []).every(condition => testCondition(subject.facts, condition) === true);
+    if (!applies || testCondition(subject.facts, rule.require) !== false) {
+      return [];
+    }
+    return [{
+      ruleId: rule.id,
+      description: rule.description,
+      severity: rule.severity,
+      target: subject.target,
+      message: describeFailure(subject.facts, rule.require)
+    }];
+  }));
+  return { checked: rules.length, violations };
+};
+
+export const hasBlockingViolations = (result: PolicyResult) =>
+  result.violations.some(violation => violation.severity === 'error');
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const validateCondition = (condition: unknown, where: string): string[] => {
+  if (!isRecord(condition)) {
+    return [`${where} must be an object with field, operator and value`];
+  }
+  const errors: string[] = [];
+  if (!POLICY_FIELDS.includes(condition.field as PolicyField)) {
+    errors.push(`${where}: unknown field ${String(condition.field)}`);
+  }
+  if (!POLICY_OPERATORS.includes(condition.operator as PolicyOperator)) {
+    errors.push(`${where}: unknown operator ${String(condition.operator)}`);
+  }
+  const { operator, value } = condition;
+  const isStringList = Array.isArray(value) && value.every(item => typeof item === 'string');
+  if (['in', 'notIn', 'hasKeys'].includes(String(operator)) && !isStringList) {
+    errors.push(`${where}: ${String(operator)} takes a list of strings`);
+  } else if (['startsWith', 'notStartsWith'].includes(String(operator)) && typeof value !== 'string' && !isStringList) {
+    errors.push(`${where}: ${String(operator)} takes a string or a list of strings`);
+  } else if (['equals', 'notEquals'].includes(String(operator)) && !['string', 'number', 'boolean'].includes(typeof value)) {
+    errors.push(`${where}: ${String(operator)} takes a string, number or boolean`);
+  } else if (operator === 'matches') {
+    try {
+      new RegExp(String(value));
+    } catch {
+      errors.push(`${where}: ${String(value)} is not a valid regular expression`);
+    }
+  }
+  return errors;
+};
+
+// Throws with every problem found so the rules can be fixed in one pass
+export const parsePolicyRules = (text: string): PolicyRule[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Rules are not valid JSON');
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error('Rules must be a JSON array');
+  }
+  const ids = new Set(BUILTIN_POLICY_RULES.map(rule => rule.id));
+  const errors = parsed.flatMap((rule, index): string[] => {
+    if (!isRecord(rule)) {
+      return [`Rule ${index + 1} must be an object`];
+    }
+    const where = typeof rule.id === 'string' && rule.id ? rule.id : `Rule ${index + 1}`;
+    const ruleErrors: string[] = [];
+    if (typeof rule.id !== 'string' || !/^[a-z0-9][a-z0-9-]*$/.test(rule.id)) {
+      ruleErrors.push(`${where}: id must use lowercase letters, digits and hyphens`);
+    } else if (ids.has(rule.id)) {
+      ruleErrors.push(`${where}: id is already used`);
+    } else {
+      ids.add(rule.id);
+    }
+    if (typeof rule.description !== 'string' || !rule.description.trim()) {
+      ruleErrors.push(`${where}: add a description`);
+    }
+    if (rule.severity !== 'error' && rule.severity !== 'warning') {
+      ruleErrors.push(`${where}: severity must be error or warning`);
+    }
+    if (rule.when !== undefined && !Array.isArray(rule.when)) {
+      ruleErrors.push(`${where}: when must be a list of conditions`);
+    }
+    return [
+      ...ruleErrors,
+      ...(Array.isArray(rule.when) ? rule.when.flatMap((condition, i) => validateCondition(condition, `${where} when[${i}]`)) : []),
+      ...validateCondition(rule.require, `${where} require`)
+    ];
+  });
+  if (errors.length > 0) {
+    throw new Error(errors.join('\n'));
+  }
+  return parsed as PolicyRule[];
+};
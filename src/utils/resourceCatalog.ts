@@ -0,0 +1,665 @@
+import { hclAttribute, hclObject, hclVariable } from './hcl';
+
+export type ResourceKind = 'cloud-sql' | 'memorystore' | 'artifact-registry' | 'gcs-bucket';
+
+export type CloudSqlDatabaseVersion = 'POSTGRES_16' | 'POSTGRES_15' | 'MYSQL_8_0';
+export type CloudSqlAvailabilityType = 'ZONAL' | 'REGIONAL';
+export type MemorystoreTier = 'BASIC' | 'STANDARD_HA';
+export type MemorystoreVersion = 'REDIS_7_2' | 'REDIS_7_0' | 'REDIS_6_X';
+export type ArtifactRegistryFormat = 'DOCKER' | 'NPM' | 'PYTHON' | 'MAVEN';
+export type StorageClass = 'STANDARD' | 'NEARLINE' | 'COLDLINE' | 'ARCHIVE';
+export type BucketNodeAccess = 'read' | 'read-write';
+
+export interface CloudSqlResource {
+  kind: 'cloud-sql';
+  name: string;
+  databaseVersion: CloudSqlDatabaseVersion;
+  tier: string;
+  availabilityType: CloudSqlAvailabilityType;
+  diskSizeGb: number;
+  databaseName: string;
+  backupsEnabled: boolean;
+  backupStartTime: string; // HH:MM in UTC
+  retainedBackups: number;
+  pointInTimeRecovery: boolean;
+  deletionProtection: boolean;
+}
+
+export interface MemorystoreResource {
+  kind: 'memorystore';
+  name: string;
+  tier: MemorystoreTier;
+  memorySizeGb: number;
+  redisVersion: MemorystoreVersion;
+  authEnabled: boolean;
+  transitEncryption: boolean;
+}
+
+export interface ArtifactRegistryResource {
+  kind: 'artifact-registry';
+  name: string;
+  format: ArtifactRegistryFormat;
+  immutableTags: boolean;
+  cleanupOlderThanDays: number; // 0 keeps every version
+  keepRecentVersions: number;
+}
+
+export interface GcsBucketResource {
+  kind: 'gcs-bucket';
+  name: string;
+  storageClass: StorageClass;
+  versioning: boolean;
+  deleteAfterDays: number; // 0 keeps objects forever
+  nodeAccess: BucketNodeAccess;
+  forceDestroy: boolean;
+}
+
+export type CatalogResource = CloudSqlResource | MemorystoreResource | ArtifactRegistryResource | GcsBucketResource;
+
+export interface CatalogOutput {
+  name: string;
+  description: string;
+  value: string;
+  sensitive?: boolean;
+}
+
+// Names Terraform derives a resource's GCP name from
+export interface ResourceNaming {
+  projectId: string;
+  clusterName: string;
+}
+
+interface ResourceField<R> {
+  name: string;
+  type: 'string' | 'number' | 'bool';
+  value: (resource: R) => string | number | boolean;
+}
+
+// Everything the generator needs to offer a kind of resource. Each kind is
+// rendered as one map variable plus for_each resources, like node_pools.
+interface ResourceDefinition<R extends CatalogResource> {
+  label: string;
+  description: string;
+  variable: string;
+  variableDescription: string;
+  fields: ResourceField<R>[];
+  validations: { condition: string; errorMessage: string }[];
+  defaults: Omit<R, 'name'>;
+  // Google-managed services peered into the VPC need private services access
+  privateServiceAccess: boolean;
+  apis: string[];
+  // Role the deployer needs to manage the kind, as listed in the workflow hints
+  deployerRole: string;
+  nodeAccess: (resource: R) => string;
+  gcpName: (naming: ResourceNaming, name: string) => string;
+  maxNameLength: number;
+  resourcesTf: string;
+  outputs: CatalogOutput[];
+  validate: (resource: R) => string[];
+  describe: (resource: R) => string;
+}
+
+type ResourceCatalog = { [K in ResourceKind]: ResourceDefinition<Extract<CatalogResource, { kind: K }>> };
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const SQL_TIER_PATTERN = /^db-[a-z0-9-]+$/;
+const DATABASE_NAME_PATTERN = /^[a-z][a-z0-9_]{0,62}$/;
+
+const isPostgres = (version: CloudSqlDatabaseVersion) => version.startsWith('POSTGRES');
+
+export const RESOURCE_CATALOG: ResourceCatalog = {
+  'cloud-sql': {
+    label: 'Cloud SQL',
+    description: 'PostgreSQL or MySQL on a private IP in the cluster VPC, with automated backups',
+    variable: 'cloud_sql_instances',
+    variableDescription: 'Cloud SQL instances keyed by name, reachable on a private IP from the cluster VPC',
+    fields: [
+      { name: 'database_version', type: 'string', value: r => r.databaseVersion },
+      { name: 'tier', type: 'string', value: r => r.tier },
+      { name: 'availability_type', type: 'string', value: r => r.availabilityType },
+      { name: 'disk_size_gb', type: 'number', value: r => r.diskSizeGb },
+      { name: 'database_name', type: 'string', value: r => r.databaseName },
+      { name: 'backups_enabled', type: 'bool', value: r => r.backupsEnabled },
+      { name: 'backup_start_time', type: 'string', value: r => r.backupStartTime },
+      { name: 'retained_backups', type: 'number', value: r => r.retainedBackups },
+      { name: 'point_in_time_recovery', type: 'bool', value: r => r.pointInTimeRecovery },
+      { name: 'deletion_protection', type: 'bool', value: r => r.deletionProtection }
+    ],
+    validations: [
+      {
+        condition: 'alltrue([for instance in values(var.cloud_sql_instances) : contains(["ZONAL", "REGIONAL"], instance.availability_type)])',
+        errorMessage: 'availability_type must be ZONAL or REGIONAL.'
+      }
+    ],
+    defaults: {
+      kind: 'cloud-sql',
+      databaseVersion: 'POSTGRES_16',
+      tier: 'db-custom-1-3840',
+      availabilityType: 'ZONAL',
+      diskSizeGb: 10,
+      databaseName: 'app',
+      backupsEnabled: true,
+      backupStartTime: '02:00',
+      retainedBackups: 7,
+      pointInTimeRecovery: true,
+      deletionProtection: true
+    },
+    privateServiceAccess: true,
+    apis: ['sqladmin.googleapis.com', 'servicenetworking.googleapis.com'],
+    deployerRole: 'Cloud SQL Admin (roles/cloudsql.admin)',
+    nodeAccess: () => 'Cloud SQL client and IAM database user',
+    gcpName: (naming, name) => `${naming.clusterName}-${name}`,
+    maxNameLength: 98,
+    resourcesTf: `# Cloud SQL instances with a private IP only, reachable from the cluster VPC
+resource "google_sql_database_instance" "instances" {
+  for_each = var.cloud_sql_instances
+
+  name                = "\${var.cluster_name}-\${each.key}"
+  region              = var.region
+  database_version    = each.value.database_version
+  deletion_protection = each.value.deletion_protection
+
+  settings {
+    tier              = each.value.tier
+    availability_type = each.value.availability_type
+    disk_size         = each.value.disk_size_gb
+    disk_autoresize   = true
+    user_labels       = merge({ env = var.environment }, var.labels)
+
+    ip_configuration {
+      ipv4_enabled    = false
+      private_network = local.network_id
+    }
+
+    # Point-in-time recovery uses WAL archiving on PostgreSQL and binary logs on MySQL
+    backup_configuration {
+      enabled                        = each.value.backups_enabled
+      start_time                     = each.value.backup_start_time
+      point_in_time_recovery_enabled = each.value.backups_enabled && each.value.point_in_time_recovery && substr(each.value.database_version, 0, 8) == "POSTGRES"
+      binary_log_enabled             = each.value.backups_enabled && each.value.point_in_time_recovery && substr(each.value.database_version, 0, 5) == "MYSQL"
+
+      backup_retention_settings {
+        retained_backups = each.value.retained_backups
+      }
+    }
+
+    # Let service accounts log in with IAM instead of a password
+    database_flags {
+      name  = substr(each.value.database_version, 0, 8) == "POSTGRES" ? "cloudsql.iam_authentication" : "cloudsql_iam_authentication"
+      value = "on"
+    }
+  }
+
+  depends_on = [google_service_networking_connection.private_service_access]
+}
+
+resource "google_sql_database" "databases" {
+  for_each = var.cloud_sql_instances
+
+  name     = each.value.database_name
+  instance = google_sql_database_instance.instances[each.key].name
+}
+
+# The node service account logs in as an IAM database user
+resource "google_sql_user" "nodes" {
+  for_each = var.cloud_sql_instances
+
+  instance = google_sql_database_instance.instances[each.key].name
+  name     = substr(each.value.database_version, 0, 8) == "POSTGRES" ? trimsuffix(local.node_service_account_email, ".gserviceaccount.com") : split("@", local.node_service_account_email)[0]
+  type     = "CLOUD_IAM_SERVICE_ACCOUNT"
+}
+
+# Connecting through the Cloud SQL Auth Proxy and logging in with IAM are project-level roles
+resource "google_project_iam_member" "cloud_sql_nodes" {
+  for_each = length(var.cloud_sql_instances) > 0 ? toset(["roles/cloudsql.client", "roles/cloudsql.instanceUser"]) : toset([])
+
+  project = var.project_id
+  role    = each.value
+  member  = "serviceAccount:\${local.node_service_account_email}"
+}`,
+    outputs: [
+      {
+        name: 'cloud_sql_instances',
+        description: 'Cloud SQL connection details keyed by instance',
+        value: `{
+  for key, instance in google_sql_database_instance.instances : key => {
+    connection_name = instance.connection_name
+    private_ip      = instance.private_ip_address
+    database        = google_sql_database.databases[key].name
+    iam_user        = google_sql_user.nodes[key].name
+  }
+}`
+      }
+    ],
+    validate: resource => {
+      const errors: string[] = [];
+      if (!SQL_TIER_PATTERN.test(resource.tier)) {
+        errors.push('Machine tier must look like db-custom-2-7680 or db-f1-micro');
+      }
+      if (!(resource.diskSizeGb >= 10)) {
+        errors.push('Disk size must be at least 10 GB');
+      }
+      if (!DATABASE_NAME_PATTERN.test(resource.databaseName)) {
+        errors.push('Database name must start with a letter and contain only lowercase letters, digits and underscores');
+      }
+      if (resource.backupsEnabled && !TIME_PATTERN.test(resource.backupStartTime)) {
+        errors.push('Backup start time must be HH:MM');
+      }
+      if (resource.backupsEnabled && !(resource.retainedBackups >= 1 && resource.retainedBackups <= 365)) {
+        errors.push('Retained backups must be between 1 and 365');
+      }
+      return errors;
+    },
+    describe: resource => `${resource.databaseVersion} ${resource.tier}${resource.availabilityType === 'REGIONAL' ? ' (HA)' : ''}${
+      resource.backupsEnabled
+        ? `, ${resource.retainedBackups} backups${resource.pointInTimeRecovery ? ` + ${isPostgres(resource.databaseVersion) ? 'PITR' : 'binary logs'}` : ''}`
+        : ', no backups'
+    }`
+  },
+
+  memorystore: {
+    label: 'Memorystore for Redis',
+    description: 'Managed Redis connected to the cluster VPC through private services access',
+    variable: 'memorystore_instances',
+    variableDescription: 'Memorystore for Redis instances keyed by name, connected to the cluster VPC',
+    fields: [
+      { name: 'tier', type: 'string', value: r => r.tier },
+      { name: 'memory_size_gb', type: 'number', value: r => r.memorySizeGb },
+      { name: 'redis_version', type: 'string', value: r => r.redisVersion },
+      { name: 'auth_enabled', type: 'bool', value: r => r.authEnabled },
+      { name: 'transit_encryption', type: 'bool', value: r => r.transitEncryption }
+    ],
+    validations: [
+      {
+        condition: 'alltrue([for instance in values(var.memorystore_instances) : contains(["BASIC", "STANDARD_HA"], instance.tier)])',
+        errorMessage: 'tier must be BASIC or STANDARD_HA.'
+      }
+    ],
+    defaults: {
+      kind: 'memorystore',
+      tier: 'BASIC',
+      memorySizeGb: 1,
+      redisVersion: 'REDIS_7_2',
+      authEnabled: true,
+      transitEncryption: true
+    },
+    privateServiceAccess: true,
+    apis: ['redis.googleapis.com', 'servicenetworking.googleapis.com'],
+    deployerRole: 'Cloud Memorystore Redis Admin (roles/redis.admin)',
+    nodeAccess: () => 'Redis viewer to look up endpoints',
+    gcpName: (naming, name) => `${naming.clusterName}-${name}`,
+    maxNameLength: 40,
+    resourcesTf: `# Memorystore for Redis, reachable only from the cluster VPC
+resource "google_redis_instance" "instances" {
+  for_each = var.memorystore_instances
+
+  name           = "\${var.cluster_name}-\${each.key}"
+  region         = var.region
+  tier           = each.value.tier
+  memory_size_gb = each.value.memory_size_gb
+  redis_version  = each.value.redis_version
+
+  authorized_network      = local.network_id
+  connect_mode            = "PRIVATE_SERVICE_ACCESS"
+  auth_enabled            = each.value.auth_enabled
+  transit_encryption_mode = each.value.transit_encryption ? "SERVER_AUTHENTICATION" : "DISABLED"
+
+  labels = merge({ env = var.environment }, var.labels)
+
+  depends_on = [google_service_networking_connection.private_service_access]
+}
+
+# Clients connect over the network; the role only lets workloads look up endpoints
+resource "google_project_iam_member" "memorystore_nodes" {
+  count = length(var.memorystore_instances) > 0 ? 1 : 0
+
+  project = var.project_id
+  role    = "roles/redis.viewer"
+  member  = "serviceAccount:\${local.node_service_account_email}"
+}`,
+    outputs: [
+      {
+        name: 'memorystore_instances',
+        description: 'Redis host and port keyed by instance',
+        value: '{ for key, instance in google_redis_instance.instances : key => { host = instance.host, port = instance.port } }'
+      },
+      {
+        name: 'memorystore_auth_strings',
+        description: 'Redis AUTH strings keyed by instance',
+        value: '{ for key, instance in google_redis_instance.instances : key => instance.auth_string }',
+        sensitive: true
+      }
+    ],
+    validate: resource => {
+      const errors: string[] = [];
+      if (!(resource.memorySizeGb >= 1 && resource.memorySizeGb <= 300)) {
+        errors.push('Memory size must be between 1 and 300 GB');
+      }
+      if (resource.tier === 'STANDARD_HA' && resource.memorySizeGb < 5) {
+        errors.push('Standard tier instances need at least 5 GB');
+      }
+      return errors;
+    },
+    describe: resource => `${resource.redisVersion.replace('REDIS_', 'Redis ').replace('_', '.')} ${resource.memorySizeGb}GB ${
+      resource.tier === 'STANDARD_HA' ? 'HA' : 'basic'
+    }${resource.authEnabled ? ', AUTH' : ''}${resource.transitEncryption ? ', TLS' : ''}`
+  },
+
+  'artifact-registry': {
+    label: 'Artifact Registry',
+    description: 'Container image or package repository the nodes can pull from',
+    variable: 'artifact_registry_repositories',
+    variableDescription: 'Artifact Registry repositories keyed by name; the nodes get read access',
+    fields: [
+      { name: 'format', type: 'string', value: r => r.format },
+      { name: 'immutable_tags', type: 'bool', value: r => r.immutableTags },
+      { name: 'cleanup_older_than_days', type: 'number', value: r => r.cleanupOlderThanDays },
+      { name: 'keep_recent_versions', type: 'number', value: r => r.keepRecentVersions }
+    ],
+    validations: [
+      {
+        condition: 'alltrue([for repository in values(var.artifact_registry_repositories) : contains(["DOCKER", "NPM", "PYTHON", "MAVEN"], repository.format)])',
+        errorMessage: 'format must be DOCKER, NPM, PYTHON or MAVEN.'
+      }
+    ],
+    defaults: {
+      kind: 'artifact-registry',
+      format: 'DOCKER',
+      immutableTags: false,
+      cleanupOlderThanDays: 90,
+      keepRecentVersions: 10
+    },
+    privateServiceAccess: false,
+    apis: ['artifactregistry.googleapis.com'],
+    deployerRole: 'Artifact Registry Administrator (roles/artifactregistry.admin)',
+    nodeAccess: () => 'reader on the repository',
+    gcpName: (naming, name) => `${naming.clusterName}-${name}`,
+    maxNameLength: 63,
+    resourcesTf: `resource "google_artifact_registry_repository" "repositories" {
+  for_each = var.artifact_registry_repositories
+
+  location      = var.region
+  repository_id = "\${var.cluster_name}-\${each.key}"
+  format        = each.value.format
+  labels        = merge({ env = var.environment }, var.labels)
+
+  dynamic "docker_config" {
+    for_each = each.value.format == "DOCKER" ? [1] : []
+    content {
+      immutable_tags = each.value.immutable_tags
+    }
+  }
+
+  # Delete old versions but always keep the most recent ones
+  cleanup_policy_dry_run = false
+
+  dynamic "cleanup_policies" {
+    for_each = each.value.cleanup_older_than_days > 0 ? [1] : []
+    content {
+      id     = "delete-old-versions"
+      action = "DELETE"
+      condition {
+        older_than = "\${each.value.cleanup_older_than_days * 86400}s"
+      }
+    }
+  }
+
+  dynamic "cleanup_policies" {
+    for_each = each.value.cleanup_older_than_days > 0 ? [1] : []
+    content {
+      id     = "keep-recent-versions"
+      action = "KEEP"
+      most_recent_versions {
+        keep_count = each.value.keep_recent_versions
+      }
+    }
+  }
+}
+
+# Nodes pull images with their own identity, so no image pull secrets are needed
+resource "google_artifact_registry_repository_iam_member" "nodes" {
+  for_each = var.artifact_registry_repositories
+
+  location   = google_artifact_registry_repository.repositories[each.key].location
+  repository = google_artifact_registry_repository.repositories[each.key].name
+  role       = "roles/artifactregistry.reader"
+  member     = "serviceAccount:\${local.node_service_account_email}"
+}`,
+    outputs: [
+      {
+        name: 'artifact_registry_repositories',
+        description: 'Repository URLs keyed by repository',
+        value: '{ for key, repository in google_artifact_registry_repository.repositories : key => "${repository.location}-${lower(repository.format)}.pkg.dev/${var.project_id}/${repository.repository_id}" }'
+      }
+    ],
+    validate: resource => {
+      const errors: string[] = [];
+      if (!(resource.cleanupOlderThanDays >= 0)) {
+        errors.push('Cleanup age must be 0 (disabled) or more days');
+      }
+      if (resource.cleanupOlderThanDays > 0 && !(resource.keepRecentVersions >= 1)) {
+        errors.push('Keep at least one recent version when cleanup is enabled');
+      }
+      return errors;
+    },
+    describe: resource => `${resource.format.toLowerCase()}${resource.immutableTags ? ', immutable tags' : ''}${
+      resource.cleanupOlderThanDays > 0 ? `, cleanup after ${resource.cleanupOlderThanDays}d` : ''
+    }`
+  },
+
+  'gcs-bucket': {
+    label: 'Cloud Storage bucket',
+    description: 'Private bucket with uniform access, optional versioning and lifecycle deletion',
+    variable: 'storage_buckets',
+    variableDescription: 'Cloud Storage buckets keyed by name; bucket names are prefixed with the project and cluster',
+    fields: [
+      { name: 'storage_class', type: 'string', value: r => r.storageClass },
+      { name: 'versioning', type: 'bool', value: r => r.versioning },
+      { name: 'delete_after_days', type: 'number', value: r => r.deleteAfterDays },
+      { name: 'node_access', type: 'string', value: r => r.nodeAccess },
+      { name: 'force_destroy', type: 'bool', value: r => r.forceDestroy }
+    ],
+    validations: [
+      {
+        condition: 'alltrue([for bucket in values(var.storage_buckets) : contains(["read", "read-write"], bucket.node_access)])',
+        errorMessage: 'node_access must be read or read-write.'
+      }
+    ],
+    defaults: {
+      kind: 'gcs-bucket',
+      storageClass: 'STANDARD',
+      versioning: true,
+      deleteAfterDays: 0,
+      nodeAccess: 'read',
+      forceDestroy: false
+    },
+    privateServiceAccess: false,
+    apis: ['storage.googleapis.com'],
+    deployerRole: 'Storage Admin (roles/storage.admin)',
+    nodeAccess: resource => (resource.nodeAccess === 'read-write' ? 'object user' : 'object viewer'),
+    gcpName: (naming, name) => `${naming.projectId}-${naming.clusterName}-${name}`,
+    maxNameLength: 63,
+    resourcesTf: `resource "google_storage_bucket" "buckets" {
+  for_each = var.storage_buckets
+
+  name                        = "\${var.project_id}-\${var.cluster_name}-\${each.key}"
+  location                    = upper(var.region)
+  storage_class               = each.value.storage_class
+  force_destroy               = each.value.force_destroy
+  uniform_bucket_level_access = true
+  public_access_prevention    = "enforced"
+  labels                      = merge({ env = var.environment }, var.labels)
+
+  versioning {
+    enabled = each.value.versioning
+  }
+
+  dynamic "lifecycle_rule" {
+    for_each = each.value.delete_after_days > 0 ? [1] : []
+    content {
+      condition {
+        age = each.value.delete_after_days
+      }
+      action {
+        type = "Delete"
+      }
+    }
+  }
+}
+
+resource "google_storage_bucket_iam_member" "nodes" {
+  for_each = var.storage_buckets
+
+  bucket = google_storage_bucket.buckets[each.key].name
+  role   = each.value.node_access == "read-write" ? "roles/storage.objectUser" : "roles/storage.objectViewer"
+  member = "serviceAccount:\${local.node_service_account_email}"
+}`,
+    outputs: [
+      {
+        name: 'storage_buckets',
+        description: 'Bucket URLs keyed by bucket',
+        value: '{ for key, bucket in google_storage_bucket.buckets : key => bucket.url }'
+      }
+    ],
+    validate: resource => {
+      const errors: string[] = [];
+      if (!(resource.deleteAfterDays >= 0)) {
+        errors.push('Delete after must be 0 (never) or more days');
+      }
+      return errors;
+    },
+    describe: resource => `${resource.storageClass.toLowerCase()}${resource.versioning ? ', versioned' : ''}, nodes ${resource.nodeAccess}`
+  }
+};
+
+export const RESOURCE_KINDS = Object.keys(RESOURCE_CATALOG) as ResourceKind[];
+
+const getDefinition = (kind: ResourceKind) =>
+  RESOURCE_CATALOG[kind] as unknown as ResourceDefinition<CatalogResource>;
+
+export const createResource = (kind: ResourceKind, name: string) =>
+  ({ ...RESOURCE_CATALOG[kind].defaults, name }) as CatalogResource;
+
+const RESOURCE_NAME_PATTERN = /^[a-z][a-z0-9-]{0,19}$/;
+
+export const validateResource = (resource: CatalogResource, resources: CatalogResource[]): string[] => {
+  const errors: string[] = [];
+  if (!RESOURCE_NAME_PATTERN.test(resource.name)) {
+    errors.push('Name must start with a letter and contain only lowercase letters, digits and hyphens (max 20 characters)');
+  }
+  if (resources.filter(other => other.kind === resource.kind && other.name === resource.name).length > 1) {
+    errors.push(`Another ${RESOURCE_CATALOG[resource.kind].label} resource is named "${resource.name}"`);
+  }
+  return [...errors, ...getDefinition(resource.kind).validate(resource)];
+};
+
+// Check the GCP names Terraform derives for every project and cluster the resources are created in
+export const validateResourceNames = (resources: CatalogResource[], targets: ResourceNaming[]): string[] =>
+  resources.flatMap(resource => {
+    const definition = getDefinition(resource.kind);
+    return targets
+      .map(target => definition.gcpName(target, resource.name))
+      .filter(gcpName => gcpName.length > definition.maxNameLength)
+      .map(gcpName => `${definition.label} name ${gcpName} is longer than ${definition.maxNameLength} characters`);
+  });
+
+export const getResourceGcpName = (resource: CatalogResource, naming: ResourceNaming) =>
+  getDefinition(resource.kind).gcpName(naming, resource.name);
+
+export const describeResource = (resource: CatalogResource) => getDefinition(resource.kind).describe(resource);
+
+export const describeNodeAccess = (resource: CatalogResource) => getDefinition(resource.kind).nodeAccess(resource);
+
+export const describeResources = (resources: CatalogResource[]) => {
+  if (resources.length === 0) {
+    return 'none';
+  }
+  return RESOURCE_KINDS
+    .map(kind => ({ kind, count: resources.filter(resource => resource.kind === kind).length }))
+    .filter(({ count }) => count > 0)
+    .map(({ kind, count }) => `${count} × ${RESOURCE_CATALOG[kind].label}`)
+    .join(', ');
+};
+
+const getUsedKinds = (resources: CatalogResource[]) =>
+  RESOURCE_KINDS.filter(kind => resources.some(resource => resource.kind === kind));
+
+export const getResourceApis = (resources: CatalogResource[]) =>
+  Array.from(new Set(getUsedKinds(resources).flatMap(kind => RESOURCE_CATALOG[kind].apis)));
+
+export const getResourceDeployerRoles = (resources: CatalogResource[]) => {
+  const kinds = getUsedKinds(resources);
+  const roles = kinds.map(kind => RESOURCE_CATALOG[kind].deployerRole);
+  return kinds.some(kind => RESOURCE_CATALOG[kind].privateServiceAccess)
+    ? [...roles, 'Service Networking Admin (roles/servicenetworking.networksAdmin)']
+    : roles;
+};
+
+// A kind's map used by both the variable default and tfvars
+const resourceMapValue = (kind: ResourceKind, resources: CatalogResource[]) => {
+  const definition = getDefinition(kind);
+  return hclObject(Object.fromEntries(resources
+    .filter(resource => resource.kind === kind)
+    .map(resource => [resource.name, hclObject(Object.fromEntries(definition.fields.map(field => [field.name, field.value(resource)])))])));
+};
+
+const PRIVATE_SERVICE_ACCESS_TF = `# Private services access peers Google-managed services such as Cloud SQL and
+# Memorystore into the VPC so they get internal IPs only
+locals {
+  network_id = var.create_vpc ? google_compute_network.vpc[0].id : "projects/\${var.project_id}/global/networks/default"
+}
+
+resource "google_compute_global_address" "private_service_access" {
+  name          = "\${var.cluster_name}-private-services"
+  purpose       = "VPC_PEERING"
+  address_type  = "INTERNAL"
+  prefix_length = 16
+  network       = local.network_id
+}
+
+resource "google_service_networking_connection" "private_service_access" {
+  network                 = local.network_id
+  service                 = "servicenetworking.googleapis.com"
+  reserved_peering_ranges = [google_compute_global_address.private_service_access.name]
+}`;
+
+// Resources for every kind in use; empty when the catalog is unused so the
+// cluster-only output is unchanged
+export const renderResourcesTf = (resources: CatalogResource[]) => {
+  const kinds = getUsedKinds(resources);
+  if (kinds.length === 0) {
+    return '';
+  }
+  const blocks = kinds.map(kind => RESOURCE_CATALOG[kind].resourcesTf);
+  if (kinds.some(kind => RESOURCE_CATALOG[kind].privateServiceAccess)) {
+    blocks.unshift(PRIVATE_SERVICE_ACCESS_TF);
+  }
+  return `\n\n${blocks.join('\n\n')}`;
+};
+
+export const getResourceVariables = (resources: CatalogResource[]) =>
+  getUsedKinds(resources).map(kind => {
+    const definition = getDefinition(kind);
+    const width = Math.max(...definition.fields.map(field => field.name.length));
+    return hclVariable({
+      name: definition.variable,
+      description: definition.variableDescription,
+      type: `map(object({
+${definition.fields.map(field => `  ${field.name.padEnd(width)} = ${field.type}`).join('\n')}
+}))`,
+      defaultValue: resourceMapValue(kind, resources),
+      validations: [
+        {
+          condition: `alltrue([for name in keys(var.${definition.variable}) : can(regex("^[a-z][a-z0-9-]{0,19}$", name))])`,
+          errorMessage: `${definition.variable} keys must start with a letter and contain only lowercase letters, digits and hyphens (max 20 characters).`
+        },
+        ...definition.validations
+      ]
+    });
+  });
+
+export const getResourceTfvars = (resources: CatalogResource[]) =>
+  getUsedKinds(resources).map(kind => hclAttribute(RESOURCE_CATALOG[kind].variable, resourceMapValue(kind, resources)));
+
+export const getResourceOutputs = (resources: CatalogResource[]): CatalogOutput[] =>
+  getUsedKinds(resources).flatMap(kind => RESOURCE_CATALOG[kind].outputs);
@@ -0,0 +1,102 @@
+// Client-side sealing for the Bitnami Sealed Secrets controller. Values are
+// encrypted the way kubeseal does it, so only the controller holding the private
+// key can turn the committed SealedSecret back into a Secret.
+
+const SESSION_KEY_BYTES = 32;
+
+interface DerElement {
+  tag: number;
+  // Offset of the tag byte, where the element starts
+  start: number;
+  contentStart: number;
+  end: number;
+}
+
+const readDerElement = (der: Uint8Array, offset: number): DerElement => {
+  if (offset + 2 > der.length) {
+    throw new Error('The certificate is truncated');
+  }
+  const tag = der[offset];
+  let length = der[offset + 1];
+  let contentStart = offset + 2;
+  if (length & 0x80) {
+    const lengthBytes = length & 0x7f;
+    length = 0;
+    for (let i = 0; i < lengthBytes; i++) {
+      length = length * 256 + der[contentStart + i];
+    }
+    contentStart += lengthBytes;
+  }
+  if (contentStart + length > der.length) {
+    throw new Error('The certificate is truncated');
+  }
+  return { tag, start: offset, contentStart, end: contentStart + length };
+};
+
+// The SubjectPublicKeyInfo is the seventh field of tbsCertificate, after the
+// optional version and serial, signature, issuer, validity and subject
+const extractPublicKeyInfo = (certificate: Uint8Array) => {
+  const tbsCertificate = readDerElement(certificate, readDerElement(certificate, 0).contentStart);
+  let field = readDerElement(certificate, tbsCertificate.contentStart);
+  if (field.tag === 0xa0) {
+    field = readDerElement(certificate, field.end);
+  }
+  for (let i = 0; i < 5; i++) {
+    field = readDerElement(certificate, field.end);
+  }
+  return certificate.slice(field.start, field.end);
+};
+
+const decodePem = (pem: string) => {
+  const match = pem.match(/-----BEGIN (CERTIFICATE|PUBLIC KEY)-----([\s\S]+?)-----END \1-----/);
+  if (!match) {
+    throw new Error('Paste the PEM certificate printed by kubeseal --fetch-cert');
+  }
+  const binary = atob(match[2].replace(/\s+/g, ''));
+  const der = Uint8Array.from(binary, char => char.charCodeAt(0));
+  return match[1] === 'CERTIFICATE' ? extractPublicKeyInfo(der) : der;
+};
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+// Strict scope: the sealed values only decrypt into a Secret with this name and namespace
+export const getSealingScope = (namespace: string, name: string) => `${namespace}/${name}`;
+
+export const sealSecretValues = async (
+  certificate: string,
+  namespace: string,
+  name: string,
+  values: Record<string, string>
+): Promise<Record<string, string>> => {
+  let publicKey: CryptoKey;
+  try {
+    publicKey = await crypto.subtle.importKey('spki', decodePem(certificate), { name: 'RSA-OAEP', hash: 'SHA-256' }, false, ['encrypt']);
+  } catch (error) {
+    throw new Error(`The certificate could not be read: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  const encoder = new TextEncoder();
+  const label = encoder.encode(getSealingScope(namespace, name));
+
+  const sealed = await Promise.all(Object.entries(values).map(async ([key, value]) => {
+    // A fresh session key per value, so the all-zero GCM nonce is never reused
+    const sessionKey = crypto.getRandomValues(new Uint8Array(SESSION_KEY_BYTES));
+    const aesKey = await crypto.subtle.importKey('raw', sessionKey, 'AES-GCM', false, ['encrypt']);
+    const encryptedKey = new Uint8Array(await crypto.subtle.encrypt({ name: 'RSA-OAEP', label }, publicKey, sessionKey));
+    const encryptedValue = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv: new Uint8Array(12) }, aesKey, encoder.encode(value)));
+
+    // Two-byte length of the RSA part, the RSA part, then the AES-GCM ciphertext and tag
+    const output = new Uint8Array(2 + encryptedKey.length + encryptedValue.length);
+    output[0] = encryptedKey.length >> 8;
+    output[1] = encryptedKey.length & 0xff;
+    output.set(encryptedKey, 2);
+    output.set(encryptedValue, 2 + encryptedKey.length);
+    return [key, toBase64(output)] as const;
+  }));
+  return Object.fromEntries(sealed);
+};
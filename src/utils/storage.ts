@@ -1,14 +1,7 @@
-interface TerraformConfig {
-  projectId: string;
-  clusterName: string;
-  region: string;
-  nodeCount: number;
-  machineType: string;
-  diskSize: number;
-  enableAutoscaling: boolean;
-  minNodes: number;
-  maxNodes: number;
-}
+import { defaultGcpAuthConfig } from './gcpAuth';
+import { IngressPath, K8sConfig, ManifestConfig, ProbeConfig, stripSecretValues, WorkloadConfig } from './k8sGenerator';
+import { CatalogResource, RESOURCE_CATALOG, createResource } from './resourceCatalog';
+import { EnvironmentConfig, NodePoolConfig, TerraformConfig } from './terraformGenerator';
 
 interface GitHubConfig {
   token: string;
@@ -16,21 +9,6 @@ interface GitHubConfig {
   repo: string;
 }
 
-interface ManifestConfig {
-  type: 'frontend' | 'backend' | 'secrets' | 'ingress' | 'db-init-job';
-  enabled: boolean;
-  config: Record<string, any>;
-}
-
-interface K8sConfig {
-  projectId: string;
-  clusterName: string;
-  region: string;
-  zone: string;
-  namespace: string;
-  manifests: ManifestConfig[];
-}
-
 type DeploymentMode = 'infrastructure' | 'application';
 type InfraTab = 'config' | 'terraform' | 'github' | 'deploy';
 type AppTab = 'k8s-config' | 'k8s-manifest' | 'k8s-github' | 'k8s-deploy';
@@ -48,16 +26,239 @@ interface AppState {
 
 const STORAGE_KEY = 'iac-generator-state';
 
-export const defaultTerraformConfig: TerraformConfig = {
-  projectId: '',
-  clusterName: 'my-gke-cluster',
-  region: 'us-central1',
-  nodeCount: 2, // Fixed to 2 for simplified configuration
+export const defaultNodePool: NodePoolConfig = {
+  name: 'general',
   machineType: 'e2-medium',
+  diskType: 'pd-standard',
   diskSize: 100,
+  spot: false,
+  nodeCount: 2,
   enableAutoscaling: false,
   minNodes: 1,
-  maxNodes: 5
+  maxNodes: 5,
+  locationPolicy: 'BALANCED',
+  labels: {},
+  taints: [],
+  autoRepair: true,
+  autoUpgrade: true,
+  maxSurge: 1,
+  maxUnavailable: 0
+};
+
+export const defaultAwsNodeGroup: NodePoolConfig = {
+  ...defaultNodePool,
+  machineType: 't3.medium',
+  diskType: 'pd-balanced',
+  diskSize: 50,
+  enableAutoscaling: true,
+  minNodes: 1,
+  maxNodes: 3,
+  maxUnavailable: 1
+};
+
+// AKS pool names are limited to 12 lowercase alphanumerics
+export const defaultAksNodePool: NodePoolConfig = {
+  ...defaultNodePool,
+  name: 'system',
+  machineType: 'Standard_D2s_v5',
+  diskType: 'pd-balanced',
+  diskSize: 128,
+  enableAutoscaling: true,
+  minNodes: 1,
+  maxNodes: 3
+};
+
+export const defaultEnvironment: EnvironmentConfig = {
+  name: 'dev',
+  projectId: '',
+  clusterName: '',
+  labels: {},
+  deletionProtection: false,
+  requireApproval: false,
+  reviewers: [],
+  protectedBranchesOnly: false
+};
+
+export const defaultTerraformConfig: TerraformConfig = {
+  provider: 'gcp',
+  projectId: '',
+  clusterName: 'my-gke-cluster',
+  region: 'us-central1',
+  environment: 'production',
+  clusterMode: 'standard',
+  nodePools: [defaultNodePool],
+  stateBackend: {
+    bucket: '',
+    kmsEncryptionKey: '',
+    stateLock: true,
+    createBucket: true
+  },
+  serviceAccount: {
+    email: '',
+    createNodeServiceAccount: true,
+    nodeServiceAccountId: 'gke-nodes',
+    workloadIdentity: true
+  },
+  auth: {
+    mode: defaultGcpAuthConfig.mode,
+    workloadIdentityProvider: '',
+    createWorkloadIdentityPool: true,
+    githubRepository: ''
+  },
+  network: {
+    createVpc: true,
+    networkName: 'gke-network',
+    subnetCidr: '10.0.0.0/20',
+    podsCidr: '10.4.0.0/14',
+    servicesCidr: '10.8.0.0/20',
+    enableCloudNat: true,
+    privateNodes: true,
+    privateEndpoint: false,
+    masterIpv4Cidr: '172.16.0.0/28',
+    masterAuthorizedNetworks: []
+  },
+  location: {
+    type: 'regional',
+    zones: ['us-central1-a', 'us-central1-c']
+  },
+  maintenance: {
+    releaseChannel: 'REGULAR',
+    enableWindow: true,
+    windowDays: ['SA', 'SU'],
+    windowStartTime: '03:00',
+    windowDurationHours: 6,
+    exclusions: []
+  },
+  security: {
+    shieldedNodes: true,
+    secureBoot: true,
+    integrityMonitoring: true,
+    networkPolicy: 'dataplane-v2',
+    binaryAuthorization: false,
+    databaseEncryptionKey: '',
+    loggingComponents: ['SYSTEM_COMPONENTS', 'WORKLOADS'],
+    monitoringComponents: ['SYSTEM_COMPONENTS']
+  },
+  environmentProtection: {
+    requireApproval: false,
+    reviewers: [],
+    protectedBranchesOnly: false
+  },
+  multiEnvironment: {
+    enabled: false,
+    environments: [
+      { ...defaultEnvironment, name: 'dev' },
+      { ...defaultEnvironment, name: 'staging' },
+      { ...defaultEnvironment, name: 'prod', deletionProtection: true, requireApproval: true, protectedBranchesOnly: true }
+    ]
+  },
+  outputMode: 'root',
+  resources: [],
+  aws: {
+    region: 'us-east-1',
+    kubernetesVersion: '1.30',
+    vpcCidr: '10.0.0.0/16',
+    availabilityZoneCount: 3,
+    singleNatGateway: true,
+    endpointPublicAccess: true,
+    nodeGroups: [defaultAwsNodeGroup],
+    roleArn: '',
+    stateBucket: '',
+    stateLockTable: 'terraform-locks'
+  },
+  azure: {
+    location: 'eastus',
+    resourceGroup: '',
+    kubernetesVersion: '1.30',
+    vnetCidr: '10.20.0.0/16',
+    subnetCidr: '10.20.0.0/20',
+    nodePools: [defaultAksNodePool],
+    subscriptionId: '',
+    stateResourceGroup: 'terraform-state',
+    stateStorageAccount: '',
+    stateContainer: 'tfstate'
+  },
+  adoption: {
+    enabled: false,
+    nodePools: [],
+    network: false,
+    subnetwork: false,
+    nodeServiceAccount: false
+  },
+  driftDetection: {
+    enabled: false,
+    schedule: '0 6 * * 1-5'
+  },
+  policy: {
+    disabledRules: [],
+    customRules: []
+  }
+};
+
+// Single-pool fields stored by versions that predate configurable node pools
+type LegacyNodePoolFields = Partial<Pick<NodePoolConfig,
+  'nodeCount' | 'machineType' | 'diskSize' | 'enableAutoscaling' | 'minNodes' | 'maxNodes' | 'locationPolicy'
+>>;
+
+export const normalizeTerraformConfig = (stored: Partial<TerraformConfig> & LegacyNodePoolFields = {}): TerraformConfig => {
+  const { nodeCount, machineType, diskSize, enableAutoscaling, minNodes, maxNodes, locationPolicy, ...config } = stored;
+  const legacyPool = Object.fromEntries(
+    Object.entries({ nodeCount, machineType, diskSize, enableAutoscaling, minNodes, maxNodes, locationPolicy })
+      .filter(([, value]) => value !== undefined)
+  );
+  const nodePools = Array.isArray(config.nodePools) ? config.nodePools : [{ ...defaultNodePool, ...legacyPool }];
+
+  return {
+    ...defaultTerraformConfig,
+    ...config,
+    nodePools: nodePools.map(pool => ({ ...defaultNodePool, ...pool })),
+    stateBackend: { ...defaultTerraformConfig.stateBackend, ...config.stateBackend },
+    serviceAccount: { ...defaultTerraformConfig.serviceAccount, ...config.serviceAccount },
+    auth: { ...defaultTerraformConfig.auth, ...config.auth },
+    // Configs saved before networking was configurable deployed into the default network;
+    // switching them to a new VPC would force the cluster to be replaced
+    network: config.network
+      ? { ...defaultTerraformConfig.network, ...config.network }
+      : { ...defaultTerraformConfig.network, createVpc: false, enableCloudNat: false, privateNodes: false },
+    // Older configs always placed nodes in the region's -a and -c zones
+    location: config.location
+      ? { ...defaultTerraformConfig.location, ...config.location }
+      : { type: 'regional', zones: ['a', 'c'].map(zone => `${config.region ?? defaultTerraformConfig.region}-${zone}`) },
+    // Older configs set no maintenance window, so GKE could upgrade at any time
+    maintenance: config.maintenance
+      ? { ...defaultTerraformConfig.maintenance, ...config.maintenance }
+      : { ...defaultTerraformConfig.maintenance, enableWindow: false },
+    // Match what GKE applied to older configs; secure boot and the datapath can only
+    // change by recreating node pools or the cluster
+    security: config.security
+      ? { ...defaultTerraformConfig.security, ...config.security }
+      : { ...defaultTerraformConfig.security, secureBoot: false, networkPolicy: 'disabled' },
+    environmentProtection: { ...defaultTerraformConfig.environmentProtection, ...config.environmentProtection },
+    multiEnvironment: {
+      ...defaultTerraformConfig.multiEnvironment,
+      ...config.multiEnvironment,
+      environments: (config.multiEnvironment?.environments ?? defaultTerraformConfig.multiEnvironment.environments)
+        .map(environment => ({ ...defaultEnvironment, ...environment }))
+    },
+    resources: (config.resources ?? [])
+      .filter(resource => resource.kind in RESOURCE_CATALOG)
+      .map(resource => ({ ...createResource(resource.kind, resource.name), ...resource }) as CatalogResource),
+    aws: {
+      ...defaultTerraformConfig.aws,
+      ...config.aws,
+      nodeGroups: (config.aws?.nodeGroups ?? defaultTerraformConfig.aws.nodeGroups)
+        .map(group => ({ ...defaultAwsNodeGroup, ...group }))
+    },
+    azure: {
+      ...defaultTerraformConfig.azure,
+      ...config.azure,
+      nodePools: (config.azure?.nodePools ?? defaultTerraformConfig.azure.nodePools)
+        .map(pool => ({ ...defaultAksNodePool, ...pool }))
+    },
+    adoption: { ...defaultTerraformConfig.adoption, ...config.adoption },
+    driftDetection: { ...defaultTerraformConfig.driftDetection, ...config.driftDetection },
+    policy: { ...defaultTerraformConfig.policy, ...config.policy }
+  };
 };
 
 export const defaultGitHubConfig: GitHubConfig = {
@@ -71,8 +272,147 @@ export const defaultK8sConfig: K8sConfig = {
   clusterName: 'my-gke-cluster',
   region: 'us-central1',
   zone: 'us-central1-a',
+  locationType: 'regional',
   namespace: 'default',
-  manifests: []
+  workloads: [],
+  manifests: [],
+  auth: defaultGcpAuthConfig
+};
+
+const defaultProbe: ProbeConfig = {
+  enabled: true,
+  type: 'http',
+  path: '/',
+  port: 'http',
+  command: '',
+  initialDelaySeconds: 0,
+  periodSeconds: 10,
+  timeoutSeconds: 1,
+  failureThreshold: 3
+};
+
+export const defaultWorkload: WorkloadConfig = {
+  name: 'web',
+  enabled: true,
+  image: 'nginx:latest',
+  replicas: 2,
+  ports: [{ name: 'http', containerPort: 8080, servicePort: 80 }],
+  serviceType: 'ClusterIP',
+  args: [],
+  env: [],
+  envFrom: [],
+  volumes: [],
+  resources: {
+    requests: { cpu: '100m', memory: '128Mi' },
+    limits: { cpu: '500m', memory: '512Mi' }
+  },
+  probes: {
+    liveness: { ...defaultProbe, initialDelaySeconds: 30 },
+    readiness: { ...defaultProbe, initialDelaySeconds: 5, periodSeconds: 5 },
+    // Gives slow starters up to five minutes before the liveness probe takes over
+    startup: { ...defaultProbe, enabled: false, failureThreshold: 30 }
+  },
+  autoscaling: {
+    enabled: false,
+    minReplicas: 2,
+    maxReplicas: 10,
+    cpuUtilization: 70,
+    memoryUtilization: 0,
+    customMetrics: [],
+    scaleDownStabilizationSeconds: 300,
+    scaleDownPercent: 50
+  },
+  disruptionBudget: {
+    enabled: false,
+    mode: 'maxUnavailable',
+    value: '1'
+  }
+};
+
+// Workloads once had a single health check path for their liveness and readiness probes
+const getHealthCheckProbes = (path: string, port: string): WorkloadConfig['probes'] => ({
+  ...defaultWorkload.probes,
+  liveness: { ...defaultWorkload.probes.liveness, enabled: Boolean(path), path, port },
+  readiness: { ...defaultWorkload.probes.readiness, enabled: Boolean(path), path, port }
+});
+
+type StoredWorkload = Partial<WorkloadConfig> & { healthCheckPath?: string };
+
+const normalizeWorkload = ({ healthCheckPath, ...workload }: StoredWorkload): WorkloadConfig => ({
+  ...defaultWorkload,
+  ...workload,
+  probes: workload.probes
+    ? {
+        liveness: { ...defaultWorkload.probes.liveness, ...workload.probes.liveness },
+        readiness: { ...defaultWorkload.probes.readiness, ...workload.probes.readiness },
+        startup: { ...defaultWorkload.probes.startup, ...workload.probes.startup }
+      }
+    : getHealthCheckProbes(healthCheckPath ?? '/', workload.ports?.[0]?.name ?? 'http'),
+  autoscaling: { ...defaultWorkload.autoscaling, ...workload.autoscaling },
+  disruptionBudget: { ...defaultWorkload.disruptionBudget, ...workload.disruptionBudget }
+});
+
+// Configs saved before workloads were named had fixed frontend and backend slots
+interface LegacyManifestConfig {
+  type: ManifestConfig['type'] | 'frontend' | 'backend';
+  enabled: boolean;
+  config: ManifestConfig['config'];
+}
+
+const migrateLegacyWorkload = ({ type, enabled, config }: LegacyManifestConfig): WorkloadConfig => {
+  if (type === 'frontend') {
+    return {
+      ...defaultWorkload,
+      name: 'frontend',
+      enabled,
+      image: config.image || '',
+      replicas: config.replicas || 2,
+      ports: [{ name: 'http', containerPort: config.port || 80, servicePort: 80 }],
+      serviceType: config.serviceType || 'LoadBalancer',
+      probes: getHealthCheckProbes('/', 'http')
+    };
+  }
+  return {
+    ...defaultWorkload,
+    name: 'backend',
+    enabled,
+    image: config.image || '',
+    replicas: config.replicas || 2,
+    ports: [{ name: 'http', containerPort: config.port || 8080, servicePort: config.port || 8080 }],
+    serviceType: config.serviceType || 'ClusterIP',
+    env: [{ name: 'NODE_ENV', value: 'production' }],
+    resources: {
+      requests: { cpu: '200m', memory: '256Mi' },
+      limits: { cpu: '1000m', memory: '1Gi' }
+    },
+    probes: getHealthCheckProbes('/health', 'http')
+  };
+};
+
+// The ingress of those configs always routed /api to the backend and everything else to the frontend
+const legacyIngressPaths: IngressPath[] = [
+  { path: '/api', workload: 'backend', port: 8080 },
+  { path: '/', workload: 'frontend', port: 80 }
+];
+
+export const normalizeK8sConfig = (stored: Partial<K8sConfig> = {}): K8sConfig => {
+  if (Array.isArray(stored.workloads)) {
+    return {
+      ...defaultK8sConfig,
+      ...stored,
+      workloads: stored.workloads.map(normalizeWorkload)
+    };
+  }
+  const manifests: LegacyManifestConfig[] = stored.manifests ?? [];
+  const isLegacyWorkload = (manifest: LegacyManifestConfig) => manifest.type === 'frontend' || manifest.type === 'backend';
+  return {
+    ...defaultK8sConfig,
+    ...stored,
+    workloads: manifests.filter(isLegacyWorkload).map(migrateLegacyWorkload),
+    manifests: manifests
+      .filter((manifest): manifest is ManifestConfig => !isLegacyWorkload(manifest))
+      .map(manifest => (manifest.type === 'ingress' ? { ...manifest, config: { ...manifest.config, paths: legacyIngressPaths } } : manifest))
+  };
 };
 
 export const saveAppState = (state: Partial<AppState>): void => {
@@ -98,9 +438,9 @@ export const loadAppState = (): AppState => {
       const parsed = JSON.parse(stored);
       console.log('📂 App state loaded from localStorage');
       return {
-        terraformConfig: { ...defaultTerraformConfig, ...parsed.terraformConfig },
+        terraformConfig: normalizeTerraformConfig(parsed.terraformConfig),
         githubConfig: { ...defaultGitHubConfig, ...parsed.githubConfig },
-        k8sConfig: { ...defaultK8sConfig, ...parsed.k8sConfig },
+        k8sConfig: normalizeK8sConfig(parsed.k8sConfig),
         k8sGithubConfig: { ...defaultGitHubConfig, ...parsed.k8sGithubConfig },
         deploymentMode: parsed.deploymentMode || 'infrastructure',
         activeInfraTab: parsed.activeInfraTab || 'config',
@@ -143,7 +483,7 @@ export const saveGitHubConfig = (config: GitHubConfig): void => {
 };
 
 export const saveK8sConfig = (config: K8sConfig): void => {
-  saveAppState({ k8sConfig: config });
+  saveAppState({ k8sConfig: stripSecretValues(config) });
 };
 
 export const saveK8sGitHubConfig = (config: GitHubConfig): void => {
@@ -1,203 +1,2339 @@
-interface TerraformConfig {
-  projectId: string;
-  clusterName: string;
-  region: string;
-  nodeCount: number;
+import {
+  AZURE_CLIENT_ID_VARIABLE,
+  AZURE_SUBSCRIPTION_ID_VARIABLE,
+  AZURE_TENANT_ID_VARIABLE,
+  generateAksFiles,
+  getAksCredentialsCommand,
+  getAksStateKey,
+  getAksStateStorageAccount,
+  getAksSummary
+} from './aksGenerator';
+import {
+  AWS_ROLE_ARN_VARIABLE,
+  generateEksFiles,
+  getEksCredentialsCommand,
+  getEksStateBucket,
+  getEksStateKey,
+  getEksSummary
+} from './eksGenerator';
+import {
+  GcpAuthConfig,
+  GcpAuthRequirement,
+  getGcpAuthRequirements,
+  renderGcpAuthStep,
+  renderJobPermissions
+} from './gcpAuth';
+import { getZonesForRegion } from './gcpRegions';
+import {
+  HclNode,
+  HclValue,
+  HclVariableOptions,
+  hclAttribute,
+  hclBlank,
+  hclBlock,
+  hclComment,
+  hclList,
+  hclMap,
+  hclObject,
+  hclOutput,
+  hclRaw,
+  hclVariable,
+  renderHcl,
+  renderHclValue
+} from './hcl';
+import { PolicyConfig, PolicyFacts, PolicySubject, evaluatePolicies } from './policyCheck';
+import {
+  CatalogResource,
+  describeResources,
+  getResourceApis,
+  getResourceDeployerRoles,
+  getResourceOutputs,
+  getResourceTfvars,
+  getResourceVariables,
+  renderResourcesTf,
+  validateResource,
+  validateResourceNames
+} from './resourceCatalog';
+import {
+  DRIFT_WORKFLOW_FILE,
+  DriftRoot,
+  PLAN_RUN_ID_INPUT,
+  renderDriftWorkflow,
+  renderPlanRunIdInput,
+  renderRunName,
+  renderTerraformSteps
+} from './terraformWorkflow';
+
+export type AutoscalingLocationPolicy = 'BALANCED' | 'ANY';
+export type NodeDiskType = 'pd-standard' | 'pd-balanced' | 'pd-ssd';
+export type NodeTaintEffect = 'NO_SCHEDULE' | 'PREFER_NO_SCHEDULE' | 'NO_EXECUTE';
+
+export interface NodeTaint {
+  key: string;
+  value: string;
+  effect: NodeTaintEffect;
+}
+
+export interface NodePoolConfig {
+  name: string;
   machineType: string;
+  diskType: NodeDiskType;
   diskSize: number;
+  spot: boolean;
+  nodeCount: number;
   enableAutoscaling: boolean;
   minNodes: number;
   maxNodes: number;
+  locationPolicy: AutoscalingLocationPolicy;
+  labels: Record<string, string>;
+  taints: NodeTaint[];
+  autoRepair: boolean;
+  autoUpgrade: boolean;
+  maxSurge: number;
+  maxUnavailable: number;
 }
 
-export const generateTerraformFiles = (config: TerraformConfig) => {
-  const backendTf = `terraform {
-  backend "gcs" {
-    bucket = "terraform-statefile-bucket-tf2"
-    prefix = "terraform/state/gke-cluster"
-  }
-}`;
-
-  const mainTf = `terraform {
-  required_version = ">= 1.0"
-  required_providers {
-    google = {
-      source  = "hashicorp/google"
-      version = "~> 5.0"
-    }
-  }
+export interface StateBackendConfig {
+  bucket: string;
+  kmsEncryptionKey: string;
+  stateLock: boolean;
+  createBucket: boolean;
 }
 
-provider "google" {
-  project = var.project_id
-  region  = var.region
+export interface ServiceAccountConfig {
+  email: string;
+  createNodeServiceAccount: boolean;
+  nodeServiceAccountId: string;
+  workloadIdentity: boolean;
 }
 
-# Define local values for zones (a and c)
-locals {
-  node_zones = [
-    "\${var.region}-a",
-    "\${var.region}-c"
-  ]
+export interface AuthorizedNetwork {
+  name: string;
+  cidr: string;
 }
 
-# Create the GKE cluster with minimal configuration for fast creation
-resource "google_container_cluster" "primary" {
-  name     = var.cluster_name
-  location = var.region
-
-  # Allow deletion without protection
-  deletion_protection = false
-
-  # Specify node locations (zones) for the cluster
-  node_locations = local.node_zones
+export interface NetworkConfig {
+  createVpc: boolean;
+  networkName: string;
+  subnetCidr: string;
+  podsCidr: string;
+  servicesCidr: string;
+  enableCloudNat: boolean;
+  privateNodes: boolean;
+  privateEndpoint: boolean;
+  masterIpv4Cidr: string;
+  masterAuthorizedNetworks: AuthorizedNetwork[];
+}
 
-  # We can't create a cluster with no node pool defined, but we want to only use
-  # separately managed node pools. So we create the smallest possible default
-  # node pool and immediately delete it.
-  remove_default_node_pool = true
-  initial_node_count       = 1
+export type ClusterMode = 'standard' | 'autopilot';
 
-  network    = "default"
-  subnetwork = "default"
+export type NetworkPolicyMode = 'disabled' | 'calico' | 'dataplane-v2';
+export type LoggingComponent = 'SYSTEM_COMPONENTS' | 'WORKLOADS' | 'APISERVER' | 'SCHEDULER' | 'CONTROLLER_MANAGER';
+export type MonitoringComponent = 'SYSTEM_COMPONENTS' | 'APISERVER' | 'SCHEDULER' | 'CONTROLLER_MANAGER' | 'STORAGE' | 'POD' | 'DEPLOYMENT';
 
-  # CRITICAL: Specify service account for the cluster's default node pool
-  # Even though we remove it, we need to specify the SA to avoid using default
-  node_config {
-    service_account = var.service_account_email
-    oauth_scopes = [
-      "https://www.googleapis.com/auth/cloud-platform"
-    ]
-  }
+export interface SecurityConfig {
+  shieldedNodes: boolean;
+  secureBoot: boolean;
+  integrityMonitoring: boolean;
+  networkPolicy: NetworkPolicyMode;
+  binaryAuthorization: boolean;
+  // Cloud KMS key for application-layer secrets encryption; empty uses Google-managed keys
+  databaseEncryptionKey: string;
+  loggingComponents: LoggingComponent[];
+  monitoringComponents: MonitoringComponent[];
 }
 
-# Create the node pool with explicit service account and simplified configuration
-resource "google_container_node_pool" "primary_nodes" {
-  name       = "\${var.cluster_name}-node-pool"
-  location   = var.region
-  cluster    = google_container_cluster.primary.name
-  node_count = var.node_count  # Fixed count, no autoscaling complexity
-
-  # Specify node locations (zones) for the node pool
-  node_locations = local.node_zones
-
-  node_config {
-    preemptible  = false
-    machine_type = var.machine_type
-    disk_size_gb = var.disk_size
-    disk_type    = "pd-standard"
-
-    # CRITICAL: Use the GitHub Actions service account for node pool
-    service_account = var.service_account_email
-    oauth_scopes = [
-      "https://www.googleapis.com/auth/cloud-platform"
-    ]
+export type ReleaseChannel = 'RAPID' | 'REGULAR' | 'STABLE' | 'UNSPECIFIED';
+export type MaintenanceExclusionScope = 'NO_UPGRADES' | 'NO_MINOR_UPGRADES' | 'NO_MINOR_OR_NODE_UPGRADES';
+export type MaintenanceDay = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
 
-    labels = {
-      env = "production"
-    }
+export interface MaintenanceExclusion {
+  name: string;
+  startDate: string;
+  endDate: string;
+  scope: MaintenanceExclusionScope;
+}
 
-    tags = ["gke-node", "\${var.cluster_name}-node"]
+export interface MaintenanceConfig {
+  releaseChannel: ReleaseChannel;
+  enableWindow: boolean;
+  windowDays: MaintenanceDay[];
+  // UTC time of day, HH:MM
+  windowStartTime: string;
+  windowDurationHours: number;
+  exclusions: MaintenanceExclusion[];
+}
 
-    metadata = {
-      disable-legacy-endpoints = "true"
-    }
-  }
-}`;
+export type ClusterLocationType = 'regional' | 'zonal';
 
-  const variablesTf = `variable "project_id" {
-  description = "The GCP project ID"
-  type        = string
+export interface LocationConfig {
+  type: ClusterLocationType;
+  zones: string[];
 }
 
-variable "cluster_name" {
-  description = "The name of the GKE cluster"
-  type        = string
-  default     = "${config.clusterName}"
+// GitHub Environment protection rules for the environment a deploy workflow runs under
+export interface EnvironmentProtectionConfig {
+  requireApproval: boolean;
+  reviewers: string[];
+  protectedBranchesOnly: boolean;
 }
 
-variable "region" {
-  description = "The GCP region for the cluster"
-  type        = string
-  default     = "${config.region}"
+// One deployable copy of the cluster. Empty project and cluster names derive
+// from the base configuration.
+export interface EnvironmentConfig extends EnvironmentProtectionConfig {
+  name: string;
+  projectId: string;
+  clusterName: string;
+  labels: Record<string, string>;
+  deletionProtection: boolean;
 }
 
-variable "node_count" {
-  description = "Number of nodes in the node pool"
-  type        = number
-  default     = 2
+export interface MultiEnvironmentConfig {
+  enabled: boolean;
+  environments: EnvironmentConfig[];
 }
 
-variable "machine_type" {
-  description = "Machine type for the nodes"
-  type        = string
-  default     = "${config.machineType}"
+export interface TerraformAuthConfig extends Omit<GcpAuthConfig, 'serviceAccount'> {
+  createWorkloadIdentityPool: boolean;
+  githubRepository: string;
 }
 
-variable "disk_size" {
-  description = "Disk size in GB for each node"
-  type        = number
-  default     = ${config.diskSize}
-}
+// root emits a self-contained configuration; module wraps the cluster in
+// modules/gke-cluster behind a thin caller root
+export type TerraformOutputMode = 'root' | 'module';
 
-variable "service_account_email" {
-  description = "Service account email for GKE cluster and nodes"
-  type        = string
-  default     = "githubactions-sa@turnkey-guild-441104-f3.iam.gserviceaccount.com"
-}`;
+export type CloudProvider = 'gcp' | 'aws' | 'azure';
 
-  const outputsTf = `output "cluster_name" {
-  description = "GKE cluster name"
-  value       = google_container_cluster.primary.name
+// EKS target. Node groups reuse NodePoolConfig; the GCE-only fields are ignored.
+export interface AwsConfig {
+  region: string;
+  kubernetesVersion: string;
+  vpcCidr: string;
+  availabilityZoneCount: number;
+  singleNatGateway: boolean;
+  endpointPublicAccess: boolean;
+  nodeGroups: NodePoolConfig[];
+  // Left empty, the workflow reads the role from the AWS_ROLE_ARN repository variable
+  roleArn: string;
+  stateBucket: string;
+  stateLockTable: string;
 }
 
-output "cluster_endpoint" {
-  description = "GKE cluster endpoint"
-  value       = google_container_cluster.primary.endpoint
-  sensitive   = true
+// AKS target. The first node pool becomes the cluster's default (system) pool.
+export interface AzureConfig {
+  location: string;
+  resourceGroup: string;
+  kubernetesVersion: string;
+  vnetCidr: string;
+  subnetCidr: string;
+  nodePools: NodePoolConfig[];
+  // Left empty, the workflow reads the subscription from AZURE_SUBSCRIPTION_ID
+  subscriptionId: string;
+  stateResourceGroup: string;
+  stateStorageAccount: string;
+  stateContainer: string;
 }
 
-output "cluster_location" {
-  description = "GKE cluster location"
-  value       = google_container_cluster.primary.location
+// Existing GCP resources brought under Terraform with import blocks instead of
+// being created. Node pools are listed by their key in node_pools.
+export interface AdoptionConfig {
+  enabled: boolean;
+  nodePools: string[];
+  network: boolean;
+  subnetwork: boolean;
+  nodeServiceAccount: boolean;
 }
 
-output "cluster_ca_certificate" {
-  description = "GKE cluster CA certificate"
-  value       = google_container_cluster.primary.master_auth.0.cluster_ca_certificate
-  sensitive   = true
+// Scheduled plan that reports changes made outside Terraform; schedule is a cron
+// expression in UTC
+export interface DriftDetectionConfig {
+  enabled: boolean;
+  schedule: string;
 }
 
-output "node_pool_name" {
-  description = "GKE node pool name"
-  value       = google_container_node_pool.primary_nodes.name
+export interface TerraformConfig {
+  provider: CloudProvider;
+  projectId: string;
+  clusterName: string;
+  region: string;
+  environment: string;
+  clusterMode: ClusterMode;
+  nodePools: NodePoolConfig[];
+  stateBackend: StateBackendConfig;
+  serviceAccount: ServiceAccountConfig;
+  auth: TerraformAuthConfig;
+  network: NetworkConfig;
+  location: LocationConfig;
+  maintenance: MaintenanceConfig;
+  security: SecurityConfig;
+  // Protection for the single environment; each multi-environment entry carries its own
+  environmentProtection: EnvironmentProtectionConfig;
+  multiEnvironment: MultiEnvironmentConfig;
+  outputMode: TerraformOutputMode;
+  resources: CatalogResource[];
+  aws: AwsConfig;
+  azure: AzureConfig;
+  adoption: AdoptionConfig;
+  driftDetection: DriftDetectionConfig;
+  policy: PolicyConfig;
 }
 
-output "service_account_email" {
-  description = "Service account email used by cluster and nodes"
-  value       = var.service_account_email
-}
+const taintsValue = (taints: NodeTaint[]) =>
+  taints.map(taint => hclObject({ key: taint.key, value: taint.value, effect: taint.effect }));
+
+// The node_pools map used by both the variable default and tfvars
+const nodePoolsValue = (pools: NodePoolConfig[]) =>
+  hclObject(Object.fromEntries(pools.map(pool => [pool.name, hclObject({
+    machine_type: pool.machineType,
+    disk_type: pool.diskType,
+    disk_size_gb: pool.diskSize,
+    spot: pool.spot,
+    node_count: pool.nodeCount,
+    autoscaling: hclObject({
+      enabled: pool.enableAutoscaling,
+      min_nodes: pool.minNodes,
+      max_nodes: pool.maxNodes,
+      location_policy: pool.locationPolicy
+    }),
+    labels: hclMap(pool.labels),
+    taints: taintsValue(pool.taints),
+    management: hclObject({
+      auto_repair: pool.autoRepair,
+      auto_upgrade: pool.autoUpgrade
+    }),
+    upgrade_settings: hclObject({
+      max_surge: pool.maxSurge,
+      max_unavailable: pool.maxUnavailable
+    })
+  })])));
+
+const authorizedNetworksValue = (networks: AuthorizedNetwork[]) =>
+  networks.map(network => hclObject({ display_name: network.name, cidr_block: network.cidr }));
+
+export const MAINTENANCE_DAYS: MaintenanceDay[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+// Recurring windows are anchored to an arbitrary past Monday; GKE only uses the
+// time of day, the duration and the RRULE
+const MAINTENANCE_ANCHOR_DATE = '2024-01-01';
+
+const toRfc3339 = (date: Date) => date.toISOString().replace('.000Z', 'Z');
+
+export const getMaintenanceWindow = (maintenance: MaintenanceConfig) => {
+  const start = new Date(`${MAINTENANCE_ANCHOR_DATE}T${maintenance.windowStartTime}:00Z`);
+  const end = new Date(start.getTime() + maintenance.windowDurationHours * 60 * 60 * 1000);
+  const days = MAINTENANCE_DAYS.filter(day => maintenance.windowDays.includes(day));
+  return {
+    startTime: toRfc3339(start),
+    endTime: toRfc3339(end),
+    recurrence: `FREQ=WEEKLY;BYDAY=${days.join(',')}`
+  };
+};
+
+const maintenanceWindowValue = (maintenance: MaintenanceConfig) => {
+  if (!maintenance.enableWindow) {
+    return null;
+  }
+  const window = getMaintenanceWindow(maintenance);
+  return hclObject({
+    start_time: window.startTime,
+    end_time: window.endTime,
+    recurrence: window.recurrence
+  });
+};
+
+const maintenanceExclusionsValue = (exclusions: MaintenanceExclusion[]) =>
+  exclusions.map(exclusion => hclObject({
+    name: exclusion.name,
+    start_time: `${exclusion.startDate}T00:00:00Z`,
+    end_time: `${exclusion.endDate}T23:59:59Z`,
+    scope: exclusion.scope
+  }));
+
+const NODE_POOL_NAME_PATTERN = /^[a-z][a-z0-9-]{0,29}$/;
+const AKS_NODE_POOL_NAME_PATTERN = /^[a-z][a-z0-9]{0,11}$/;
+
+export const validateNodePool = (pool: NodePoolConfig, pools: NodePoolConfig[], provider: CloudProvider = 'gcp'): string[] => {
+  const errors: string[] = [];
+  if (provider === 'azure') {
+    if (!AKS_NODE_POOL_NAME_PATTERN.test(pool.name)) {
+      errors.push('Name must start with a letter and use lowercase letters and digits (max 12)');
+    }
+    // The first pool becomes the AKS default pool, which runs system pods
+    if (pools[0] === pool && (pool.spot || pool.taints.length > 0)) {
+      errors.push('The first pool is the system pool and cannot use spot nodes or taints');
+    }
+  } else if (!NODE_POOL_NAME_PATTERN.test(pool.name)) {
+    errors.push('Name must start with a letter and use lowercase letters, digits and hyphens (max 30)');
+  }
+  if (pools.filter(other => other.name === pool.name).length > 1) {
+    errors.push('Pool names must be unique');
+  }
+  if (pool.enableAutoscaling) {
+    if (pool.minNodes < 0 || pool.maxNodes < 1 || pool.minNodes > pool.maxNodes) {
+      errors.push('Min nodes must be between 0 and max nodes, and max nodes at least 1');
+    }
+  } else if (pool.nodeCount < 1) {
+    errors.push('Node count must be at least 1');
+  }
+  if (pool.taints.some(taint => !taint.key)) {
+    errors.push('Every taint needs a key');
+  }
+  // EKS rolls node groups by max unavailable, AKS by max surge
+  if (provider === 'aws') {
+    if (pool.maxUnavailable < 1) {
+      errors.push('Max unavailable must be at least 1');
+    }
+  } else if (provider === 'azure') {
+    if (!pool.spot && pool.maxSurge < 1) {
+      errors.push('Max surge must be at least 1');
+    }
+  } else if (pool.maxSurge < 0 || pool.maxUnavailable < 0 || pool.maxSurge + pool.maxUnavailable < 1) {
+    errors.push('Surge upgrades need max surge or max unavailable of at least 1');
+  }
+  return errors;
+};
+
+// GKE sizes pools per zone; EKS node groups and AKS pools are sized as a whole
+export const describeNodePoolSize = (pool: NodePoolConfig, provider: CloudProvider = 'gcp') => {
+  const unit = provider === 'gcp' ? 'per zone' : 'nodes';
+  return pool.enableAutoscaling
+    ? `${pool.minNodes}-${pool.maxNodes} ${unit} (autoscaling)`
+    : `${pool.nodeCount} ${unit} (fixed count)`;
+};
+
+const CIDR_PATTERN = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})\/(\d{1,2})$/;
+const NETWORK_NAME_PATTERN = /^[a-z]([-a-z0-9]{0,61}[a-z0-9])?$/;
+
+// Returns the [first, last] addresses of an IPv4 CIDR as integers, or null when malformed
+const parseCidr = (cidr: string): [number, number] | null => {
+  const match = CIDR_PATTERN.exec(cidr.trim());
+  if (!match) {
+    return null;
+  }
+  const octets = match.slice(1, 5).map(Number);
+  const prefix = Number(match[5]);
+  if (octets.some(octet => octet > 255) || prefix > 32) {
+    return null;
+  }
+  const address = octets.reduce((value, octet) => value * 256 + octet, 0);
+  const size = 2 ** (32 - prefix);
+  const first = Math.floor(address / size) * size;
+  return [first, first + size - 1];
+};
+
+export const validateNetwork = (network: NetworkConfig): string[] => {
+  const errors: string[] = [];
+  network.masterAuthorizedNetworks.forEach(authorized => {
+    if (!parseCidr(authorized.cidr)) {
+      errors.push(`Authorized network "${authorized.name || authorized.cidr}" needs a valid IPv4 CIDR`);
+    }
+  });
+  if (!network.createVpc) {
+    return errors;
+  }
+  if (!NETWORK_NAME_PATTERN.test(network.networkName)) {
+    errors.push('Network name must start with a letter and use lowercase letters, digits and hyphens');
+  }
+
+  const ranges: { label: string; cidr: string }[] = [
+    { label: 'Subnet', cidr: network.subnetCidr },
+    { label: 'Pods', cidr: network.podsCidr },
+    { label: 'Services', cidr: network.servicesCidr },
+    ...(network.privateNodes ? [{ label: 'Control plane', cidr: network.masterIpv4Cidr }] : [])
+  ];
+  const parsed = ranges.map(range => ({ ...range, bounds: parseCidr(range.cidr) }));
+  parsed.filter(range => !range.bounds).forEach(range => errors.push(`${range.label} range must be a valid IPv4 CIDR`));
+  parsed.forEach((range, i) => {
+    parsed.slice(i + 1).forEach(other => {
+      if (range.bounds && other.bounds && range.bounds[0] <= other.bounds[1] && other.bounds[0] <= range.bounds[1]) {
+        errors.push(`${range.label} and ${other.label} ranges overlap`);
+      }
+    });
+  });
+
+  if (network.privateNodes && !network.masterIpv4Cidr.trim().endsWith('/28')) {
+    errors.push('Control plane range must be a /28');
+  }
+  if (network.privateEndpoint && !network.privateNodes) {
+    errors.push('A private endpoint requires private nodes');
+  }
+  return errors;
+};
+
+export const isAutopilot = (config: TerraformConfig) => config.clusterMode === 'autopilot';
+
+// Autopilot always runs the GKE metadata server, whatever the form says
+export const hasWorkloadIdentity = (config: TerraformConfig) =>
+  isAutopilot(config) || config.serviceAccount.workloadIdentity;
+
+export const validateLocation = (config: TerraformConfig): string[] => {
+  const errors: string[] = [];
+  // Autopilot clusters are always regional and Google picks the node zones
+  if (isAutopilot(config)) {
+    return errors;
+  }
+  const { zones } = config.location;
+  if (zones.length === 0) {
+    errors.push(config.location.type === 'zonal' ? 'Select the zone for the cluster' : 'Select at least one zone for the nodes');
+  }
+  const available = getZonesForRegion(config.region);
+  const unknown = zones.filter(zone => !available.includes(zone));
+  if (unknown.length > 0) {
+    errors.push(`${unknown.join(', ')} ${unknown.length === 1 ? 'is' : 'are'} not a zone of ${config.region}`);
+  }
+  if (new Set(zones).size !== zones.length) {
+    errors.push('Zones must be unique');
+  }
+  return errors;
+};
+
+// Regional clusters live in the region; zonal clusters live in their first zone
+export const getClusterLocation = (config: TerraformConfig) =>
+  isAutopilot(config) || config.location.type === 'regional' ? config.region : config.location.zones[0] ?? config.region;
 
-output "node_zones" {
-  description = "Node zones for the cluster"
-  value       = local.node_zones
+export const describeLocation = (config: TerraformConfig) => {
+  if (isAutopilot(config)) {
+    return `Regional (${config.region}) · zones managed by Autopilot`;
+  }
+  return config.location.type === 'regional'
+    ? `Regional (${config.region}) · nodes in ${config.location.zones.join(', ')}`
+    : `Zonal (${getClusterLocation(config)})${config.location.zones.length > 1 ? ` · nodes in ${config.location.zones.join(', ')}` : ''}`;
+};
+
+export const describeNodes = (config: TerraformConfig) =>
+  isAutopilot(config)
+    ? 'Autopilot (nodes provisioned and billed per pod request)'
+    : config.nodePools
+      .map(pool => `${pool.name} (${pool.machineType}${pool.spot ? ', spot' : ''}, ${describeNodePoolSize(pool)})`)
+      .join('; ');
+
+const MAINTENANCE_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const validateMaintenance = (config: TerraformConfig): string[] => {
+  const errors: string[] = [];
+  const { maintenance } = config;
+  if (isAutopilot(config) && maintenance.releaseChannel === 'UNSPECIFIED') {
+    errors.push('Autopilot clusters must be enrolled in a release channel');
+  }
+  if (!isAutopilot(config) && maintenance.releaseChannel !== 'UNSPECIFIED' && config.nodePools.some(pool => !pool.autoUpgrade)) {
+    errors.push('Node auto-upgrade can only be disabled when the cluster is not on a release channel');
+  }
+  if (maintenance.enableWindow) {
+    if (maintenance.windowDays.length === 0) {
+      errors.push('Select at least one maintenance day');
+    }
+    if (!MAINTENANCE_TIME_PATTERN.test(maintenance.windowStartTime)) {
+      errors.push('Window start must be a UTC time such as 03:00');
+    }
+    if (maintenance.windowDurationHours < 4 || maintenance.windowDurationHours > 24) {
+      errors.push('Each maintenance window must last between 4 and 24 hours');
+    }
+    // Any 32 days contain every weekday at least four times
+    if (maintenance.windowDays.length * maintenance.windowDurationHours * 4 < 48) {
+      errors.push('GKE needs at least 48 hours of maintenance windows in every 32 days');
+    }
+  } else if (maintenance.exclusions.length > 0) {
+    errors.push('Maintenance exclusions require a maintenance window');
+  }
+  maintenance.exclusions.forEach(exclusion => {
+    const label = exclusion.name || 'unnamed exclusion';
+    if (!exclusion.name) {
+      errors.push('Every maintenance exclusion needs a name');
+    }
+    if (!DATE_PATTERN.test(exclusion.startDate) || !DATE_PATTERN.test(exclusion.endDate)) {
+      errors.push(`${label}: start and end must be dates (YYYY-MM-DD)`);
+      return;
+    }
+    const days = (Date.parse(exclusion.endDate) - Date.parse(exclusion.startDate)) / DAY_MS;
+    if (days < 0) {
+      errors.push(`${label}: end date is before the start date`);
+    } else if (exclusion.scope === 'NO_UPGRADES' && days >= 30) {
+      errors.push(`${label}: "no upgrades" exclusions may last at most 30 days`);
+    }
+  });
+  return errors;
+};
+
+export const describeMaintenance = (maintenance: MaintenanceConfig) => {
+  const channel = maintenance.releaseChannel === 'UNSPECIFIED'
+    ? 'No release channel'
+    : `${maintenance.releaseChannel.charAt(0)}${maintenance.releaseChannel.slice(1).toLowerCase()} channel`;
+  const window = maintenance.enableWindow
+    ? `${MAINTENANCE_DAYS.filter(day => maintenance.windowDays.includes(day)).join(', ')} ${maintenance.windowStartTime} UTC for ${maintenance.windowDurationHours}h`
+    : 'upgrades at any time';
+  const exclusions = maintenance.exclusions.length > 0 ? ` · ${maintenance.exclusions.length} exclusion(s)` : '';
+  return `${channel} · ${window}${exclusions}`;
+};
+
+export const LOGGING_COMPONENTS: LoggingComponent[] = ['SYSTEM_COMPONENTS', 'WORKLOADS', 'APISERVER', 'SCHEDULER', 'CONTROLLER_MANAGER'];
+export const MONITORING_COMPONENTS: MonitoringComponent[] = [
+  'SYSTEM_COMPONENTS', 'APISERVER', 'SCHEDULER', 'CONTROLLER_MANAGER', 'STORAGE', 'POD', 'DEPLOYMENT'
+];
+
+const KMS_KEY_PATTERN = /^projects\/[^/]+\/locations\/([^/]+)\/keyRings\/[^/]+\/cryptoKeys\/[^/]+$/;
+
+export const validateSecurity = (config: TerraformConfig): string[] => {
+  const errors: string[] = [];
+  const { security } = config;
+  if (!isAutopilot(config) && security.secureBoot && !security.shieldedNodes) {
+    errors.push('Secure boot requires shielded nodes');
+  }
+  if (security.databaseEncryptionKey) {
+    const match = KMS_KEY_PATTERN.exec(security.databaseEncryptionKey);
+    if (!match) {
+      errors.push('Encryption key must look like projects/<project>/locations/<region>/keyRings/<ring>/cryptoKeys/<key>');
+    } else if (match[1] !== config.region) {
+      errors.push(`Encryption key must be in the cluster region ${config.region}, not ${match[1]}`);
+    }
+  }
+  if (security.monitoringComponents.length > 0 && !security.monitoringComponents.includes('SYSTEM_COMPONENTS')) {
+    errors.push('Monitoring components require SYSTEM_COMPONENTS');
+  }
+  if (security.loggingComponents.length > 0 && !security.loggingComponents.includes('SYSTEM_COMPONENTS')) {
+    errors.push('Logging components require SYSTEM_COMPONENTS');
+  }
+  return errors;
+};
+
+// Autopilot always runs shielded nodes with secure boot on Dataplane V2
+export const describeSecurity = (config: TerraformConfig) => {
+  const { security } = config;
+  const autopilot = isAutopilot(config);
+  const features: string[] = [];
+  if (autopilot || security.shieldedNodes) {
+    features.push(autopilot || security.secureBoot ? 'shielded nodes with secure boot' : 'shielded nodes');
+  }
+  if (autopilot || security.networkPolicy === 'dataplane-v2') {
+    features.push('Dataplane V2 network policy');
+  } else if (security.networkPolicy === 'calico') {
+    features.push('Calico network policy');
+  }
+  if (security.binaryAuthorization) {
+    features.push('Binary Authorization');
+  }
+  if (security.databaseEncryptionKey) {
+    features.push('CMEK secrets encryption');
+  }
+  return features.length > 0 ? features.join(', ') : 'GKE defaults';
+};
+
+export const describeNetwork = (network: NetworkConfig) => {
+  if (!network.createVpc) {
+    return 'default network';
+  }
+  const access = network.privateNodes
+    ? `private nodes${network.privateEndpoint ? ', private endpoint' : ''}`
+    : 'public nodes';
+  return `${network.networkName} (${network.subnetCidr}, ${access}${network.enableCloudNat ? ', Cloud NAT' : ''})`;
+};
+
+// Fall back to a per-project bucket so separate projects never share state
+export const getStateBucket = (config: TerraformConfig) =>
+  config.stateBackend.bucket.trim() || `${config.projectId || 'my-project'}-tfstate`;
+
+// Each project/cluster/environment combination gets its own state path
+export const getStatePrefix = (config: TerraformConfig) =>
+  `terraform/state/${config.projectId || 'my-project'}/${config.clusterName}/${config.environment}`;
+
+// Roles granted to the generated node service account; enough for nodes to ship
+// logs and metrics and pull images, nothing more
+export const NODE_SERVICE_ACCOUNT_ROLES = [
+  'roles/logging.logWriter',
+  'roles/monitoring.metricWriter',
+  'roles/monitoring.viewer',
+  'roles/stackdriver.resourceMetadata.writer',
+  'roles/artifactregistry.reader'
+];
+
+const SERVICE_ACCOUNT_EMAIL_PATTERN = /^[^@\s]+@[^@\s]+\.gserviceaccount\.com$/;
+const SERVICE_ACCOUNT_ID_PATTERN = /^[a-z][a-z0-9-]{4,28}[a-z0-9]$/;
+
+export const validateServiceAccount = (serviceAccount: ServiceAccountConfig): string[] => {
+  const errors: string[] = [];
+  if (!SERVICE_ACCOUNT_EMAIL_PATTERN.test(serviceAccount.email)) {
+    errors.push('Enter the email of the service account used by GitHub Actions');
+  }
+  if (serviceAccount.createNodeServiceAccount && !SERVICE_ACCOUNT_ID_PATTERN.test(serviceAccount.nodeServiceAccountId)) {
+    errors.push('Node service account ID must be 6-30 lowercase letters, digits or hyphens and start with a letter');
+  }
+  return errors;
+};
+
+// The identity the nodes run as: the generated account when enabled, otherwise the supplied one
+export const getNodeServiceAccountEmail = (config: TerraformConfig) =>
+  config.serviceAccount.createNodeServiceAccount
+    ? `${config.serviceAccount.nodeServiceAccountId}@${config.projectId || 'my-project'}.iam.gserviceaccount.com`
+    : config.serviceAccount.email;
+
+export interface ImportTarget {
+  to: string;
+  id: string;
 }
 
-output "deletion_protection" {
-  description = "Deletion protection status"
-  value       = google_container_cluster.primary.deletion_protection
-}`;
+// Resources the first apply imports instead of creating. The multi-environment
+// layout has no single root to hold the import blocks, so it adopts nothing.
+export const getImportTargets = (config: TerraformConfig): ImportTarget[] => {
+  const { adoption } = config;
+  if (config.provider !== 'gcp' || !adoption.enabled || config.multiEnvironment.enabled) {
+    return [];
+  }
+  const project = `projects/${config.projectId}`;
+  const cluster = `${project}/locations/${getClusterLocation(config)}/clusters/${config.clusterName}`;
+  const { createVpc, networkName } = config.network;
+  return [
+    ...(createVpc && adoption.network
+      ? [{ to: 'google_compute_network.vpc[0]', id: `${project}/global/networks/${networkName}` }]
+      : []),
+    ...(createVpc && adoption.subnetwork
+      ? [{ to: 'google_compute_subnetwork.nodes[0]', id: `${project}/regions/${config.region}/subnetworks/${networkName}-${config.region}` }]
+      : []),
+    ...(config.serviceAccount.createNodeServiceAccount && adoption.nodeServiceAccount
+      ? [{ to: 'google_service_account.nodes[0]', id: `${project}/serviceAccounts/${getNodeServiceAccountEmail(config)}` }]
+      : []),
+    { to: 'google_container_cluster.primary', id: cluster },
+    ...(isAutopilot(config) ? [] : config.nodePools
+      .filter(pool => adoption.nodePools.includes(pool.name))
+      .map(pool => ({
+        to: `google_container_node_pool.pools["${pool.name}"]`,
+        id: `${cluster}/nodePools/${config.clusterName}-${pool.name}`
+      })))
+  ];
+};
 
-  const terraformTfvars = `project_id = "${config.projectId}"
-cluster_name = "${config.clusterName}"
-region = "${config.region}"
-node_count = 2
-machine_type = "${config.machineType}"
-disk_size = ${config.diskSize}
-service_account_email = "githubactions-sa@turnkey-guild-441104-f3.iam.gserviceaccount.com"`;
+const renderImportsTf = (targets: ImportTarget[], addressPrefix = '') => renderHcl([
+  hclComment(`Existing resources adopted by the first apply. Terraform skips blocks whose
+resource is already in state, so they can stay after the import.`),
+  ...targets.map(target => hclBlock('import', [], [
+    hclAttribute('to', hclRaw(`${addressPrefix}${target.to}`)),
+    hclAttribute('id', target.id)
+  ]))
+]);
 
-  const workflowYml = `name: Terraform GKE Operations
+const GITHUB_REPOSITORY_PATTERN = /^[A-Za-z0-9_.-]+\/[A-Za-z0-9_.-]+$/;
+
+// Provider format errors come from validateGcpAuth; this covers the generated identity pool
+export const validateTerraformAuth = (config: TerraformConfig): string[] => {
+  const errors: string[] = [];
+  if (config.auth.mode === 'workload-identity-federation' && config.auth.createWorkloadIdentityPool &&
+    !GITHUB_REPOSITORY_PATTERN.test(config.auth.githubRepository)) {
+    errors.push('Enter the GitHub repository as owner/repo to bind the identity pool to');
+  }
+  return errors;
+};
+
+// The deploy workflow always impersonates the deployer service account
+export const getWorkflowAuth = (config: TerraformConfig): GcpAuthConfig => ({
+  ...config.auth,
+  serviceAccount: config.serviceAccount.email
+});
+
+// The multi-environment layout is only generated for GKE
+export const isMultiEnvironment = (config: TerraformConfig) =>
+  config.provider === 'gcp' && config.multiEnvironment.enabled && config.multiEnvironment.environments.length > 0;
+
+// The configuration an environment root is generated from. Environments share the
+// state bucket but get their own VPC and node service account, so two environments
+// in one project never fight over the same resources.
+export const resolveEnvironment = (config: TerraformConfig, environment: EnvironmentConfig): TerraformConfig => ({
+  ...config,
+  projectId: environment.projectId.trim() || config.projectId,
+  clusterName: environment.clusterName.trim() || `${config.clusterName}-${environment.name}`,
+  environment: environment.name,
+  stateBackend: { ...config.stateBackend, bucket: getStateBucket(config) },
+  network: { ...config.network, networkName: `${config.network.networkName}-${environment.name}` },
+  serviceAccount: {
+    ...config.serviceAccount,
+    nodeServiceAccountId: `${config.serviceAccount.nodeServiceAccountId}-${environment.name}`
+  }
+});
+
+const ENVIRONMENT_NAME_PATTERN = /^[a-z][a-z0-9-]*$/;
+const CLUSTER_NAME_PATTERN = /^[a-z]([-a-z0-9]{0,38}[a-z0-9])?$/;
+const LABEL_KEY_PATTERN = /^[a-z][a-z0-9_-]{0,62}$/;
+const LABEL_VALUE_PATTERN = /^[a-z0-9_-]{0,63}$/;
+const GITHUB_USERNAME_PATTERN = /^[A-Za-z0-9](?:[A-Za-z0-9-]{0,38})$/;
+
+const validateEnvironmentProtection = (label: string, protection: EnvironmentProtectionConfig): string[] => {
+  const errors: string[] = [];
+  if (protection.requireApproval && protection.reviewers.length === 0) {
+    errors.push(`${label}: add at least one reviewer to require approval`);
+  }
+  if (protection.reviewers.length > 6) {
+    errors.push(`${label}: GitHub allows at most six required reviewers`);
+  }
+  protection.reviewers
+    .filter(reviewer => !GITHUB_USERNAME_PATTERN.test(reviewer))
+    .forEach(reviewer => errors.push(`${label}: ${reviewer || 'empty reviewer'} is not a GitHub username`));
+  return errors;
+};
+
+export const validateEnvironments = (config: TerraformConfig): string[] => {
+  // EKS and AKS always deploy a single environment
+  if (config.provider !== 'gcp' || !config.multiEnvironment.enabled) {
+    return validateEnvironmentProtection(config.environment || 'Environment', config.environmentProtection);
+  }
+  const { environments } = config.multiEnvironment;
+  if (environments.length === 0) {
+    return ['Add at least one environment'];
+  }
+
+  const errors: string[] = [];
+  const clusters = new Set<string>();
+  environments.forEach((environment, index) => {
+    const label = environment.name || `Environment ${index + 1}`;
+    if (!ENVIRONMENT_NAME_PATTERN.test(environment.name)) {
+      errors.push(`${label}: name must use lowercase letters, digits and hyphens`);
+    } else if (environments.findIndex(other => other.name === environment.name) !== index) {
+      errors.push(`${label}: environment names must be unique`);
+    }
+
+    const resolved = resolveEnvironment(config, environment);
+    if (!CLUSTER_NAME_PATTERN.test(resolved.clusterName)) {
+      errors.push(`${label}: cluster name ${resolved.clusterName} must be 1-40 lowercase letters, digits or hyphens`);
+    }
+    const clusterKey = `${resolved.projectId}/${resolved.clusterName}`;
+    if (clusters.has(clusterKey)) {
+      errors.push(`${label}: cluster ${resolved.clusterName} is already used by another environment in the same project`);
+    }
+    clusters.add(clusterKey);
+
+    if (config.serviceAccount.createNodeServiceAccount &&
+      !SERVICE_ACCOUNT_ID_PATTERN.test(resolved.serviceAccount.nodeServiceAccountId)) {
+      errors.push(`${label}: node service account ID ${resolved.serviceAccount.nodeServiceAccountId} exceeds 30 characters; shorten the base ID`);
+    }
+    Object.entries(environment.labels).forEach(([key, value]) => {
+      if (!LABEL_KEY_PATTERN.test(key) || !LABEL_VALUE_PATTERN.test(value)) {
+        errors.push(`${label}: label ${key}=${value} must use lowercase letters, digits, hyphens and underscores`);
+      }
+    });
+    errors.push(...validateEnvironmentProtection(label, environment));
+  });
+  return errors;
+};
+
+export const describeEnvironments = (config: TerraformConfig) => {
+  if (!isMultiEnvironment(config)) {
+    return `single environment (${config.environment}${config.environmentProtection.requireApproval ? ', approval required' : ''})`;
+  }
+  return config.multiEnvironment.environments
+    .map(environment => (environment.requireApproval ? `${environment.name} (approval required)` : environment.name))
+    .join(', ');
+};
+
+// The roots the drift check plans: one per environment, otherwise the single root
+export const getDriftRoots = (config: TerraformConfig): DriftRoot[] =>
+  isMultiEnvironment(config)
+    ? config.multiEnvironment.environments.map(environment => ({
+      name: environment.name,
+      cluster: resolveEnvironment(config, environment).clusterName,
+      workingDirectory: `./terraform/environments/${environment.name}`
+    }))
+    : [{ name: config.clusterName, cluster: config.clusterName, workingDirectory: './terraform' }];
+
+// Five cron fields; GitHub rejects seconds and the @daily-style shorthands
+const CRON_FIELD_PATTERN = /^[0-9A-Za-z*,/-]+$/;
+
+export const validateDriftDetection = (config: TerraformConfig): string[] => {
+  const fields = config.driftDetection.schedule.trim().split(/\s+/);
+  if (config.driftDetection.enabled && (fields.length !== 5 || !fields.every(field => CRON_FIELD_PATTERN.test(field)))) {
+    return ['Drift check schedule must be a five-field cron expression such as 0 6 * * 1-5'];
+  }
+  return [];
+};
+
+// Policy facts describe what the generated Terraform deploys, which is not always
+// what the form shows: single-environment roots set no labels and leave deletion
+// protection off
+const getGkePolicyFacts = (config: TerraformConfig, environment?: EnvironmentConfig): PolicyFacts => {
+  const autopilot = isAutopilot(config);
+  const { network } = config;
+  const privateNodes = network.createVpc && network.privateNodes;
+  return {
+    provider: config.provider,
+    environment: config.environment,
+    clusterName: config.clusterName,
+    region: config.region,
+    clusterMode: config.clusterMode,
+    publicEndpoint: !(privateNodes && network.privateEndpoint),
+    privateNodes,
+    deletionProtection: environment?.deletionProtection ?? false,
+    machineTypes: autopilot ? [] : config.nodePools.map(pool => pool.machineType),
+    spotNodes: !autopilot && config.nodePools.some(pool => pool.spot),
+    labels: environment?.labels ?? {},
+    releaseChannel: config.maintenance.releaseChannel,
+    networkPolicy: config.security.networkPolicy,
+    workloadIdentity: hasWorkloadIdentity(config),
+    binaryAuthorization: config.security.binaryAuthorization,
+    stateLock: config.stateBackend.stateLock
+  };
+};
+
+// One subject per generated cluster. EKS and AKS state backends always lock.
+export const getPolicySubjects = (config: TerraformConfig): PolicySubject[] => {
+  if (config.provider === 'aws' || config.provider === 'azure') {
+    const pools = config.provider === 'aws' ? config.aws.nodeGroups : config.azure.nodePools;
+    return [{
+      target: config.clusterName,
+      facts: {
+        provider: config.provider,
+        environment: config.environment,
+        clusterName: config.clusterName,
+        region: config.provider === 'aws' ? config.aws.region : config.azure.location,
+        publicEndpoint: config.provider === 'aws' ? config.aws.endpointPublicAccess : true,
+        privateNodes: true,
+        machineTypes: pools.map(pool => pool.machineType),
+        spotNodes: pools.some(pool => pool.spot),
+        workloadIdentity: true,
+        stateLock: true
+      }
+    }];
+  }
+  if (isMultiEnvironment(config)) {
+    return config.multiEnvironment.environments.map(environment => {
+      const resolved = resolveEnvironment(config, environment);
+      return { target: `${environment.name} (${resolved.clusterName})`, facts: getGkePolicyFacts(resolved, environment) };
+    });
+  }
+  return [{ target: config.clusterName, facts: getGkePolicyFacts(config) }];
+};
+
+export const checkPolicies = (config: TerraformConfig) => evaluatePolicies(getPolicySubjects(config), config.policy);
+
+export const validateResources = (config: TerraformConfig): string[] => {
+  const errors = config.resources.flatMap(resource =>
+    validateResource(resource, config.resources).map(error => `${resource.name || 'unnamed'}: ${error}`));
+  // Names are derived from the project and cluster, which differ per environment
+  const targets = isMultiEnvironment(config)
+    ? config.multiEnvironment.environments.map(environment => resolveEnvironment(config, environment))
+    : [config];
+  return [...errors, ...validateResourceNames(config.resources, targets)];
+};
 
+const AWS_REGION_PATTERN = /^[a-z]{2}(-[a-z]+)+-\d+$/;
+const AWS_ROLE_ARN_PATTERN = /^arn:aws[a-z-]*:iam::\d{12}:role\/[\w+=,.@/-]+$/;
+const AZURE_LOCATION_PATTERN = /^[a-z][a-z0-9]+$/;
+const AZURE_SUBSCRIPTION_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const STORAGE_ACCOUNT_PATTERN = /^[a-z0-9]{3,24}$/;
+
+// Pool errors are shown on each pool card, so the cluster-level validators leave them out
+const validateNodePools = (pools: NodePoolConfig[], provider: CloudProvider) =>
+  pools.length === 0
+    ? ['Add at least one node pool']
+    : pools.flatMap(pool => validateNodePool(pool, pools, provider).map(error => `${pool.name || 'unnamed'}: ${error}`));
+
+export const validateAws = (config: TerraformConfig): string[] => {
+  const { aws } = config;
+  const errors: string[] = [];
+  if (!CLUSTER_NAME_PATTERN.test(config.clusterName)) {
+    errors.push('Cluster name must start with a letter and use lowercase letters, digits and hyphens (max 40)');
+  }
+  if (!AWS_REGION_PATTERN.test(aws.region)) {
+    errors.push('Region must be an AWS region such as us-east-1');
+  }
+  // Private subnets take 4 extra prefix bits and public subnets 8
+  const vpc = parseCidr(aws.vpcCidr);
+  if (!vpc) {
+    errors.push('VPC range must be a valid IPv4 CIDR');
+  } else if (vpc[1] - vpc[0] + 1 < 2 ** 12) {
+    errors.push('VPC range must be /20 or larger');
+  }
+  if (aws.availabilityZoneCount < 2 || aws.availabilityZoneCount > 6) {
+    errors.push('Use between 2 and 6 availability zones');
+  }
+  if (aws.roleArn && !AWS_ROLE_ARN_PATTERN.test(aws.roleArn)) {
+    errors.push('Role must be an IAM role ARN such as arn:aws:iam::123456789012:role/github-deployer');
+  }
+  if (!aws.stateLockTable.trim()) {
+    errors.push('Enter a DynamoDB table for state locking');
+  }
+  return errors;
+};
+
+export const validateAzure = (config: TerraformConfig): string[] => {
+  const { azure } = config;
+  const errors: string[] = [];
+  if (!CLUSTER_NAME_PATTERN.test(config.clusterName)) {
+    errors.push('Cluster name must start with a letter and use lowercase letters, digits and hyphens (max 40)');
+  }
+  if (!AZURE_LOCATION_PATTERN.test(azure.location)) {
+    errors.push('Location must be an Azure location name such as eastus');
+  }
+  const vnet = parseCidr(azure.vnetCidr);
+  const subnet = parseCidr(azure.subnetCidr);
+  if (!vnet) {
+    errors.push('VNet range must be a valid IPv4 CIDR');
+  }
+  if (!subnet) {
+    errors.push('Node subnet must be a valid IPv4 CIDR');
+  }
+  if (vnet && subnet && (subnet[0] < vnet[0] || subnet[1] > vnet[1])) {
+    errors.push('Node subnet must be inside the VNet range');
+  }
+  if (azure.subscriptionId && !AZURE_SUBSCRIPTION_PATTERN.test(azure.subscriptionId)) {
+    errors.push('Subscription ID must be a GUID');
+  }
+  if (azure.stateStorageAccount && !STORAGE_ACCOUNT_PATTERN.test(azure.stateStorageAccount)) {
+    errors.push('Storage account must be 3-24 lowercase letters and digits');
+  }
+  if (!azure.stateResourceGroup.trim() || !azure.stateContainer.trim()) {
+    errors.push('Enter the resource group and container for the state storage account');
+  }
+  return errors;
+};
+
+// Dispatch inputs for deploy.yml; multi-environment workflows resolve the project
+// and cluster from the chosen environment instead of taking them as inputs
+// planRunId names the reviewed plan run an apply executes
+export const getWorkflowInputs = (
+  config: TerraformConfig,
+  action: string,
+  environment?: string,
+  planRunId?: number
+): Record<string, string> => {
+  const planInputs: Record<string, string> = planRunId === undefined ? {} : { [PLAN_RUN_ID_INPUT]: String(planRunId) };
+  if (config.provider !== 'gcp') {
+    return {
+      terraform_action: action,
+      cluster_name: config.clusterName,
+      region: TERRAFORM_PROVIDERS[config.provider].getRegion(config),
+      ...planInputs
+    };
+  }
+  return isMultiEnvironment(config)
+    ? {
+      terraform_action: action,
+      environment: environment ?? config.multiEnvironment.environments[0].name,
+      region: config.region,
+      ...planInputs
+    }
+    : {
+      terraform_action: action,
+      project_id: config.projectId,
+      cluster_name: config.clusterName,
+      region: config.region,
+      ...planInputs
+    };
+};
+
+const generateBackendTf = (config: TerraformConfig) => {
+  const { kmsEncryptionKey } = config.stateBackend;
+  return renderHcl([
+    hclBlock('terraform', [], [
+      hclBlock('backend', ['gcs'], [
+        hclAttribute('bucket', getStateBucket(config)),
+        hclAttribute('prefix', getStatePrefix(config)),
+        ...(kmsEncryptionKey ? [hclAttribute('kms_encryption_key', kmsEncryptionKey)] : [])
+      ])
+    ])
+  ]);
+};
+
+// Every Google root pins the same provider; only the Terraform version it needs differs
+const googleTerraformBlock = (requiredVersion = '>= 1.0') =>
+  hclBlock('terraform', [], [
+    hclAttribute('required_version', requiredVersion),
+    hclBlock('required_providers', [], [
+      hclAttribute('google', hclObject({ source: 'hashicorp/google', version: '~> 5.0' }))
+    ])
+  ]);
+
+const googleProviderBlock = (withRegion: boolean) =>
+  hclBlock('provider', ['google'], [
+    hclAttribute('project', hclRaw('var.project_id')),
+    ...(withRegion ? [hclAttribute('region', hclRaw('var.region'))] : [])
+  ]);
+
+// Standalone root with local state that creates the remote state bucket.
+// It only runs when the bucket does not exist yet, so losing its local state is harmless.
+const generateBootstrapFiles = (config: TerraformConfig) => {
+  const mainTf = renderHcl([
+    googleTerraformBlock(),
+    googleProviderBlock(false),
+    hclComment('Versioned bucket holding the Terraform state of the GKE configuration'),
+    hclBlock('resource', ['google_storage_bucket', 'terraform_state'], [
+      hclAttribute('name', hclRaw('var.bucket_name')),
+      hclAttribute('location', hclRaw('var.location')),
+      hclBlank,
+      hclAttribute('uniform_bucket_level_access', true),
+      hclAttribute('public_access_prevention', 'enforced'),
+      hclAttribute('force_destroy', false),
+      hclBlock('versioning', [], [
+        hclAttribute('enabled', true)
+      ]),
+      hclComment('Keep the last 10 superseded state versions for recovery'),
+      hclBlock('lifecycle_rule', [], [
+        hclBlock('condition', [], [
+          hclAttribute('num_newer_versions', 10),
+          hclAttribute('with_state', 'ARCHIVED')
+        ]),
+        hclBlock('action', [], [
+          hclAttribute('type', 'Delete')
+        ])
+      ]),
+      hclBlock('dynamic', ['encryption'], [
+        hclAttribute('for_each', hclRaw('var.kms_key_name == "" ? [] : [var.kms_key_name]')),
+        hclBlock('content', [], [
+          hclAttribute('default_kms_key_name', hclRaw('encryption.value'))
+        ])
+      ]),
+      hclBlock('lifecycle', [], [
+        hclAttribute('prevent_destroy', true)
+      ])
+    ])
+  ]);
+
+  const variablesTf = renderHcl([
+    hclVariable({
+      name: 'project_id',
+      description: 'The GCP project that owns the state bucket',
+      type: 'string',
+      defaultValue: config.projectId
+    }),
+    hclVariable({
+      name: 'bucket_name',
+      description: 'Name of the Terraform state bucket',
+      type: 'string',
+      defaultValue: getStateBucket(config)
+    }),
+    hclVariable({
+      name: 'location',
+      description: 'Location of the Terraform state bucket',
+      type: 'string',
+      defaultValue: config.region
+    }),
+    hclVariable({
+      name: 'kms_key_name',
+      description: "Optional Cloud KMS key used as the bucket's default encryption key",
+      type: 'string',
+      defaultValue: config.stateBackend.kmsEncryptionKey
+    })
+  ]);
+
+  const outputsTf = renderHcl([
+    hclOutput({
+      name: 'bucket_name',
+      description: 'Terraform state bucket name',
+      value: 'google_storage_bucket.terraform_state.name'
+    }),
+    hclOutput({
+      name: 'bucket_url',
+      description: 'Terraform state bucket URL',
+      value: 'google_storage_bucket.terraform_state.url'
+    })
+  ]);
+
+  return [
+    { path: 'terraform/bootstrap/main.tf', content: mainTf },
+    { path: 'terraform/bootstrap/variables.tf', content: variablesTf },
+    { path: 'terraform/bootstrap/outputs.tf', content: outputsTf },
+  ];
+};
+
+// Separate root, applied once by an administrator, that lets GitHub Actions runs of a
+// single repository impersonate the deployer service account without a JSON key
+const generateWorkloadIdentityFiles = (config: TerraformConfig) => {
+  const mainTf = renderHcl([
+    googleTerraformBlock(),
+    googleProviderBlock(false),
+    hclBlock('resource', ['google_iam_workload_identity_pool', 'github'], [
+      hclAttribute('workload_identity_pool_id', hclRaw('var.pool_id')),
+      hclAttribute('display_name', 'GitHub Actions'),
+      hclAttribute('description', 'Identity pool for GitHub Actions OIDC tokens')
+    ]),
+    hclBlock('resource', ['google_iam_workload_identity_pool_provider', 'github'], [
+      hclAttribute('workload_identity_pool_id', hclRaw('google_iam_workload_identity_pool.github.workload_identity_pool_id')),
+      hclAttribute('workload_identity_pool_provider_id', hclRaw('var.provider_id')),
+      hclAttribute('display_name', 'GitHub OIDC'),
+      hclBlank,
+      hclAttribute('attribute_mapping', hclMap({
+        'google.subject': 'assertion.sub',
+        'attribute.actor': 'assertion.actor',
+        'attribute.repository': 'assertion.repository',
+        'attribute.ref': 'assertion.ref'
+      })),
+      hclBlank,
+      hclComment('Reject tokens minted for any other repository'),
+      hclAttribute('attribute_condition', hclRaw('"assertion.repository == \\"${var.github_repository}\\""')),
+      hclBlock('oidc', [], [
+        hclAttribute('issuer_uri', 'https://token.actions.githubusercontent.com')
+      ])
+    ]),
+    hclBlock('resource', ['google_service_account_iam_member', 'github_workload_identity_user'], [
+      hclAttribute('service_account_id', hclRaw('"projects/${var.project_id}/serviceAccounts/${var.service_account_email}"')),
+      hclAttribute('role', 'roles/iam.workloadIdentityUser'),
+      hclAttribute('member', hclRaw('"principalSet://iam.googleapis.com/${google_iam_workload_identity_pool.github.name}/attribute.repository/${var.github_repository}"'))
+    ])
+  ]);
+
+  const variablesTf = renderHcl([
+    hclVariable({
+      name: 'project_id',
+      description: 'The GCP project that hosts the identity pool',
+      type: 'string',
+      defaultValue: config.projectId
+    }),
+    hclVariable({
+      name: 'github_repository',
+      description: 'GitHub repository (owner/repo) allowed to authenticate',
+      type: 'string',
+      defaultValue: config.auth.githubRepository
+    }),
+    hclVariable({
+      name: 'service_account_email',
+      description: "Service account the repository's workflows impersonate",
+      type: 'string',
+      defaultValue: config.serviceAccount.email
+    }),
+    hclVariable({
+      name: 'pool_id',
+      description: 'Workload Identity pool ID',
+      type: 'string',
+      defaultValue: 'github'
+    }),
+    hclVariable({
+      name: 'provider_id',
+      description: 'Workload Identity pool provider ID',
+      type: 'string',
+      defaultValue: 'github-actions'
+    })
+  ]);
+
+  const outputsTf = renderHcl([
+    hclOutput({
+      name: 'workload_identity_provider',
+      description: "Value for the workflow's workload_identity_provider setting",
+      value: 'google_iam_workload_identity_pool_provider.github.name'
+    }),
+    hclOutput({
+      name: 'service_account_email',
+      description: 'Service account the workflows impersonate',
+      value: 'var.service_account_email'
+    })
+  ]);
+
+  return [
+    { path: 'terraform/github-oidc/main.tf', content: mainTf },
+    { path: 'terraform/github-oidc/variables.tf', content: variablesTf },
+    { path: 'terraform/github-oidc/outputs.tf', content: outputsTf },
+  ];
+};
+
+// Interface version of the generated gke-cluster module. Bump the major version
+// when a variable is removed or changes meaning so pinned callers keep working.
+export const GKE_MODULE_VERSION = '1.0.0';
+
+export const GKE_MODULE_PATH = 'terraform/modules/gke-cluster';
+
+// Inputs a caller root declares and passes straight through to the module
+const MODULE_CALLER_VARIABLES: Record<string, Omit<HclVariableOptions, 'name'>> = {
+  project_id: { description: 'The GCP project ID', type: 'string' },
+  cluster_name: { description: 'The name of the GKE cluster', type: 'string' },
+  region: { description: 'The GCP region for the cluster', type: 'string' },
+  environment: { description: 'Environment name, applied as the env label on the cluster and its nodes', type: 'string' },
+  labels: { description: 'Extra labels for the cluster and its nodes', type: 'map(string)', defaultValue: hclMap({}) },
+  deletion_protection: { description: 'Block terraform destroy and cluster deletion until this is turned off', type: 'bool' },
+  network_name: { description: "Name of the environment's VPC", type: 'string' },
+  node_service_account_id: { description: "Account ID of the environment's node service account", type: 'string' },
+  service_account_email: { description: 'Service account used by GitHub Actions', type: 'string' }
+};
+
+// One-off sizing for the first node pool from the deploy workflow's inputs. Standard
+// clusters only; module callers declare them too so the inputs reach the module.
+const NODE_POOL_OVERRIDE_VARIABLES: Record<string, Omit<HclVariableOptions, 'name'>> = {
+  default_pool_machine_type: {
+    description: 'Machine type for the first node pool, overriding node_pools; empty keeps node_pools',
+    type: 'string',
+    defaultValue: ''
+  },
+  default_pool_node_count: {
+    description: 'Node count per zone for the first node pool when it is not autoscaled, overriding node_pools; null keeps node_pools',
+    type: 'number',
+    defaultValue: null,
+    validations: [{
+      condition: 'var.default_pool_node_count == null ? true : var.default_pool_node_count >= 1',
+      errorMessage: 'default_pool_node_count must be at least 1.'
+    }]
+  }
+};
+
+const getNodePoolOverrideInputs = (config: TerraformConfig) =>
+  isAutopilot(config) ? [] : Object.keys(NODE_POOL_OVERRIDE_VARIABLES);
+
+// Outputs every caller root re-exports from the module
+const MODULE_OUTPUTS: { name: string; description: string; sensitive?: boolean }[] = [
+  { name: 'cluster_name', description: 'GKE cluster name' },
+  { name: 'cluster_endpoint', description: 'GKE cluster endpoint', sensitive: true },
+  { name: 'cluster_location', description: 'GKE cluster location' },
+  { name: 'cluster_ca_certificate', description: 'GKE cluster CA certificate', sensitive: true },
+  { name: 'network_name', description: 'VPC network used by the cluster' },
+  { name: 'node_service_account_email', description: 'Service account the nodes run as' },
+  { name: 'workload_identity_pool', description: 'Workload Identity pool for Kubernetes service account bindings' }
+];
+
+// moved blocks need Terraform 1.1 and import blocks 1.5
+const renderModuleCallerMainTf = (
+  source: string,
+  inputs: string[],
+  comment: string,
+  moved: HclNode[] = [],
+  requiredVersion = moved.length > 0 ? '>= 1.1' : '>= 1.0'
+) =>
+  renderHcl([
+    googleTerraformBlock(requiredVersion),
+    googleProviderBlock(true),
+    hclComment(comment),
+    hclBlock('module', ['gke_cluster'], [
+      hclAttribute('source', source),
+      hclBlank,
+      ...inputs.map(input => hclAttribute(input, hclRaw(`var.${input}`)))
+    ]),
+    ...moved
+  ]);
+
+// Keep the state of resources created by a root configuration when it switches
+// to calling the module, instead of destroying and recreating them
+const renderMovedBlocks = (resourcesTf: string) => {
+  const addresses = Array.from(resourcesTf.matchAll(/^resource "([^"]+)" "([^"]+)"/gm))
+    .map(([, type, name]) => `${type}.${name}`);
+  return [
+    hclComment('Resources created before the switch to the module keep their state'),
+    ...addresses.map(address => hclBlock('moved', [], [
+      hclAttribute('from', hclRaw(address)),
+      hclAttribute('to', hclRaw(`module.gke_cluster.${address}`))
+    ]))
+  ];
+};
+
+const renderModuleCallerVariablesTf = (inputs: string[], defaults: Record<string, HclValue> = {}) =>
+  renderHcl(inputs.map(input => hclVariable({
+    name: input,
+    defaultValue: defaults[input],
+    ...{ ...MODULE_CALLER_VARIABLES, ...NODE_POOL_OVERRIDE_VARIABLES }[input]
+  })));
+
+const renderModuleCallerOutputsTf = (resources: CatalogResource[]) =>
+  renderHcl([...MODULE_OUTPUTS, ...getResourceOutputs(resources)].map(output => hclOutput({
+    name: output.name,
+    description: output.description,
+    value: `module.gke_cluster.${output.name}`,
+    sensitive: output.sensitive
+  })));
+
+// Git source a caller in another repository pins to a release tag of the module
+const getModuleGitSource = (config: TerraformConfig) =>
+  `git::https://github.com/${config.auth.githubRepository || '<owner>/<repo>'}.git//${GKE_MODULE_PATH}?ref=gke-cluster-v${GKE_MODULE_VERSION}`;
+
+const escapeTableCell = (value: string) => value.replace(/\|/g, '\\|');
+
+// Summarise a variable's type for the README; object types are documented in variables.tf
+const summariseType = (type: string) => {
+  const objectStart = type.indexOf('({');
+  if (objectStart === -1) {
+    return type;
+  }
+  const prefix = type.slice(0, objectStart);
+  return `${prefix}${')'.repeat(prefix.split('(').length - 1)}`;
+};
+
+// Build the README tables from the generated files themselves so they can never drift
+const renderInputsTable = (variablesTf: string) => {
+  const rows = variablesTf.split(/^variable "/m).slice(1).map(block => {
+    const name = block.slice(0, block.indexOf('"'));
+    const description = /^ {2}description = "(.*)"$/m.exec(block)?.[1] ?? '';
+    const type = /^ {2}type\s*= (.+)$/m.exec(block)?.[1] ?? 'any';
+    const defaultValue = /^ {2}default\s*= (.+)$/m.exec(block)?.[1];
+    const defaultCell = defaultValue === undefined
+      ? 'n/a'
+      : /[[{(]$/.test(defaultValue) ? 'see variables.tf' : `\`${escapeTableCell(defaultValue)}\``;
+    return `| ${name} | ${escapeTableCell(description)} | \`${summariseType(type)}\` | ${defaultCell} | ${defaultValue === undefined ? 'yes' : 'no'} |`;
+  });
+  return `| Name | Description | Type | Default | Required |
+|------|-------------|------|---------|:--------:|
+${rows.join('\n')}`;
+};
+
+const renderOutputsTable = (outputsTf: string) => {
+  const rows = Array.from(outputsTf.matchAll(/^output "([^"]+)" \{\n {2}description = "(.*)"$/gm))
+    .map(([, name, description]) => `| ${name} | ${escapeTableCell(description)} |`);
+  return `| Name | Description |
+|------|-------------|
+${rows.join('\n')}`;
+};
+
+const generateModuleReadme = (config: TerraformConfig, variablesTf: string, outputsTf: string) => `# gke-cluster
+
+${isAutopilot(config) ? 'Autopilot' : 'Standard'} GKE cluster with its VPC, node service account and hardening settings,
+generated by the IaC Generator. Interface version ${GKE_MODULE_VERSION}.
+
+Defaults mirror the configuration the module was generated from; callers only
+have to pass the required inputs.
+
+## Usage
+
+\`\`\`hcl
+${renderHcl([
+  hclBlock('module', ['gke_cluster'], [
+    hclAttribute('source', getModuleGitSource(config)),
+    hclBlank,
+    hclAttribute('project_id', config.projectId || 'my-project'),
+    hclAttribute('service_account_email', config.serviceAccount.email || 'github-actions@my-project.iam.gserviceaccount.com')
+  ])
+])}
+\`\`\`
+
+Tag the repository with \`gke-cluster-v${GKE_MODULE_VERSION}\` so the \`ref\` above resolves.
+
+## Inputs
+
+${renderInputsTable(variablesTf)}
+
+## Outputs
+
+${renderOutputsTable(outputsTf)}
+`;
+
+// Thin root per environment: its own backend prefix and tfvars around the shared module
+const generateEnvironmentFiles = (config: TerraformConfig, environment: EnvironmentConfig) => {
+  const resolved = resolveEnvironment(config, environment);
+  const root = `terraform/environments/${environment.name}`;
+
+  // region comes from the workflow input through TF_VAR_region, which a tfvars entry would override
+  const terraformTfvars = renderHcl([
+    hclAttribute('project_id', resolved.projectId),
+    hclAttribute('cluster_name', resolved.clusterName),
+    hclAttribute('environment', environment.name),
+    hclAttribute('labels', hclMap(environment.labels)),
+    hclAttribute('deletion_protection', environment.deletionProtection),
+    hclAttribute('network_name', resolved.network.networkName),
+    hclAttribute('node_service_account_id', resolved.serviceAccount.nodeServiceAccountId),
+    hclAttribute('service_account_email', config.serviceAccount.email)
+  ]);
+
+  const inputs = [...Object.keys(MODULE_CALLER_VARIABLES), ...getNodePoolOverrideInputs(config)];
+  return [
+    { path: `${root}/backend.tf`, content: generateBackendTf(resolved) },
+    {
+      path: `${root}/main.tf`,
+      content: renderModuleCallerMainTf('../../modules/gke-cluster', inputs, 'Shared cluster definition; settings not passed here use the module defaults')
+    },
+    { path: `${root}/variables.tf`, content: renderModuleCallerVariablesTf(inputs, { region: config.region }) },
+    { path: `${root}/outputs.tf`, content: renderModuleCallerOutputsTf(config.resources) },
+    { path: `${root}/terraform.tfvars`, content: terraformTfvars },
+  ];
+};
+
+// Root that only wires the workflow's inputs into the local module
+const generateModuleCallerFiles = (config: TerraformConfig, clusterResourcesTf: string) => {
+  const inputs = ['project_id', 'cluster_name', 'region', 'service_account_email', ...getNodePoolOverrideInputs(config)];
+  const importTargets = getImportTargets(config);
+
+  // The workflow inputs arrive through TF_VAR_*, which a tfvars entry would override
+  const terraformTfvars = renderHcl([
+    hclAttribute('service_account_email', config.serviceAccount.email)
+  ]);
+
+  return [
+    { path: 'terraform/backend.tf', content: generateBackendTf(config) },
+    {
+      path: 'terraform/main.tf',
+      content: renderModuleCallerMainTf('./modules/gke-cluster', inputs, `Settings not passed here use the module defaults. Other repositories can pin
+a released interface instead of the local path:
+  source = "${getModuleGitSource(config)}"`, renderMovedBlocks(clusterResourcesTf), importTargets.length > 0 ? '>= 1.5' : '>= 1.1')
+    },
+    {
+      path: 'terraform/variables.tf',
+      content: renderModuleCallerVariablesTf(inputs, { project_id: config.projectId, cluster_name: config.clusterName, region: config.region })
+    },
+    { path: 'terraform/outputs.tf', content: renderModuleCallerOutputsTf(config.resources) },
+    { path: 'terraform/terraform.tfvars', content: terraformTfvars },
+    ...(importTargets.length > 0
+      ? [{ path: 'terraform/imports.tf', content: renderImportsTf(importTargets, 'module.gke_cluster.') }]
+      : []),
+  ];
+};
+
+const generateGkeFiles = (config: TerraformConfig) => {
+  const autopilot = isAutopilot(config);
+  // The pool the deploy workflow's machine_type and node_count inputs resize
+  const defaultPoolName = config.nodePools[0]?.name ?? '';
+  const nodePoolSummary = describeNodes(config);
+  const diskTypes = autopilot
+    ? 'managed by Autopilot'
+    : Array.from(new Set(config.nodePools.map(pool => pool.diskType))).join(', ');
+
+  const multiEnvironment = isMultiEnvironment(config);
+  const { environments } = config.multiEnvironment;
+  // Multi-environment runs resolve the project, cluster and state prefix from the chosen environment
+  const projectRef = multiEnvironment ? '${{ env.PROJECT_ID }}' : '${{ github.event.inputs.project_id }}';
+  const clusterRef = multiEnvironment ? '${{ env.CLUSTER_NAME }}' : '${{ github.event.inputs.cluster_name }}';
+
+  const stateBucket = getStateBucket(config);
+  const statePrefix = multiEnvironment ? '${{ env.STATE_PREFIX }}' : getStatePrefix(config);
+  // GCS always supports locking; waiting on the lock is safer than skipping it
+  const lockFlag = config.stateBackend.stateLock ? '-lock-timeout=5m' : '-lock=false';
+  const workingDirectory = `./terraform${multiEnvironment ? '/environments/${{ github.event.inputs.environment }}' : ''}`;
+  const savedPlanScope = multiEnvironment ? '${{ github.event.inputs.environment }}-' : '';
+
+  const deployerEmail = config.serviceAccount.email;
+  const workflowAuth = getWorkflowAuth(config);
+  const networkSummary = describeNetwork(config.network);
+  const maintenanceSummary = describeMaintenance(config.maintenance);
+  const securitySummary = describeSecurity(config);
+  const zoneList = autopilot ? `chosen by Autopilot in ${config.region}` : config.location.zones.join(', ');
+  const clusterLocation = getClusterLocation(config);
+  const locationFlag = autopilot || config.location.type === 'regional' ? '--region' : '--zone';
+  const nodeEmail = getNodeServiceAccountEmail(config);
+  const resourceSummary = describeResources(config.resources);
+  const resourceApis = getResourceApis(config.resources);
+
+  const nodeOauthScopes = hclAttribute('oauth_scopes', hclList(['https://www.googleapis.com/auth/cloud-platform'], true));
+
+  const clusterDependencies = hclAttribute('depends_on', hclList([
+    hclRaw('google_project_iam_member.nodes'),
+    hclRaw('google_compute_router_nat.nat'),
+    hclRaw('google_kms_crypto_key_iam_member.database_encryption')
+  ], true));
+
+  const clusterMaintenance = [
+    hclComment('Release channel and maintenance policy decide when GKE upgrades the cluster'),
+    hclBlock('release_channel', [], [
+      hclAttribute('channel', hclRaw('var.release_channel'))
+    ]),
+    hclBlock('dynamic', ['maintenance_policy'], [
+      hclAttribute('for_each', hclRaw('var.maintenance_window == null ? [] : [var.maintenance_window]')),
+      hclBlock('content', [], [
+        hclBlock('recurring_window', [], [
+          hclAttribute('start_time', hclRaw('maintenance_policy.value.start_time')),
+          hclAttribute('end_time', hclRaw('maintenance_policy.value.end_time')),
+          hclAttribute('recurrence', hclRaw('maintenance_policy.value.recurrence'))
+        ]),
+        hclBlock('dynamic', ['maintenance_exclusion'], [
+          hclAttribute('for_each', hclRaw('var.maintenance_exclusions')),
+          hclBlock('content', [], [
+            hclAttribute('exclusion_name', hclRaw('maintenance_exclusion.value.name')),
+            hclAttribute('start_time', hclRaw('maintenance_exclusion.value.start_time')),
+            hclAttribute('end_time', hclRaw('maintenance_exclusion.value.end_time')),
+            hclBlock('exclusion_options', [], [
+              hclAttribute('scope', hclRaw('maintenance_exclusion.value.scope'))
+            ])
+          ])
+        ])
+      ])
+    ])
+  ];
+
+  // Hardening shared by both cluster modes; Autopilot enforces the node-level settings itself
+  const clusterSecurity = [
+    hclComment("Only admit images that satisfy the project's Binary Authorization policy"),
+    hclBlock('dynamic', ['binary_authorization'], [
+      hclAttribute('for_each', hclRaw('var.enable_binary_authorization ? [1] : []')),
+      hclBlock('content', [], [
+        hclAttribute('evaluation_mode', 'PROJECT_SINGLETON_POLICY_ENFORCE')
+      ])
+    ]),
+    hclComment('Encrypt Kubernetes secrets in etcd with a customer-managed key'),
+    hclBlock('dynamic', ['database_encryption'], [
+      hclAttribute('for_each', hclRaw('var.database_encryption_key == "" ? [] : [1]')),
+      hclBlock('content', [], [
+        hclAttribute('state', 'ENCRYPTED'),
+        hclAttribute('key_name', hclRaw('var.database_encryption_key'))
+      ])
+    ]),
+    hclBlock('logging_config', [], [
+      hclAttribute('enable_components', hclRaw('var.logging_components'))
+    ]),
+    hclBlock('monitoring_config', [], [
+      hclAttribute('enable_components', hclRaw('var.monitoring_components'))
+    ])
+  ];
+
+  const clusterNetworking = [
+    hclAttribute('network', hclRaw('local.network')),
+    hclAttribute('subnetwork', hclRaw('local.subnetwork')),
+    hclBlank,
+    hclComment("VPC-native networking using the subnet's secondary ranges"),
+    hclBlock('dynamic', ['ip_allocation_policy'], [
+      hclAttribute('for_each', hclRaw('var.create_vpc ? [1] : []')),
+      hclBlock('content', [], [
+        hclAttribute('cluster_secondary_range_name', 'pods'),
+        hclAttribute('services_secondary_range_name', 'services')
+      ])
+    ]),
+    hclBlock('dynamic', ['private_cluster_config'], [
+      hclAttribute('for_each', hclRaw('var.create_vpc && var.enable_private_nodes ? [1] : []')),
+      hclBlock('content', [], [
+        hclAttribute('enable_private_nodes', true),
+        hclAttribute('enable_private_endpoint', hclRaw('var.enable_private_endpoint')),
+        hclAttribute('master_ipv4_cidr_block', hclRaw('var.master_ipv4_cidr'))
+      ])
+    ]),
+    hclBlock('dynamic', ['master_authorized_networks_config'], [
+      hclAttribute('for_each', hclRaw('length(var.master_authorized_networks) > 0 ? [1] : []')),
+      hclBlock('content', [], [
+        hclBlock('dynamic', ['cidr_blocks'], [
+          hclAttribute('for_each', hclRaw('var.master_authorized_networks')),
+          hclBlock('content', [], [
+            hclAttribute('display_name', hclRaw('cidr_blocks.value.display_name')),
+            hclAttribute('cidr_block', hclRaw('cidr_blocks.value.cidr_block'))
+          ])
+        ])
+      ])
+    ])
+  ];
+
+  const standardCluster = [
+    hclComment('Create the GKE cluster with minimal configuration for fast creation'),
+    hclBlock('resource', ['google_container_cluster', 'primary'], [
+      hclAttribute('name', hclRaw('var.cluster_name')),
+      hclAttribute('location', hclRaw('local.cluster_location')),
+      hclBlank,
+      hclComment('Production environments should keep deletion protection on'),
+      hclAttribute('deletion_protection', hclRaw('var.deletion_protection')),
+      hclBlank,
+      hclAttribute('resource_labels', hclRaw('merge({ env = var.environment }, var.labels)')),
+      hclBlank,
+      ...clusterMaintenance,
+      hclComment('Specify node locations (zones) for the cluster'),
+      hclAttribute('node_locations', hclRaw('local.cluster_node_locations')),
+      hclBlank,
+      hclComment(`We can't create a cluster with no node pool defined, but we want to only use
+separately managed node pools. So we create the smallest possible default
+node pool and immediately delete it.`),
+      hclAttribute('remove_default_node_pool', true),
+      hclAttribute('initial_node_count', 1),
+      hclBlank,
+      ...clusterNetworking,
+      hclAttribute('enable_shielded_nodes', hclRaw('var.enable_shielded_nodes')),
+      hclBlank,
+      hclComment('Dataplane V2 enforces network policy in eBPF; Calico needs the network policy add-on'),
+      hclAttribute('datapath_provider', hclRaw('var.network_policy == "dataplane-v2" ? "ADVANCED_DATAPATH" : null')),
+      hclBlock('dynamic', ['network_policy'], [
+        hclAttribute('for_each', hclRaw('var.network_policy == "calico" ? [1] : []')),
+        hclBlock('content', [], [
+          hclAttribute('enabled', true),
+          hclAttribute('provider', 'CALICO')
+        ])
+      ]),
+      hclBlock('addons_config', [], [
+        hclBlock('network_policy_config', [], [
+          hclAttribute('disabled', hclRaw('var.network_policy != "calico"'))
+        ])
+      ]),
+      ...clusterSecurity,
+      hclComment('Lets Kubernetes service accounts impersonate Google service accounts'),
+      hclBlock('dynamic', ['workload_identity_config'], [
+        hclAttribute('for_each', hclRaw('var.enable_workload_identity ? [1] : []')),
+        hclBlock('content', [], [
+          hclAttribute('workload_pool', hclRaw('"${var.project_id}.svc.id.goog"'))
+        ])
+      ]),
+      hclComment(`CRITICAL: Specify service account for the cluster's default node pool
+Even though we remove it, we need to specify the SA to avoid using default`),
+      hclBlock('node_config', [], [
+        hclAttribute('service_account', hclRaw('local.node_service_account_email')),
+        nodeOauthScopes
+      ]),
+      clusterDependencies,
+      hclBlock('lifecycle', [], [
+        hclComment('Variable validations cannot see enable_private_nodes, so the /28 rule is checked here'),
+        hclBlock('precondition', [], [
+          hclAttribute('condition', hclRaw('!(var.create_vpc && var.enable_private_nodes) || can(regex("/28$", var.master_ipv4_cidr))')),
+          hclAttribute('error_message', 'master_ipv4_cidr must be a /28 CIDR block when enable_private_nodes is true.')
+        ])
+      ])
+    ]),
+    hclComment(`Create one node pool per entry in var.node_pools, all sharing the node
+service account and zones`),
+    hclBlock('resource', ['google_container_node_pool', 'pools'], [
+      hclAttribute('for_each', hclRaw('local.node_pools')),
+      hclBlank,
+      hclAttribute('name', hclRaw('"${var.cluster_name}-${each.key}"')),
+      hclAttribute('location', hclRaw('local.cluster_location')),
+      hclAttribute('cluster', hclRaw('google_container_cluster.primary.name')),
+      hclBlank,
+      hclComment(`Fixed pools pin node_count; autoscaled pools only seed the initial size and
+let the cluster autoscaler own the count afterwards`),
+      hclAttribute('node_count', hclRaw('each.value.autoscaling.enabled ? null : each.value.node_count')),
+      hclAttribute('initial_node_count', hclRaw('each.value.autoscaling.enabled ? each.value.autoscaling.min_nodes : null')),
+      hclBlank,
+      hclComment('Specify node locations (zones) for the node pool'),
+      hclAttribute('node_locations', hclRaw('local.node_zones')),
+      hclBlock('dynamic', ['autoscaling'], [
+        hclAttribute('for_each', hclRaw('each.value.autoscaling.enabled ? [each.value.autoscaling] : []')),
+        hclBlock('content', [], [
+          hclAttribute('min_node_count', hclRaw('autoscaling.value.min_nodes')),
+          hclAttribute('max_node_count', hclRaw('autoscaling.value.max_nodes')),
+          hclAttribute('location_policy', hclRaw('autoscaling.value.location_policy'))
+        ])
+      ]),
+      hclBlock('management', [], [
+        hclAttribute('auto_repair', hclRaw('each.value.management.auto_repair')),
+        hclAttribute('auto_upgrade', hclRaw('each.value.management.auto_upgrade'))
+      ]),
+      hclComment(`Surge upgrades add max_surge new nodes before draining old ones; raising
+max_unavailable speeds upgrades up at the cost of capacity`),
+      hclBlock('upgrade_settings', [], [
+        hclAttribute('strategy', 'SURGE'),
+        hclAttribute('max_surge', hclRaw('each.value.upgrade_settings.max_surge')),
+        hclAttribute('max_unavailable', hclRaw('each.value.upgrade_settings.max_unavailable'))
+      ]),
+      hclBlock('node_config', [], [
+        hclAttribute('spot', hclRaw('each.value.spot')),
+        hclAttribute('machine_type', hclRaw('each.value.machine_type')),
+        hclAttribute('disk_size_gb', hclRaw('each.value.disk_size_gb')),
+        hclAttribute('disk_type', hclRaw('each.value.disk_type')),
+        hclBlank,
+        hclComment("Access is governed by the service account's IAM roles, not scopes"),
+        hclAttribute('service_account', hclRaw('local.node_service_account_email')),
+        nodeOauthScopes,
+        hclBlock('shielded_instance_config', [], [
+          hclAttribute('enable_secure_boot', hclRaw('var.enable_secure_boot')),
+          hclAttribute('enable_integrity_monitoring', hclRaw('var.enable_integrity_monitoring'))
+        ]),
+        hclComment(`Serve the GKE metadata server so pods get Workload Identity credentials
+and cannot read the node's own credentials`),
+        hclBlock('workload_metadata_config', [], [
+          hclAttribute('mode', hclRaw('var.enable_workload_identity ? "GKE_METADATA" : "GCE_METADATA"'))
+        ]),
+        hclAttribute('labels', hclRaw(`merge(
+  {
+    env  = var.environment
+    pool = each.key
+  },
+  var.labels,
+  each.value.labels
+)`)),
+        hclBlock('dynamic', ['taint'], [
+          hclAttribute('for_each', hclRaw('each.value.taints')),
+          hclBlock('content', [], [
+            hclAttribute('key', hclRaw('taint.value.key')),
+            hclAttribute('value', hclRaw('taint.value.value')),
+            hclAttribute('effect', hclRaw('taint.value.effect'))
+          ])
+        ]),
+        hclAttribute('tags', hclList([
+          'gke-node',
+          hclRaw('"${var.cluster_name}-node"'),
+          hclRaw('"${var.cluster_name}-${each.key}"')
+        ])),
+        hclBlank,
+        hclAttribute('metadata', hclObject({ 'disable-legacy-endpoints': 'true' }))
+      ])
+    ])
+  ];
+
+  const autopilotCluster = [
+    hclComment(`Autopilot cluster: Google provisions and scales the nodes from pod requests,
+so there are no node pools to manage`),
+    hclBlock('resource', ['google_container_cluster', 'primary'], [
+      hclAttribute('name', hclRaw('var.cluster_name')),
+      hclAttribute('location', hclRaw('var.region')),
+      hclBlank,
+      hclAttribute('enable_autopilot', true),
+      hclBlank,
+      hclComment('Production environments should keep deletion protection on'),
+      hclAttribute('deletion_protection', hclRaw('var.deletion_protection')),
+      hclBlank,
+      hclAttribute('resource_labels', hclRaw('merge({ env = var.environment }, var.labels)')),
+      hclBlank,
+      ...clusterMaintenance,
+      ...clusterNetworking,
+      ...clusterSecurity,
+      hclComment(`Nodes Autopilot creates run as the node service account. Workload Identity
+is always enabled on Autopilot.`),
+      hclBlock('cluster_autoscaling', [], [
+        hclBlock('auto_provisioning_defaults', [], [
+          hclAttribute('service_account', hclRaw('local.node_service_account_email')),
+          nodeOauthScopes
+        ])
+      ]),
+      clusterDependencies
+    ])
+  ];
+
+  const importTargets = getImportTargets(config);
+
+  // Everything the cluster needs; the multi-environment layout wraps it in a shared module
+  const clusterResources = [
+    ...(autopilot ? [] : [
+      hclBlock('locals', [], [
+        hclComment('Regional clusters are created in the region; zonal clusters in their first zone'),
+        hclAttribute('cluster_location', hclRaw('var.location_type == "regional" ? var.region : var.zones[0]')),
+        hclAttribute('node_zones', hclRaw('var.zones')),
+        hclBlank,
+        hclComment("A zonal cluster's own zone is implied and must not be repeated in node_locations"),
+        hclAttribute('cluster_node_locations', hclRaw('var.location_type == "regional" ? var.zones : slice(var.zones, 1, length(var.zones))')),
+        hclBlank,
+        hclComment(`node_pools with the workflow's overrides applied to the first pool, ${defaultPoolName}`),
+        hclAttribute('node_pools', hclRaw(`{
+  for name, pool in var.node_pools : name => name != "${defaultPoolName}" ? pool : merge(pool, {
+    machine_type = coalesce(var.default_pool_machine_type, pool.machine_type)
+    node_count   = coalesce(var.default_pool_node_count, pool.node_count)
+  })
+}`))
+      ])
+    ]),
+    hclComment('Dedicated VPC with secondary ranges so the cluster is VPC-native'),
+    hclBlock('resource', ['google_compute_network', 'vpc'], [
+      hclAttribute('count', hclRaw('var.create_vpc ? 1 : 0')),
+      hclBlank,
+      hclAttribute('name', hclRaw('var.network_name')),
+      hclAttribute('auto_create_subnetworks', false),
+      hclAttribute('routing_mode', 'REGIONAL')
+    ]),
+    hclBlock('resource', ['google_compute_subnetwork', 'nodes'], [
+      hclAttribute('count', hclRaw('var.create_vpc ? 1 : 0')),
+      hclBlank,
+      hclAttribute('name', hclRaw('"${var.network_name}-${var.region}"')),
+      hclAttribute('region', hclRaw('var.region')),
+      hclAttribute('network', hclRaw('google_compute_network.vpc[0].id')),
+      hclAttribute('ip_cidr_range', hclRaw('var.subnet_cidr')),
+      hclAttribute('private_ip_google_access', true),
+      hclBlock('secondary_ip_range', [], [
+        hclAttribute('range_name', 'pods'),
+        hclAttribute('ip_cidr_range', hclRaw('var.pods_cidr'))
+      ]),
+      hclBlock('secondary_ip_range', [], [
+        hclAttribute('range_name', 'services'),
+        hclAttribute('ip_cidr_range', hclRaw('var.services_cidr'))
+      ])
+    ]),
+    hclComment('Cloud NAT gives private nodes outbound internet access for image pulls and updates'),
+    hclBlock('resource', ['google_compute_router', 'nat'], [
+      hclAttribute('count', hclRaw('var.create_vpc && var.enable_cloud_nat ? 1 : 0')),
+      hclBlank,
+      hclAttribute('name', hclRaw('"${var.network_name}-router"')),
+      hclAttribute('region', hclRaw('var.region')),
+      hclAttribute('network', hclRaw('google_compute_network.vpc[0].id'))
+    ]),
+    hclBlock('resource', ['google_compute_router_nat', 'nat'], [
+      hclAttribute('count', hclRaw('var.create_vpc && var.enable_cloud_nat ? 1 : 0')),
+      hclBlank,
+      hclAttribute('name', hclRaw('"${var.network_name}-nat"')),
+      hclAttribute('router', hclRaw('google_compute_router.nat[0].name')),
+      hclAttribute('region', hclRaw('var.region')),
+      hclAttribute('nat_ip_allocate_option', 'AUTO_ONLY'),
+      hclAttribute('source_subnetwork_ip_ranges_to_nat', 'ALL_SUBNETWORKS_ALL_IP_RANGES'),
+      hclBlock('log_config', [], [
+        hclAttribute('enable', true),
+        hclAttribute('filter', 'ERRORS_ONLY')
+      ])
+    ]),
+    hclBlock('locals', [], [
+      hclAttribute('network', hclRaw('var.create_vpc ? google_compute_network.vpc[0].self_link : "default"')),
+      hclAttribute('subnetwork', hclRaw('var.create_vpc ? google_compute_subnetwork.nodes[0].self_link : "default"'))
+    ]),
+    hclComment('Dedicated least-privilege identity for the nodes instead of the deployer account'),
+    hclBlock('resource', ['google_service_account', 'nodes'], [
+      hclAttribute('count', hclRaw('var.create_node_service_account ? 1 : 0')),
+      hclBlank,
+      hclAttribute('account_id', hclRaw('var.node_service_account_id')),
+      hclAttribute('display_name', hclRaw('"GKE nodes for ${var.cluster_name}"'))
+    ]),
+    hclBlock('resource', ['google_project_iam_member', 'nodes'], [
+      hclAttribute('for_each', hclRaw('var.create_node_service_account ? toset(var.node_service_account_roles) : toset([])')),
+      hclBlank,
+      hclAttribute('project', hclRaw('var.project_id')),
+      hclAttribute('role', hclRaw('each.value')),
+      hclAttribute('member', hclRaw('"serviceAccount:${google_service_account.nodes[0].email}"'))
+    ]),
+    hclBlock('locals', [], [
+      hclAttribute('node_service_account_email', hclRaw('var.create_node_service_account ? google_service_account.nodes[0].email : var.service_account_email'))
+    ]),
+    hclBlock('data', ['google_project', 'current'], [
+      hclAttribute('project_id', hclRaw('var.project_id'))
+    ]),
+    hclComment('The GKE service agent encrypts and decrypts secrets with the database encryption key'),
+    hclBlock('resource', ['google_kms_crypto_key_iam_member', 'database_encryption'], [
+      hclAttribute('count', hclRaw('var.database_encryption_key == "" ? 0 : 1')),
+      hclBlank,
+      hclAttribute('crypto_key_id', hclRaw('var.database_encryption_key')),
+      hclAttribute('role', 'roles/cloudkms.cryptoKeyEncrypterDecrypter'),
+      hclAttribute('member', hclRaw('"serviceAccount:service-${data.google_project.current.number}@container-engine-robot.iam.gserviceaccount.com"'))
+    ]),
+    ...(autopilot ? autopilotCluster : standardCluster)
+  ];
+  const clusterResourcesTf = `${renderHcl(clusterResources)}${renderResourcesTf(config.resources)}`;
+
+  // import blocks need Terraform 1.5 and the Standard cluster's precondition 1.2
+  const clusterTerraformVersion = autopilot ? '>= 1.0' : '>= 1.2';
+  const mainTf = `${renderHcl([
+    googleTerraformBlock(importTargets.length > 0 ? '>= 1.5' : clusterTerraformVersion),
+    googleProviderBlock(true),
+    ...clusterResources
+  ])}${renderResourcesTf(config.resources)}`;
+
+  const variablesTf = renderHcl([
+    hclVariable({
+      name: 'project_id',
+      description: 'The GCP project ID',
+      type: 'string',
+      defaultValue: config.projectId,
+      validations: [{
+        condition: 'can(regex("^[a-z][a-z0-9-]{4,28}[a-z0-9]$", var.project_id))',
+        errorMessage: 'project_id must be 6-30 lowercase letters, digits or hyphens and start with a letter.'
+      }]
+    }),
+    hclVariable({
+      name: 'cluster_name',
+      description: 'The name of the GKE cluster',
+      type: 'string',
+      defaultValue: config.clusterName,
+      validations: [{
+        condition: 'can(regex("^[a-z]([-a-z0-9]{0,38}[a-z0-9])?$", var.cluster_name))',
+        errorMessage: 'cluster_name must be at most 40 lowercase letters, digits or hyphens and start with a letter.'
+      }]
+    }),
+    hclVariable({
+      name: 'region',
+      description: 'The GCP region for the cluster',
+      type: 'string',
+      defaultValue: config.region,
+      validations: [{
+        condition: 'can(regex("^[a-z]+-[a-z]+[0-9]+$", var.region))',
+        errorMessage: 'region must be a GCP region name such as us-central1.'
+      }]
+    }),
+    hclVariable({
+      name: 'environment',
+      description: 'Environment name, applied as the env label on the cluster and its nodes',
+      type: 'string',
+      defaultValue: config.environment,
+      validations: [{
+        condition: 'can(regex("^[a-z][a-z0-9-]*$", var.environment))',
+        errorMessage: 'environment must start with a letter and contain only lowercase letters, digits and hyphens.'
+      }]
+    }),
+    hclVariable({
+      name: 'labels',
+      description: 'Extra labels for the cluster and its nodes',
+      type: 'map(string)',
+      defaultValue: hclMap({})
+    }),
+    hclVariable({
+      name: 'deletion_protection',
+      description: 'Block terraform destroy and cluster deletion until this is turned off',
+      type: 'bool',
+      defaultValue: false
+    }),
+    ...(autopilot ? [] : [
+      hclVariable({
+        name: 'location_type',
+        description: 'regional runs the control plane in every zone of the region; zonal runs it in the first zone only',
+        type: 'string',
+        defaultValue: config.location.type,
+        validations: [{
+          condition: 'contains(["regional", "zonal"], var.location_type)',
+          errorMessage: 'location_type must be regional or zonal.'
+        }]
+      }),
+      hclVariable({
+        name: 'zones',
+        description: 'Zones for the nodes; the first zone hosts a zonal cluster',
+        type: 'list(string)',
+        defaultValue: config.location.zones,
+        validations: [{
+          condition: 'length(var.zones) > 0 && alltrue([for zone in var.zones : can(regex("^[a-z]+-[a-z]+[0-9]+-[a-z]$", zone))])',
+          errorMessage: 'zones must contain at least one zone name such as us-central1-a.'
+        }]
+      })
+    ]),
+    hclVariable({
+      name: 'create_vpc',
+      description: 'Create a dedicated VPC and subnet instead of using the default network',
+      type: 'bool',
+      defaultValue: config.network.createVpc
+    }),
+    hclVariable({
+      name: 'network_name',
+      description: 'Name of the dedicated VPC',
+      type: 'string',
+      defaultValue: config.network.networkName
+    }),
+    hclVariable({
+      name: 'subnet_cidr',
+      description: 'Primary range of the node subnet',
+      type: 'string',
+      defaultValue: config.network.subnetCidr,
+      validations: [{
+        condition: 'can(cidrhost(var.subnet_cidr, 0))',
+        errorMessage: 'subnet_cidr must be a valid IPv4 CIDR block.'
+      }]
+    }),
+    hclVariable({
+      name: 'pods_cidr',
+      description: 'Secondary range for pod IPs',
+      type: 'string',
+      defaultValue: config.network.podsCidr,
+      validations: [{
+        condition: 'can(cidrhost(var.pods_cidr, 0))',
+        errorMessage: 'pods_cidr must be a valid IPv4 CIDR block.'
+      }]
+    }),
+    hclVariable({
+      name: 'services_cidr',
+      description: 'Secondary range for service IPs',
+      type: 'string',
+      defaultValue: config.network.servicesCidr,
+      validations: [{
+        condition: 'can(cidrhost(var.services_cidr, 0))',
+        errorMessage: 'services_cidr must be a valid IPv4 CIDR block.'
+      }]
+    }),
+    hclVariable({
+      name: 'enable_cloud_nat',
+      description: 'Create a Cloud Router and NAT for outbound traffic from the VPC',
+      type: 'bool',
+      defaultValue: config.network.enableCloudNat
+    }),
+    hclVariable({
+      name: 'enable_private_nodes',
+      description: 'Give nodes internal IPs only',
+      type: 'bool',
+      defaultValue: config.network.privateNodes
+    }),
+    hclVariable({
+      name: 'enable_private_endpoint',
+      description: 'Expose the control plane on its internal IP only',
+      type: 'bool',
+      defaultValue: config.network.privateEndpoint
+    }),
+    hclVariable({
+      name: 'master_ipv4_cidr',
+      description: '/28 range for the control plane of a private cluster; unused otherwise',
+      type: 'string',
+      defaultValue: config.network.masterIpv4Cidr,
+      validations: [{
+        condition: 'var.master_ipv4_cidr == "" || can(cidrhost(var.master_ipv4_cidr, 0))',
+        errorMessage: 'master_ipv4_cidr must be empty or a valid IPv4 CIDR block.'
+      }]
+    }),
+    hclVariable({
+      name: 'master_authorized_networks',
+      description: 'CIDR blocks allowed to reach the control plane; empty allows all',
+      type: `list(object({
+  display_name = string
+  cidr_block   = string
+}))`,
+      defaultValue: authorizedNetworksValue(config.network.masterAuthorizedNetworks),
+      validations: [{
+        condition: 'alltrue([for network in var.master_authorized_networks : can(cidrhost(network.cidr_block, 0))])',
+        errorMessage: 'Every master authorized network needs a valid CIDR block.'
+      }]
+    }),
+    hclVariable({
+      name: 'release_channel',
+      description: 'GKE release channel; UNSPECIFIED opts out and leaves upgrades to the node pool settings',
+      type: 'string',
+      defaultValue: config.maintenance.releaseChannel,
+      validations: [{
+        condition: 'contains(["RAPID", "REGULAR", "STABLE", "UNSPECIFIED"], var.release_channel)',
+        errorMessage: 'release_channel must be RAPID, REGULAR, STABLE or UNSPECIFIED.'
+      }]
+    }),
+    hclVariable({
+      name: 'maintenance_window',
+      description: 'Recurring UTC window for automatic upgrades; null lets GKE upgrade at any time',
+      type: `object({
+  start_time = string
+  end_time   = string
+  recurrence = string
+})`,
+      defaultValue: maintenanceWindowValue(config.maintenance)
+    }),
+    hclVariable({
+      name: 'maintenance_exclusions',
+      description: 'Periods in which GKE must not upgrade the cluster, e.g. release freezes',
+      type: `list(object({
+  name       = string
+  start_time = string
+  end_time   = string
+  scope      = string
+}))`,
+      defaultValue: maintenanceExclusionsValue(config.maintenance.exclusions),
+      validations: [{
+        condition: 'alltrue([for exclusion in var.maintenance_exclusions : contains(["NO_UPGRADES", "NO_MINOR_UPGRADES", "NO_MINOR_OR_NODE_UPGRADES"], exclusion.scope)])',
+        errorMessage: 'Exclusion scope must be NO_UPGRADES, NO_MINOR_UPGRADES or NO_MINOR_OR_NODE_UPGRADES.'
+      }]
+    }),
+    ...(autopilot ? [] : [
+      hclVariable({
+        name: 'enable_shielded_nodes',
+        description: 'Verify node identity and boot integrity with Shielded GKE Nodes',
+        type: 'bool',
+        defaultValue: config.security.shieldedNodes
+      }),
+      hclVariable({
+        name: 'enable_secure_boot',
+        description: 'Only boot nodes with signed bootloaders and kernels',
+        type: 'bool',
+        defaultValue: config.security.secureBoot
+      }),
+      hclVariable({
+        name: 'enable_integrity_monitoring',
+        description: 'Compare node boot measurements against a known-good baseline',
+        type: 'bool',
+        defaultValue: config.security.integrityMonitoring
+      }),
+      hclVariable({
+        name: 'network_policy',
+        description: 'Network policy enforcement: disabled, calico or dataplane-v2',
+        type: 'string',
+        defaultValue: config.security.networkPolicy,
+        validations: [{
+          condition: 'contains(["disabled", "calico", "dataplane-v2"], var.network_policy)',
+          errorMessage: 'network_policy must be disabled, calico or dataplane-v2.'
+        }]
+      })
+    ]),
+    hclVariable({
+      name: 'enable_binary_authorization',
+      description: "Enforce the project's Binary Authorization policy on deployed images",
+      type: 'bool',
+      defaultValue: config.security.binaryAuthorization
+    }),
+    hclVariable({
+      name: 'database_encryption_key',
+      description: 'Cloud KMS key in the cluster region for secrets encryption; empty uses Google-managed keys',
+      type: 'string',
+      defaultValue: config.security.databaseEncryptionKey,
+      validations: [{
+        condition: 'var.database_encryption_key == "" || can(regex("^projects/[^/]+/locations/[^/]+/keyRings/[^/]+/cryptoKeys/[^/]+$", var.database_encryption_key))',
+        errorMessage: 'database_encryption_key must be empty or a Cloud KMS key name.'
+      }]
+    }),
+    hclVariable({
+      name: 'logging_components',
+      description: 'Components whose logs are sent to Cloud Logging; empty disables logging',
+      type: 'list(string)',
+      defaultValue: config.security.loggingComponents,
+      validations: [{
+        condition: `alltrue([for component in var.logging_components : contains(${renderHclValue(LOGGING_COMPONENTS)}, component)])`,
+        errorMessage: `logging_components may only contain ${LOGGING_COMPONENTS.join(', ')}.`
+      }]
+    }),
+    hclVariable({
+      name: 'monitoring_components',
+      description: 'Components whose metrics are sent to Cloud Monitoring',
+      type: 'list(string)',
+      defaultValue: config.security.monitoringComponents,
+      validations: [{
+        condition: `alltrue([for component in var.monitoring_components : contains(${renderHclValue(MONITORING_COMPONENTS)}, component)])`,
+        errorMessage: `monitoring_components may only contain ${MONITORING_COMPONENTS.join(', ')}.`
+      }]
+    }),
+    ...(autopilot ? [] : [
+      hclVariable({
+        name: 'node_pools',
+        description: 'Node pools to create, keyed by pool name. Sizes are per zone.',
+        type: `map(object({
+  machine_type = string
+  disk_type    = string
+  disk_size_gb = number
+  spot         = bool
+  node_count   = number
+  autoscaling = object({
+    enabled         = bool
+    min_nodes       = number
+    max_nodes       = number
+    location_policy = string
+  })
+  labels = map(string)
+  taints = list(object({
+    key    = string
+    value  = string
+    effect = string
+  }))
+  management = object({
+    auto_repair  = bool
+    auto_upgrade = bool
+  })
+  upgrade_settings = object({
+    max_surge       = number
+    max_unavailable = number
+  })
+}))`,
+        defaultValue: nodePoolsValue(config.nodePools),
+        validations: [
+          {
+            condition: 'alltrue([for name in keys(var.node_pools) : can(regex("^[a-z][a-z0-9-]{0,29}$", name))])',
+            errorMessage: 'Node pool names must start with a letter and contain only lowercase letters, digits and hyphens (max 30 characters).'
+          },
+          {
+            condition: 'alltrue([for pool in values(var.node_pools) : contains(["BALANCED", "ANY"], pool.autoscaling.location_policy)])',
+            errorMessage: 'autoscaling.location_policy must be BALANCED or ANY.'
+          },
+          {
+            condition: 'alltrue([for pool in values(var.node_pools) : !pool.autoscaling.enabled || pool.autoscaling.min_nodes <= pool.autoscaling.max_nodes])',
+            errorMessage: 'autoscaling.min_nodes must not exceed autoscaling.max_nodes.'
+          },
+          {
+            condition: 'alltrue([for pool in values(var.node_pools) : pool.upgrade_settings.max_surge + pool.upgrade_settings.max_unavailable >= 1])',
+            errorMessage: 'upgrade_settings needs max_surge or max_unavailable of at least 1.'
+          }
+        ]
+      }),
+      ...Object.entries(NODE_POOL_OVERRIDE_VARIABLES).map(([name, options]) => hclVariable({ name, ...options }))
+    ]),
+    hclVariable({
+      name: 'service_account_email',
+      description: 'Service account used by GitHub Actions; also runs the nodes when create_node_service_account is false',
+      type: 'string',
+      validations: [{
+        condition: 'can(regex("^[^@]+@[^@]+\\\\.gserviceaccount\\\\.com$", var.service_account_email))',
+        errorMessage: 'service_account_email must be a Google service account email.'
+      }]
+    }),
+    hclVariable({
+      name: 'create_node_service_account',
+      description: 'Create a dedicated least-privilege service account for the nodes',
+      type: 'bool',
+      defaultValue: config.serviceAccount.createNodeServiceAccount
+    }),
+    hclVariable({
+      name: 'node_service_account_id',
+      description: 'Account ID of the generated node service account',
+      type: 'string',
+      defaultValue: config.serviceAccount.nodeServiceAccountId,
+      validations: [{
+        condition: 'can(regex("^[a-z][a-z0-9-]{4,28}[a-z0-9]$", var.node_service_account_id))',
+        errorMessage: 'node_service_account_id must be 6-30 lowercase letters, digits or hyphens and start with a letter.'
+      }]
+    }),
+    hclVariable({
+      name: 'node_service_account_roles',
+      description: 'Project roles granted to the generated node service account',
+      type: 'list(string)',
+      defaultValue: hclList(NODE_SERVICE_ACCOUNT_ROLES, true)
+    }),
+    ...(autopilot ? [] : [
+      hclVariable({
+        name: 'enable_workload_identity',
+        description: 'Enable Workload Identity on the cluster and its node pools',
+        type: 'bool',
+        defaultValue: config.serviceAccount.workloadIdentity
+      })
+    ]),
+    ...getResourceVariables(config.resources)
+  ]);
+
+  const outputsTf = renderHcl([
+    hclOutput({ name: 'cluster_name', description: 'GKE cluster name', value: 'google_container_cluster.primary.name' }),
+    hclOutput({ name: 'cluster_endpoint', description: 'GKE cluster endpoint', value: 'google_container_cluster.primary.endpoint', sensitive: true }),
+    hclOutput({ name: 'cluster_location', description: 'GKE cluster location', value: 'google_container_cluster.primary.location' }),
+    hclOutput({
+      name: 'cluster_ca_certificate',
+      description: 'GKE cluster CA certificate',
+      value: 'google_container_cluster.primary.master_auth.0.cluster_ca_certificate',
+      sensitive: true
+    }),
+    hclOutput({
+      name: 'network_name',
+      description: 'VPC network used by the cluster',
+      value: 'var.create_vpc ? google_compute_network.vpc[0].name : "default"'
+    }),
+    hclOutput({
+      name: 'subnetwork_name',
+      description: 'Subnetwork used by the cluster',
+      value: 'var.create_vpc ? google_compute_subnetwork.nodes[0].name : "default"'
+    }),
+    hclOutput({ name: 'pods_range_name', description: 'Secondary range used for pods', value: 'var.create_vpc ? "pods" : null' }),
+    hclOutput({ name: 'services_range_name', description: 'Secondary range used for services', value: 'var.create_vpc ? "services" : null' }),
+    hclOutput({
+      name: 'cluster_private_endpoint',
+      description: 'Internal IP of the control plane for private clusters',
+      value: 'var.create_vpc && var.enable_private_nodes ? google_container_cluster.primary.private_cluster_config[0].private_endpoint : null'
+    }),
+    ...(autopilot ? [
+      hclOutput({
+        name: 'autopilot_enabled',
+        description: 'Whether Google manages the nodes',
+        value: 'google_container_cluster.primary.enable_autopilot'
+      })
+    ] : [
+      hclOutput({
+        name: 'node_pools',
+        description: 'GKE node pools keyed by pool name',
+        value: `{
+  for key, pool in google_container_node_pool.pools : key => {
+    name                = pool.name
+    machine_type        = pool.node_config[0].machine_type
+    spot                = pool.node_config[0].spot
+    node_count          = pool.node_count
+    instance_group_urls = pool.managed_instance_group_urls
+  }
+}`
+      }),
+      hclOutput({
+        name: 'node_pool_names',
+        description: 'GKE node pool names',
+        value: '[for pool in google_container_node_pool.pools : pool.name]'
+      })
+    ]),
+    hclOutput({
+      name: 'node_service_account_email',
+      description: 'Service account the nodes run as',
+      value: 'local.node_service_account_email'
+    }),
+    hclOutput({
+      name: 'workload_identity_pool',
+      description: 'Workload Identity pool for Kubernetes service account bindings',
+      value: autopilot ? '"${var.project_id}.svc.id.goog"' : 'var.enable_workload_identity ? "${var.project_id}.svc.id.goog" : null'
+    }),
+    ...(autopilot ? [] : [
+      hclOutput({ name: 'node_zones', description: 'Node zones for the cluster', value: 'local.node_zones' })
+    ]),
+    hclOutput({
+      name: 'deletion_protection',
+      description: 'Deletion protection status',
+      value: 'google_container_cluster.primary.deletion_protection'
+    }),
+    ...getResourceOutputs(config.resources).map(hclOutput)
+  ]);
+
+  // project_id, cluster_name and region come from the workflow inputs through
+  // TF_VAR_*, which a tfvars entry would override; the variable defaults hold them otherwise
+  const terraformTfvars = renderHcl([
+    hclAttribute('environment', config.environment),
+    ...(autopilot ? [] : [
+      hclAttribute('location_type', config.location.type),
+      hclAttribute('zones', config.location.zones)
+    ]),
+    hclAttribute('create_vpc', config.network.createVpc),
+    hclAttribute('network_name', config.network.networkName),
+    hclAttribute('subnet_cidr', config.network.subnetCidr),
+    hclAttribute('pods_cidr', config.network.podsCidr),
+    hclAttribute('services_cidr', config.network.servicesCidr),
+    hclAttribute('enable_cloud_nat', config.network.enableCloudNat),
+    hclAttribute('enable_private_nodes', config.network.privateNodes),
+    hclAttribute('enable_private_endpoint', config.network.privateEndpoint),
+    hclAttribute('master_ipv4_cidr', config.network.masterIpv4Cidr),
+    hclAttribute('master_authorized_networks', authorizedNetworksValue(config.network.masterAuthorizedNetworks)),
+    hclAttribute('release_channel', config.maintenance.releaseChannel),
+    hclAttribute('maintenance_window', maintenanceWindowValue(config.maintenance)),
+    hclAttribute('maintenance_exclusions', maintenanceExclusionsValue(config.maintenance.exclusions)),
+    ...(autopilot ? [] : [
+      hclAttribute('enable_shielded_nodes', config.security.shieldedNodes),
+      hclAttribute('enable_secure_boot', config.security.secureBoot),
+      hclAttribute('enable_integrity_monitoring', config.security.integrityMonitoring),
+      hclAttribute('network_policy', config.security.networkPolicy)
+    ]),
+    hclAttribute('enable_binary_authorization', config.security.binaryAuthorization),
+    hclAttribute('database_encryption_key', config.security.databaseEncryptionKey),
+    hclAttribute('logging_components', config.security.loggingComponents),
+    hclAttribute('monitoring_components', config.security.monitoringComponents),
+    ...(autopilot ? [] : [hclAttribute('node_pools', nodePoolsValue(config.nodePools))]),
+    hclAttribute('service_account_email', config.serviceAccount.email),
+    hclAttribute('create_node_service_account', config.serviceAccount.createNodeServiceAccount),
+    hclAttribute('node_service_account_id', config.serviceAccount.nodeServiceAccountId),
+    ...(autopilot ? [] : [hclAttribute('enable_workload_identity', config.serviceAccount.workloadIdentity)]),
+    ...getResourceTfvars(config.resources)
+  ]);
+
+  const workflowYml = `name: Terraform GKE Operations
+${renderRunName(multiEnvironment ? '${{ github.event.inputs.environment }}' : config.environment)}
 on:
   workflow_dispatch:
     inputs:
@@ -211,7 +2347,14 @@ on:
           - apply
           - destroy
           - show-state
-      project_id:
+${multiEnvironment ? `      environment:
+        description: 'Environment (GitHub Environment protection rules apply)'
+        required: true
+        default: '${environments[0].name}'
+        type: choice
+        options:
+${environments.map(environment => `          - ${environment.name}`).join('\n')}
+` : `      project_id:
         description: 'GCP Project ID'
         required: true
         default: '${config.projectId}'
@@ -219,55 +2362,80 @@ on:
         description: 'GKE Cluster Name'
         required: true
         default: '${config.clusterName}'
-      region:
+`}      region:
         description: 'GCP Region'
         required: true
         default: '${config.region}'
+${autopilot ? '' : `      machine_type:
+        description: 'Machine type for the ${defaultPoolName} node pool in this plan (empty keeps terraform.tfvars)'
+        required: false
+        default: ''
       node_count:
-        description: 'Number of nodes'
-        required: true
-        default: '2'
-      machine_type:
-        description: 'Machine type'
-        required: true
-        default: '${config.machineType}'
-      disk_size:
-        description: 'Disk size in GB'
-        required: true
-        default: '${config.diskSize}'
-
+        description: 'Nodes per zone for the ${defaultPoolName} node pool in this plan if it is not autoscaled (empty keeps terraform.tfvars)'
+        required: false
+        default: ''
+`}${renderPlanRunIdInput()}
 env:
-  TF_VAR_project_id: \${{ github.event.inputs.project_id }}
+${multiEnvironment ? '' : `  TF_VAR_project_id: \${{ github.event.inputs.project_id }}
   TF_VAR_cluster_name: \${{ github.event.inputs.cluster_name }}
-  TF_VAR_region: \${{ github.event.inputs.region }}
-  TF_VAR_node_count: \${{ github.event.inputs.node_count }}
-  TF_VAR_machine_type: \${{ github.event.inputs.machine_type }}
-  TF_VAR_disk_size: \${{ github.event.inputs.disk_size }}
-  TF_VAR_service_account_email: "githubactions-sa@turnkey-guild-441104-f3.iam.gserviceaccount.com"
+`}  TF_VAR_region: \${{ github.event.inputs.region }}
 
 jobs:
   terraform:
-    name: 'Terraform \${{ github.event.inputs.terraform_action }}'
+    name: 'Terraform \${{ github.event.inputs.terraform_action }}${multiEnvironment ? ' (${{ github.event.inputs.environment }})' : ''}'
     runs-on: ubuntu-latest
-    
-    defaults:
+    # Binds the run to the GitHub Environment so its protection rules and reviewers apply
+    environment: ${multiEnvironment ? '${{ github.event.inputs.environment }}' : config.environment}
+${renderJobPermissions(workflowAuth, ['actions: read'])}    defaults:
       run:
         shell: bash
-        working-directory: ./terraform
+        working-directory: ${workingDirectory}
 
     steps:
     - name: Checkout Repository
       uses: actions/checkout@v4
-
+${multiEnvironment ? `
+    - name: Resolve Environment
+      run: |
+        case "\${{ github.event.inputs.environment }}" in
+${environments.map(environment => {
+    const resolved = resolveEnvironment(config, environment);
+    return `          ${environment.name})
+            echo "PROJECT_ID=${resolved.projectId}" >> "$GITHUB_ENV"
+            echo "CLUSTER_NAME=${resolved.clusterName}" >> "$GITHUB_ENV"
+            echo "STATE_PREFIX=${getStatePrefix(resolved)}" >> "$GITHUB_ENV"
+            ;;`;
+  }).join('\n')}
+          *)
+            echo "❌ Unknown environment \${{ github.event.inputs.environment }}"
+            exit 1
+            ;;
+        esac
+        echo "🌱 Environment: \${{ github.event.inputs.environment }}"
+` : ''}${autopilot ? '' : `
+    - name: Apply Node Pool Overrides
+      if: github.event.inputs.machine_type != '' || github.event.inputs.node_count != ''
+      env:
+        MACHINE_TYPE: \${{ github.event.inputs.machine_type }}
+        NODE_COUNT: \${{ github.event.inputs.node_count }}
+      run: |
+        # Variables left unset keep the node_pools values from terraform.tfvars
+        if [ -n "$MACHINE_TYPE" ]; then
+          echo "TF_VAR_default_pool_machine_type=$MACHINE_TYPE" >> "$GITHUB_ENV"
+        fi
+        if [ -n "$NODE_COUNT" ]; then
+          echo "TF_VAR_default_pool_node_count=$NODE_COUNT" >> "$GITHUB_ENV"
+        fi
+        echo "⚙️ ${defaultPoolName} pool: machine type \${MACHINE_TYPE:-from tfvars}, node count \${NODE_COUNT:-from tfvars}"
+`}
     - name: Setup Terraform
       uses: hashicorp/setup-terraform@v3
       with:
         terraform_version: 1.5.0
+        # The wrapper echoes each command to stdout, which corrupts piped JSON
+        terraform_wrapper: false
 
-    - name: Authenticate to Google Cloud
-      uses: google-github-actions/auth@v2
-      with:
-        credentials_json: \${{ secrets.GCP_SA_KEY }}
+${renderGcpAuthStep(workflowAuth)}
 
     - name: Set up Cloud SDK
       uses: google-github-actions/setup-gcloud@v2
@@ -277,26 +2445,28 @@ jobs:
         echo "🔐 Verifying authentication..."
         gcloud auth list
         echo ""
-        echo "📋 Checking project access for: \${{ github.event.inputs.project_id }}"
-        gcloud projects describe \${{ github.event.inputs.project_id }} || {
-          echo "❌ ERROR: Cannot access project \${{ github.event.inputs.project_id }}"
-          echo "🔧 SOLUTION: Ensure the service account has the following roles on project \${{ github.event.inputs.project_id }}:"
+        echo "📋 Checking project access for: ${projectRef}"
+        gcloud projects describe ${projectRef} || {
+          echo "❌ ERROR: Cannot access project ${projectRef}"
+          echo "🔧 SOLUTION: Ensure the service account has the following roles on project ${projectRef}:"
           echo "   • Kubernetes Engine Admin (roles/container.admin)"
           echo "   • Compute Admin (roles/compute.admin)" 
           echo "   • Service Account User (roles/iam.serviceAccountUser)"
-          echo "   • Project IAM Admin (if creating service accounts)"
-          echo ""
+${config.serviceAccount.createNodeServiceAccount ? `          echo "   • Service Account Admin (roles/iam.serviceAccountAdmin)"
+          echo "   • Project IAM Admin (roles/resourcemanager.projectIamAdmin)"
+` : ''}${getResourceDeployerRoles(config.resources).map(role => `          echo "   • ${role}"
+`).join('')}          echo ""
           echo "📋 Run these commands in Google Cloud Console:"
-          echo "gcloud projects add-iam-policy-binding \${{ github.event.inputs.project_id }} \\\\"
-          echo "  --member='serviceAccount:githubactions-sa@turnkey-guild-441104-f3.iam.gserviceaccount.com' \\\\"
+          echo "gcloud projects add-iam-policy-binding ${projectRef} \\\\"
+          echo "  --member='serviceAccount:${deployerEmail}' \\\\"
           echo "  --role='roles/container.admin'"
           echo ""
-          echo "gcloud projects add-iam-policy-binding \${{ github.event.inputs.project_id }} \\\\"
-          echo "  --member='serviceAccount:githubactions-sa@turnkey-guild-441104-f3.iam.gserviceaccount.com' \\\\"
+          echo "gcloud projects add-iam-policy-binding ${projectRef} \\\\"
+          echo "  --member='serviceAccount:${deployerEmail}' \\\\"
           echo "  --role='roles/compute.admin'"
           echo ""
-          echo "gcloud projects add-iam-policy-binding \${{ github.event.inputs.project_id }} \\\\"
-          echo "  --member='serviceAccount:githubactions-sa@turnkey-guild-441104-f3.iam.gserviceaccount.com' \\\\"
+          echo "gcloud projects add-iam-policy-binding ${projectRef} \\\\"
+          echo "  --member='serviceAccount:${deployerEmail}' \\\\"
           echo "  --role='roles/iam.serviceAccountUser'"
           exit 1
         }
@@ -305,34 +2475,43 @@ jobs:
     - name: Check Required APIs
       run: |
         echo "🔌 Checking required APIs..."
-        gcloud services list --enabled --project=\${{ github.event.inputs.project_id }} --filter="name:container.googleapis.com OR name:compute.googleapis.com" --format="value(name)" > enabled_apis.txt
+        gcloud services list --enabled --project=${projectRef} --filter="${['container.googleapis.com', 'compute.googleapis.com', ...resourceApis].map(api => `name:${api}`).join(' OR ')}" --format="value(name)" > enabled_apis.txt
         
         if ! grep -q "container.googleapis.com" enabled_apis.txt; then
           echo "❌ Kubernetes Engine API is not enabled"
-          echo "🔧 Enable it with: gcloud services enable container.googleapis.com --project=\${{ github.event.inputs.project_id }}"
+          echo "🔧 Enable it with: gcloud services enable container.googleapis.com --project=${projectRef}"
           exit 1
         fi
         
         if ! grep -q "compute.googleapis.com" enabled_apis.txt; then
           echo "❌ Compute Engine API is not enabled"  
-          echo "🔧 Enable it with: gcloud services enable compute.googleapis.com --project=\${{ github.event.inputs.project_id }}"
+          echo "🔧 Enable it with: gcloud services enable compute.googleapis.com --project=${projectRef}"
           exit 1
         fi
         
-        echo "✅ Required APIs are enabled"
+${resourceApis.length > 0 ? `        for api in ${resourceApis.join(' ')}; do
+          if ! grep -q "$api" enabled_apis.txt; then
+            echo "❌ $api is required by the additional resources but is not enabled"
+            echo "🔧 Enable it with: gcloud services enable $api --project=${projectRef}"
+            exit 1
+          fi
+        done
+        
+` : ''}        echo "✅ Required APIs are enabled"
 
     - name: Verify Service Account Configuration
       run: |
         echo "🔧 Service Account Configuration:"
-        echo "📧 Using: githubactions-sa@turnkey-guild-441104-f3.iam.gserviceaccount.com"
-        echo "🎯 Target Project: \${{ github.event.inputs.project_id }}"
-        echo "⚠️  Cross-project service account usage - ensure proper IAM bindings"
+        echo "📧 Deployer: ${deployerEmail}"
+        echo "🖥️ Nodes: ${nodeEmail}${config.serviceAccount.createNodeServiceAccount ? ' (created by Terraform)' : ''}"
+        echo "🪪 Workload Identity: ${hasWorkloadIdentity(config) ? 'enabled' : 'disabled'}"
+        echo "🎯 Target Project: ${projectRef}"
         echo ""
         echo "🔍 Checking if service account has required permissions..."
-        gcloud projects get-iam-policy \${{ github.event.inputs.project_id }} \
+        gcloud projects get-iam-policy ${projectRef} \
           --flatten="bindings[].members" \
           --format="table(bindings.role)" \
-          --filter="bindings.members:githubactions-sa@turnkey-guild-441104-f3.iam.gserviceaccount.com" || {
+          --filter="bindings.members:${deployerEmail}" || {
           echo "⚠️ Could not verify service account permissions"
           echo "🔧 Ensure the service account has the required roles listed above"
         }
@@ -340,13 +2519,14 @@ jobs:
     - name: Check Regional Quotas and Resources
       run: |
         echo "📊 Checking regional quotas for \${{ github.event.inputs.region }}..."
-        gcloud compute regions describe \${{ github.event.inputs.region }} --project=\${{ github.event.inputs.project_id }} || {
+        gcloud compute regions describe \${{ github.event.inputs.region }} --project=${projectRef} || {
           echo "❌ Cannot access region \${{ github.event.inputs.region }}"
           exit 1
         }
-        echo "💾 Using pd-standard disks to avoid SSD quota issues"
-        echo "🌐 Target zones: \${{ github.event.inputs.region }}-a, \${{ github.event.inputs.region }}-c"
-        echo "🔧 Service Account: githubactions-sa@turnkey-guild-441104-f3.iam.gserviceaccount.com"
+        echo "💾 Node disk types: ${diskTypes}"
+        echo "🌐 Target zones: ${zoneList}"
+        echo "🔧 Node Service Account: ${nodeEmail}"
+        echo "🛜 Network: ${networkSummary}"
         echo "⚡ Simplified configuration for faster creation"
         echo "✅ Region and quota check completed"
 
@@ -357,133 +2537,86 @@ jobs:
         terraform fmt -check
       continue-on-error: true
 
-    - name: Terraform Init
-      id: init
-      run: |
-        echo "🚀 Initializing Terraform with remote state backend..."
-        terraform init
-        echo "✅ Terraform initialized successfully"
-        echo "📦 Backend: GCS bucket terraform-statefile-bucket-tf2"
-        echo "📁 State prefix: terraform/state/gke-cluster"
-
-    - name: Terraform Validate
-      id: validate
+${config.stateBackend.createBucket ? `    - name: Ensure State Bucket
+      working-directory: ./terraform/bootstrap
       run: |
-        echo "✅ Validating Terraform configuration..."
-        terraform validate -no-color
-        echo "✅ Configuration is valid"
-
-    # SHOW STATE OPERATION (for resource monitoring)
-    - name: Show Terraform State
-      id: show_state
-      if: github.event.inputs.terraform_action == 'show-state'
-      run: |
-        echo "📊 Retrieving current Terraform state..."
-        terraform show -json > terraform-state.json
-        echo "✅ State retrieved successfully"
-        echo ""
-        echo "📋 CURRENT INFRASTRUCTURE STATE:"
-        echo "================================"
-        
-        # Show resources summary
-        echo "🏗️ MANAGED RESOURCES:"
-        terraform state list || echo "No resources found in state"
-        echo ""
-        
-        # Show outputs if any
-        echo "📤 TERRAFORM OUTPUTS:"
-        terraform output -json || echo "No outputs defined"
-        echo ""
-        
-        # Show resource details
+        if gcloud storage buckets describe gs://${stateBucket} --project=${multiEnvironment ? config.projectId : projectRef} > /dev/null 2>&1; then
+          echo "✅ State bucket gs://${stateBucket} already exists"
+        else
+          echo "🪣 Creating versioned state bucket gs://${stateBucket}..."
+          terraform init -input=false
+          terraform apply -auto-approve -input=false
+          echo "✅ State bucket created"
+        fi
+
+` : ''}${renderTerraformSteps({
+  workingDirectory,
+  planScope: savedPlanScope,
+  lockFlag,
+  backendLines: [`📦 Backend: GCS bucket ${stateBucket}`, `📁 State prefix: ${statePrefix}`],
+  showStateCommands: `        # Show resource details
         echo "📊 RESOURCE DETAILS:"
         terraform show || echo "No resources to show"
         echo ""
         
         # List GCP resources directly
-        echo "☁️ GCP RESOURCES IN PROJECT \${{ github.event.inputs.project_id }}:"
+        echo "☁️ GCP RESOURCES IN PROJECT ${projectRef}:"
         echo "GKE Clusters:"
-        gcloud container clusters list --project=\${{ github.event.inputs.project_id }} --format="table(name,location,status,currentMasterVersion,currentNodeVersion,numNodes)" || echo "No GKE clusters found"
+        gcloud container clusters list --project=${projectRef} --format="table(name,location,status,currentMasterVersion,currentNodeVersion,numNodes)" || echo "No GKE clusters found"
         echo ""
         echo "Compute Instances:"
-        gcloud compute instances list --project=\${{ github.event.inputs.project_id }} --format="table(name,zone,machineType,status,internalIP,externalIP)" || echo "No compute instances found"
+        gcloud compute instances list --project=${projectRef} --format="table(name,zone,machineType,status,internalIP,externalIP)" || echo "No compute instances found"
         echo ""
         echo "Networks:"
-        gcloud compute networks list --project=\${{ github.event.inputs.project_id }} --format="table(name,subnet_mode,bgp_routing_mode,firewall_rules.len():label=FIREWALL_RULES_COUNT)" || echo "No networks found"
+        gcloud compute networks list --project=${projectRef} --format="table(name,subnet_mode,bgp_routing_mode,firewall_rules.len():label=FIREWALL_RULES_COUNT)" || echo "No networks found"
         echo ""
         echo "Subnets:"
-        gcloud compute networks subnets list --project=\${{ github.event.inputs.project_id }} --format="table(name,region,network,range)" || echo "No subnets found"
-
-    # PLAN OPERATION
-    - name: Terraform Plan
-      id: plan
-      if: github.event.inputs.terraform_action == 'plan' || github.event.inputs.terraform_action == 'apply'
-      run: |
-        echo "📋 Creating Terraform plan..."
-        terraform plan -no-color -input=false -out=tfplan
-        echo "✅ Plan created successfully"
-        echo ""
-        echo "📊 SIMPLIFIED PLAN SUMMARY:"
-        echo "🎯 Target: GKE cluster '\${{ github.event.inputs.cluster_name }}'"
-        echo "📍 Region: \${{ github.event.inputs.region }}"
-        echo "🌐 Zones: \${{ github.event.inputs.region }}-a, \${{ github.event.inputs.region }}-c"
-        echo "🖥️ Machine Type: \${{ github.event.inputs.machine_type }}"
-        echo "💾 Disk Type: pd-standard (avoids SSD quota issues)"
-        echo "🔐 Service Account: githubactions-sa@turnkey-guild-441104-f3.iam.gserviceaccount.com"
-        echo "🗑️ Deletion Protection: disabled"
-        echo "📊 Fixed Nodes: \${{ github.event.inputs.node_count }}"
-        echo "⚡ Optimized: Removed complex features for faster creation"
-      continue-on-error: false
-
-    # APPLY OPERATION
-    - name: Terraform Apply
-      id: apply
-      if: github.event.inputs.terraform_action == 'apply'
-      run: |
-        echo "🚀 Applying simplified Terraform configuration..."
-        terraform apply -auto-approve -input=false tfplan
-        echo "✅ Apply completed successfully"
-        echo ""
-        echo "🎉 SIMPLIFIED INFRASTRUCTURE CREATED:"
-        echo "✅ GKE cluster '\${{ github.event.inputs.cluster_name }}' is now running"
-        echo "📍 Location: \${{ github.event.inputs.region }}"
-        echo "🌐 Zones: \${{ github.event.inputs.region }}-a, \${{ github.event.inputs.region }}-c"
-        echo "🔐 Service Account: githubactions-sa@turnkey-guild-441104-f3.iam.gserviceaccount.com"
-        echo "📊 Nodes: \${{ github.event.inputs.node_count }} (fixed count)"
-        echo "💾 State stored in: terraform-statefile-bucket-tf2/terraform/state/gke-cluster"
-        echo "⚡ Fast creation with minimal configuration"
-
-    # DESTROY OPERATIONS
-    - name: Terraform Destroy Plan
-      id: destroy_plan
-      if: github.event.inputs.terraform_action == 'destroy'
-      run: |
-        echo "🗑️ Creating destruction plan..."
-        terraform plan -destroy -no-color -input=false -out=destroy-plan
-        echo "✅ Destroy plan created successfully"
-        echo ""
-        echo "⚠️ DESTRUCTION PLAN SUMMARY:"
-        echo "🗑️ Will destroy: GKE cluster '\${{ github.event.inputs.cluster_name }}'"
-        echo "📍 Region: \${{ github.event.inputs.region }}"
-        echo "🌐 Zones: \${{ github.event.inputs.region }}-a, \${{ github.event.inputs.region }}-c"
-        echo "💾 State will be updated in: terraform-statefile-bucket-tf2"
-        echo "⚠️ This action cannot be undone!"
-      continue-on-error: false
-
-    - name: Terraform Destroy
-      id: destroy
-      if: github.event.inputs.terraform_action == 'destroy'
-      run: |
-        echo "🗑️ Destroying infrastructure..."
-        terraform apply -auto-approve -input=false destroy-plan
-        echo "✅ Destroy completed successfully"
-        echo ""
-        echo "🗑️ INFRASTRUCTURE DESTROYED:"
-        echo "✅ GKE cluster '\${{ github.event.inputs.cluster_name }}' has been removed"
-        echo "✅ All node pools and associated resources cleaned up"
-        echo "✅ Zones \${{ github.event.inputs.region }}-a, \${{ github.event.inputs.region }}-c are now clean"
-        echo "💾 Remote state updated in: terraform-statefile-bucket-tf2"
-        echo "💰 All resources have been cleaned up to avoid charges"
+        gcloud compute networks subnets list --project=${projectRef} --format="table(name,region,network,range)" || echo "No subnets found"`,
+  planSummaryLines: [
+    `🎯 Target: GKE cluster '${clusterRef}'`,
+    '📍 Region: ${{ github.event.inputs.region }}',
+    `🌐 Zones: ${zoneList}`,
+    `💾 Node disk types: ${diskTypes}`,
+    `🔐 Node Service Account: ${nodeEmail}`,
+    `🗑️ Deletion Protection: ${multiEnvironment ? 'set per environment' : 'disabled'}`,
+    `📊 Node pools: ${nodePoolSummary}`,
+    `🛜 Network: ${networkSummary}`,
+    `🛠️ Maintenance: ${maintenanceSummary}`,
+    `🛡️ Security: ${securitySummary}`,
+    `🧩 Additional resources: ${resourceSummary}`,
+    '⚡ Optimized: Removed complex features for faster creation'
+  ],
+  applySummaryLines: [
+    '',
+    '🎉 SIMPLIFIED INFRASTRUCTURE CREATED:',
+    `✅ GKE cluster '${clusterRef}' is now running`,
+    `📍 Location: ${clusterLocation} (${autopilot ? 'autopilot' : config.location.type})`,
+    `🌐 Zones: ${zoneList}`,
+    `🔐 Node Service Account: ${nodeEmail}`,
+    `📊 Node pools: ${nodePoolSummary}`,
+    `💾 State stored in: gs://${stateBucket}/${statePrefix}`,
+    '⚡ Fast creation with minimal configuration'
+  ],
+  destroyPlanLines: [
+    '✅ Destroy plan created successfully',
+    '',
+    '⚠️ DESTRUCTION PLAN SUMMARY:',
+    `🗑️ Will destroy: GKE cluster '${clusterRef}'`,
+    '📍 Region: ${{ github.event.inputs.region }}',
+    `🌐 Zones: ${zoneList}`,
+    `💾 State will be updated in: gs://${stateBucket}/${statePrefix}`,
+    '⚠️ This action cannot be undone!'
+  ],
+  destroyLines: [
+    '',
+    '🗑️ INFRASTRUCTURE DESTROYED:',
+    `✅ GKE cluster '${clusterRef}' has been removed`,
+    '✅ All node pools and associated resources cleaned up',
+    `✅ ${autopilot ? 'Autopilot-managed nodes' : `Zones ${zoneList}`} are now clean`,
+    `💾 Remote state updated in: gs://${stateBucket}/${statePrefix}`,
+    '💰 All resources have been cleaned up to avoid charges'
+  ]
+})}
 
     # FINAL SUMMARY
     - name: Operation Summary
@@ -493,19 +2626,19 @@ jobs:
         echo "📊 TERRAFORM OPERATION SUMMARY"
         echo "================================"
         echo "🎯 Action: \${{ github.event.inputs.terraform_action }}"
-        echo "📍 Project: \${{ github.event.inputs.project_id }}"
-        echo "🏷️ Cluster: \${{ github.event.inputs.cluster_name }}"
+        echo "📍 Project: ${projectRef}"
+        echo "🏷️ Cluster: ${clusterRef}"
         echo "🌍 Region: \${{ github.event.inputs.region }}"
-        echo "🔧 Nodes: \${{ github.event.inputs.node_count }} (fixed count)"
-        echo "🔐 Service Account: githubactions-sa@turnkey-guild-441104-f3.iam.gserviceaccount.com"
-        echo "💾 Backend: GCS (terraform-statefile-bucket-tf2)"
+        echo "🔧 Node pools: ${nodePoolSummary}"
+        echo "🔐 Node Service Account: ${nodeEmail}"
+        echo "💾 Backend: GCS (gs://${stateBucket}/${statePrefix})"
         echo "⚡ Configuration: Simplified for fast creation"
         echo ""
         
         if [ "\${{ github.event.inputs.terraform_action }}" = "apply" ] && [ "\${{ steps.apply.outcome }}" = "success" ]; then
           echo "🎉 SUCCESS: Simplified infrastructure has been created!"
           echo "🔧 Next step: Configure kubectl to connect to your cluster"
-          echo "📋 Command: gcloud container clusters get-credentials \${{ github.event.inputs.cluster_name }} --region \${{ github.event.inputs.region }} --project \${{ github.event.inputs.project_id }}"
+          echo "📋 Command: gcloud container clusters get-credentials ${clusterRef} ${locationFlag} ${clusterLocation} --project ${projectRef}"
         elif [ "\${{ github.event.inputs.terraform_action }}" = "destroy" ] && [ "\${{ steps.destroy.outcome }}" = "success" ]; then
           echo "🗑️ SUCCESS: Infrastructure has been destroyed!"
           echo "💰 All resources cleaned up to avoid charges"
@@ -513,11 +2646,11 @@ jobs:
         elif [ "\${{ github.event.inputs.terraform_action }}" = "plan" ] && [ "\${{ steps.plan.outcome }}" = "success" ]; then
           echo "📋 SUCCESS: Plan has been generated!"
           echo "👀 Review the plan output above"
-          echo "🚀 If everything looks good, run 'apply' to create the infrastructure"
+          echo "🚀 If everything looks good, run 'apply' with ${PLAN_RUN_ID_INPUT}=\${{ github.run_id }} to apply exactly this plan"
         elif [ "\${{ github.event.inputs.terraform_action }}" = "show-state" ] && [ "\${{ steps.show_state.outcome }}" = "success" ]; then
           echo "📊 SUCCESS: Current infrastructure state has been retrieved!"
           echo "👀 Review the state and resource details above"
-          echo "🔄 State is synced with remote backend: terraform-statefile-bucket-tf2"
+          echo "🔄 State is synced with remote backend: gs://${stateBucket}/${statePrefix}"
         else
           echo "❌ Operation completed with issues - check the logs above"
         fi
@@ -525,12 +2658,123 @@ jobs:
         echo ""
         echo "🔗 Workflow URL: \${{ github.server_url }}/\${{ github.repository }}/actions/runs/\${{ github.run_id }}"`;
 
+  // Environments always share the module; a single root can either embed the
+  // cluster or call the module
+  const moduleFiles = [
+    { path: `${GKE_MODULE_PATH}/main.tf`, content: `${renderHcl([googleTerraformBlock(clusterTerraformVersion), ...clusterResources])}${renderResourcesTf(config.resources)}` },
+    { path: `${GKE_MODULE_PATH}/variables.tf`, content: variablesTf },
+    { path: `${GKE_MODULE_PATH}/outputs.tf`, content: outputsTf },
+    { path: `${GKE_MODULE_PATH}/README.md`, content: generateModuleReadme(config, variablesTf, outputsTf) }
+  ];
+
+  const rootFiles = multiEnvironment
+    ? [
+      ...moduleFiles,
+      ...config.multiEnvironment.environments.flatMap(environment => generateEnvironmentFiles(config, environment))
+    ]
+    : config.outputMode === 'module'
+      ? [...generateModuleCallerFiles(config, clusterResourcesTf), ...moduleFiles]
+      : [
+      { path: 'terraform/backend.tf', content: generateBackendTf(config) },
+      { path: 'terraform/main.tf', content: mainTf },
+      { path: 'terraform/variables.tf', content: variablesTf },
+      { path: 'terraform/outputs.tf', content: outputsTf },
+      { path: 'terraform/terraform.tfvars', content: terraformTfvars },
+      ...(importTargets.length > 0 ? [{ path: 'terraform/imports.tf', content: renderImportsTf(importTargets) }] : [])
+    ];
+
   return [
-    { path: 'terraform/backend.tf', content: backendTf },
-    { path: 'terraform/main.tf', content: mainTf },
-    { path: 'terraform/variables.tf', content: variablesTf },
-    { path: 'terraform/outputs.tf', content: outputsTf },
-    { path: 'terraform/terraform.tfvars', content: terraformTfvars },
+    ...rootFiles,
+    ...(config.stateBackend.createBucket ? generateBootstrapFiles(config) : []),
+    ...(config.auth.mode === 'workload-identity-federation' && config.auth.createWorkloadIdentityPool
+      ? generateWorkloadIdentityFiles(config)
+      : []),
     { path: '.github/workflows/deploy.yml', content: workflowYml },
+    ...(config.driftDetection.enabled ? [{
+      path: `.github/workflows/${DRIFT_WORKFLOW_FILE}`,
+      content: renderDriftWorkflow({
+        cluster: 'GKE',
+        schedule: config.driftDetection.schedule.trim(),
+        roots: getDriftRoots(config),
+        env: {},
+        permissions: workflowAuth.mode === 'workload-identity-federation'
+          ? { contents: 'read', 'id-token': 'write' }
+          : { contents: 'read' },
+        authSteps: renderGcpAuthStep(workflowAuth)
+      })
+    }] : [])
   ];
-};
\ No newline at end of file
+};
+
+export const getGkeCredentialsCommand = (config: TerraformConfig) =>
+  `gcloud container clusters get-credentials ${config.clusterName} ${isAutopilot(config) || config.location.type === 'regional' ? '--region' : '--zone'} ${getClusterLocation(config)} --project ${config.projectId}`;
+
+export interface TerraformProvider {
+  label: string;
+  cluster: string;
+  generateFiles: (config: TerraformConfig) => { path: string; content: string }[];
+  validate: (config: TerraformConfig) => string[];
+  getRegion: (config: TerraformConfig) => string;
+  getCredentialsCommand: (config: TerraformConfig) => string;
+  getSummary: (config: TerraformConfig) => { label: string; value: string }[];
+  getStateLocation: (config: TerraformConfig) => string;
+  getNodePools: (config: TerraformConfig) => NodePoolConfig[];
+  getAuthRequirements: (config: TerraformConfig) => GcpAuthRequirement[];
+}
+
+// GKE validation is spread across the form sections, so it contributes nothing here
+export const TERRAFORM_PROVIDERS: Record<CloudProvider, TerraformProvider> = {
+  gcp: {
+    label: 'Google Cloud (GKE)',
+    cluster: 'GKE',
+    generateFiles: generateGkeFiles,
+    validate: () => [],
+    getRegion: config => config.region,
+    getCredentialsCommand: getGkeCredentialsCommand,
+    getSummary: config => [
+      { label: 'Project', value: config.projectId },
+      { label: 'Location', value: describeLocation(config) },
+      { label: 'Nodes', value: describeNodes(config) },
+      { label: 'Network', value: describeNetwork(config.network) }
+    ],
+    getStateLocation: config => `gs://${getStateBucket(config)}/${getStatePrefix(config)}`,
+    getNodePools: config => (isAutopilot(config) ? [] : config.nodePools),
+    getAuthRequirements: config => getGcpAuthRequirements(getWorkflowAuth(config))
+  },
+  aws: {
+    label: 'Amazon Web Services (EKS)',
+    cluster: 'EKS',
+    generateFiles: generateEksFiles,
+    validate: config => [...validateAws(config), ...validateNodePools(config.aws.nodeGroups, 'aws')],
+    getRegion: config => config.aws.region,
+    getCredentialsCommand: config => getEksCredentialsCommand(config),
+    getSummary: getEksSummary,
+    getStateLocation: config => `s3://${getEksStateBucket(config)}/${getEksStateKey(config)}`,
+    getNodePools: config => config.aws.nodeGroups,
+    getAuthRequirements: config => config.aws.roleArn
+      ? []
+      : [{ kind: 'variable', name: AWS_ROLE_ARN_VARIABLE, description: 'IAM role assumed through GitHub OIDC' }]
+  },
+  azure: {
+    label: 'Microsoft Azure (AKS)',
+    cluster: 'AKS',
+    generateFiles: generateAksFiles,
+    validate: config => [...validateAzure(config), ...validateNodePools(config.azure.nodePools, 'azure')],
+    getRegion: config => config.azure.location,
+    getCredentialsCommand: config => getAksCredentialsCommand(config),
+    getSummary: getAksSummary,
+    getStateLocation: config => `azurerm://${getAksStateStorageAccount(config)}/${config.azure.stateContainer}/${getAksStateKey(config)}`,
+    getNodePools: config => config.azure.nodePools,
+    getAuthRequirements: config => [
+      { kind: 'variable', name: AZURE_CLIENT_ID_VARIABLE, description: 'Client ID of the app registration or managed identity with a GitHub federated credential' },
+      { kind: 'variable', name: AZURE_TENANT_ID_VARIABLE, description: 'Microsoft Entra tenant ID' },
+      ...(config.azure.subscriptionId
+        ? []
+        : [{ kind: 'variable' as const, name: AZURE_SUBSCRIPTION_ID_VARIABLE, description: 'Subscription the cluster is deployed to' }])
+    ]
+  }
+};
+
+export const getTerraformProvider = (config: TerraformConfig) => TERRAFORM_PROVIDERS[config.provider];
+
+export const generateTerraformFiles = (config: TerraformConfig) => getTerraformProvider(config).generateFiles(config);
@@ -0,0 +1,226 @@
+// Reads the JSON plan the deploy workflow uploads (terraform show -json, with
+// sensitive values masked) into per-resource, attribute-level changes.
+
+export type PlanAction = 'create' | 'update' | 'delete' | 'replace' | 'read' | 'no-op';
+
+export interface PlanAttributeChange {
+  path: string;
+  // Rendered HCL-style values; null when the attribute is absent on that side
+  before: string | null;
+  after: string | null;
+  forcesReplacement: boolean;
+}
+
+export interface PlanResourceChange {
+  address: string;
+  type: string;
+  action: PlanAction;
+  reason: string;
+  // Resources whose loss takes data or running workloads with them
+  stateful: boolean;
+  attributes: PlanAttributeChange[];
+}
+
+export interface PlanOutputChange {
+  name: string;
+  action: PlanAction;
+}
+
+export interface TerraformPlan {
+  terraformVersion: string;
+  resources: PlanResourceChange[];
+  outputs: PlanOutputChange[];
+  warnings: string[];
+}
+
+export const KNOWN_AFTER_APPLY = '(known after apply)';
+
+const STATEFUL_RESOURCE_TYPES = [
+  'google_container_cluster',
+  'google_container_node_pool',
+  'google_compute_network',
+  'google_compute_subnetwork',
+  'google_sql_database_instance',
+  'google_sql_database',
+  'google_redis_instance',
+  'google_storage_bucket',
+  'google_artifact_registry_repository',
+  'aws_eks_cluster',
+  'aws_eks_node_group',
+  'aws_vpc',
+  'aws_s3_bucket',
+  'azurerm_kubernetes_cluster',
+  'azurerm_kubernetes_cluster_node_pool',
+  'azurerm_virtual_network',
+  'azurerm_storage_account'
+];
+
+const ACTION_REASONS: Record<string, string> = {
+  replace_because_cannot_update: 'an attribute cannot be updated in place',
+  replace_because_tainted: 'the resource is tainted',
+  replace_by_request: 'replacement was requested',
+  replace_by_triggers: 'a replace_triggered_by reference changed',
+  delete_because_no_resource_config: 'it was removed from the configuration',
+  delete_because_no_module: 'its module was removed from the configuration',
+  delete_because_wrong_repetition: 'count or for_each changed shape',
+  delete_because_count_index: 'its count index no longer exists',
+  delete_because_each_key: 'its for_each key no longer exists'
+};
+
+type PathSegment = string | number;
+
+// Terraform lists a replacement as delete+create or create+delete depending on create_before_destroy
+const toAction = (actions: unknown): PlanAction => {
+  const list = Array.isArray(actions) ? actions : [];
+  if (list.length === 2 && list.includes('delete') && list.includes('create')) {
+    return 'replace';
+  }
+  const [action] = list;
+  return action === 'create' || action === 'update' || action === 'delete' || action === 'read' ? action : 'no-op';
+};
+
+const isContainer = (value: unknown): value is Record<string, unknown> | unknown[] =>
+  value !== null && typeof value === 'object';
+
+const formatPath = (path: PathSegment[]) =>
+  path.map((segment, i) => {
+    if (typeof segment === 'number') {
+      return `[${segment}]`;
+    }
+    if (/^[A-Za-z_][A-Za-z0-9_-]*$/.test(segment)) {
+      return i === 0 ? segment : `.${segment}`;
+    }
+    return `[${JSON.stringify(segment)}]`;
+  }).join('');
+
+const formatValue = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return value.length === 0 ? '[]' : `[${value.map(formatValue).join(', ')}]`;
+  }
+  if (isContainer(value)) {
+    return Object.keys(value).length === 0 ? '{}' : JSON.stringify(value);
+  }
+  return JSON.stringify(value);
+};
+
+// Leaf values keyed by their rendered path. Empty objects and lists are leaves
+// so adding or clearing a block still shows up.
+const flatten = (value: unknown, path: PathSegment[] = [], leaves = new Map<string, { path: PathSegment[]; value: unknown }>()) => {
+  const entries: [PathSegment, unknown][] = Array.isArray(value)
+    ? value.map((item, i) => [i, item])
+    : isContainer(value) ? Object.entries(value) : [];
+  if (entries.length === 0) {
+    if (path.length > 0) {
+      leaves.set(formatPath(path), { path, value });
+    }
+    return leaves;
+  }
+  entries.forEach(([key, item]) => flatten(item, [...path, key], leaves));
+  return leaves;
+};
+
+const startsWith = (path: PathSegment[], prefix: PathSegment[]) =>
+  prefix.length <= path.length && prefix.every((segment, i) => segment === path[i]);
+
+const diffAttributes = (change: Record<string, unknown>, action: PlanAction): PlanAttributeChange[] => {
+  if (action === 'delete' || action === 'read' || action === 'no-op') {
+    return [];
+  }
+  const before = flatten(change.before);
+  const after = flatten(change.after);
+  const unknown = flatten(change.after_unknown);
+  const replacePaths = (Array.isArray(change.replace_paths) ? change.replace_paths : [])
+    .filter((path): path is PathSegment[] => Array.isArray(path));
+
+  const keys = Array.from(new Set([...before.keys(), ...after.keys(), ...unknown.keys()])).sort();
+  return keys.flatMap(key => {
+    const beforeLeaf = before.get(key);
+    const afterLeaf = after.get(key);
+    const unknownLeaf = unknown.get(key);
+    const isUnknown = unknownLeaf?.value === true;
+    const beforeValue = beforeLeaf && beforeLeaf.value !== null ? formatValue(beforeLeaf.value) : null;
+    const afterValue = isUnknown
+      ? KNOWN_AFTER_APPLY
+      : afterLeaf && afterLeaf.value !== null ? formatValue(afterLeaf.value) : null;
+    if (beforeValue === afterValue) {
+      return [];
+    }
+    const path = (afterLeaf ?? beforeLeaf ?? unknownLeaf)?.path ?? [];
+    return [{
+      path: key,
+      before: beforeValue,
+      after: afterValue,
+      forcesReplacement: replacePaths.some(replacePath => startsWith(path, replacePath))
+    }];
+  });
+};
+
+const describeReplacement = (resource: PlanResourceChange) => {
+  const forcing = resource.attributes.filter(attribute => attribute.forcesReplacement).map(attribute => attribute.path);
+  if (forcing.length > 0) {
+    return ` (${forcing.slice(0, 3).join(', ')}${forcing.length > 3 ? ', …' : ''} forces replacement)`;
+  }
+  return resource.reason ? ` because ${resource.reason}` : '';
+};
+
+// Throws when the text is not a Terraform JSON plan
+export const parseTerraformPlan = (text: string): TerraformPlan => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The plan is not valid JSON');
+  }
+  if (!isContainer(parsed) || Array.isArray(parsed) || !('format_version' in parsed)) {
+    throw new Error('Expected the output of terraform show -json');
+  }
+
+  const resources = (Array.isArray(parsed.resource_changes) ? parsed.resource_changes : [])
+    .filter(isContainer)
+    .map((resourceChange): PlanResourceChange => {
+      const { address, type, change, action_reason: reason } = resourceChange as Record<string, unknown>;
+      const details = isContainer(change) && !Array.isArray(change) ? change : {};
+      const action = toAction(details.actions);
+      return {
+        address: String(address),
+        type: String(type),
+        action,
+        reason: typeof reason === 'string' ? ACTION_REASONS[reason] ?? reason : '',
+        stateful: STATEFUL_RESOURCE_TYPES.includes(String(type)),
+        attributes: diffAttributes(details, action)
+      };
+    })
+    .filter(resource => resource.action !== 'no-op');
+
+  const outputs = Object.entries(isContainer(parsed.output_changes) ? parsed.output_changes : {})
+    .map(([name, change]) => ({ name, action: toAction(isContainer(change) ? (change as Record<string, unknown>).actions : []) }))
+    .filter(output => output.action !== 'no-op');
+
+  const destructive = resources.filter(resource => resource.action === 'delete' || resource.action === 'replace');
+  const warnings = [
+    ...destructive
+      .filter(resource => resource.stateful)
+      .map(resource => resource.action === 'delete'
+        ? `${resource.address} will be destroyed${resource.reason ? ` because ${resource.reason}` : ''}`
+        : `${resource.address} will be replaced${describeReplacement(resource)}`),
+    ...(destructive.some(resource => !resource.stateful)
+      ? [`${destructive.filter(resource => !resource.stateful).length} other resource(s) will be destroyed or replaced`]
+      : [])
+  ];
+
+  return {
+    terraformVersion: typeof parsed.terraform_version === 'string' ? parsed.terraform_version : '',
+    resources,
+    outputs,
+    warnings
+  };
+};
+
+export const hasDestructiveChanges = (plan: TerraformPlan) =>
+  plan.resources.some(resource => resource.action === 'delete' || resource.action === 'replace');
+
+// Terraform's own summary line; a replacement counts as one add and one destroy
+export const describePlan = (plan: TerraformPlan) => {
+  const count = (...actions: PlanAction[]) => plan.resources.filter(resource => actions.includes(resource.action)).length;
+  return `${count('create', 'replace')} to add, ${count('update')} to change, ${count('delete', 'replace')} to destroy`;
+};
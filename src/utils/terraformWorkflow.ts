@@ -0,0 +1,465 @@
+// Shared deploy.yml for the EKS and AKS targets. The GKE workflow keeps its own
+// template for its project checks and environments, but runs the same Terraform
+// steps through renderTerraformSteps.
+export interface TerraformWorkflowOptions {
+  cluster: string; // EKS, AKS
+  clusterName: string;
+  // GitHub Environment the job runs under
+  environment: string;
+  region: string;
+  regionLabel: string;
+  // Terraform variable the region input is passed to
+  regionVariable: string;
+  env: Record<string, string>;
+  permissions: Record<string, string>;
+  authSteps: string;
+  // Runs before terraform init, e.g. creating the state bucket
+  preInitSteps: string;
+  showStateCommands: string;
+  summaryLines: string[];
+  credentialsCommand: string;
+  stateLocation: string;
+  lockFlag: string;
+}
+
+// Artifact the app downloads to render the plan before apply
+export const PLAN_ARTIFACT_NAME = 'terraform-plan';
+export const PLAN_JSON_FILE = 'tfplan.json';
+
+// terraform show -json includes sensitive values in clear text; keep only the
+// change set and mask everything the plan flags as sensitive before it is uploaded
+const PLAN_REDACT_FILTER = `def redact($s):
+  if $s == true then "(sensitive)"
+  elif ($s | type) == "object" and type == "object" then with_entries(.key as $k | .value |= redact($s[$k]))
+  elif ($s | type) == "array" and type == "array" then [range(length) as $i | .[$i] | redact($s[$i])]
+  else . end;
+def redact_change: .before_sensitive as $b | .after_sensitive as $a | .before |= redact($b) | .after |= redact($a);
+{
+  format_version,
+  terraform_version,
+  resource_changes: [.resource_changes[]? | .change |= redact_change],
+  output_changes: ((.output_changes // {}) | map_values(redact_change))
+}`;
+
+// apply only runs a plan saved by an earlier plan run, identified by that run's ID
+export const PLAN_RUN_ID_INPUT = 'plan_run_id';
+
+export const renderPlanRunIdInput = () => `      ${PLAN_RUN_ID_INPUT}:
+        description: 'Run ID of the reviewed plan (required for apply)'
+        required: false
+        default: ''
+`;
+
+// Run title carrying the action and environment, which the runs API does not report as
+// inputs. The app finds the plan to apply by matching titles of earlier runs.
+export const getWorkflowRunName = (action: string, environment: string) => `Terraform ${action} (${environment})`;
+
+export const renderRunName = (environment: string) =>
+  `run-name: '${getWorkflowRunName('${{ github.event.inputs.terraform_action }}', environment)}'\n`;
+
+// Saved plans are keyed by the run that created them. The scope keeps roots that share
+// the workflow apart, so a plan for one environment cannot be applied to another.
+const savedPlanArtifact = (runId: string, scope: string) => `tfplan-${scope}${runId}`;
+
+// Steps following the plan step; workingDirectory is relative to the repository root.
+// The saved plan holds sensitive values in clear text, hence the short retention.
+export const renderPlanArtifactSteps = (workingDirectory: string, scope = '') => `    - name: Export Plan JSON
+      if: steps.plan.outcome == 'success'
+      run: |
+        echo "🧾 Exporting plan as JSON..."
+        terraform show -json tfplan | jq '
+${PLAN_REDACT_FILTER.split('\n').map(line => `          ${line}`).join('\n')}
+        ' > ${PLAN_JSON_FILE}
+        echo "✅ Plan JSON written to ${PLAN_JSON_FILE}"
+
+    - name: Upload Plan
+      if: steps.plan.outcome == 'success'
+      uses: actions/upload-artifact@v4
+      with:
+        name: ${PLAN_ARTIFACT_NAME}
+        path: ${workingDirectory}/${PLAN_JSON_FILE}
+        retention-days: 7
+
+    - name: Upload Saved Plan
+      if: steps.plan.outcome == 'success'
+      uses: actions/upload-artifact@v4
+      with:
+        name: ${savedPlanArtifact('${{ github.run_id }}', scope)}
+        path: |
+          ${workingDirectory}/tfplan
+          ${workingDirectory}/.terraform.lock.hcl
+        include-hidden-files: true
+        retention-days: 7`;
+
+// Restores the reviewed plan and the provider lock file it was made with; runs before init
+export const renderSavedPlanDownloadSteps = (workingDirectory: string, scope = '') => `    - name: Require Reviewed Plan
+      if: github.event.inputs.terraform_action == 'apply' && github.event.inputs.${PLAN_RUN_ID_INPUT} == ''
+      run: |
+        echo "❌ apply runs a reviewed plan: set ${PLAN_RUN_ID_INPUT} to the ID of a successful plan run"
+        exit 1
+
+    - name: Download Reviewed Plan
+      if: github.event.inputs.terraform_action == 'apply'
+      uses: actions/download-artifact@v4
+      with:
+        name: ${savedPlanArtifact(`\${{ github.event.inputs.${PLAN_RUN_ID_INPUT} }}`, scope)}
+        path: ${workingDirectory}
+        run-id: \${{ github.event.inputs.${PLAN_RUN_ID_INPUT} }}
+        github-token: \${{ github.token }}`;
+
+const renderEchoLines = (lines: string[], indent: string) =>
+  lines.map(line => `${indent}echo "${line}"`).join('\n');
+
+export interface TerraformStepsOptions {
+  // Relative to the repository root
+  workingDirectory: string;
+  // Keeps the saved plans of roots that share the workflow apart
+  planScope: string;
+  lockFlag: string;
+  backendLines: string[];
+  // Run after the state and outputs are listed, e.g. the cloud's own view of the cluster
+  showStateCommands: string;
+  planSummaryLines: string[];
+  applySummaryLines: string[];
+  destroyPlanLines: string[];
+  destroyLines: string[];
+}
+
+// Every deploy workflow runs its Terraform operations through these steps, from
+// restoring a reviewed plan to destroy; the workflow adds its own checks around them
+export const renderTerraformSteps = (options: TerraformStepsOptions) => `${renderSavedPlanDownloadSteps(options.workingDirectory, options.planScope)}
+
+    - name: Terraform Init
+      id: init
+      run: |
+        echo "🚀 Initializing Terraform with remote state backend..."
+        terraform init
+        echo "✅ Terraform initialized successfully"
+${renderEchoLines(options.backendLines, '        ')}
+
+    - name: Terraform Validate
+      id: validate
+      run: |
+        echo "✅ Validating Terraform configuration..."
+        terraform validate -no-color
+        echo "✅ Configuration is valid"
+
+    # SHOW STATE OPERATION (for resource monitoring)
+    - name: Show Terraform State
+      id: show_state
+      if: github.event.inputs.terraform_action == 'show-state'
+      run: |
+        echo "📊 Retrieving current Terraform state..."
+        terraform show -json > terraform-state.json
+        echo "🏗️ MANAGED RESOURCES:"
+        terraform state list || echo "No resources found in state"
+        echo ""
+        echo "📤 TERRAFORM OUTPUTS:"
+        terraform output -json || echo "No outputs defined"
+        echo ""
+${options.showStateCommands}
+
+    # PLAN OPERATION
+    - name: Terraform Plan
+      id: plan
+      if: github.event.inputs.terraform_action == 'plan'
+      run: |
+        echo "📋 Creating Terraform plan..."
+        terraform plan -no-color -input=false ${options.lockFlag} -out=tfplan
+        echo "✅ Plan created successfully"
+        echo ""
+        echo "📊 PLAN SUMMARY:"
+${renderEchoLines(options.planSummaryLines, '        ')}
+      continue-on-error: false
+
+${renderPlanArtifactSteps(options.workingDirectory, options.planScope)}
+
+    # APPLY OPERATION
+    - name: Terraform Apply
+      id: apply
+      if: github.event.inputs.terraform_action == 'apply'
+      run: |
+        echo "🚀 Applying the plan reviewed in run \${{ github.event.inputs.${PLAN_RUN_ID_INPUT} }}..."
+        terraform apply -input=false ${options.lockFlag} tfplan
+        echo "✅ Apply completed successfully"
+${renderEchoLines(options.applySummaryLines, '        ')}
+
+    # DESTROY OPERATIONS
+    - name: Terraform Destroy Plan
+      id: destroy_plan
+      if: github.event.inputs.terraform_action == 'destroy'
+      run: |
+        echo "🗑️ Creating destruction plan..."
+        terraform plan -destroy -no-color -input=false ${options.lockFlag} -out=destroy-plan
+${renderEchoLines(options.destroyPlanLines, '        ')}
+      continue-on-error: false
+
+    - name: Terraform Destroy
+      id: destroy
+      if: github.event.inputs.terraform_action == 'destroy'
+      run: |
+        echo "🗑️ Destroying infrastructure..."
+        terraform apply -auto-approve -input=false ${options.lockFlag} destroy-plan
+        echo "✅ Destroy completed successfully"
+${renderEchoLines(options.destroyLines, '        ')}`;
+
+export const renderTerraformWorkflow = (options: TerraformWorkflowOptions) => `name: Terraform ${options.cluster} Operations
+${renderRunName(options.environment)}
+on:
+  workflow_dispatch:
+    inputs:
+      terraform_action:
+        description: 'Terraform Action'
+        required: true
+        default: 'plan'
+        type: choice
+        options:
+          - plan
+          - apply
+          - destroy
+          - show-state
+      cluster_name:
+        description: '${options.cluster} Cluster Name'
+        required: true
+        default: '${options.clusterName}'
+      region:
+        description: '${options.regionLabel}'
+        required: true
+        default: '${options.region}'
+${renderPlanRunIdInput()}
+env:
+  TF_VAR_cluster_name: \${{ github.event.inputs.cluster_name }}
+  TF_VAR_${options.regionVariable}: \${{ github.event.inputs.region }}${Object.entries(options.env).map(([name, value]) => `\n  ${name}: ${value}`).join('')}
+
+jobs:
+  terraform:
+    name: 'Terraform \${{ github.event.inputs.terraform_action }}'
+    runs-on: ubuntu-latest
+    # Binds the run to the GitHub Environment so its protection rules and reviewers apply
+    environment: ${options.environment}
+    permissions:
+${Object.entries(options.permissions).map(([name, value]) => `      ${name}: ${value}`).join('\n')}
+    defaults:
+      run:
+        shell: bash
+        working-directory: ./terraform
+
+    steps:
+    - name: Checkout Repository
+      uses: actions/checkout@v4
+
+    - name: Setup Terraform
+      uses: hashicorp/setup-terraform@v3
+      with:
+        terraform_version: 1.5.0
+        # The wrapper echoes each command to stdout, which corrupts piped JSON
+        terraform_wrapper: false
+
+${options.authSteps}
+
+    - name: Terraform Format Check
+      id: fmt
+      run: |
+        echo "🎨 Checking Terraform formatting..."
+        terraform fmt -check
+      continue-on-error: true
+
+${options.preInitSteps}${renderTerraformSteps({
+  workingDirectory: './terraform',
+  planScope: '',
+  lockFlag: options.lockFlag,
+  backendLines: [`📦 Backend: ${options.stateLocation}`],
+  showStateCommands: options.showStateCommands,
+  planSummaryLines: [
+    `🎯 Target: ${options.cluster} cluster '\${{ github.event.inputs.cluster_name }}'`,
+    '📍 Region: ${{ github.event.inputs.region }}',
+    ...options.summaryLines
+  ],
+  applySummaryLines: [
+    `🎉 ${options.cluster} cluster '\${{ github.event.inputs.cluster_name }}' is now running`,
+    `💾 State stored in: ${options.stateLocation}`
+  ],
+  destroyPlanLines: [
+    `⚠️ Will destroy: ${options.cluster} cluster '\${{ github.event.inputs.cluster_name }}' and its network`,
+    '⚠️ This action cannot be undone!'
+  ],
+  destroyLines: [`💾 Remote state updated in: ${options.stateLocation}`]
+})}
+
+    # FINAL SUMMARY
+    - name: Operation Summary
+      if: always()
+      run: |
+        echo ""
+        echo "📊 TERRAFORM OPERATION SUMMARY"
+        echo "================================"
+        echo "🎯 Action: \${{ github.event.inputs.terraform_action }}"
+        echo "🏷️ Cluster: \${{ github.event.inputs.cluster_name }}"
+        echo "🌍 Region: \${{ github.event.inputs.region }}"
+        echo "💾 Backend: ${options.stateLocation}"
+        echo ""
+
+        if [ "\${{ github.event.inputs.terraform_action }}" = "apply" ] && [ "\${{ steps.apply.outcome }}" = "success" ]; then
+          echo "🎉 SUCCESS: Infrastructure has been created!"
+          echo "📋 Connect with: ${options.credentialsCommand}"
+        elif [ "\${{ github.event.inputs.terraform_action }}" = "destroy" ] && [ "\${{ steps.destroy.outcome }}" = "success" ]; then
+          echo "🗑️ SUCCESS: Infrastructure has been destroyed!"
+        elif [ "\${{ github.event.inputs.terraform_action }}" = "plan" ] && [ "\${{ steps.plan.outcome }}" = "success" ]; then
+          echo "📋 SUCCESS: Plan has been generated!"
+          echo "🚀 If everything looks good, run 'apply' with ${PLAN_RUN_ID_INPUT}=\${{ github.run_id }} to apply exactly this plan"
+        elif [ "\${{ github.event.inputs.terraform_action }}" = "show-state" ] && [ "\${{ steps.show_state.outcome }}" = "success" ]; then
+          echo "📊 SUCCESS: Current infrastructure state has been retrieved!"
+        else
+          echo "❌ Operation completed with issues - check the logs above"
+        fi
+
+        echo ""
+        echo "🔗 Workflow URL: \${{ github.server_url }}/\${{ github.repository }}/actions/runs/\${{ github.run_id }}"`;
+
+// A Terraform root the drift check plans on its own; name keys the report artifact and issue
+export interface DriftRoot {
+  name: string;
+  cluster: string;
+  workingDirectory: string;
+}
+
+export interface DriftWorkflowOptions {
+  cluster: string; // GKE, EKS, AKS
+  schedule: string;
+  roots: DriftRoot[];
+  // Values the deploy workflow takes from its inputs; scheduled runs have none
+  env: Record<string, string>;
+  permissions: Record<string, string>;
+  authSteps: string;
+}
+
+export const DRIFT_WORKFLOW_FILE = 'drift-check.yml';
+export const DRIFT_REPORT_FILE = 'drift-report.json';
+export const DRIFT_ISSUE_LABEL = 'terraform-drift';
+
+export const getDriftReportArtifact = (root: string) => `drift-report-${root}`;
+
+// plan -detailed-exitcode exits 2 when the infrastructure differs from the configuration.
+// The plan runs without the state lock so a scheduled check never blocks a deploy.
+export const renderDriftWorkflow = (options: DriftWorkflowOptions) => `name: Terraform ${options.cluster} Drift Check
+
+on:
+  schedule:
+    - cron: '${options.schedule}'
+  workflow_dispatch:
+${Object.keys(options.env).length > 0 ? `
+env:
+${Object.entries(options.env).map(([name, value]) => `  ${name}: ${value}`).join('\n')}
+` : ''}
+jobs:
+  drift-check:
+    name: 'Drift check (\${{ matrix.root }})'
+    runs-on: ubuntu-latest
+    permissions:
+${Object.entries({ ...options.permissions, issues: 'write' }).map(([name, value]) => `      ${name}: ${value}`).join('\n')}
+    strategy:
+      fail-fast: false
+      matrix:
+        include:
+${options.roots.map(root => `          - root: ${root.name}
+            cluster: ${root.cluster}
+            directory: ${root.workingDirectory}`).join('\n')}
+    defaults:
+      run:
+        shell: bash
+        working-directory: \${{ matrix.directory }}
+
+    steps:
+    - name: Checkout Repository
+      uses: actions/checkout@v4
+
+    - name: Setup Terraform
+      uses: hashicorp/setup-terraform@v3
+      with:
+        terraform_version: 1.5.0
+        # The wrapper echoes each command to stdout, which corrupts piped JSON
+        terraform_wrapper: false
+
+${options.authSteps}
+
+    - name: Terraform Init
+      run: terraform init -input=false
+
+    - name: Detect Drift
+      id: drift
+      run: |
+        echo "🔍 Checking \${{ matrix.cluster }} for drift..."
+        set +e
+        terraform plan -detailed-exitcode -no-color -input=false -lock=false -out=tfplan
+        code=$?
+        set -e
+        case "$code" in
+          0) status=clean; echo "✅ No drift: the infrastructure matches the configuration" ;;
+          2) status=drift; echo "⚠️ Drift detected: the infrastructure differs from the configuration" ;;
+          *) status=error; echo "❌ terraform plan failed with exit code $code" ;;
+        esac
+        changes='[]'
+        drifted='[]'
+        if [ "$status" != "error" ]; then
+          terraform show -json tfplan > plan.json
+          changes=$(jq -c '[.resource_changes[]? | select(.change.actions != ["no-op"]) | {address, actions: .change.actions}]' plan.json)
+          drifted=$(jq -c '[.resource_drift[]? | .address]' plan.json)
+          rm plan.json
+        fi
+        jq -n \\
+          --arg root "\${{ matrix.root }}" \\
+          --arg cluster "\${{ matrix.cluster }}" \\
+          --arg status "$status" \\
+          --arg checked_at "$(date -u +%Y-%m-%dT%H:%M:%SZ)" \\
+          --arg run_id "\${{ github.run_id }}" \\
+          --arg run_url "\${{ github.server_url }}/\${{ github.repository }}/actions/runs/\${{ github.run_id }}" \\
+          --argjson changes "$changes" \\
+          --argjson drifted "$drifted" \\
+          '{root: $root, cluster: $cluster, status: $status, checked_at: $checked_at, run_id: ($run_id | tonumber), run_url: $run_url, changes: $changes, drifted: $drifted}' \\
+          > ${DRIFT_REPORT_FILE}
+        echo "status=$status" >> "$GITHUB_OUTPUT"
+
+    - name: Upload Drift Report
+      if: always() && steps.drift.outputs.status != ''
+      uses: actions/upload-artifact@v4
+      with:
+        name: ${getDriftReportArtifact('${{ matrix.root }}')}
+        path: \${{ matrix.directory }}/${DRIFT_REPORT_FILE}
+        retention-days: 30
+
+    # One open issue per root: later runs comment on it until it is closed
+    - name: Open or Update Drift Issue
+      if: steps.drift.outputs.status == 'drift'
+      env:
+        GH_TOKEN: \${{ github.token }}
+        GH_REPO: \${{ github.repository }}
+        ISSUE_TITLE: 'Terraform drift detected in \${{ matrix.root }}'
+      run: |
+        {
+          echo "The scheduled drift check found changes in \\\`\${{ matrix.directory }}\\\` (cluster \\\`\${{ matrix.cluster }}\\\`)."
+          echo ""
+          echo "**Changed outside Terraform:**"
+          jq -r 'if (.drifted | length) == 0 then "- nothing; the configuration has changes that were never applied" else .drifted[] | "- \`\\(.)\`" end' ${DRIFT_REPORT_FILE}
+          echo ""
+          echo "**Plan to reconcile:**"
+          jq -r '.changes[] | "- \`\\(.address)\`: \\(.actions | join(", "))"' ${DRIFT_REPORT_FILE}
+          echo ""
+          echo "Run: \${{ github.server_url }}/\${{ github.repository }}/actions/runs/\${{ github.run_id }}"
+          echo ""
+          echo "Apply a reviewed plan from the deploy workflow to restore the configuration, or update the configuration to keep the change."
+        } > drift-issue.md
+        gh label create ${DRIFT_ISSUE_LABEL} --color D93F0B --description "Infrastructure changed outside Terraform" --force
+        number=$(gh issue list --state open --label ${DRIFT_ISSUE_LABEL} --limit 100 --json number,title --jq '.[] | select(.title == env.ISSUE_TITLE) | .number' | head -n 1)
+        if [ -n "$number" ]; then
+          gh issue comment "$number" --body-file drift-issue.md
+          echo "📝 Commented on drift issue #$number"
+        else
+          gh issue create --title "$ISSUE_TITLE" --label ${DRIFT_ISSUE_LABEL} --body-file drift-issue.md
+          echo "📝 Opened a drift issue"
+        fi
+
+    - name: Fail on Plan Error
+      if: steps.drift.outputs.status == 'error'
+      run: |
+        echo "❌ The drift check could not plan \${{ matrix.root }} - check the logs above"
+        exit 1`;
@@ -0,0 +1,58 @@
+// Minimal reader for the zip archives GitHub serves workflow artifacts in. Only
+// stored and deflated entries are supported, which is all upload-artifact writes.
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const inflateRaw = async (data: Uint8Array) => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Names of the files in the archive mapped to their contents as UTF-8 text
+export const readZipTextFiles = async (archive: ArrayBuffer): Promise<Record<string, string>> => {
+  const view = new DataView(archive);
+  const bytes = new Uint8Array(archive);
+  const decoder = new TextDecoder();
+
+  // The end record sits at the very end unless the archive has a trailing comment
+  let end = archive.byteLength - 22;
+  while (end >= 0 && view.getUint32(end, true) !== END_OF_CENTRAL_DIRECTORY) {
+    end--;
+  }
+  if (end < 0) {
+    throw new Error('Not a zip archive');
+  }
+
+  const files: Record<string, string> = {};
+  let offset = view.getUint32(end + 16, true);
+  for (let i = view.getUint16(end + 10, true); i > 0; i--) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('Corrupt zip archive');
+    }
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const headerOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + view.getUint16(offset + 30, true) + view.getUint16(offset + 32, true);
+
+    if (name.endsWith('/')) {
+      continue;
+    }
+    if (view.getUint32(headerOffset, true) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt zip entry ${name}`);
+    }
+    const dataStart = headerOffset + 30 + view.getUint16(headerOffset + 26, true) + view.getUint16(headerOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) {
+      files[name] = decoder.decode(data);
+    } else if (method === 8) {
+      files[name] = decoder.decode(await inflateRaw(data));
+    } else {
+      throw new Error(`Unsupported compression method ${method} for ${name}`);
+    }
+  }
+  return files;
+};